@@ -1 +1,2 @@
 #import "RunnerObjCExceptionCatcher.h"
+#import "RunnerEventSynthesis.h"
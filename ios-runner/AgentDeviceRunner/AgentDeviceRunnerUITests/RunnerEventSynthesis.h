@@ -0,0 +1,77 @@
+#import <Foundation/Foundation.h>
+#import <UIKit/UIKit.h>
+#import <XCTest/XCTest.h>
+
+NS_ASSUME_NONNULL_BEGIN
+
+// XCTest's private multi-touch synthesis (XCPointerEventPath, XCSynthesizedEventRecord and the device event
+// synthesizer). The classes are looked up at runtime, so a missing API fails the gesture instead of the build.
+
+@protocol RunnerPointerEventPath <NSObject>
+- (instancetype)initForTouchAtPoint:(CGPoint)point offset:(double)offset;
+- (void)moveToPoint:(CGPoint)point atOffset:(double)offset;
+- (void)liftUpAtOffset:(double)offset;
+@end
+
+@protocol RunnerSynthesizedEventRecord <NSObject>
+- (instancetype)initWithName:(NSString *)name interfaceOrientation:(UIInterfaceOrientation)orientation;
+- (void)addPointerEventPath:(id)path;
+@end
+
+@protocol RunnerEventSynthesizer <NSObject>
+- (nullable id)synthesizeEvent:(id)event completion:(void (^)(BOOL result, NSError * _Nullable error))completion;
+@end
+
+@protocol RunnerEventSynthesizerProvider <NSObject>
+- (id<RunnerEventSynthesizer>)eventSynthesizer;
+@end
+
+/// Plays one touch path per finger together. `offsets` are seconds from the gesture start, parallel to `paths`.
+/// Returns an error message, or nil once the event finished.
+static inline NSString * _Nullable RunnerSynthesizeMultiTouch(
+  NSArray<NSArray<NSValue *> *> *paths,
+  NSArray<NSArray<NSNumber *> *> *offsets,
+  NSTimeInterval timeout
+) {
+  Class pathClass = NSClassFromString(@"XCPointerEventPath");
+  Class recordClass = NSClassFromString(@"XCSynthesizedEventRecord");
+  id device = XCUIDevice.sharedDevice;
+  if (pathClass == nil || recordClass == nil || ![device respondsToSelector:@selector(eventSynthesizer)]) {
+    return @"multi-touch event synthesis is not available in this XCTest version";
+  }
+  id<RunnerSynthesizedEventRecord> record = [(id<RunnerSynthesizedEventRecord>)[recordClass alloc]
+    initWithName:@"agent-device gesture"
+    interfaceOrientation:UIInterfaceOrientationPortrait];
+  for (NSUInteger index = 0; index < paths.count; index += 1) {
+    NSArray<NSValue *> *points = paths[index];
+    NSArray<NSNumber *> *times = offsets[index];
+    if (points.count == 0 || points.count != times.count) {
+      return @"gesture pointer paths need matching points and offsets";
+    }
+    id<RunnerPointerEventPath> path = [(id<RunnerPointerEventPath>)[pathClass alloc]
+      initForTouchAtPoint:points[0].CGPointValue
+      offset:times[0].doubleValue];
+    for (NSUInteger step = 1; step < points.count; step += 1) {
+      [path moveToPoint:points[step].CGPointValue atOffset:times[step].doubleValue];
+    }
+    [path liftUpAtOffset:times.lastObject.doubleValue];
+    [record addPointerEventPath:path];
+  }
+
+  __block BOOL finished = NO;
+  __block NSError *failure = nil;
+  id<RunnerEventSynthesizer> synthesizer = [(id<RunnerEventSynthesizerProvider>)device eventSynthesizer];
+  (void)[synthesizer synthesizeEvent:record completion:^(BOOL result, NSError * _Nullable error) {
+    failure = result ? nil : error;
+    finished = YES;
+  }];
+  // The completion can arrive on the main queue, so keep its run loop turning instead of blocking it.
+  NSDate *deadline = [NSDate dateWithTimeIntervalSinceNow:timeout];
+  while (!finished && deadline.timeIntervalSinceNow > 0) {
+    [NSRunLoop.currentRunLoop runMode:NSDefaultRunLoopMode beforeDate:[NSDate dateWithTimeIntervalSinceNow:0.05]];
+  }
+  if (!finished) return @"gesture did not finish in time";
+  return failure ? failure.localizedDescription : nil;
+}
+
+NS_ASSUME_NONNULL_END
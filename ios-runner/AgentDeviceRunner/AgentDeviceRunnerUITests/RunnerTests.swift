@@ -708,6 +708,12 @@ final class RunnerTests: XCTestCase {
       longPressAt(app: activeApp, x: x, y: y, duration: duration)
       return Response(ok: true, data: DataPayload(message: "long pressed"))
     case .drag:
+      if let path = command.path, !path.isEmpty {
+        if let message = performGesture(pointers: [path]) {
+          return Response(ok: false, error: ErrorPayload(message: message))
+        }
+        return Response(ok: true, data: DataPayload(message: "dragged"))
+      }
       guard let x = command.x, let y = command.y, let x2 = command.x2, let y2 = command.y2 else {
         return Response(ok: false, error: ErrorPayload(message: "drag requires x, y, x2, and y2"))
       }
@@ -717,15 +723,28 @@ final class RunnerTests: XCTestCase {
       }
       return Response(ok: true, data: DataPayload(message: "dragged"))
     case .dragSeries:
-      guard let x = command.x, let y = command.y, let x2 = command.x2, let y2 = command.y2 else {
-        return Response(ok: false, error: ErrorPayload(message: "dragSeries requires x, y, x2, and y2"))
-      }
       let count = max(Int(command.count ?? 1), 1)
       let pauseMs = max(command.pauseMs ?? 0, 0)
       let pattern = command.pattern ?? "one-way"
       if pattern != "one-way" && pattern != "ping-pong" {
         return Response(ok: false, error: ErrorPayload(message: "dragSeries pattern must be one-way or ping-pong"))
       }
+      if let path = command.path, !path.isEmpty {
+        let returnPath = command.returnPath ?? path
+        var failure: String?
+        runSeries(count: count, pauseMs: pauseMs) { idx in
+          guard failure == nil else { return }
+          let reverse = pattern == "ping-pong" && (idx % 2 == 1)
+          failure = performGesture(pointers: [reverse ? returnPath : path])
+        }
+        if let failure {
+          return Response(ok: false, error: ErrorPayload(message: failure))
+        }
+        return Response(ok: true, data: DataPayload(message: "drag series"))
+      }
+      guard let x = command.x, let y = command.y, let x2 = command.x2, let y2 = command.y2 else {
+        return Response(ok: false, error: ErrorPayload(message: "dragSeries requires x, y, x2, and y2"))
+      }
       let holdDuration = min(max((command.durationMs ?? 60) / 1000.0, 0.016), 10.0)
       withTemporaryScrollIdleTimeoutIfSupported(activeApp) {
         runSeries(count: count, pauseMs: pauseMs) { idx in
@@ -842,6 +861,14 @@ final class RunnerTests: XCTestCase {
       }
       pinch(app: activeApp, scale: scale, x: command.x, y: command.y)
       return Response(ok: true, data: DataPayload(message: "pinched"))
+    case .gesture:
+      guard let pointers = command.pointers, !pointers.isEmpty, pointers.allSatisfy({ !$0.isEmpty }) else {
+        return Response(ok: false, error: ErrorPayload(message: "gesture requires at least one pointer path"))
+      }
+      if let message = performGesture(pointers: pointers) {
+        return Response(ok: false, error: ErrorPayload(message: message))
+      }
+      return Response(ok: true, data: DataPayload(message: "gestured"))
     }
   }
 
@@ -975,7 +1002,7 @@ final class RunnerTests: XCTestCase {
 
   private func isInteractionCommand(_ command: CommandType) -> Bool {
     switch command {
-    case .tap, .longPress, .drag, .type, .swipe, .back, .appSwitcher, .pinch:
+    case .tap, .longPress, .drag, .type, .swipe, .back, .appSwitcher, .pinch, .gesture:
       return true
     default:
       return false
@@ -1226,6 +1253,14 @@ final class RunnerTests: XCTestCase {
 #endif
   }
 
+  /// Plays every finger's path in one synthesized multi-touch event; point times are milliseconds from the start.
+  private func performGesture(pointers: [[GesturePoint]]) -> String? {
+    let paths = pointers.map { pointer in pointer.map { NSValue(cgPoint: CGPoint(x: $0.x, y: $0.y)) } }
+    let offsets = pointers.map { pointer in pointer.map { NSNumber(value: $0.t / 1000.0) } }
+    let durationSeconds = (pointers.flatMap { $0 }.map(\.t).max() ?? 0) / 1000.0
+    return RunnerSynthesizeMultiTouch(paths, offsets, durationSeconds + 10)
+  }
+
   private func pinch(app: XCUIApplication, scale: Double, x: Double?, y: Double?) {
     let target = app.windows.firstMatch.exists ? app.windows.firstMatch : app
 
@@ -1353,7 +1388,7 @@ final class RunnerTests: XCTestCase {
         enabled: rootSnapshot.isEnabled,
         hittable: snapshotHittable(rootSnapshot),
         depth: 0,
-      )
+      ).withState(rootSnapshot)
     )
 
     var seen = Set<String>()
@@ -1413,7 +1448,7 @@ final class RunnerTests: XCTestCase {
           enabled: snapshot.isEnabled,
           hittable: snapshotHittable(snapshot),
           depth: min(maxDepth, visibleDepth),
-        )
+        ).withState(snapshot)
       )
 
     }
@@ -1463,7 +1498,7 @@ final class RunnerTests: XCTestCase {
             enabled: element.isEnabled,
             hittable: element.isHittable,
             depth: depth,
-          )
+          ).withState(element)
         )
       }
 
@@ -1846,6 +1881,7 @@ enum CommandType: String, Codable {
   case appSwitcher
   case alert
   case pinch
+  case gesture
   case recordStart
   case recordStop
   case shutdown
@@ -1876,6 +1912,9 @@ struct Command: Codable {
   let durationMs: Double?
   let direction: SwipeDirection?
   let scale: Double?
+  let pointers: [[GesturePoint]]?
+  let path: [GesturePoint]?
+  let returnPath: [GesturePoint]?
   let outPath: String?
   let fps: Int?
   let interactiveOnly: Bool?
@@ -1885,6 +1924,12 @@ struct Command: Codable {
   let raw: Bool?
 }
 
+struct GesturePoint: Codable {
+  let x: Double
+  let y: Double
+  let t: Double
+}
+
 struct Response: Codable {
   let ok: Bool
   let data: DataPayload?
@@ -1940,6 +1985,39 @@ struct SnapshotNode: Codable {
   let enabled: Bool
   let hittable: Bool
   let depth: Int
+  var selected: Bool? = nil
+  var checked: Bool? = nil
+  var focused: Bool? = nil
+  var scrollable: Bool? = nil
+  var secure: Bool? = nil
+
+  /// Copies selection, toggle, focus, scroll and secure-entry state from the element; false flags stay omitted.
+  func withState(_ element: XCUIElementAttributes) -> SnapshotNode {
+    var node = self
+    node.selected = element.isSelected ? true : nil
+    node.checked = toggleState(element)
+    node.focused = element.hasFocus ? true : nil
+    switch element.elementType {
+    case .scrollView, .table, .collectionView:
+      node.scrollable = true
+    case .secureTextField:
+      node.secure = true
+    default:
+      break
+    }
+    return node
+  }
+
+  private func toggleState(_ element: XCUIElementAttributes) -> Bool? {
+    switch element.elementType {
+    case .switch, .checkBox, .radioButton:
+      guard let value = element.value else { return nil }
+      let text = String(describing: value).trimmingCharacters(in: .whitespacesAndNewlines).lowercased()
+      return text == "1" || text == "on" || text == "true"
+    default:
+      return nil
+    }
+  }
 }
 
 struct SnapshotOptions {
@@ -6,7 +6,7 @@ export default defineConfig({
     {
       format: 'esm',
       syntax: 'esnext',
-      dts: false,
+      dts: true,
       shims: {
         esm: {
           __filename: true,
@@ -16,6 +16,7 @@ export default defineConfig({
         entry: {
           bin: 'src/bin.ts',
           daemon: 'src/daemon.ts',
+          client: 'src/client.ts',
         },
         tsconfigPath: 'tsconfig.lib.json',
       },
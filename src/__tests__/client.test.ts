@@ -0,0 +1,107 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { AppError, createAgentDevice } from '../client.ts';
+import type { DaemonRequest, DaemonResponse } from '../daemon-client.ts';
+
+function createClient(respond: (req: Omit<DaemonRequest, 'token'>) => DaemonResponse) {
+  const calls: Array<Omit<DaemonRequest, 'token'>> = [];
+  const client = createAgentDevice({
+    session: 'checkout',
+    platform: 'android',
+    tenant: 'acme',
+    cwd: '/work',
+    transport: async (req) => {
+      calls.push(req);
+      return respond(req);
+    },
+  });
+  return { client, calls };
+}
+
+test('methods map to daemon commands with positionals and flags', async () => {
+  const { client, calls } = createClient(() => ({ ok: true, data: { x: 10, y: 20 } }));
+  assert.deepEqual(await client.press({ x: 10, y: 20 }, { count: 2 }), { x: 10, y: 20 });
+  await client.fill('@e3', 'hello');
+  await client.snapshot({ interactiveOnly: true, depth: 3 });
+  await client.wait({ text: 'Welcome' }, { timeoutMs: 5000 });
+  await client.wait({ predicate: 'visible', target: 'label="Pay"' });
+  await client.wait(250);
+
+  assert.deepEqual(
+    calls.map((call) => [call.command, call.positionals]),
+    [
+      ['press', ['10', '20']],
+      ['fill', ['@e3', 'hello']],
+      ['snapshot', []],
+      ['wait', ['text', 'Welcome', '5000']],
+      ['wait', ['visible', 'label="Pay"']],
+      ['wait', ['250']],
+    ],
+  );
+  assert.equal(calls[0].session, 'checkout');
+  assert.deepEqual(calls[0].flags, { platform: 'android', tenant: 'acme', count: 2 });
+  assert.equal(calls[0].meta?.cwd, '/work');
+  assert.equal(calls[0].meta?.tenantId, 'acme');
+  assert.equal(calls[2].flags?.snapshotInteractiveOnly, true);
+  assert.equal(calls[2].flags?.snapshotDepth, 3);
+  assert.equal('snapshotCompact' in (calls[2].flags ?? {}), false);
+});
+
+test('list and get helpers unwrap response data', async () => {
+  const { client, calls } = createClient((req) => {
+    if (req.command === 'get') return { ok: true, data: { text: 'Total: 4' } };
+    if (req.command === 'session_list') return { ok: true, data: {} };
+    return { ok: true, data: { devices: [{ platform: 'android', id: 'emulator-5554', name: 'Pixel', kind: 'emulator' }] } };
+  });
+  assert.equal(await client.getText('@e2'), 'Total: 4');
+  assert.deepEqual(calls[0].positionals, ['text', '@e2']);
+  assert.equal((await client.devices())[0].id, 'emulator-5554');
+  assert.deepEqual(await client.sessions(), []);
+});
+
+test('failures throw AppError with a typed code and response details', async () => {
+  const { client } = createClient((req) => ({
+    ok: false,
+    error: req.command === 'press'
+      ? { code: 'SESSION_NOT_FOUND', message: 'No active session', hint: 'Run open first.', diagnosticId: 'd-1' }
+      : { code: 'SOMETHING_NEW', message: 'Unexpected failure', details: { step: 2 } },
+  }));
+  await assert.rejects(client.press('@e1'), (error: unknown) => {
+    assert.ok(error instanceof AppError);
+    assert.equal(error.code, 'SESSION_NOT_FOUND');
+    assert.equal(error.details?.hint, 'Run open first.');
+    assert.equal(error.details?.diagnosticId, 'd-1');
+    return true;
+  });
+  await assert.rejects(client.replay('flows/login.ad', { report: 'junit' }), (error: unknown) => {
+    assert.ok(error instanceof AppError);
+    assert.equal(error.code, 'UNKNOWN');
+    assert.equal(error.details?.step, 2);
+    return true;
+  });
+});
+
+test('replay forwards env values for scripts resolved against the client cwd', async () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-device-client-replay-'));
+  fs.mkdirSync(path.join(root, 'flows'));
+  fs.writeFileSync(path.join(root, 'flows', 'login.ad'), 'fill "id=email" "${env.AGENT_DEVICE_TEST_QA_EMAIL}"\n');
+  const calls: Array<Omit<DaemonRequest, 'token'>> = [];
+  const client = createAgentDevice({
+    cwd: root,
+    transport: async (req) => {
+      calls.push(req);
+      return { ok: true, data: {} };
+    },
+  });
+  process.env.AGENT_DEVICE_TEST_QA_EMAIL = 'qa@example.com';
+  try {
+    await client.replay('flows/login.ad');
+  } finally {
+    delete process.env.AGENT_DEVICE_TEST_QA_EMAIL;
+  }
+  assert.equal(calls[0].meta?.cwd, root);
+  assert.deepEqual(calls[0].meta?.env, { AGENT_DEVICE_TEST_QA_EMAIL: 'qa@example.com' });
+});
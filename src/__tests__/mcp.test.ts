@@ -0,0 +1,153 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { buildToolDaemonRequest, createMcpServer, listMcpTools } from '../mcp.ts';
+import type { DaemonRequest, DaemonResponse } from '../daemon-client.ts';
+import { AppError } from '../utils/errors.ts';
+
+const PNG_BYTES = Buffer.from('89504e470d0a1a0a', 'hex');
+
+function createServer(respond: (req: Omit<DaemonRequest, 'token'>) => DaemonResponse) {
+  const calls: Array<Omit<DaemonRequest, 'token'>> = [];
+  const cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-device-mcp-'));
+  const server = createMcpServer({
+    cwd,
+    version: '1.2.3',
+    defaults: { platform: 'ios', session: 'agent' },
+    sendToDaemon: async (req) => {
+      calls.push(req);
+      return respond(req);
+    },
+  });
+  return { server, calls, cwd };
+}
+
+test('tools/list exposes command schemas with generated input schemas', async () => {
+  const { server } = createServer(() => ({ ok: true }));
+  const init = await server.handleMessage({
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: { protocolVersion: '2025-03-26' },
+  });
+  assert.deepEqual((init?.result as any).protocolVersion, '2025-03-26');
+  assert.deepEqual((init?.result as any).serverInfo, { name: 'agent-device', version: '1.2.3' });
+  assert.equal(await server.handleMessage({ jsonrpc: '2.0', method: 'notifications/initialized' }), null);
+
+  const listed = await server.handleMessage({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+  const tools = (listed?.result as { tools: ReturnType<typeof listMcpTools> }).tools;
+  const names = tools.map((tool) => tool.name);
+  assert.ok(names.includes('snapshot'));
+  assert.ok(!names.includes('mcp'));
+
+  const fill = tools.find((tool) => tool.name === 'fill')!.inputSchema as any;
+  assert.deepEqual(fill.required, ['args']);
+  assert.equal(fill.properties.args.minItems, 2);
+  assert.equal(fill.additionalProperties, false);
+  assert.equal(fill.properties.stateDir, undefined);
+  assert.equal(fill.properties.platform.type, 'string');
+  assert.ok(fill.properties.target.enum.includes('tv'));
+
+  const snapshot = tools.find((tool) => tool.name === 'snapshot')!.inputSchema as any;
+  assert.equal(snapshot.properties.args, undefined);
+  assert.equal(snapshot.properties.snapshotInteractiveOnly.type, 'boolean');
+  assert.equal(snapshot.properties.snapshotDepth.type, 'integer');
+
+  const apps = tools.find((tool) => tool.name === 'apps')!.inputSchema as any;
+  assert.deepEqual(apps.properties.appsFilter.enum, ['user-installed', 'all']);
+});
+
+test('tools/call routes through sendToDaemon and renders snapshot text', async () => {
+  const { server, calls } = createServer(() => ({
+    ok: true,
+    data: {
+      nodes: [{ ref: 'e1', index: 0, depth: 0, type: 'Button', label: 'Continue' }],
+      truncated: false,
+    },
+  }));
+  const response = await server.handleMessage({
+    jsonrpc: '2.0',
+    id: 3,
+    method: 'tools/call',
+    params: { name: 'snapshot', arguments: { snapshotInteractiveOnly: true, session: 'checkout' } },
+  });
+  const result = response?.result as any;
+  assert.equal(result.isError, undefined);
+  assert.match(result.content[0].text, /@e1 \[button\] "Continue"/);
+  assert.equal(calls.length, 1);
+  assert.equal(calls[0].command, 'snapshot');
+  assert.equal(calls[0].session, 'checkout');
+  assert.equal(calls[0].flags?.platform, 'ios');
+  assert.equal(calls[0].flags?.snapshotInteractiveOnly, true);
+});
+
+test('tools/call returns screenshots as image content', async () => {
+  const { server, cwd } = createServer((req) => {
+    fs.writeFileSync(path.join(cwd, req.positionals[0]), PNG_BYTES);
+    return { ok: true, data: { path: req.positionals[0] } };
+  });
+  const response = await server.handleMessage({
+    jsonrpc: '2.0',
+    id: 4,
+    method: 'tools/call',
+    params: { name: 'screenshot', arguments: { args: ['home.png'] } },
+  });
+  const content = (response?.result as any).content;
+  assert.equal(content.length, 2);
+  assert.deepEqual(content[1], { type: 'image', data: PNG_BYTES.toString('base64'), mimeType: 'image/png' });
+});
+
+test('tools/call reports daemon and argument errors as tool errors', async () => {
+  const { server, calls } = createServer(() => ({
+    ok: false,
+    error: { code: 'SESSION_NOT_FOUND', message: 'No active session', hint: 'Run open first.' },
+  }));
+  const failed = await server.handleMessage({
+    jsonrpc: '2.0',
+    id: 5,
+    method: 'tools/call',
+    params: { name: 'press', arguments: { args: [10, 20] } },
+  });
+  assert.equal((failed?.result as any).isError, true);
+  assert.match((failed?.result as any).content[0].text, /Error \(SESSION_NOT_FOUND\): No active session\nHint: Run open/);
+  assert.deepEqual(calls[0].positionals, ['10', '20']);
+
+  const invalid = await server.handleMessage({
+    jsonrpc: '2.0',
+    id: 6,
+    method: 'tools/call',
+    params: { name: 'snapshot', arguments: { snapshotDepth: 'deep' } },
+  });
+  assert.equal((invalid?.result as any).isError, true);
+  assert.match((invalid?.result as any).content[0].text, /snapshotDepth must be an integer/);
+  assert.equal(calls.length, 1);
+
+  const unknown = await server.handleMessage({
+    jsonrpc: '2.0',
+    id: 7,
+    method: 'tools/call',
+    params: { name: 'mcp', arguments: {} },
+  });
+  assert.equal(unknown?.error?.code, -32602);
+});
+
+test('buildToolDaemonRequest maps session and batch tools like the CLI', () => {
+  const session = buildToolDaemonRequest('session', { args: ['list'] }, {}, '/tmp');
+  assert.equal(session.command, 'session_list');
+  assert.deepEqual(session.positionals, []);
+
+  const batch = buildToolDaemonRequest('batch', { steps: '[{"command":"open","positionals":["Settings"]}]' }, {}, '/tmp');
+  assert.deepEqual((batch.flags as any).batchSteps, [{ command: 'open', positionals: ['Settings'] }]);
+  assert.equal((batch.flags as any).steps, undefined);
+
+  assert.throws(
+    () => buildToolDaemonRequest('fill', { args: ['@e1'] }, {}, '/tmp'),
+    (error: unknown) => error instanceof AppError && /requires 2 positional/.test(error.message),
+  );
+  assert.throws(
+    () => buildToolDaemonRequest('open', { appName: 'Settings' }, {}, '/tmp'),
+    (error: unknown) => error instanceof AppError && /Unknown argument for open: appName/.test(error.message),
+  );
+});
@@ -1,15 +1,26 @@
 import { parseArgs, toDaemonFlags, usage, usageForCommand } from './utils/args.ts';
 import { asAppError, AppError, normalizeError } from './utils/errors.ts';
-import { formatSnapshotDiffText, formatSnapshotText, printHumanError, printJson } from './utils/output.ts';
+import {
+  formatDeviceFanoutText,
+  formatInterruptionLines,
+  formatLeaseText,
+  formatScreenshotComparisonText,
+  formatSnapshotDiffText,
+  formatSnapshotText,
+  printHumanError,
+  printJson,
+} from './utils/output.ts';
 import { readVersion } from './utils/version.ts';
 import { pathToFileURL } from 'node:url';
 import { sendToDaemon } from './daemon-client.ts';
+import { runMcpServer } from './mcp.ts';
+import { buildDaemonRpcSchema } from './daemon/rpc-schema.ts';
 import fs from 'node:fs';
 import path from 'node:path';
-import type { BatchStep } from './core/dispatch.ts';
-import { parseBatchStepsJson } from './core/batch.ts';
+import { readBatchStepsInput } from './core/batch.ts';
 import { createRequestId, emitDiagnostic, flushDiagnosticsToSessionFile, getDiagnosticsMeta, withDiagnosticsScope } from './utils/diagnostics.ts';
 import { resolveDaemonPaths } from './daemon/config.ts';
+import { readReplayEnv } from './daemon/replay-script.ts';
 
 type CliDeps = {
   sendToDaemon: typeof sendToDaemon;
@@ -97,6 +108,19 @@ export async function runCli(argv: string[], deps: CliDeps = DEFAULT_CLI_DEPS):
 
       const { command, positionals, flags } = parsed;
       const daemonFlags = toDaemonFlags(flags);
+      if (daemonFlags.fakeScreenGraph) {
+        // The daemon runs from its own cwd; pin the graph path to where the CLI was invoked.
+        daemonFlags.fakeScreenGraph = path.resolve(daemonFlags.fakeScreenGraph);
+      }
+      if (command === 'mcp') {
+        await runMcpServer({ sendToDaemon: deps.sendToDaemon, defaults: daemonFlags, version: readVersion() });
+        return;
+      }
+      if (command === 'schema') {
+        const document = buildDaemonRpcSchema(readVersion());
+        process.stdout.write(`${JSON.stringify(document, null, flags.json ? undefined : 2)}\n`);
+        return;
+      }
       const daemonPaths = resolveDaemonPaths(flags.stateDir ?? process.env.AGENT_DEVICE_STATE_DIR);
       const sessionName = flags.session ?? process.env.AGENT_DEVICE_SESSION ?? 'default';
       const logTailStopper = flags.verbose && !flags.json ? startDaemonLogTail(daemonPaths.logPath) : null;
@@ -114,6 +138,7 @@ export async function runCli(argv: string[], deps: CliDeps = DEFAULT_CLI_DEPS):
             runId: flags.runId,
             leaseId: flags.leaseId,
             sessionIsolation: flags.sessionIsolation,
+            env: payload.command === 'replay' ? readReplayEnv(positionals) : undefined,
           },
         });
       try {
@@ -121,7 +146,7 @@ export async function runCli(argv: string[], deps: CliDeps = DEFAULT_CLI_DEPS):
       if (positionals.length > 0) {
         throw new AppError('INVALID_ARGS', 'batch does not accept positional arguments.');
       }
-      const batchSteps = readBatchSteps(flags);
+      const batchSteps = readBatchStepsInput(flags);
       const batchFlags = { ...daemonFlags, batchSteps };
       delete (batchFlags as Record<string, unknown>).steps;
       delete (batchFlags as Record<string, unknown>).stepsFile;
@@ -141,6 +166,8 @@ export async function runCli(argv: string[], deps: CliDeps = DEFAULT_CLI_DEPS):
       }
       if (flags.json) {
         printJson({ success: true, data: response.data ?? {} });
+      } else if (flags.devices) {
+        process.stdout.write(formatDeviceFanoutText(response.data ?? {}));
       } else {
         renderBatchSummary(response.data ?? {});
       }
@@ -184,6 +211,17 @@ export async function runCli(argv: string[], deps: CliDeps = DEFAULT_CLI_DEPS):
         if (logTailStopper) logTailStopper();
         return;
       }
+      if (flags.devices) {
+        process.stdout.write(formatDeviceFanoutText(response.data ?? {}));
+        if (logTailStopper) logTailStopper();
+        return;
+      }
+      for (const line of formatInterruptionLines(response.data ?? {})) process.stderr.write(`${line}\n`);
+      if (command === 'lease') {
+        process.stdout.write(formatLeaseText(response.data ?? {}));
+        if (logTailStopper) logTailStopper();
+        return;
+      }
       if (command === 'snapshot') {
         process.stdout.write(
           formatSnapshotText((response.data ?? {}) as Record<string, unknown>, {
@@ -194,6 +232,11 @@ export async function runCli(argv: string[], deps: CliDeps = DEFAULT_CLI_DEPS):
         if (logTailStopper) logTailStopper();
         return;
       }
+      if ((command === 'diff' && positionals[0] === 'screenshot') || (command === 'screenshot' && flags.screenshotCompare)) {
+        process.stdout.write(formatScreenshotComparisonText((response.data ?? {}) as Record<string, unknown>));
+        if (logTailStopper) logTailStopper();
+        return;
+      }
       if (command === 'diff' && positionals[0] === 'snapshot') {
         process.stdout.write(formatSnapshotDiffText((response.data ?? {}) as Record<string, unknown>));
         if (logTailStopper) logTailStopper();
@@ -310,8 +353,54 @@ export async function runCli(argv: string[], deps: CliDeps = DEFAULT_CLI_DEPS):
           return;
         }
       }
+      if (command === 'handler') {
+        const data = response.data as Record<string, unknown> | undefined;
+        if (Array.isArray(data?.handlers)) {
+          const lines = Array.isArray(data.lines) ? data.lines : [];
+          process.stdout.write(lines.length > 0 ? `${lines.join('\n')}\n` : 'No interruption handlers.\n');
+        } else {
+          process.stdout.write(
+            typeof data?.line === 'string'
+              ? `Added handler ${data.line}\n`
+              : `Cleared ${String(data?.cleared)} handler(s); ${String(data?.remaining)} remaining\n`,
+          );
+        }
+        if (logTailStopper) logTailStopper();
+        return;
+      }
       if (command === 'network') {
         const data = response.data as Record<string, unknown> | undefined;
+        if (Array.isArray(data?.rules)) {
+          const lines = Array.isArray(data.lines) ? data.lines : [];
+          process.stdout.write(lines.length > 0 ? `${lines.join('\n')}\n` : 'No network mock rules.\n');
+          if (logTailStopper) logTailStopper();
+          return;
+        }
+        if (typeof data?.line === 'string' || typeof data?.cleared === 'number') {
+          process.stdout.write(
+            typeof data.line === 'string'
+              ? `Added mock ${data.line}\n`
+              : `Cleared ${String(data.cleared)} mock rule(s); ${String(data.remaining)} remaining\n`,
+          );
+          for (const note of Array.isArray(data.notes) ? data.notes : []) {
+            if (typeof note === 'string' && note.length > 0) process.stderr.write(`${note}\n`);
+          }
+          if (logTailStopper) logTailStopper();
+          return;
+        }
+        if (typeof data?.capturing === 'boolean') {
+          if (data.capturing) {
+            process.stdout.write(`Capturing via proxy 127.0.0.1:${String(data.port)} -> ${String(data.harPath)}\n`);
+            if (typeof data.caPath === 'string') process.stdout.write(`CA: ${data.caPath}\n`);
+          } else {
+            process.stdout.write(`Capture stopped: ${String(data.entries)} entries in ${String(data.harPath)}\n`);
+          }
+          for (const note of Array.isArray(data.notes) ? data.notes : []) {
+            if (typeof note === 'string' && note.length > 0) process.stderr.write(`${note}\n`);
+          }
+          if (logTailStopper) logTailStopper();
+          return;
+        }
         const pathOut = typeof data?.path === 'string' ? data.path : '';
         if (pathOut) {
           process.stdout.write(`${pathOut}\n`);
@@ -325,7 +414,10 @@ export async function runCli(argv: string[], deps: CliDeps = DEFAULT_CLI_DEPS):
             const url = typeof entry.url === 'string' ? entry.url : '<unknown-url>';
             const status = typeof entry.status === 'number' ? ` status=${entry.status}` : '';
             const timestamp = typeof entry.timestamp === 'string' ? `${entry.timestamp} ` : '';
-            process.stdout.write(`${timestamp}${method} ${url}${status}\n`);
+            const duration = typeof entry.durationMs === 'number' ? ` ${entry.durationMs}ms` : '';
+            const failure = typeof entry.error === 'string' ? ` error=${entry.error}` : '';
+            const mock = typeof entry.mock === 'string' ? ` mock=${entry.mock}` : '';
+            process.stdout.write(`${timestamp}${method} ${url}${status}${duration}${failure}${mock}\n`);
             if (typeof entry.headers === 'string') {
               process.stdout.write(`  headers: ${entry.headers}\n`);
             }
@@ -426,11 +518,32 @@ export async function runCli(argv: string[], deps: CliDeps = DEFAULT_CLI_DEPS):
             return;
           }
         }
+        if (command === 'trace' && typeof data.outPath === 'string') {
+          process.stdout.write(`${data.outPath}\n`);
+          if (typeof data.html === 'string') process.stdout.write(`Timeline: ${data.html}\n`);
+          if (typeof data.replayPath === 'string') process.stdout.write(`Replay: ${data.replayPath}\n`);
+          if (logTailStopper) logTailStopper();
+          return;
+        }
+        if (command === 'trace' && typeof data.html === 'string') {
+          process.stdout.write(`${data.html} (${String(data.steps)} steps, ${String(data.failed)} failed)\n`);
+          if (logTailStopper) logTailStopper();
+          return;
+        }
         if (command === 'perf') {
           process.stdout.write(`${JSON.stringify(data, null, 2)}\n`);
           if (logTailStopper) logTailStopper();
           return;
         }
+        if (command === 'replay') {
+          const scripts = Array.isArray(data.scripts) ? (data.scripts as Array<Record<string, unknown>>) : [];
+          for (const script of scripts) {
+            process.stdout.write(`${script.status} ${script.path} (${script.replayed} steps, ${script.durationMs}ms)\n`);
+          }
+          if (typeof data.report === 'string') process.stdout.write(`Report: ${data.report}\n`);
+          if (logTailStopper) logTailStopper();
+          return;
+        }
       }
       if (logTailStopper) logTailStopper();
       return;
@@ -461,6 +574,9 @@ export async function runCli(argv: string[], deps: CliDeps = DEFAULT_CLI_DEPS):
             error: normalized,
           });
         } else {
+          if (flags.devices && Array.isArray(normalized.details?.results)) {
+            process.stdout.write(formatDeviceFanoutText(normalized.details));
+          }
           printHumanError(normalized, { showDetails: flags.verbose });
           if (flags.verbose) {
             try {
@@ -494,21 +610,6 @@ function renderBatchSummary(data: Record<string, unknown>): void {
   );
 }
 
-function readBatchSteps(flags: ReturnType<typeof parseArgs>['flags']): BatchStep[] {
-  let raw = '';
-  if (flags.steps) {
-    raw = flags.steps;
-  } else if (flags.stepsFile) {
-    try {
-      raw = fs.readFileSync(flags.stepsFile, 'utf8');
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      throw new AppError('INVALID_ARGS', `Failed to read --steps-file ${flags.stepsFile}: ${message}`);
-    }
-  }
-  return parseBatchStepsJson(raw);
-}
-
 function isDaemonStartupFailure(error: AppError): boolean {
   if (error.code !== 'COMMAND_FAILED') return false;
   if (error.details?.kind === 'daemon_startup_failed') return true;
@@ -0,0 +1,290 @@
+import { sendToDaemon, type DaemonRequest, type DaemonResponse } from './daemon-client.ts';
+import { AppError, ERROR_CODES, type ErrorCode } from './utils/errors.ts';
+import { createRequestId } from './utils/diagnostics.ts';
+import { readReplayEnv } from './daemon/replay-script.ts';
+import type { CommandFlags } from './core/dispatch.ts';
+import type { IsPredicate } from './daemon/is-predicates.ts';
+import type { Rect, SnapshotNode } from './utils/snapshot.ts';
+import type { DeviceInfo, DeviceKind, DeviceTarget, Platform } from './utils/device.ts';
+
+export { AppError };
+export type {
+  CommandFlags,
+  DeviceInfo,
+  DeviceKind,
+  DeviceTarget,
+  ErrorCode,
+  IsPredicate,
+  Platform,
+  Rect,
+  SnapshotNode,
+};
+
+export type AgentDeviceOptions = {
+  /** Daemon session name (defaults to `AGENT_DEVICE_SESSION` or `default`). */
+  session?: string;
+  platform?: CommandFlags['platform'];
+  target?: DeviceTarget;
+  device?: string;
+  udid?: string;
+  serial?: string;
+  tenant?: string;
+  runId?: string;
+  leaseId?: string;
+  sessionIsolation?: 'none' | 'tenant';
+  stateDir?: string;
+  daemonTransport?: CommandFlags['daemonTransport'];
+  /** Extra flags sent with every command. */
+  flags?: Partial<CommandFlags>;
+  /** Working directory the daemon resolves relative paths against (defaults to `process.cwd()`). */
+  cwd?: string;
+  /** Replaces the daemon transport; mainly for tests. */
+  transport?: (req: Omit<DaemonRequest, 'token'>) => Promise<DaemonResponse>;
+};
+
+/** Untyped `data` of commands without a dedicated result type. */
+export type CommandData = Record<string, unknown>;
+
+export type Point = { x: number; y: number };
+
+/** `@ref`, selector expression, or device coordinates. */
+export type Target = string | Point;
+
+export type OpenOptions = { url?: string; relaunch?: boolean; activity?: string };
+export type OpenResult = {
+  session: string;
+  appName?: string;
+  appBundleId?: string;
+  startup?: { durationMs: number; measuredAt: string; method: string; appTarget?: string; appBundleId?: string };
+};
+
+export type SnapshotOptions = {
+  interactiveOnly?: boolean;
+  compact?: boolean;
+  depth?: number;
+  scope?: string;
+  raw?: boolean;
+};
+export type SnapshotResult = {
+  nodes: SnapshotNode[];
+  truncated: boolean;
+  appName?: string;
+  appBundleId?: string;
+};
+export type SnapshotDiffLine = { kind: 'added' | 'removed' | 'unchanged'; text: string };
+export type SnapshotDiffResult = {
+  mode: 'snapshot';
+  baselineInitialized: boolean;
+  summary: { additions: number; removals: number; unchanged: number };
+  lines: SnapshotDiffLine[];
+};
+
+export type PressOptions = {
+  count?: number;
+  intervalMs?: number;
+  holdMs?: number;
+  jitterPx?: number;
+  doubleTap?: boolean;
+};
+/** Tap point plus the `ref` or `selector` that was resolved, when the target was not raw coordinates. */
+export type PressResult = { x?: number; y?: number; ref?: string; selector?: string };
+export type FillResult = PressResult & { text?: string; warning?: string };
+
+export type IsResult = { predicate: IsPredicate; pass: true; selector?: string; matches?: number };
+
+export type WaitCondition =
+  | number
+  | 'stable'
+  | { text: string }
+  | { target: string }
+  | { predicate: IsPredicate; target: string; value?: string };
+export type WaitResult = {
+  waitedMs?: number;
+  text?: string;
+  selector?: string;
+  stable?: boolean;
+  snapshots?: number;
+  predicate?: IsPredicate;
+  target?: string;
+  pass?: boolean;
+  matches?: number;
+};
+
+export type ScreenshotResult = { path: string };
+
+export type ReplayOptions = {
+  update?: boolean;
+  report?: 'junit' | 'tap' | 'json';
+  reportFile?: string;
+};
+export type ReplayScriptSummary = {
+  path: string;
+  status: 'passed' | 'failed';
+  replayed: number;
+  healed: number;
+  durationMs: number;
+  error?: string;
+};
+export type ReplayResult = {
+  replayed: number;
+  healed: number;
+  session: string;
+  report?: string;
+  /** Present when more than one script ran. */
+  scripts?: ReplayScriptSummary[];
+};
+
+export type DeviceSummary = Omit<DeviceInfo, 'simulatorSetPath'>;
+export type SessionSummary = {
+  name: string;
+  platform: Platform;
+  target: DeviceTarget;
+  device: string;
+  id: string;
+  createdAt: number;
+};
+
+export type AgentDevice = {
+  readonly session: string;
+  open: (appOrUrl?: string, options?: OpenOptions) => Promise<OpenResult>;
+  close: (app?: string) => Promise<{ session: string }>;
+  snapshot: (options?: SnapshotOptions) => Promise<SnapshotResult>;
+  diffSnapshot: (options?: SnapshotOptions) => Promise<SnapshotDiffResult>;
+  press: (target: Target, options?: PressOptions) => Promise<PressResult>;
+  fill: (target: Target, text: string) => Promise<FillResult>;
+  type: (text: string) => Promise<CommandData>;
+  focus: (x: number, y: number) => Promise<CommandData>;
+  getText: (target: string) => Promise<string>;
+  getAttrs: (target: string) => Promise<SnapshotNode>;
+  is: (predicate: IsPredicate, target: string, value?: string) => Promise<IsResult>;
+  wait: (condition: WaitCondition, options?: { timeoutMs?: number }) => Promise<WaitResult>;
+  scroll: (direction: 'up' | 'down' | 'left' | 'right', amount?: number) => Promise<CommandData>;
+  swipe: (from: Point, to: Point, durationMs?: number) => Promise<CommandData>;
+  back: () => Promise<CommandData>;
+  home: () => Promise<CommandData>;
+  screenshot: (path?: string) => Promise<ScreenshotResult>;
+  replay: (path: string | string[], options?: ReplayOptions) => Promise<ReplayResult>;
+  devices: () => Promise<DeviceSummary[]>;
+  sessions: () => Promise<SessionSummary[]>;
+  /** Runs any CLI command by name; for commands without a typed method. */
+  command: (name: string, positionals?: Array<string | number>, flags?: Partial<CommandFlags>) => Promise<CommandData>;
+};
+
+/**
+ * Typed client for the agent-device daemon. Methods mirror CLI commands and throw `AppError` on failure.
+ */
+export function createAgentDevice(options: AgentDeviceOptions = {}): AgentDevice {
+  const session = options.session ?? process.env.AGENT_DEVICE_SESSION ?? 'default';
+  const transport = options.transport ?? sendToDaemon;
+  const baseFlags: Partial<CommandFlags> = {
+    ...options.flags,
+    ...definedEntries({
+      platform: options.platform,
+      target: options.target,
+      device: options.device,
+      udid: options.udid,
+      serial: options.serial,
+      tenant: options.tenant,
+      runId: options.runId,
+      leaseId: options.leaseId,
+      sessionIsolation: options.sessionIsolation,
+      stateDir: options.stateDir,
+      daemonTransport: options.daemonTransport,
+    }),
+  };
+
+  const run = async <T>(
+    command: string,
+    positionals: Array<string | number | undefined> = [],
+    flags: Partial<CommandFlags> = {},
+  ): Promise<T> => {
+    const args = positionals.filter((value) => value !== undefined).map(String);
+    const mergedFlags = { ...baseFlags, ...definedEntries(flags) };
+    const cwd = options.cwd ?? process.cwd();
+    const response = await transport({
+      session,
+      command,
+      positionals: args,
+      flags: mergedFlags,
+      meta: {
+        requestId: createRequestId(),
+        cwd,
+        tenantId: mergedFlags.tenant,
+        runId: mergedFlags.runId,
+        leaseId: mergedFlags.leaseId,
+        sessionIsolation: mergedFlags.sessionIsolation,
+        env: command === 'replay' ? readReplayEnv(args, cwd) : undefined,
+      },
+    });
+    if (!response.ok) {
+      throw new AppError(toErrorCode(response.error.code), response.error.message, {
+        ...(response.error.details ?? {}),
+        hint: response.error.hint,
+        diagnosticId: response.error.diagnosticId,
+        logPath: response.error.logPath,
+      });
+    }
+    return (response.data ?? {}) as T;
+  };
+
+  return {
+    session,
+    open: (appOrUrl, openOptions = {}) =>
+      run('open', [appOrUrl, openOptions.url], { relaunch: openOptions.relaunch, activity: openOptions.activity }),
+    close: (app) => run('close', [app]),
+    snapshot: (snapshotOptions) => run('snapshot', [], toSnapshotFlags(snapshotOptions)),
+    diffSnapshot: (snapshotOptions) => run('diff', ['snapshot'], toSnapshotFlags(snapshotOptions)),
+    press: (target, pressOptions = {}) => run('press', toTargetArgs(target), pressOptions),
+    fill: (target, text) => run('fill', [...toTargetArgs(target), text]),
+    type: (text) => run('type', [text]),
+    focus: (x, y) => run('focus', [x, y]),
+    getText: async (target) => (await run<{ text?: string }>('get', ['text', target])).text ?? '',
+    getAttrs: async (target) => (await run<{ node: SnapshotNode }>('get', ['attrs', target])).node,
+    is: (predicate, target, value) => run('is', [predicate, target, value]),
+    wait: (condition, waitOptions = {}) => run('wait', toWaitArgs(condition, waitOptions.timeoutMs)),
+    scroll: (direction, amount) => run('scroll', [direction, amount]),
+    swipe: (from, to, durationMs) => run('swipe', [from.x, from.y, to.x, to.y, durationMs]),
+    back: () => run('back'),
+    home: () => run('home'),
+    screenshot: (path) => run('screenshot', [path]),
+    replay: (path, replayOptions = {}) =>
+      run('replay', Array.isArray(path) ? path : [path], {
+        replayUpdate: replayOptions.update,
+        replayReport: replayOptions.report,
+        replayReportFile: replayOptions.reportFile,
+      }),
+    devices: async () => (await run<{ devices?: DeviceSummary[] }>('devices')).devices ?? [],
+    sessions: async () => (await run<{ sessions?: SessionSummary[] }>('session_list')).sessions ?? [],
+    command: (name, positionals = [], flags = {}) => run(name, positionals, flags),
+  };
+}
+
+function toTargetArgs(target: Target): Array<string | number> {
+  return typeof target === 'string' ? [target] : [target.x, target.y];
+}
+
+function toSnapshotFlags(options: SnapshotOptions = {}): Partial<CommandFlags> {
+  return {
+    snapshotInteractiveOnly: options.interactiveOnly,
+    snapshotCompact: options.compact,
+    snapshotDepth: options.depth,
+    snapshotScope: options.scope,
+    snapshotRaw: options.raw,
+  };
+}
+
+function toWaitArgs(condition: WaitCondition, timeoutMs: number | undefined): Array<string | number | undefined> {
+  if (typeof condition === 'number') return [condition];
+  if (condition === 'stable') return ['stable', timeoutMs];
+  if ('predicate' in condition) return [condition.predicate, condition.target, condition.value, timeoutMs];
+  if ('text' in condition) return ['text', condition.text, timeoutMs];
+  return [condition.target, timeoutMs];
+}
+
+function toErrorCode(code: string): ErrorCode {
+  return (ERROR_CODES as readonly string[]).includes(code) ? (code as ErrorCode) : 'UNKNOWN';
+}
+
+function definedEntries<T extends Record<string, unknown>>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as Partial<T>;
+}
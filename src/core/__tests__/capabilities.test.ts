@@ -40,18 +40,18 @@ const tvOsSimulator: DeviceInfo = {
   target: 'tv',
 };
 
-test('iOS simulator-only commands reject iOS devices and Android', () => {
-  for (const cmd of ['alert', 'pinch']) {
+test('simulator-only iOS commands with Android support reject iOS devices', () => {
+  for (const cmd of ['settings', 'push', 'clipboard', 'alert', 'pinch']) {
     assert.equal(isCommandSupportedOnDevice(cmd, iosSimulator), true, `${cmd} on iOS sim`);
     assert.equal(isCommandSupportedOnDevice(cmd, iosDevice), false, `${cmd} on iOS device`);
-    assert.equal(isCommandSupportedOnDevice(cmd, androidDevice), false, `${cmd} on Android`);
+    assert.equal(isCommandSupportedOnDevice(cmd, androidDevice), true, `${cmd} on Android`);
   }
 });
 
-test('simulator-only iOS commands with Android support reject iOS devices', () => {
-  for (const cmd of ['settings', 'push', 'clipboard']) {
+test('multi-touch gesture and rotate run on iOS simulators, iOS devices and Android', () => {
+  for (const cmd of ['gesture', 'rotate']) {
     assert.equal(isCommandSupportedOnDevice(cmd, iosSimulator), true, `${cmd} on iOS sim`);
-    assert.equal(isCommandSupportedOnDevice(cmd, iosDevice), false, `${cmd} on iOS device`);
+    assert.equal(isCommandSupportedOnDevice(cmd, iosDevice), true, `${cmd} on iOS device`);
     assert.equal(isCommandSupportedOnDevice(cmd, androidDevice), true, `${cmd} on Android`);
   }
 });
@@ -0,0 +1,102 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildDragPath,
+  buildPinchGesture,
+  buildRotateGesture,
+  gesturePointerPositionAt,
+  parseGesturePointers,
+} from '../gestures.ts';
+import { AppError } from '../../utils/errors.ts';
+
+const frame = { x: 0, y: 0, width: 1000, height: 2000 };
+
+test('parseGesturePointers spreads untimed points between timed ones', () => {
+  const [first, second] = parseGesturePointers(['100,200;100,300;100,400@300;100,500', '50,50'], 400);
+  assert.deepEqual(first, [
+    { x: 100, y: 200, t: 0 },
+    { x: 100, y: 300, t: 150 },
+    { x: 100, y: 400, t: 300 },
+    { x: 100, y: 500, t: 400 },
+  ]);
+  assert.deepEqual(second, [
+    { x: 50, y: 50, t: 0 },
+    { x: 50, y: 50, t: 400 },
+  ]);
+  assert.deepEqual(gesturePointerPositionAt(first, 75), { x: 100, y: 250 });
+  assert.equal(gesturePointerPositionAt(first, 401), null);
+});
+
+test('parseGesturePointers rejects malformed paths', () => {
+  const rejects = (specs: string[], message: RegExp) =>
+    assert.throws(
+      () => parseGesturePointers(specs),
+      (error: unknown) => error instanceof AppError && error.code === 'INVALID_ARGS' && message.test(error.message),
+    );
+  rejects([], /at least one pointer/);
+  rejects(['100;200'], /Invalid gesture point/);
+  rejects(['1,1@300;2,2@100'], /must not decrease/);
+  rejects(['1,1', '1,1', '1,1', '1,1', '1,1', '1,1'], /1\.\.5 pointers/);
+});
+
+test('buildPinchGesture spreads or closes two fingers around the center', () => {
+  const zoomIn = buildPinchGesture(frame, 2, { center: { x: 500, y: 1000 }, durationMs: 300 });
+  assert.deepEqual(zoomIn, [
+    [
+      { x: 350, y: 1000, t: 0 },
+      { x: 200, y: 1000, t: 300 },
+    ],
+    [
+      { x: 650, y: 1000, t: 0 },
+      { x: 800, y: 1000, t: 300 },
+    ],
+  ]);
+  const zoomOut = buildPinchGesture(frame, 0.5);
+  assert.equal(zoomOut[0][0].x, 200);
+  assert.equal(zoomOut[0][1].x, 350);
+});
+
+test('buildRotateGesture turns opposite fingers clockwise for positive degrees', () => {
+  const [first, second] = buildRotateGesture(frame, 90, { center: { x: 500, y: 1000 } });
+  assert.equal(first.length, 10);
+  assert.deepEqual(first[0], { x: 750, y: 1000, t: 0 });
+  assert.deepEqual(first.at(-1), { x: 500, y: 1250, t: 400 });
+  assert.deepEqual(second[0], { x: 250, y: 1000, t: 0 });
+  assert.deepEqual(second.at(-1), { x: 500, y: 750, t: 400 });
+});
+
+test('buildDragPath holds the start and keeps every waypoint', () => {
+  const path = buildDragPath(
+    [
+      { x: 100, y: 100 },
+      { x: 100, y: 400 },
+      { x: 400, y: 400 },
+    ],
+    { durationMs: 600, holdMs: 300 },
+  );
+  assert.deepEqual(path, [
+    { x: 100, y: 100, t: 0 },
+    { x: 100, y: 100, t: 300 },
+    { x: 100, y: 400, t: 600 },
+    { x: 400, y: 400, t: 900 },
+  ]);
+});
+
+test('buildDragPath ease-out covers most of the distance early', () => {
+  const path = buildDragPath(
+    [
+      { x: 0, y: 0 },
+      { x: 0, y: 1000 },
+    ],
+    { durationMs: 400, profile: 'ease-out' },
+  );
+  assert.deepEqual(path[0], { x: 0, y: 0, t: 0 });
+  assert.deepEqual(path.at(-1), { x: 0, y: 1000, t: 400 });
+  assert.ok(path.length > 10);
+  const halfway = path.find((point) => point.t >= 200);
+  assert.ok(halfway && halfway.y >= 740, `expected ease-out to pass 74% by half time, got ${halfway?.y}`);
+  assert.throws(
+    () => buildDragPath([{ x: 0, y: 0 }]),
+    (error: unknown) => error instanceof AppError && error.code === 'INVALID_ARGS',
+  );
+});
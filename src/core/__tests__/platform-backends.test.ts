@@ -0,0 +1,165 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  findPlatformBackend,
+  getPlatformBackend,
+  listDiscoveryBackends,
+  listPlatformBackends,
+  loadPlatformBackendModules,
+  registerPlatformBackend,
+  unregisterPlatformBackend,
+  type PlatformBackend,
+} from '../platform-backends.ts';
+import { isCommandSupportedOnDevice } from '../capabilities.ts';
+import { dispatchCommand, resolveTargetDevice } from '../dispatch.ts';
+import { AppError } from '../../utils/errors.ts';
+import type { DeviceInfo } from '../../utils/device.ts';
+
+const webDevice: DeviceInfo = {
+  platform: 'web',
+  id: 'chromium-1',
+  name: 'Chromium',
+  kind: 'device',
+  booted: true,
+};
+
+function makeWebBackend(calls: string[]): PlatformBackend {
+  const record = (entry: string) => async () => {
+    calls.push(entry);
+  };
+  return {
+    platform: 'web',
+    listDevices: async () => [webDevice],
+    createInteractor: () => ({
+      open: async (app) => {
+        calls.push(`open:${app}`);
+      },
+      openDevice: record('openDevice'),
+      close: record('close'),
+      tap: async (x, y) => {
+        calls.push(`tap:${x},${y}`);
+      },
+      doubleTap: record('doubleTap'),
+      swipe: record('swipe'),
+      longPress: record('longPress'),
+      focus: record('focus'),
+      type: record('type'),
+      fill: record('fill'),
+      scroll: record('scroll'),
+      scrollIntoView: record('scrollIntoView'),
+      screenshot: record('screenshot'),
+    }),
+    snapshot: async () => ({
+      nodes: [{ index: 0, type: 'button', label: 'Go', depth: 0 }],
+    }),
+    navigate: async (_device, action) => {
+      calls.push(`navigate:${action}`);
+    },
+    capabilities: {
+      open: true,
+      press: true,
+      snapshot: true,
+      back: true,
+      record: false,
+    },
+  };
+}
+
+test('built-in platforms are registered and cannot be replaced', () => {
+  const platforms = listPlatformBackends().map((backend) => backend.platform);
+  assert.deepEqual(platforms.slice(0, 2), ['android', 'ios']);
+  assert.throws(
+    () => registerPlatformBackend({ ...makeWebBackend([]), platform: 'ios' }),
+    (error: unknown) => error instanceof AppError && error.code === 'INVALID_ARGS',
+  );
+  assert.equal(unregisterPlatformBackend('android'), false);
+});
+
+test('getPlatformBackend rejects unknown platforms', () => {
+  assert.throws(
+    () => getPlatformBackend('desktop'),
+    (error: unknown) => error instanceof AppError && error.code === 'UNSUPPORTED_PLATFORM',
+  );
+});
+
+test('registered backends drive device resolution and dispatch', async () => {
+  const calls: string[] = [];
+  registerPlatformBackend(makeWebBackend(calls));
+  try {
+    const device = await resolveTargetDevice({ platform: 'web' });
+    assert.equal(device.id, 'chromium-1');
+
+    await dispatchCommand(device, 'open', ['https://example.com']);
+    await dispatchCommand(device, 'press', ['10', '20']);
+    await dispatchCommand(device, 'back', []);
+    const snapshot = (await dispatchCommand(device, 'snapshot', [])) as Record<string, unknown>;
+    assert.deepEqual(calls, ['open:https://example.com', 'tap:10,20', 'navigate:back']);
+    assert.equal(snapshot.backend, 'web');
+    assert.equal((snapshot.nodes as unknown[]).length, 1);
+
+    await assert.rejects(
+      () => dispatchCommand(device, 'settings', ['wifi', 'on']),
+      (error: unknown) => error instanceof AppError && error.code === 'UNSUPPORTED_OPERATION',
+    );
+  } finally {
+    unregisterPlatformBackend('web');
+  }
+});
+
+test('platform-less discovery leaves the fake backend out unless a screen graph is configured', async () => {
+  registerPlatformBackend(makeWebBackend([]));
+  const savedGraph = process.env.AGENT_DEVICE_FAKE_SCREEN_GRAPH;
+  delete process.env.AGENT_DEVICE_FAKE_SCREEN_GRAPH;
+  try {
+    const device = await resolveTargetDevice({});
+    assert.equal(device.platform, 'web');
+    const hasFake = (backends: PlatformBackend[]) => backends.some((backend) => backend.platform === 'fake');
+    assert.equal(hasFake(listDiscoveryBackends({})), false);
+    assert.equal(hasFake(listDiscoveryBackends({ fakeScreenGraph: 'demo' })), true);
+    assert.equal(hasFake(listDiscoveryBackends({}, { AGENT_DEVICE_FAKE_SCREEN_GRAPH: 'demo' })), true);
+    assert.equal((await resolveTargetDevice({ platform: 'fake' })).platform, 'fake');
+  } finally {
+    if (savedGraph !== undefined) process.env.AGENT_DEVICE_FAKE_SCREEN_GRAPH = savedGraph;
+    unregisterPlatformBackend('web');
+  }
+});
+
+test('registered backend capabilities gate built-in matrix commands', () => {
+  registerPlatformBackend(makeWebBackend([]));
+  try {
+    assert.equal(isCommandSupportedOnDevice('press', webDevice), true);
+    assert.equal(isCommandSupportedOnDevice('record', webDevice), false);
+    assert.equal(isCommandSupportedOnDevice('apps', webDevice), false);
+    assert.equal(isCommandSupportedOnDevice('some-future-cmd', webDevice), true);
+  } finally {
+    unregisterPlatformBackend('web');
+  }
+  assert.equal(isCommandSupportedOnDevice('press', webDevice), false);
+});
+
+test('loadPlatformBackendModules registers backends from configured modules', async () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-device-platform-backend-'));
+  const modulePath = path.join(root, 'desktop-backend.mjs');
+  fs.writeFileSync(
+    modulePath,
+    [
+      'export const backends = [{',
+      "  platform: 'desktop',",
+      '  listDevices: async () => [],',
+      '  createInteractor: () => ({}),',
+      '}];',
+    ].join('\n'),
+  );
+  try {
+    await loadPlatformBackendModules({
+      AGENT_DEVICE_PLATFORM_BACKENDS: modulePath,
+      AGENT_DEVICE_PLATFORM_BACKEND_EXPORT: 'backends',
+    });
+    assert.equal(findPlatformBackend('desktop')?.platform, 'desktop');
+  } finally {
+    unregisterPlatformBackend('desktop');
+  }
+});
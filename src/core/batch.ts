@@ -1,3 +1,4 @@
+import fs from 'node:fs';
 import { AppError } from '../utils/errors.ts';
 import type { BatchStep, CommandFlags } from './dispatch.ts';
 
@@ -31,6 +32,22 @@ export function parseBatchStepsJson(raw: string): BatchStep[] {
   return parsed as BatchStep[];
 }
 
+/** Reads batch steps from inline `--steps` JSON or a `--steps-file` path. */
+export function readBatchStepsInput(input: { steps?: string; stepsFile?: string }): BatchStep[] {
+  let raw = '';
+  if (input.steps) {
+    raw = input.steps;
+  } else if (input.stepsFile) {
+    try {
+      raw = fs.readFileSync(input.stepsFile, 'utf8');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new AppError('INVALID_ARGS', `Failed to read --steps-file ${input.stepsFile}: ${message}`);
+    }
+  }
+  return parseBatchStepsJson(raw);
+}
+
 export function validateAndNormalizeBatchSteps(
   steps: CommandFlags['batchSteps'],
   maxSteps: number,
@@ -1,4 +1,9 @@
 import type { DeviceInfo } from '../utils/device.ts';
+import {
+  findPlatformBackend,
+  isBuiltinPlatform,
+  isCommandDeclaredByBackend,
+} from './platform-backends.ts';
 
 type KindMatrix = {
   simulator?: boolean;
@@ -13,9 +18,12 @@ type CommandCapability = {
 };
 
 const COMMAND_CAPABILITY_MATRIX: Record<string, CommandCapability> = {
-  // iOS simulator-only.
-  alert: { ios: { simulator: true }, android: {} },
-  pinch: { ios: { simulator: true }, android: {} },
+  alert: { ios: { simulator: true }, android: { emulator: true, device: true, unknown: true } },
+  // iOS pinch stays on the runner's simulator-only zoom; Android and rotate/gesture use multi-touch paths.
+  pinch: { ios: { simulator: true }, android: { emulator: true, device: true, unknown: true } },
+  rotate: { ios: { simulator: true, device: true }, android: { emulator: true, device: true, unknown: true } },
+  gesture: { ios: { simulator: true, device: true }, android: { emulator: true, device: true, unknown: true } },
+  drag: { ios: { simulator: true, device: true }, android: { emulator: true, device: true, unknown: true } },
   'app-switcher': { ios: { simulator: true, device: true }, android: { emulator: true, device: true, unknown: true } },
   apps: { ios: { simulator: true, device: true }, android: { emulator: true, device: true, unknown: true } },
   back: { ios: { simulator: true, device: true }, android: { emulator: true, device: true, unknown: true } },
@@ -53,8 +61,13 @@ const COMMAND_CAPABILITY_MATRIX: Record<string, CommandCapability> = {
 
 export function isCommandSupportedOnDevice(command: string, device: DeviceInfo): boolean {
   const capability = COMMAND_CAPABILITY_MATRIX[command];
+  if (!isBuiltinPlatform(device.platform)) {
+    const backend = findPlatformBackend(device.platform);
+    if (!backend) return false;
+    return isCommandDeclaredByBackend(backend, command, device) ?? !capability;
+  }
   if (!capability) return true;
-  const byPlatform = capability[device.platform];
+  const byPlatform = capability[device.platform as keyof CommandCapability];
   if (!byPlatform) return false;
   const kind = (device.kind ?? 'unknown') as keyof KindMatrix;
   return byPlatform[kind] === true;
@@ -2,13 +2,12 @@ import { promises as fs } from 'node:fs';
 import pathModule from 'node:path';
 import { AppError } from '../utils/errors.ts';
 import { normalizePlatformSelector, selectDevice, type DeviceInfo } from '../utils/device.ts';
-import { listAndroidDevices } from '../platforms/android/devices.ts';
 import {
   appSwitcherAndroid,
   backAndroid,
   dismissAndroidKeyboard,
-  ensureAdb,
   getAndroidKeyboardState,
+  getAndroidScreenSize,
   homeAndroid,
   pushAndroidNotification,
   readAndroidClipboardText,
@@ -16,8 +15,7 @@ import {
   snapshotAndroid,
   writeAndroidClipboardText,
 } from '../platforms/android/index.ts';
-import { listIosDevices } from '../platforms/ios/devices.ts';
-import { getInteractor, type RunnerContext } from '../utils/interactors.ts';
+import { getInteractor, type Interactor, type RunnerContext } from '../utils/interactors.ts';
 import { runIosRunnerCommand } from '../platforms/ios/runner-client.ts';
 import {
   pushIosNotification,
@@ -27,11 +25,25 @@ import {
 } from '../platforms/ios/index.ts';
 import { isDeepLinkTarget } from './open-target.ts';
 import { parseTriggerAppEventArgs, resolveAppEventUrl } from './app-events.ts';
-import type { RawSnapshotNode } from '../utils/snapshot.ts';
+import {
+  buildDragPath,
+  buildPinchGesture,
+  buildRotateGesture,
+  gestureDurationMs,
+  parseGesturePointers,
+  type DragProfile,
+  type GesturePointer,
+} from './gestures.ts';
+import type { RawSnapshotNode, Rect } from '../utils/snapshot.ts';
 import type { CliFlags } from '../utils/command-schema.ts';
 import { emitDiagnostic, withDiagnosticTimer } from '../utils/diagnostics.ts';
 import { resolvePayloadInput } from '../utils/payload-input.ts';
-import { resolveAndroidSerialAllowlist, resolveIosSimulatorDeviceSetPath } from '../utils/device-isolation.ts';
+import {
+  getPlatformBackend,
+  isBuiltinPlatform,
+  listDiscoveryBackends,
+  type PlatformNavigationAction,
+} from './platform-backends.ts';
 
 export type BatchStep = {
   command: string;
@@ -45,8 +57,6 @@ export type CommandFlags = Omit<CliFlags, 'json' | 'help' | 'version' | 'batchSt
 
 export async function resolveTargetDevice(flags: CommandFlags): Promise<DeviceInfo> {
   const normalizedPlatform = normalizePlatformSelector(flags.platform);
-  const iosSimulatorSetPath = resolveIosSimulatorDeviceSetPath(flags.iosSimulatorDeviceSet);
-  const androidSerialAllowlist = resolveAndroidSerialAllowlist(flags.androidDeviceAllowlist);
   return await withDiagnosticTimer(
     'resolve_target_device',
     async () => {
@@ -64,27 +74,18 @@ export async function resolveTargetDevice(flags: CommandFlags): Promise<DeviceIn
         );
       }
 
-      if (selector.platform === 'android') {
-        await ensureAdb();
-        const devices = await listAndroidDevices({ serialAllowlist: androidSerialAllowlist });
-        return await selectDevice(devices, selector);
-      }
-
-      if (selector.platform === 'ios') {
-        const devices = await listIosDevices({ simulatorSetPath: iosSimulatorSetPath });
+      if (selector.platform) {
+        const devices = await getPlatformBackend(selector.platform).listDevices(flags);
         return await selectDevice(devices, selector);
       }
 
       const devices: DeviceInfo[] = [];
-      try {
-        devices.push(...(await listAndroidDevices({ serialAllowlist: androidSerialAllowlist })));
-      } catch {
-        // ignore
-      }
-      try {
-        devices.push(...(await listIosDevices({ simulatorSetPath: iosSimulatorSetPath })));
-      } catch {
-        // ignore
+      for (const backend of listDiscoveryBackends(flags)) {
+        try {
+          devices.push(...(await backend.listDevices(flags)));
+        } catch {
+          // ignore
+        }
       }
       return await selectDevice(devices, selector);
     },
@@ -119,6 +120,7 @@ export async function dispatchCommand(
     doubleTap?: boolean;
     pauseMs?: number;
     pattern?: 'one-way' | 'ping-pong';
+    dragProfile?: DragProfile;
   },
 ): Promise<Record<string, unknown> | void> {
   const runnerCtx: RunnerContext = {
@@ -352,30 +354,86 @@ export async function dispatchCommand(
       if (result?.attempts) return { text, attempts: result.attempts };
       return { text };
     }
-    case 'pinch': {
-      if (device.platform === 'android') {
-        throw new AppError(
-          'UNSUPPORTED_OPERATION',
-          'Android pinch is not supported in current adb backend; requires instrumentation-based backend.',
+    case 'gesture': {
+      const pointers = parseGesturePointers(positionals);
+      await requireGesture(interactor, device, command)(pointers);
+      return { pointers: pointers.length, durationMs: gestureDurationMs(pointers) };
+    }
+    case 'drag': {
+      // Positionals are x,y points (start, waypoints, end), optionally followed by the duration.
+      const lastArg = positionals[positionals.length - 1] ?? '';
+      const durationArg = positionals.length > 2 && !lastArg.includes(',') ? lastArg : undefined;
+      const points = (durationArg === undefined ? positionals : positionals.slice(0, -1)).map(parseDragPoint);
+      if (points.length < 2) {
+        throw new AppError('INVALID_ARGS', 'drag requires <x,y> <x,y> [durationMs]');
+      }
+      const durationMs = requireIntInRange(durationArg ? Number(durationArg) : 500, 'durationMs', 16, 10_000);
+      const holdMs = requireIntInRange(context?.holdMs ?? 0, 'hold-ms', 0, 10_000);
+      const count = requireIntInRange(context?.count ?? 1, 'count', 1, 200);
+      const pauseMs = requireIntInRange(context?.pauseMs ?? 0, 'pause-ms', 0, 10_000);
+      const pattern = context?.pattern ?? 'one-way';
+      if (pattern !== 'one-way' && pattern !== 'ping-pong') {
+        throw new AppError('INVALID_ARGS', `Invalid pattern: ${pattern}`);
+      }
+      const profile = context?.dragProfile ?? 'linear';
+      const path = buildDragPath(points, { durationMs, holdMs, profile });
+      const returnPath = buildDragPath([...points].reverse(), { durationMs, holdMs, profile });
+
+      if (shouldUseIosDragSeries(device, count)) {
+        await runIosRunnerCommand(
+          device,
+          { command: 'dragSeries', path, returnPath, count, pauseMs, pattern, appBundleId: context?.appBundleId },
+          {
+            verbose: context?.verbose,
+            logPath: context?.logPath,
+            traceLogPath: context?.traceLogPath,
+            requestId: context?.requestId,
+          },
         );
+        return { durationMs, holdMs, profile, timingMode: 'runner-series', count, pauseMs, pattern };
       }
+
+      const drag = interactor.drag
+        ? interactor.drag.bind(interactor)
+        : async (pointer: GesturePointer) => await requireGesture(interactor, device, command)([pointer]);
+      await runRepeatedSeries(count, pauseMs, async (index) => {
+        await drag(pattern === 'ping-pong' && index % 2 === 1 ? returnPath : path);
+      });
+      return { durationMs, holdMs, profile, count, pauseMs, pattern };
+    }
+    case 'pinch': {
       const scale = Number(positionals[0]);
-      const x = positionals[1] ? Number(positionals[1]) : undefined;
-      const y = positionals[2] ? Number(positionals[2]) : undefined;
+      const center = parseGestureCenter(positionals.slice(1), 'pinch');
       if (Number.isNaN(scale) || scale <= 0) {
         throw new AppError('INVALID_ARGS', 'pinch requires scale > 0');
       }
-      await runIosRunnerCommand(
-        device,
-        { command: 'pinch', scale, x, y, appBundleId: context?.appBundleId },
-        {
-          verbose: context?.verbose,
-          logPath: context?.logPath,
-          traceLogPath: context?.traceLogPath,
-          requestId: context?.requestId,
-        },
-      );
-      return { scale, x, y };
+      // The iOS runner keeps its one-finger zoom (double-tap and drag), which map views on simulators handle reliably.
+      if (device.platform === 'ios') {
+        await runIosRunnerCommand(
+          device,
+          { command: 'pinch', scale, x: center?.x, y: center?.y, appBundleId: context?.appBundleId },
+          {
+            verbose: context?.verbose,
+            logPath: context?.logPath,
+            traceLogPath: context?.traceLogPath,
+            requestId: context?.requestId,
+          },
+        );
+        return { scale, x: center?.x, y: center?.y };
+      }
+      const gesture = requireGesture(interactor, device, command);
+      await gesture(buildPinchGesture(await resolveGestureFrame(device, context), scale, { center }));
+      return { scale, x: center?.x, y: center?.y };
+    }
+    case 'rotate': {
+      const degrees = Number(positionals[0]);
+      const center = parseGestureCenter(positionals.slice(1), 'rotate');
+      if (!Number.isFinite(degrees) || degrees === 0) {
+        throw new AppError('INVALID_ARGS', 'rotate requires a non-zero angle in degrees');
+      }
+      const gesture = requireGesture(interactor, device, command);
+      await gesture(buildRotateGesture(await resolveGestureFrame(device, context), degrees, { center }));
+      return { degrees, x: center?.x, y: center?.y };
     }
     case 'trigger-app-event': {
       const { eventName, payload } = parseTriggerAppEventArgs(positionals);
@@ -391,6 +449,10 @@ export async function dispatchCommand(
       return { path: screenshotPath };
     }
     case 'back': {
+      if (!isBuiltinPlatform(device.platform)) {
+        await navigateWithBackend(device, 'back', runnerCtx);
+        return { action: 'back' };
+      }
       if (device.platform === 'ios') {
         await runIosRunnerCommand(
           device,
@@ -408,6 +470,10 @@ export async function dispatchCommand(
       return { action: 'back' };
     }
     case 'home': {
+      if (!isBuiltinPlatform(device.platform)) {
+        await navigateWithBackend(device, 'home', runnerCtx);
+        return { action: 'home' };
+      }
       if (device.platform === 'ios') {
         await runIosRunnerCommand(
           device,
@@ -425,6 +491,10 @@ export async function dispatchCommand(
       return { action: 'home' };
     }
     case 'app-switcher': {
+      if (!isBuiltinPlatform(device.platform)) {
+        await navigateWithBackend(device, 'app-switcher', runnerCtx);
+        return { action: 'app-switcher' };
+      }
       if (device.platform === 'ios') {
         await runIosRunnerCommand(
           device,
@@ -516,6 +586,14 @@ export async function dispatchCommand(
           platform: device.platform,
         },
       });
+      if (!isBuiltinPlatform(device.platform)) {
+        const backend = getPlatformBackend(device.platform);
+        if (!backend.setSetting) {
+          throw new AppError('UNSUPPORTED_OPERATION', `settings is not supported on ${device.platform}`);
+        }
+        await backend.setSetting(device, setting, state, appBundleId ?? context?.appBundleId);
+        return { setting, state };
+      }
       if (device.platform === 'ios') {
         await setIosSetting(device, setting, state, appBundleId ?? context?.appBundleId, permissionOptions);
         return { setting, state };
@@ -546,6 +624,32 @@ export async function dispatchCommand(
       };
     }
     case 'snapshot': {
+      if (!isBuiltinPlatform(device.platform)) {
+        const backend = getPlatformBackend(device.platform);
+        if (!backend.snapshot) {
+          throw new AppError('UNSUPPORTED_OPERATION', `snapshot is not supported on ${device.platform}`);
+        }
+        const snapshot = backend.snapshot;
+        const result = await withDiagnosticTimer(
+          'snapshot_capture',
+          async () =>
+            await snapshot(
+              device,
+              {
+                interactiveOnly: context?.snapshotInteractiveOnly,
+                compact: context?.snapshotCompact,
+                depth: context?.snapshotDepth,
+                scope: context?.snapshotScope,
+                raw: context?.snapshotRaw,
+              },
+              runnerCtx,
+            ),
+          {
+            backend: device.platform,
+          },
+        );
+        return { nodes: result.nodes ?? [], truncated: result.truncated ?? false, backend: device.platform };
+      }
       if (device.platform === 'ios') {
         const result = (await withDiagnosticTimer(
           'snapshot_capture',
@@ -608,6 +712,70 @@ export async function dispatchCommand(
   );
 }
 
+function parseDragPoint(value: string): { x: number; y: number } {
+  const match = value.trim().match(/^(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)$/);
+  if (!match) throw new AppError('INVALID_ARGS', `Invalid drag point "${value}"; expected x,y`);
+  return { x: Number(match[1]), y: Number(match[2]) };
+}
+
+function requireGesture(
+  interactor: Interactor,
+  device: DeviceInfo,
+  command: string,
+): (pointers: GesturePointer[]) => Promise<void> {
+  if (!interactor.gesture) {
+    throw new AppError('UNSUPPORTED_OPERATION', `${command} is not supported on ${device.platform}`);
+  }
+  return interactor.gesture.bind(interactor);
+}
+
+function parseGestureCenter(positionals: string[], command: string): { x: number; y: number } | undefined {
+  if (positionals.length === 0) return undefined;
+  const [x, y] = positionals.map(Number);
+  if (positionals.length !== 2 || !Number.isFinite(x) || !Number.isFinite(y)) {
+    throw new AppError('INVALID_ARGS', `${command} center requires both x and y`);
+  }
+  return { x, y };
+}
+
+/** Screen frame that pinch and rotate fingers are placed in; Android reads it from `wm size`, others from a snapshot. */
+async function resolveGestureFrame(
+  device: DeviceInfo,
+  context: Parameters<typeof dispatchCommand>[4],
+): Promise<Rect> {
+  if (device.platform === 'android') {
+    const { width, height } = await getAndroidScreenSize(device);
+    return { x: 0, y: 0, width, height };
+  }
+  const snapshot = (await dispatchCommand(device, 'snapshot', [], undefined, {
+    ...context,
+    snapshotInteractiveOnly: false,
+    snapshotCompact: false,
+    snapshotDepth: 1,
+    snapshotScope: undefined,
+  })) as { nodes?: RawSnapshotNode[] } | undefined;
+  let frame: Rect | undefined;
+  for (const node of snapshot?.nodes ?? []) {
+    const rect = node.rect;
+    if (!rect || rect.width <= 0 || rect.height <= 0) continue;
+    if (!frame || rect.width * rect.height > frame.width * frame.height) frame = rect;
+  }
+  if (!frame) throw new AppError('COMMAND_FAILED', 'Unable to resolve the screen frame for the gesture');
+  return frame;
+}
+
+async function navigateWithBackend(
+  device: DeviceInfo,
+  action: PlatformNavigationAction,
+  runnerCtx: RunnerContext,
+): Promise<void> {
+  const backend = getPlatformBackend(device.platform);
+  if (!backend.navigate) {
+    throw new AppError('UNSUPPORTED_OPERATION', `${action} is not supported on ${device.platform}`);
+  }
+  await backend.navigate(device, action, runnerCtx);
+}
+
 const DETERMINISTIC_JITTER_PATTERN: ReadonlyArray<readonly [number, number]> = [
   [0, 0],
   [1, 0],
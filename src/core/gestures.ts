@@ -0,0 +1,253 @@
+import { AppError } from '../utils/errors.ts';
+import type { Rect } from '../utils/snapshot.ts';
+
+export type GesturePoint = {
+  x: number;
+  y: number;
+  /** Milliseconds from the start of the gesture. */
+  t: number;
+};
+
+/** One finger: it touches down at the first point, moves through the rest and lifts at the last. */
+export type GesturePointer = GesturePoint[];
+
+/** Speed curve of a drag: `ease-in` starts slow, `ease-out` ends slow (what sliders and reordering expect). */
+export type DragProfile = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
+
+export const DEFAULT_GESTURE_DURATION_MS = 400;
+export const DEFAULT_DRAG_DURATION_MS = 500;
+export const MAX_GESTURE_POINTERS = 5;
+export const MAX_GESTURE_DURATION_MS = 10_000;
+
+const POINTER_SYNTAX = 'x,y[@ms];x,y[@ms];...';
+// Rotation paths get an intermediate point every few degrees so linear interpolation stays close to the arc.
+const ROTATE_STEP_DEGREES = 10;
+// Eased drags are sampled about once per display frame, up to a cap, so the speed curve survives interpolation.
+const DRAG_FRAME_MS = 16;
+const MAX_DRAG_SAMPLES = 60;
+
+const DRAG_PROFILES: Record<DragProfile, (progress: number) => number> = {
+  linear: (u) => u,
+  'ease-in': (u) => u * u,
+  'ease-out': (u) => 1 - (1 - u) * (1 - u),
+  'ease-in-out': (u) => (u < 0.5 ? 2 * u * u : 1 - 2 * (1 - u) * (1 - u)),
+};
+
+/**
+ * Parses `gesture` positionals, one finger per positional: `x,y[@ms];x,y[@ms];...`. Points without a time are
+ * spread evenly between their timed neighbours; the first defaults to 0 and the last to `durationMs` (or the latest
+ * explicit time, if that is later).
+ */
+export function parseGesturePointers(specs: string[], durationMs = DEFAULT_GESTURE_DURATION_MS): GesturePointer[] {
+  if (specs.length === 0) {
+    throw new AppError('INVALID_ARGS', `gesture requires at least one pointer path (${POINTER_SYNTAX})`);
+  }
+  const pointers = specs.map((spec) => parseGesturePointer(spec, durationMs));
+  validateGesturePointers(pointers);
+  return pointers;
+}
+
+function parseGesturePointer(spec: string, durationMs: number): GesturePointer {
+  const raw = spec
+    .split(';')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      const match = entry.match(/^(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)(?:@(\d+))?$/);
+      if (!match) {
+        throw new AppError('INVALID_ARGS', `Invalid gesture point "${entry}"; expected ${POINTER_SYNTAX}`);
+      }
+      return { x: Number(match[1]), y: Number(match[2]), t: match[3] === undefined ? undefined : Number(match[3]) };
+    });
+  if (raw.length === 0) {
+    throw new AppError('INVALID_ARGS', `Empty gesture pointer path; expected ${POINTER_SYNTAX}`);
+  }
+  if (raw.length === 1 && raw[0].t === undefined) return [{ ...raw[0], t: 0 }, { ...raw[0], t: durationMs }];
+  if (raw[0].t === undefined) raw[0].t = 0;
+  if (raw.length > 1 && raw[raw.length - 1].t === undefined) {
+    raw[raw.length - 1].t = Math.max(durationMs, ...raw.map((point) => point.t ?? 0));
+  }
+  let previous = 0;
+  for (let index = 1; index < raw.length; index += 1) {
+    if (raw[index].t !== undefined) {
+      const from = raw[previous].t!;
+      const span = index - previous;
+      for (let gap = previous + 1; gap < index; gap += 1) {
+        raw[gap].t = Math.round(from + ((raw[index].t! - from) * (gap - previous)) / span);
+      }
+      previous = index;
+    }
+  }
+  return raw.map((point) => ({ x: point.x, y: point.y, t: point.t! }));
+}
+
+export function validateGesturePointers(pointers: GesturePointer[]): void {
+  if (pointers.length === 0 || pointers.length > MAX_GESTURE_POINTERS) {
+    throw new AppError('INVALID_ARGS', `gesture supports 1..${MAX_GESTURE_POINTERS} pointers`);
+  }
+  for (const pointer of pointers) {
+    if (pointer.length === 0) throw new AppError('INVALID_ARGS', 'gesture pointer paths need at least one point');
+    for (let index = 0; index < pointer.length; index += 1) {
+      const point = pointer[index];
+      if (![point.x, point.y, point.t].every(Number.isFinite) || point.x < 0 || point.y < 0) {
+        throw new AppError('INVALID_ARGS', 'gesture points need non-negative x, y and time values');
+      }
+      if (index > 0 && point.t < pointer[index - 1].t) {
+        throw new AppError('INVALID_ARGS', 'gesture point times must not decrease along a path');
+      }
+    }
+  }
+  if (gestureDurationMs(pointers) > MAX_GESTURE_DURATION_MS) {
+    throw new AppError('INVALID_ARGS', `gesture must finish within ${MAX_GESTURE_DURATION_MS}ms`);
+  }
+}
+
+export function gestureDurationMs(pointers: GesturePointer[]): number {
+  return Math.max(0, ...pointers.map((pointer) => pointer[pointer.length - 1]?.t ?? 0));
+}
+
+/** Position of a finger at time `t`, or null before it touches down and after it lifts. */
+export function gesturePointerPositionAt(pointer: GesturePointer, t: number): { x: number; y: number } | null {
+  const first = pointer[0];
+  const last = pointer[pointer.length - 1];
+  if (!first || t < first.t || t > last.t) return null;
+  for (let index = 1; index < pointer.length; index += 1) {
+    const from = pointer[index - 1];
+    const to = pointer[index];
+    if (t > to.t) continue;
+    const progress = to.t === from.t ? 1 : (t - from.t) / (to.t - from.t);
+    return {
+      x: Math.round(from.x + (to.x - from.x) * progress),
+      y: Math.round(from.y + (to.y - from.y) * progress),
+    };
+  }
+  return { x: Math.round(last.x), y: Math.round(last.y) };
+}
+
+/**
+ * Two fingers on a horizontal line through `center`; their distance changes by `scale` (> 1 zooms in). The wider
+ * end of the pinch spans 60% of the frame's shorter side.
+ */
+export function buildPinchGesture(
+  frame: Rect,
+  scale: number,
+  options: { center?: { x: number; y: number }; durationMs?: number } = {},
+): GesturePointer[] {
+  if (!Number.isFinite(scale) || scale <= 0) throw new AppError('INVALID_ARGS', 'pinch requires scale > 0');
+  const center = options.center ?? rectCenter(frame);
+  const durationMs = options.durationMs ?? DEFAULT_GESTURE_DURATION_MS;
+  const maxRadius = Math.min(frame.width, frame.height) * 0.3;
+  const minRadius = Math.min(frame.width, frame.height) * 0.04;
+  const from = Math.max(minRadius, scale >= 1 ? maxRadius / scale : maxRadius);
+  const to = Math.max(minRadius, scale >= 1 ? maxRadius : maxRadius * scale);
+  return [-1, 1].map((side) => [
+    clampPoint(frame, { x: center.x + side * from, y: center.y, t: 0 }),
+    clampPoint(frame, { x: center.x + side * to, y: center.y, t: durationMs }),
+  ]);
+}
+
+/** Two fingers opposite each other on a circle around `center`, turned by `degrees` (positive is clockwise). */
+export function buildRotateGesture(
+  frame: Rect,
+  degrees: number,
+  options: { center?: { x: number; y: number }; durationMs?: number } = {},
+): GesturePointer[] {
+  if (!Number.isFinite(degrees) || degrees === 0) {
+    throw new AppError('INVALID_ARGS', 'rotate requires a non-zero angle in degrees');
+  }
+  const center = options.center ?? rectCenter(frame);
+  const durationMs = options.durationMs ?? DEFAULT_GESTURE_DURATION_MS;
+  const radius = Math.min(frame.width, frame.height) * 0.25;
+  const steps = Math.max(2, Math.ceil(Math.abs(degrees) / ROTATE_STEP_DEGREES));
+  return [0, 180].map((startDegrees) =>
+    Array.from({ length: steps + 1 }, (_, step) => {
+      const angle = ((startDegrees + (degrees * step) / steps) * Math.PI) / 180;
+      return clampPoint(frame, {
+        x: center.x + radius * Math.cos(angle),
+        y: center.y + radius * Math.sin(angle),
+        t: Math.round((durationMs * step) / steps),
+      });
+    }),
+  );
+}
+
+/**
+ * One finger dragged through `points` (start, waypoints, end): it holds the start for `holdMs`, then travels the
+ * path in `durationMs` following `profile`. Every waypoint is kept as a sample, so corners are not cut.
+ */
+export function buildDragPath(
+  points: Array<{ x: number; y: number }>,
+  options: { durationMs?: number; holdMs?: number; profile?: DragProfile } = {},
+): GesturePointer {
+  if (points.length < 2) throw new AppError('INVALID_ARGS', 'drag requires a start and an end point');
+  const durationMs = options.durationMs ?? DEFAULT_DRAG_DURATION_MS;
+  const holdMs = options.holdMs ?? 0;
+  const ease = DRAG_PROFILES[options.profile ?? 'linear'];
+  const distances = [0];
+  for (let index = 1; index < points.length; index += 1) {
+    const previous = points[index - 1];
+    distances.push(distances[index - 1] + Math.hypot(points[index].x - previous.x, points[index].y - previous.y));
+  }
+  const total = distances[distances.length - 1];
+  const start = { x: Math.round(points[0].x), y: Math.round(points[0].y) };
+  const path: GesturePointer = [{ ...start, t: 0 }];
+  if (holdMs > 0) path.push({ ...start, t: holdMs });
+
+  // Sample times as fractions of the move: one per waypoint, plus a regular grid when the speed is not constant.
+  const fractions = new Set<number>([1]);
+  if (total > 0) {
+    distances.slice(1, -1).forEach((distance) => fractions.add(invertProfile(ease, distance / total)));
+  }
+  if (options.profile && options.profile !== 'linear') {
+    const samples = Math.min(MAX_DRAG_SAMPLES, Math.max(1, Math.ceil(durationMs / DRAG_FRAME_MS)));
+    for (let sample = 1; sample < samples; sample += 1) fractions.add(sample / samples);
+  }
+  for (const fraction of [...fractions].sort((left, right) => left - right)) {
+    const t = holdMs + Math.round(durationMs * fraction);
+    const position = positionAlongPath(points, distances, total * ease(fraction));
+    const last = path[path.length - 1];
+    if (t === last.t && path.length > 1) path.pop();
+    path.push({ ...position, t });
+  }
+  validateGesturePointers([path]);
+  return path;
+}
+
+function invertProfile(ease: (progress: number) => number, target: number): number {
+  let low = 0;
+  let high = 1;
+  for (let step = 0; step < 24; step += 1) {
+    const middle = (low + high) / 2;
+    if (ease(middle) < target) low = middle;
+    else high = middle;
+  }
+  return (low + high) / 2;
+}
+
+function positionAlongPath(
+  points: Array<{ x: number; y: number }>,
+  distances: number[],
+  distance: number,
+): { x: number; y: number } {
+  for (let index = 1; index < points.length; index += 1) {
+    if (distance > distances[index] && index < points.length - 1) continue;
+    const span = distances[index] - distances[index - 1];
+    const progress = span === 0 ? 1 : Math.min(1, Math.max(0, (distance - distances[index - 1]) / span));
+    const from = points[index - 1];
+    const to = points[index];
+    return { x: Math.round(from.x + (to.x - from.x) * progress), y: Math.round(from.y + (to.y - from.y) * progress) };
+  }
+  return { x: Math.round(points[0].x), y: Math.round(points[0].y) };
+}
+
+function rectCenter(rect: Rect): { x: number; y: number } {
+  return { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 };
+}
+
+function clampPoint(frame: Rect, point: GesturePoint): GesturePoint {
+  return {
+    x: Math.round(Math.min(frame.x + frame.width - 1, Math.max(frame.x, point.x))),
+    y: Math.round(Math.min(frame.y + frame.height - 1, Math.max(frame.y, point.y))),
+    t: point.t,
+  };
+}
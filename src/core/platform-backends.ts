@@ -0,0 +1,156 @@
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { AppError } from '../utils/errors.ts';
+import type { DeviceInfo, DeviceKind } from '../utils/device.ts';
+import type { Interactor, RunnerContext } from '../utils/interactors.ts';
+import type { RawSnapshotNode, SnapshotOptions } from '../utils/snapshot.ts';
+import type { AppLogResult } from '../daemon/app-log.ts';
+import type { CommandFlags } from './dispatch.ts';
+import { androidBackend } from '../platforms/android/backend.ts';
+import { iosBackend } from '../platforms/ios/backend.ts';
+import { fakeBackend } from '../platforms/fake/backend.ts';
+
+export type PlatformKindMatrix = Partial<Record<DeviceKind | 'unknown', boolean>>;
+
+export type PlatformNavigationAction = 'back' | 'home' | 'app-switcher';
+
+export type PlatformBackend = {
+  /** Value matched against `--platform` and stored in `DeviceInfo.platform`. */
+  platform: string;
+  listDevices(flags: CommandFlags): Promise<DeviceInfo[]>;
+  createInteractor(device: DeviceInfo, context: RunnerContext): Interactor;
+  snapshot?(
+    device: DeviceInfo,
+    options: SnapshotOptions,
+    context: RunnerContext,
+  ): Promise<{ nodes: RawSnapshotNode[]; truncated?: boolean }>;
+  navigate?(device: DeviceInfo, action: PlatformNavigationAction, context: RunnerContext): Promise<void>;
+  setSetting?(device: DeviceInfo, setting: string, state: string, appBundleId?: string): Promise<void>;
+  startAppLog?(device: DeviceInfo, appBundleId: string, outPath: string): Promise<AppLogResult>;
+  /**
+   * Commands this backend supports, keyed like the built-in capability matrix. Commands listed in the
+   * built-in matrix are unsupported unless declared here; other commands default to supported.
+   */
+  capabilities?: Record<string, boolean | PlatformKindMatrix>;
+};
+
+const BUILTIN_PLATFORMS = new Set(['ios', 'android']);
+// Names that ship with agent-device; `fake` is a regular backend but cannot be replaced either.
+const RESERVED_PLATFORMS = new Set(['apple', 'ios', 'android', 'fake']);
+const PLATFORM_NAME_RE = /^[a-z][a-z0-9-]{0,31}$/;
+
+const backends = new Map<string, PlatformBackend>([
+  [androidBackend.platform, androidBackend],
+  [iosBackend.platform, iosBackend],
+  [fakeBackend.platform, fakeBackend],
+]);
+
+let loadedBackendModules: Promise<void> | null = null;
+
+export function isBuiltinPlatform(platform: string): boolean {
+  return BUILTIN_PLATFORMS.has(platform);
+}
+
+export function registerPlatformBackend(backend: PlatformBackend): void {
+  if (!backend || typeof backend.platform !== 'string' || !PLATFORM_NAME_RE.test(backend.platform)) {
+    throw new AppError('INVALID_ARGS', 'Platform backend requires a lowercase platform name (a-z, 0-9, -).');
+  }
+  if (RESERVED_PLATFORMS.has(backend.platform)) {
+    throw new AppError('INVALID_ARGS', `Platform ${backend.platform} is built in and cannot be replaced`);
+  }
+  if (typeof backend.listDevices !== 'function' || typeof backend.createInteractor !== 'function') {
+    throw new AppError(
+      'INVALID_ARGS',
+      `Platform backend ${backend.platform} must implement listDevices and createInteractor`,
+    );
+  }
+  backends.set(backend.platform, backend);
+}
+
+export function unregisterPlatformBackend(platform: string): boolean {
+  if (RESERVED_PLATFORMS.has(platform)) return false;
+  return backends.delete(platform);
+}
+
+export function findPlatformBackend(platform: string): PlatformBackend | undefined {
+  return backends.get(platform);
+}
+
+export function getPlatformBackend(platform: string): PlatformBackend {
+  const backend = backends.get(platform);
+  if (!backend) {
+    throw new AppError('UNSUPPORTED_PLATFORM', `Unsupported platform: ${platform}`, {
+      registeredPlatforms: listPlatformBackends().map((entry) => entry.platform),
+    });
+  }
+  return backend;
+}
+
+export function listPlatformBackends(): PlatformBackend[] {
+  return Array.from(backends.values());
+}
+
+/**
+ * Backends searched when no `--platform` is given. The fake backend always reports its demo device, so it only
+ * joins once a screen graph is configured; otherwise it would shadow or outnumber real devices.
+ */
+export function listDiscoveryBackends(
+  flags: Pick<CommandFlags, 'fakeScreenGraph'>,
+  env: NodeJS.ProcessEnv = process.env,
+): PlatformBackend[] {
+  const includeFake = Boolean(flags.fakeScreenGraph || env.AGENT_DEVICE_FAKE_SCREEN_GRAPH);
+  return listPlatformBackends().filter((backend) => includeFake || backend.platform !== fakeBackend.platform);
+}
+
+export function isCommandDeclaredByBackend(
+  backend: PlatformBackend,
+  command: string,
+  device: DeviceInfo,
+): boolean | undefined {
+  const declared = backend.capabilities?.[command];
+  if (declared === undefined) return undefined;
+  if (typeof declared === 'boolean') return declared;
+  return declared[device.kind ?? 'unknown'] === true;
+}
+
+/**
+ * Loads third-party backends listed in AGENT_DEVICE_PLATFORM_BACKENDS (comma-separated module paths).
+ * Each module export may be a backend or an array of backends.
+ */
+export async function loadPlatformBackendModules(env: NodeJS.ProcessEnv = process.env): Promise<void> {
+  loadedBackendModules ??= loadConfiguredBackends(env);
+  await loadedBackendModules;
+}
+
+async function loadConfiguredBackends(env: NodeJS.ProcessEnv): Promise<void> {
+  const configured = env.AGENT_DEVICE_PLATFORM_BACKENDS;
+  if (!configured) return;
+  const exportName = env.AGENT_DEVICE_PLATFORM_BACKEND_EXPORT || 'default';
+  const modulePaths = configured
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+  for (const modulePath of modulePaths) {
+    const resolvedPath = path.isAbsolute(modulePath) ? modulePath : path.resolve(modulePath);
+    let imported: Record<string, unknown>;
+    try {
+      imported = await import(pathToFileURL(resolvedPath).href) as Record<string, unknown>;
+    } catch (error) {
+      throw new AppError('COMMAND_FAILED', 'Failed to load AGENT_DEVICE_PLATFORM_BACKENDS module', {
+        modulePath: resolvedPath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    const exported = imported[exportName];
+    const candidates = Array.isArray(exported) ? exported : [exported];
+    if (candidates.length === 0 || candidates.some((entry) => !entry || typeof entry !== 'object')) {
+      throw new AppError('INVALID_ARGS', `Platform backend export ${exportName} is not a backend object`, {
+        modulePath: resolvedPath,
+        exportName,
+      });
+    }
+    for (const candidate of candidates) {
+      registerPlatformBackend(candidate as PlatformBackend);
+    }
+  }
+}
@@ -11,10 +11,13 @@ import { abortAllIosRunnerSessions, stopAllIosRunnerSessions } from './platforms
 import type { DaemonRequest, DaemonResponse } from './daemon/types.ts';
 import { SessionStore } from './daemon/session-store.ts';
 import { contextFromFlags as contextFromFlagsWithLog, type DaemonCommandContext } from './daemon/context.ts';
-import { handleSessionCommands } from './daemon/handlers/session.ts';
+import { handleSessionCommands, stopSessionCaptures } from './daemon/handlers/session.ts';
+import { restoreMacHostProxy } from './daemon/network-proxy.ts';
 import { handleSnapshotCommands } from './daemon/handlers/snapshot.ts';
+import { handleScreenshotCommands } from './daemon/handlers/screenshot.ts';
 import { handleFindCommands } from './daemon/handlers/find.ts';
-import { handleRecordTraceCommands } from './daemon/handlers/record-trace.ts';
+import { handleRecordTraceCommands, runTracedRequest } from './daemon/handlers/record-trace.ts';
+import { handleInterruptionCommands, runWithInterruptionHandlers } from './daemon/handlers/interruption.ts';
 import { handleInteractionCommands } from './daemon/handlers/interaction.ts';
 import { handleLeaseCommands } from './daemon/handlers/lease.ts';
 import { cleanupStaleAppLogProcesses } from './daemon/app-log.ts';
@@ -25,7 +28,13 @@ import {
   isAgentDeviceDaemonProcess,
   readProcessStartTime,
 } from './utils/process-identity.ts';
-import { emitDiagnostic, flushDiagnosticsToSessionFile, getDiagnosticsMeta, withDiagnosticsScope } from './utils/diagnostics.ts';
+import {
+  emitDiagnostic,
+  flushDiagnosticsToSessionFile,
+  getDiagnosticsMeta,
+  subscribeDiagnostics,
+  withDiagnosticsScope,
+} from './utils/diagnostics.ts';
 import {
   normalizeTenantId,
   resolveDaemonPaths,
@@ -33,29 +42,92 @@ import {
   resolveSessionIsolationMode,
 } from './daemon/config.ts';
 import { createDaemonHttpServer } from './daemon/http-server.ts';
-import { LeaseRegistry } from './daemon/lease-registry.ts';
-import { resolveLeaseScope } from './daemon/lease-context.ts';
+import { LeaseRegistry, type DeviceLease } from './daemon/lease-registry.ts';
+import { createAppLogFollower, createDaemonEventBus, type AppLogSource } from './daemon/events.ts';
+import { readDeviceGroups, runDeviceFanout } from './daemon/device-fanout.ts';
+import { loadPlatformBackendModules } from './core/platform-backends.ts';
+import { bindRequestToLeasedDevice, resolveLeaseScope } from './daemon/lease-context.ts';
 
 const daemonPaths = resolveDaemonPaths(process.env.AGENT_DEVICE_STATE_DIR);
-const { baseDir, infoPath, lockPath, logPath, sessionsDir } = daemonPaths;
+const { baseDir, infoPath, lockPath, logPath, sessionsDir, leasesDir } = daemonPaths;
 const daemonServerMode = resolveDaemonServerMode(process.env.AGENT_DEVICE_DAEMON_SERVER_MODE);
 cleanupStaleAppLogProcesses(sessionsDir);
-const sessionStore = new SessionStore(sessionsDir);
+const sessionStore = new SessionStore(sessionsDir, {
+  persist: process.env.AGENT_DEVICE_SESSION_PERSIST !== '0',
+});
+const daemonEvents = createDaemonEventBus({
+  onSubscribersChange: (count) => (count > 0 ? appLogFollower.start() : appLogFollower.stop()),
+});
+// Client-facing session name and tenant per stored session, so streamed app log lines can be filtered like commands.
+const sessionEventScopes = new Map<string, { session: string; tenantId?: string }>();
+const appLogFollower = createAppLogFollower({
+  listSources: () => listAppLogSources(),
+  publish: (event) => daemonEvents.publish(event),
+});
+subscribeDiagnostics((event) => {
+  daemonEvents.publish({
+    type: 'diagnostic',
+    session: event.session,
+    tenantId: event.tenantId,
+    data: {
+      level: event.level,
+      phase: event.phase,
+      requestId: event.requestId,
+      command: event.command,
+      durationMs: event.durationMs,
+      data: event.data,
+    },
+  });
+});
 const leaseRegistry = new LeaseRegistry({
+  persistDir: process.env.AGENT_DEVICE_LEASE_PERSIST !== '0' ? leasesDir : undefined,
   maxActiveSimulatorLeases: parseIntegerEnv(process.env.AGENT_DEVICE_MAX_SIMULATOR_LEASES),
   defaultLeaseTtlMs: parseIntegerEnv(process.env.AGENT_DEVICE_LEASE_TTL_MS),
   minLeaseTtlMs: parseIntegerEnv(process.env.AGENT_DEVICE_LEASE_MIN_TTL_MS),
   maxLeaseTtlMs: parseIntegerEnv(process.env.AGENT_DEVICE_LEASE_MAX_TTL_MS),
+  onLeaseChange: ({ action, lease }) => {
+    daemonEvents.publish({
+      type: 'lease',
+      tenantId: lease.tenantId,
+      data: {
+        action,
+        leaseId: lease.leaseId,
+        runId: lease.runId,
+        backend: lease.backend,
+        device: lease.device,
+        expiresAt: lease.expiresAt,
+      },
+    });
+    // Sessions opened under a lease end with it.
+    if (action === 'released' || action === 'expired') void closeLeaseSessions(lease);
+  },
+  onLeaseQueueChange: ({ action, entry }) => {
+    daemonEvents.publish({
+      type: 'lease',
+      tenantId: entry.tenantId,
+      data: {
+        action,
+        runId: entry.runId,
+        priority: entry.priority,
+        position: entry.position,
+        waitedMs: entry.waitedMs,
+      },
+    });
+  },
 });
+const leaseSweepIntervalMs = 5_000;
+leaseRegistry.restore();
 const version = readVersion();
 const token = crypto.randomBytes(24).toString('hex');
-const selectorValidationExemptCommands = new Set(['session_list', 'devices']);
+const selectorValidationExemptCommands = new Set(['session_list', 'devices', 'lease']);
 const leaseAdmissionExemptCommands = new Set([
   'session_list',
   'devices',
   'lease_allocate',
   'lease_heartbeat',
   'lease_release',
+  'lease_queue',
+  'lease',
 ]);
 const disconnectAbortPollIntervalMs = 200;
 const disconnectAbortMaxWindowMs = 15_000;
@@ -110,9 +182,11 @@ function scopeRequestSession(req: DaemonRequest): DaemonRequest {
 async function handleRequest(req: DaemonRequest): Promise<DaemonResponse> {
   const normalizedReq = normalizeAliasedCommands(req);
   const debug = Boolean(normalizedReq.meta?.debug || normalizedReq.flags?.verbose);
+  const tenantId = normalizeTenantId(normalizedReq.meta?.tenantId ?? normalizedReq.flags?.tenant);
   return await withDiagnosticsScope(
     {
       session: normalizedReq.session,
+      tenantId,
       requestId: normalizedReq.meta?.requestId,
       command: normalizedReq.command,
       debug,
@@ -124,126 +198,211 @@ async function handleRequest(req: DaemonRequest): Promise<DaemonResponse> {
         return { ok: false, error: unauthorizedError };
       }
 
-      try {
-        const scopedReq = scopeRequestSession(normalizedReq);
-        emitDiagnostic({
-          level: 'info',
-          phase: 'request_start',
-          data: {
-            session: scopedReq.session,
-            command: scopedReq.command,
-            tenant: scopedReq.meta?.tenantId,
-            isolation: scopedReq.meta?.sessionIsolation,
-          },
-        });
+      const eventScope = { session: normalizedReq.session || 'default', tenantId };
+      const startedAt = Date.now();
+      daemonEvents.publish({
+        type: 'command_start',
+        ...eventScope,
+        data: {
+          command: normalizedReq.command,
+          positionals: normalizedReq.positionals,
+          requestId: normalizedReq.meta?.requestId,
+        },
+      });
+      const response = await handleAuthorizedRequest(normalizedReq, eventScope);
+      daemonEvents.publish({
+        type: 'command_finish',
+        ...eventScope,
+        data: {
+          command: normalizedReq.command,
+          requestId: normalizedReq.meta?.requestId,
+          ok: response.ok,
+          durationMs: Date.now() - startedAt,
+          error: response.ok ? undefined : { code: response.error.code, message: response.error.message },
+        },
+      });
+      return response;
+    },
+  );
+}
 
-        const command = scopedReq.command;
-        const leaseScope = resolveLeaseScope(scopedReq);
-        if (!leaseAdmissionExemptCommands.has(command) && scopedReq.meta?.sessionIsolation === 'tenant') {
-          leaseRegistry.assertLeaseAdmission({
-            tenantId: leaseScope.tenantId,
-            runId: leaseScope.runId,
-            leaseId: leaseScope.leaseId,
-            backend: leaseScope.leaseBackend,
-          });
-        }
-        const sessionName = resolveEffectiveSessionName(scopedReq, sessionStore);
-        const existingSession = sessionStore.get(sessionName);
-        if (existingSession && !selectorValidationExemptCommands.has(command)) {
-          assertSessionSelectorMatches(existingSession, scopedReq.flags);
-        }
+async function handleAuthorizedRequest(
+  normalizedReq: DaemonRequest,
+  eventScope: { session: string; tenantId?: string },
+): Promise<DaemonResponse> {
+  let sessionName: string | undefined;
+  try {
+    if (normalizedReq.flags?.devices) {
+      // Each device runs as its own request, so tenant scoping and lease admission apply per device.
+      return await runDeviceFanout({ req: normalizedReq, groups: readDeviceGroups(baseDir), invoke: handleRequest });
+    }
+    let scopedReq = scopeRequestSession(normalizedReq);
+    emitDiagnostic({
+      level: 'info',
+      phase: 'request_start',
+      data: {
+        session: scopedReq.session,
+        command: scopedReq.command,
+        tenant: scopedReq.meta?.tenantId,
+        isolation: scopedReq.meta?.sessionIsolation,
+      },
+    });
 
-        const leaseResponse = await handleLeaseCommands({
-          req: scopedReq,
-          leaseRegistry,
-        });
-        if (leaseResponse) return finalizeDaemonResponse(leaseResponse);
+    const command = scopedReq.command;
+    const leaseScope = resolveLeaseScope(scopedReq);
+    let admittedLeaseId: string | undefined;
+    if (!leaseAdmissionExemptCommands.has(command) && scopedReq.meta?.sessionIsolation === 'tenant') {
+      const lease = leaseRegistry.assertLeaseAdmission({
+        tenantId: leaseScope.tenantId,
+        runId: leaseScope.runId,
+        leaseId: leaseScope.leaseId,
+        backend: leaseScope.leaseBackend,
+      });
+      if (lease.device) scopedReq = bindRequestToLeasedDevice(scopedReq, lease.device);
+      admittedLeaseId = lease.leaseId;
+    }
+    sessionName = resolveEffectiveSessionName(scopedReq, sessionStore);
+    sessionEventScopes.set(sessionName, {
+      session: scopedReq.session === sessionName ? eventScope.session : sessionName,
+      tenantId: eventScope.tenantId,
+    });
+    const existingSession = sessionStore.get(sessionName);
+    if (existingSession && !selectorValidationExemptCommands.has(command)) {
+      assertSessionSelectorMatches(existingSession, scopedReq.flags);
+    }
 
-        const sessionResponse = await handleSessionCommands({
-          req: scopedReq,
-          sessionName,
-          logPath,
+    const effectiveSessionName = sessionName;
+    const effectiveReq = scopedReq;
+    const response = await runTracedRequest({
+      req: effectiveReq,
+      sessionName: effectiveSessionName,
+      sessionStore,
+      logPath,
+      run: () =>
+        runWithInterruptionHandlers({
+          req: effectiveReq,
+          sessionName: effectiveSessionName,
           sessionStore,
-          invoke: handleRequest,
-        });
-        if (sessionResponse) return finalizeDaemonResponse(sessionResponse);
-
-        const snapshotResponse = await handleSnapshotCommands({
-          req: scopedReq,
-          sessionName,
           logPath,
-          sessionStore,
-        });
-        if (snapshotResponse) return finalizeDaemonResponse(snapshotResponse);
+          run: () => dispatchScopedRequest(effectiveReq, effectiveSessionName),
+        }),
+    });
+    const admittedSession = sessionStore.get(effectiveSessionName);
+    if (admittedLeaseId && admittedSession) {
+      const { platform, id, name } = admittedSession.device;
+      leaseRegistry.bindLeaseSession(admittedLeaseId, { name: effectiveSessionName, device: { platform, id, name } });
+    }
+    return response;
+  } catch (error) {
+    emitDiagnostic({
+      level: 'error',
+      phase: 'request_failed',
+      data: {
+        error: error instanceof Error ? error.message : String(error),
+      },
+    });
+    const details = getDiagnosticsMeta();
+    const logPathOnFailure = flushDiagnosticsToSessionFile({ force: true }) ?? undefined;
+    const normalizedError = normalizeError(error, {
+      diagnosticId: details.diagnosticId,
+      logPath: logPathOnFailure,
+    });
+    return { ok: false, error: normalizedError };
+  } finally {
+    if (sessionName) sessionStore.persist(sessionName);
+  }
+}
 
-        const recordTraceResponse = await handleRecordTraceCommands({
-          req: scopedReq,
-          sessionName,
-          sessionStore,
-          logPath,
-        });
-        if (recordTraceResponse) return finalizeDaemonResponse(recordTraceResponse);
+async function dispatchScopedRequest(scopedReq: DaemonRequest, sessionName: string): Promise<DaemonResponse> {
+  const command = scopedReq.command;
+  const leaseResponse = await handleLeaseCommands({
+    req: scopedReq,
+    leaseRegistry,
+  });
+  if (leaseResponse) return finalizeDaemonResponse(leaseResponse);
 
-        const findResponse = await handleFindCommands({
-          req: scopedReq,
-          sessionName,
-          logPath,
-          sessionStore,
-          invoke: handleRequest,
-        });
-        if (findResponse) return finalizeDaemonResponse(findResponse);
+  const interruptionResponse = await handleInterruptionCommands({
+    req: scopedReq,
+    sessionName,
+    sessionStore,
+  });
+  if (interruptionResponse) return finalizeDaemonResponse(interruptionResponse);
+
+  const sessionResponse = await handleSessionCommands({
+    req: scopedReq,
+    sessionName,
+    logPath,
+    sessionStore,
+    invoke: handleRequest,
+  });
+  if (sessionResponse) return finalizeDaemonResponse(sessionResponse);
 
-        const interactionResponse = await handleInteractionCommands({
-          req: scopedReq,
-          sessionName,
-          sessionStore,
-          contextFromFlags,
-        });
-        if (interactionResponse) return finalizeDaemonResponse(interactionResponse);
-
-        const session = sessionStore.get(sessionName);
-        if (!session) {
-          return finalizeDaemonResponse({
-            ok: false,
-            error: { code: 'SESSION_NOT_FOUND', message: 'No active session. Run open first.' },
-          });
-        }
+  const screenshotResponse = await handleScreenshotCommands({
+    req: scopedReq,
+    sessionName,
+    logPath,
+    sessionStore,
+  });
+  if (screenshotResponse) return finalizeDaemonResponse(screenshotResponse);
 
-        if (!isCommandSupportedOnDevice(command, session.device)) {
-          return finalizeDaemonResponse({
-            ok: false,
-            error: { code: 'UNSUPPORTED_OPERATION', message: `${command} is not supported on this device` },
-          });
-        }
+  const snapshotResponse = await handleSnapshotCommands({
+    req: scopedReq,
+    sessionName,
+    logPath,
+    sessionStore,
+  });
+  if (snapshotResponse) return finalizeDaemonResponse(snapshotResponse);
 
-        const data = await dispatchCommand(session.device, command, scopedReq.positionals ?? [], scopedReq.flags?.out, {
-          ...contextFromFlags(scopedReq.flags, session.appBundleId, session.trace?.outPath),
-        });
-        sessionStore.recordAction(session, {
-          command,
-          positionals: scopedReq.positionals ?? [],
-          flags: scopedReq.flags ?? {},
-          result: data ?? {},
-        });
-        return finalizeDaemonResponse({ ok: true, data: data ?? {} });
-      } catch (error) {
-        emitDiagnostic({
-          level: 'error',
-          phase: 'request_failed',
-          data: {
-            error: error instanceof Error ? error.message : String(error),
-          },
-        });
-        const details = getDiagnosticsMeta();
-        const logPathOnFailure = flushDiagnosticsToSessionFile({ force: true }) ?? undefined;
-        const normalizedError = normalizeError(error, {
-          diagnosticId: details.diagnosticId,
-          logPath: logPathOnFailure,
-        });
-        return { ok: false, error: normalizedError };
-      }
-    },
-  );
+  const recordTraceResponse = await handleRecordTraceCommands({
+    req: scopedReq,
+    sessionName,
+    sessionStore,
+    logPath,
+  });
+  if (recordTraceResponse) return finalizeDaemonResponse(recordTraceResponse);
+
+  const findResponse = await handleFindCommands({
+    req: scopedReq,
+    sessionName,
+    logPath,
+    sessionStore,
+    invoke: handleRequest,
+  });
+  if (findResponse) return finalizeDaemonResponse(findResponse);
+
+  const interactionResponse = await handleInteractionCommands({
+    req: scopedReq,
+    sessionName,
+    sessionStore,
+    contextFromFlags,
+  });
+  if (interactionResponse) return finalizeDaemonResponse(interactionResponse);
+
+  const session = sessionStore.get(sessionName);
+  if (!session) {
+    return finalizeDaemonResponse({
+      ok: false,
+      error: { code: 'SESSION_NOT_FOUND', message: 'No active session. Run open first.' },
+    });
+}
+
+  if (!isCommandSupportedOnDevice(command, session.device)) {
+    return finalizeDaemonResponse({
+      ok: false,
+      error: { code: 'UNSUPPORTED_OPERATION', message: `${command} is not supported on this device` },
+    });
+}
+
+  const data = await dispatchCommand(session.device, command, scopedReq.positionals ?? [], scopedReq.flags?.out, {
+    ...contextFromFlags(scopedReq.flags, session.appBundleId, session.trace?.outPath),
+  });
+  sessionStore.recordAction(session, {
+    command,
+    positionals: scopedReq.positionals ?? [],
+    flags: scopedReq.flags ?? {},
+    result: data ?? {},
+  });
+  return finalizeDaemonResponse({ ok: true, data: data ?? {} });
 }
 
 function finalizeDaemonResponse(response: DaemonResponse): DaemonResponse {
@@ -498,12 +657,15 @@ async function start(): Promise<void> {
     process.exit(0);
     return;
   }
+  // Only the lock holder may read and rewrite the session journals.
+  sessionStore.restore();
 
   const servers: Array<{ close: (cb: (err?: Error) => void) => void }> = [];
   let socketPort: number | undefined;
   let httpPort: number | undefined;
 
   try {
+    await loadPlatformBackendModules();
     if (daemonServerMode === 'socket' || daemonServerMode === 'dual') {
       const socketServer = createSocketServer();
       servers.push(socketServer);
@@ -511,12 +673,14 @@ async function start(): Promise<void> {
     }
 
     if (daemonServerMode === 'http' || daemonServerMode === 'dual') {
-      const httpServer = await createDaemonHttpServer({ handleRequest });
+      const httpServer = await createDaemonHttpServer({ handleRequest, token, events: daemonEvents });
       servers.push(httpServer);
       httpPort = await listenHttpServer(httpServer);
     }
 
     writeInfo({ socketPort, httpPort });
+    void reportRestoredSessions();
+    setInterval(() => leaseRegistry.sweepExpiredLeases(), leaseSweepIntervalMs).unref();
     if (socketPort) process.stdout.write(`AGENT_DEVICE_DAEMON_PORT=${socketPort}\n`);
     if (httpPort) process.stdout.write(`AGENT_DEVICE_DAEMON_HTTP_PORT=${httpPort}\n`);
   } catch (error) {
@@ -552,8 +716,21 @@ async function start(): Promise<void> {
   const shutdown = async () => {
     if (shuttingDown) return;
     shuttingDown = true;
-    await closeServers();
     const sessionsToStop = sessionStore.toArray();
+    // Restore device and host proxies and flush perf series before the process goes away.
+    for (const session of sessionsToStop) {
+      try {
+        await stopSessionCaptures(session);
+        sessionStore.persist(session.name);
+      } catch (error) {
+        emitDiagnostic({
+          level: 'warn',
+          phase: 'session_shutdown_cleanup_failed',
+          data: { session: session.name, error: error instanceof Error ? error.message : String(error) },
+        });
+      }
+    }
+    await closeServers();
     for (const session of sessionsToStop) {
       sessionStore.writeSessionLog(session);
     }
@@ -579,12 +756,56 @@ async function start(): Promise<void> {
   });
 }
 
+async function reportRestoredSessions(): Promise<void> {
+  // Host proxy settings are kept in their own marker so they are restored even without session journals.
+  const hostServices = await restoreMacHostProxy(sessionStore.resolveNetworkHostProxyMarkerPath()).catch(() => []);
+  if (hostServices.length > 0) {
+    fs.appendFileSync(logPath, `[agent-device][network] restored host proxy for: ${hostServices.join(', ')}\n`);
+  }
+  await sessionStore.restoreStaleDeviceProxies();
+  const { restored, stale } = sessionStore.getRestoreReport();
+  if (restored.length === 0 && stale.length === 0) return;
+  const report = await sessionStore.validateRestoredSessions();
+  try {
+    fs.appendFileSync(logPath, `[agent-device][session-restore] ${JSON.stringify(report)}\n`);
+  } catch {
+    // ignore
+  }
+}
+
+async function closeLeaseSessions(lease: DeviceLease): Promise<void> {
+  for (const { name } of lease.sessions ?? []) {
+    if (!sessionStore.get(name)) continue;
+    try {
+      await dispatchScopedRequest({ token, session: name, command: 'close', positionals: [], flags: {} }, name);
+    } catch (error) {
+      emitDiagnostic({
+        level: 'warn',
+        phase: 'lease_session_close_failed',
+        data: { session: name, leaseId: lease.leaseId, error: error instanceof Error ? error.message : String(error) },
+      });
+    } finally {
+      sessionStore.persist(name);
+    }
+  }
+}
+
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
 void start();
 
+function listAppLogSources(): AppLogSource[] {
+  const sources: AppLogSource[] = [];
+  for (const session of sessionStore.values()) {
+    if (!session.appLog) continue;
+    const scope = sessionEventScopes.get(session.name) ?? { session: session.name };
+    sources.push({ ...scope, outPath: session.appLog.outPath });
+  }
+  return sources;
+}
+
 function parseIntegerEnv(raw: string | undefined): number | undefined {
   if (raw === undefined) return undefined;
   const value = Number(raw);
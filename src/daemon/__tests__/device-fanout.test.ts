@@ -0,0 +1,132 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { parseDeviceSelectorList, readDeviceGroups, runDeviceFanout } from '../device-fanout.ts';
+import type { DaemonRequest } from '../types.ts';
+import { AppError } from '../../utils/errors.ts';
+
+test('parseDeviceSelectorList reads names, platform prefixes, ids and groups', () => {
+  const targets = parseDeviceSelectorList('android:Pixel 9, iPhone 16,ios:id=ABC-123,@tablets', {
+    tablets: ['android:id=emulator-5556', 'iPhone 16'],
+  });
+  assert.deepEqual(
+    targets.map((target) => [target.slug, target.selector]),
+    [
+      ['android-pixel-9', { platform: 'android', device: 'Pixel 9' }],
+      ['iphone-16', { device: 'iPhone 16' }],
+      ['ios-id-abc-123', { platform: 'ios', udid: 'ABC-123' }],
+      ['android-id-emulator-5556', { platform: 'android', serial: 'emulator-5556' }],
+      ['iphone-16-2', { device: 'iPhone 16' }],
+    ],
+  );
+  assert.throws(
+    () => parseDeviceSelectorList('@missing', {}),
+    (error: unknown) => error instanceof AppError && /Unknown device group: missing/.test(error.message),
+  );
+  assert.throws(() => parseDeviceSelectorList('fake:id=1'), /only supported for ios and android/);
+  assert.throws(() => parseDeviceSelectorList(' , '), /at least one device selector/);
+});
+
+test('readDeviceGroups loads device-groups.json from the state dir', () => {
+  const stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-device-groups-'));
+  assert.deepEqual(readDeviceGroups(stateDir), {});
+  fs.writeFileSync(path.join(stateDir, 'device-groups.json'), JSON.stringify({ release: ['a', 'b'], smoke: 'c,d' }));
+  assert.deepEqual(readDeviceGroups(stateDir), { release: ['a', 'b'], smoke: ['c', 'd'] });
+});
+
+test('runDeviceFanout runs every device in its own session and aggregates results', async () => {
+  const calls: DaemonRequest[] = [];
+  const req: DaemonRequest = {
+    token: 't',
+    session: 'release',
+    command: 'screenshot',
+    positionals: ['shots/home.png'],
+    flags: { platform: 'ios', devices: 'android:Pixel 9,iPhone 16', device: 'ignored' },
+    meta: { requestId: 'r1' },
+  };
+  const response = await runDeviceFanout({
+    req,
+    groups: {},
+    invoke: async (deviceReq) => {
+      calls.push(deviceReq);
+      if (deviceReq.flags?.device === 'iPhone 16') {
+        return { ok: false, error: { code: 'DEVICE_NOT_FOUND', message: 'No device named iPhone 16' } };
+      }
+      return { ok: true, data: { path: deviceReq.positionals[0] } };
+    },
+  });
+
+  assert.deepEqual(
+    calls.map((call) => [
+      call.session,
+      call.positionals[0],
+      call.flags?.platform,
+      call.flags?.device,
+      call.meta?.requestId,
+    ]),
+    [
+      ['release@android-pixel-9', 'shots/home-android-pixel-9.png', 'android', 'Pixel 9', 'r1.1'],
+      ['release@iphone-16', 'shots/home-iphone-16.png', 'ios', 'iPhone 16', 'r1.2'],
+    ],
+  );
+  assert.equal(calls[0].flags?.devices, undefined);
+  assert.equal(response.ok, false);
+  if (response.ok) return;
+  assert.equal(response.error.code, 'COMMAND_FAILED');
+  assert.match(response.error.message, /screenshot failed on 1 of 2 devices: iPhone 16 \(DEVICE_NOT_FOUND\)/);
+  const details = response.error.details as any;
+  assert.equal(details.passed, 1);
+  assert.deepEqual(details.results[0].data, { path: 'shots/home-android-pixel-9.png' });
+  assert.equal(details.results[1].error.code, 'DEVICE_NOT_FOUND');
+
+  await assert.rejects(
+    runDeviceFanout({ req: { ...req, command: 'devices' }, groups: {}, invoke: async () => ({ ok: true }) }),
+    /devices does not support --devices/,
+  );
+});
+
+test('runDeviceFanout suffixes saved scripts per device and rejects replay --update', async () => {
+  const calls: DaemonRequest[] = [];
+  const req: DaemonRequest = {
+    token: 't',
+    session: 'release',
+    command: 'close',
+    positionals: [],
+    flags: { devices: 'android:Pixel 9,iPhone 16', saveScript: 'flows/checkout.ad' },
+  };
+  const response = await runDeviceFanout({
+    req,
+    groups: {},
+    invoke: async (deviceReq) => {
+      calls.push(deviceReq);
+      return { ok: true, data: {} };
+    },
+  });
+  assert.equal(response.ok, true);
+  assert.deepEqual(
+    calls.map((call) => call.flags?.saveScript),
+    ['flows/checkout-android-pixel-9.ad', 'flows/checkout-iphone-16.ad'],
+  );
+
+  const invoked: DaemonRequest[] = [];
+  await assert.rejects(
+    runDeviceFanout({
+      req: {
+        ...req,
+        command: 'replay',
+        positionals: ['flows/checkout.ad'],
+        flags: { ...req.flags, replayUpdate: true },
+      },
+      groups: {},
+      invoke: async (deviceReq) => {
+        invoked.push(deviceReq);
+        return { ok: true };
+      },
+    }),
+    (error: unknown) =>
+      error instanceof AppError && error.code === 'INVALID_ARGS' && /replay --update/.test(error.message),
+  );
+  assert.equal(invoked.length, 0);
+});
@@ -0,0 +1,145 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import http from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  createAppLogFollower,
+  createDaemonEventBus,
+  parseDaemonEventFilter,
+  type DaemonEvent,
+} from '../events.ts';
+import { createDaemonHttpServer } from '../http-server.ts';
+import { AppError } from '../../utils/errors.ts';
+
+test('event bus delivers only events matching each subscriber filter', () => {
+  const counts: number[] = [];
+  const bus = createDaemonEventBus({ onSubscribersChange: (count) => counts.push(count) });
+  const all: DaemonEvent[] = [];
+  const scoped: DaemonEvent[] = [];
+  const unsubscribeAll = bus.subscribe({}, (event) => all.push(event));
+  bus.subscribe({ session: 'checkout', tenantId: 'acme', types: ['command_start', 'lease'] }, (event) =>
+    scoped.push(event));
+
+  bus.publish({ type: 'command_start', session: 'checkout', tenantId: 'acme', data: { command: 'open' } });
+  bus.publish({ type: 'command_start', session: 'checkout', tenantId: 'other', data: { command: 'open' } });
+  bus.publish({ type: 'command_finish', session: 'checkout', tenantId: 'acme', data: { ok: true } });
+  bus.publish({ type: 'lease', tenantId: 'acme', data: { action: 'allocated' } });
+  unsubscribeAll();
+  bus.publish({ type: 'command_start', session: 'default', tenantId: 'acme', data: {} });
+
+  assert.deepEqual(all.map((event) => event.id), [1, 2, 3, 4]);
+  assert.deepEqual(scoped.map((event) => [event.type, event.id]), [['command_start', 1], ['lease', 4]]);
+  assert.deepEqual(counts, [1, 2, 1]);
+  assert.equal(bus.subscriberCount(), 1);
+});
+
+test('parseDaemonEventFilter reads session, tenant and comma separated types', () => {
+  assert.deepEqual(parseDaemonEventFilter(new URLSearchParams('session=a&tenant=acme&types=app_log,lease')), {
+    session: 'a',
+    tenantId: 'acme',
+    types: ['app_log', 'lease'],
+  });
+  assert.deepEqual(parseDaemonEventFilter(new URLSearchParams('')), {});
+  assert.throws(
+    () => parseDaemonEventFilter(new URLSearchParams('types=command_start,bogus')),
+    (error: unknown) => error instanceof AppError && error.code === 'INVALID_ARGS' && /bogus/.test(error.message),
+  );
+});
+
+test('app log follower publishes complete lines written after it starts', () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-device-events-'));
+  const outPath = path.join(root, 'app.log');
+  fs.writeFileSync(outPath, 'old line\n');
+  const published: Array<Record<string, unknown>> = [];
+  const follower = createAppLogFollower({
+    listSources: () => [{ session: 'default', outPath }],
+    publish: (event) => published.push({ session: event.session, ...event.data }),
+  });
+  follower.poll();
+  fs.appendFileSync(outPath, 'first\nsecond par');
+  follower.poll();
+  fs.appendFileSync(outPath, 'tial\n');
+  follower.poll();
+  assert.deepEqual(published, [
+    { session: 'default', line: 'first' },
+    { session: 'default', line: 'second partial' },
+  ]);
+});
+
+function readSse(
+  port: number,
+  query: string,
+  onData: (text: string) => void,
+): Promise<{ status?: number; request: http.ClientRequest }> {
+  return new Promise((resolve, reject) => {
+    const request = http.get({ host: '127.0.0.1', port, path: `/events${query}` }, (res) => {
+      res.setEncoding('utf8');
+      res.on('data', onData);
+      resolve({ status: res.statusCode, request });
+    });
+    request.on('error', reject);
+  });
+}
+
+test('GET /events streams matching events to token holders', async () => {
+  const events = createDaemonEventBus();
+  const server = await createDaemonHttpServer({
+    handleRequest: async () => ({ ok: true }),
+    token: 'secret',
+    events,
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', () => resolve()));
+  const port = (server.address() as { port: number }).port;
+  try {
+    const denied = await readSse(port, '?session=a', () => {});
+    assert.equal(denied.status, 401);
+
+    let text = '';
+    const received = new Promise<void>((resolve) => {
+      const stream = readSse(port, '?token=secret&session=a&types=command_finish', (chunk) => {
+        text += chunk;
+        if (text.includes('event: command_finish')) {
+          void stream.then(({ request }) => request.destroy());
+          resolve();
+        }
+      });
+      void stream.then(({ status }) => {
+        assert.equal(status, 200);
+        assert.equal(events.subscriberCount(), 1);
+        events.publish({ type: 'command_finish', session: 'b', data: { command: 'open' } });
+        events.publish({ type: 'command_start', session: 'a', data: { command: 'press' } });
+        events.publish({ type: 'command_finish', session: 'a', data: { command: 'press', ok: true } });
+      });
+    });
+    await received;
+    const payload = JSON.parse(text.split('data: ')[1].split('\n')[0]) as DaemonEvent;
+    assert.equal(payload.session, 'a');
+    assert.deepEqual(payload.data, { command: 'press', ok: true });
+    assert.equal(text.match(/^event: /gm)?.length, 1);
+  } finally {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+});
+
+test('closing the HTTP server ends open event streams', async () => {
+  const events = createDaemonEventBus();
+  const server = await createDaemonHttpServer({ handleRequest: async () => ({ ok: true }), events });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', () => resolve()));
+  const port = (server.address() as { port: number }).port;
+  const { status, request } = await readSse(port, '', () => {});
+  assert.equal(status, 200);
+  const ended = new Promise<void>((resolve) => request.on('close', () => resolve()));
+  const closed = new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('server.close() did not finish')), 2_000);
+    server.close(() => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+  await closed;
+  await ended;
+  assert.equal(events.subscriberCount(), 0);
+});
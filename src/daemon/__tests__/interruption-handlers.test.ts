@@ -0,0 +1,46 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { buildInterruptionHandler, matchInterruptionHandler } from '../interruption-handlers.ts';
+import { AppError } from '../../utils/errors.ts';
+import { attachRefs } from '../../utils/snapshot.ts';
+
+const nodes = attachRefs([
+  { index: 0, type: 'Alert', label: 'Rate this app', rect: { x: 20, y: 300, width: 350, height: 200 } },
+  { index: 1, type: 'Button', label: 'Not now', rect: { x: 20, y: 440, width: 175, height: 60 } },
+  { index: 2, type: 'Button', label: 'Rate', rect: { x: 195, y: 440, width: 175, height: 60 } },
+]);
+
+test('buildInterruptionHandler validates selectors, actions and targets', () => {
+  const handler = buildInterruptionHandler('h1', ' label="Rate this app" ', 'PRESS', 'label="Not now"');
+  assert.equal(handler.selector, 'label="Rate this app"');
+  assert.equal(handler.action, 'press');
+  assert.equal(handler.target, 'label="Not now"');
+  assert.equal(handler.hits, 0);
+
+  const rejects = (args: [string, string, string?], message: RegExp) =>
+    assert.throws(
+      () => buildInterruptionHandler('h2', ...args),
+      (error: unknown) => error instanceof AppError && error.code === 'INVALID_ARGS' && message.test(error.message),
+    );
+  rejects(['', 'accept'], /requires a selector/);
+  rejects(['label="Allow"', 'tap'], /must be one of/);
+  rejects(['label="Allow"', 'accept', 'label="OK"'], /Only press handlers/);
+});
+
+test('matchInterruptionHandler returns the first matching handler and its tap target', () => {
+  const missing = buildInterruptionHandler('h1', 'label="Allow Notifications"', 'accept');
+  const rate = buildInterruptionHandler('h2', 'label="Rate this app"', 'press', 'label="Not now"');
+  const back = buildInterruptionHandler('h3', 'label="Rate this app"', 'back');
+
+  const match = matchInterruptionHandler(nodes, [missing, rate, back], 'ios');
+  assert.equal(match?.handler.id, 'h2');
+  assert.equal(match?.node.label, 'Not now');
+
+  assert.equal(matchInterruptionHandler(nodes, [missing], 'ios'), null);
+});
+
+test('matchInterruptionHandler skips press handlers whose target is not on screen', () => {
+  const rate = buildInterruptionHandler('h1', 'label="Rate this app"', 'press', 'label="Later"');
+  const back = buildInterruptionHandler('h2', 'label="Rate this app"', 'back');
+  assert.equal(matchInterruptionHandler(nodes, [rate, back], 'ios')?.handler.id, 'h2');
+});
@@ -1,6 +1,6 @@
 import test from 'node:test';
 import assert from 'node:assert/strict';
-import { evaluateIsPredicate, isSupportedPredicate } from '../is-predicates.ts';
+import { evaluateIsPredicate, evaluateIsPredicateForMatches, isSupportedPredicate } from '../is-predicates.ts';
 
 const baseNode = {
   ref: 'e1',
@@ -17,7 +17,7 @@ const baseNode = {
 test('isSupportedPredicate validates supported predicates', () => {
   assert.equal(isSupportedPredicate('visible'), true);
   assert.equal(isSupportedPredicate('text'), true);
-  assert.equal(isSupportedPredicate('checked'), false);
+  assert.equal(isSupportedPredicate('clickable'), false);
 });
 
 test('evaluateIsPredicate visible and hidden', () => {
@@ -66,3 +66,33 @@ test('evaluateIsPredicate text uses equality', () => {
   assert.equal(match.pass, true);
   assert.equal(mismatch.pass, false);
 });
+
+test('evaluateIsPredicateForMatches treats missing elements as hidden only', () => {
+  const hiddenNode = { ...baseNode, rect: { ...baseNode.rect, width: 0 }, hittable: false };
+  const evaluate = (
+    predicate: 'hidden' | 'visible' | 'exists' | 'text',
+    nodes: (typeof baseNode)[],
+    expectedText?: string,
+  ) =>
+    evaluateIsPredicateForMatches({ predicate, nodes, expectedText, platform: 'ios' }).pass;
+  assert.equal(evaluate('hidden', []), true);
+  assert.equal(evaluate('visible', []), false);
+  assert.equal(evaluate('exists', []), false);
+  assert.equal(evaluate('hidden', [hiddenNode, baseNode]), false);
+  assert.equal(evaluate('hidden', [hiddenNode]), true);
+  assert.equal(evaluate('visible', [hiddenNode, baseNode]), true);
+  assert.equal(evaluate('text', [{ ...baseNode, label: 'Done' }], 'Done'), true);
+});
+
+test('evaluateIsPredicate checks toggle and focus state', () => {
+  const toggle = { ...baseNode, type: 'XCUIElementTypeSwitch', checked: true };
+  assert.equal(isSupportedPredicate('checked'), true);
+  assert.equal(isSupportedPredicate('focused'), true);
+  assert.equal(evaluateIsPredicate({ predicate: 'checked', node: toggle, platform: 'ios' }).pass, true);
+  const unchecked = evaluateIsPredicate({ predicate: 'checked', node: { ...toggle, checked: false }, platform: 'ios' });
+  assert.equal(unchecked.pass, false);
+  assert.match(unchecked.details, /"checked":false/);
+  assert.equal(evaluateIsPredicate({ predicate: 'focused', node: baseNode, platform: 'ios' }).pass, false);
+  const focused = evaluateIsPredicate({ predicate: 'focused', node: { ...baseNode, focused: true }, platform: 'ios' });
+  assert.equal(focused.pass, true);
+});
@@ -1,6 +1,17 @@
 import test from 'node:test';
 import assert from 'node:assert/strict';
-import { LeaseRegistry } from '../lease-registry.ts';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { LeaseRegistry, matchesLeaseConstraints } from '../lease-registry.ts';
+import { handleLeaseCommands } from '../handlers/lease.ts';
+import type { DeviceInfo } from '../../utils/device.ts';
+
+const POOL: DeviceInfo[] = [
+  { platform: 'android', id: 'emulator-5554', name: 'Pixel 9 API 35', kind: 'emulator', osVersion: '15', booted: true },
+  { platform: 'android', id: 'R5CT1', name: 'Galaxy S23', kind: 'device', osVersion: '14', booted: true },
+  { platform: 'ios', id: 'SIM-1', name: 'iPhone 16', kind: 'simulator', osVersion: '18.2', booted: false },
+];
 
 test('allocateLease creates lease and enforces tenant/run validation', () => {
   const registry = new LeaseRegistry();
@@ -98,3 +109,198 @@ test('capacity limits reject additional simulator leases', () => {
     /No simulator lease capacity available/,
   );
 });
+
+test('lease changes are reported to onLeaseChange', () => {
+  let now = 1_000;
+  const changes: string[] = [];
+  const registry = new LeaseRegistry({
+    now: () => now,
+    defaultLeaseTtlMs: 5_000,
+    onLeaseChange: ({ action, lease }) => changes.push(`${action}:${lease.runId}`),
+  });
+  const first = registry.allocateLease({ tenantId: 'tenant-a', runId: 'run-1' });
+  registry.heartbeatLease({ leaseId: first.leaseId });
+  registry.allocateLease({ tenantId: 'tenant-a', runId: 'run-2' });
+  registry.releaseLease({ leaseId: first.leaseId });
+  now = 7_000;
+  registry.listActiveLeases();
+  assert.deepEqual(changes, ['allocated:run-1', 'heartbeat:run-1', 'allocated:run-2', 'released:run-1', 'expired:run-2']);
+});
+
+test('matchesLeaseConstraints handles version prefixes, minimums and name globs', () => {
+  const [pixel, galaxy, iphone] = POOL;
+  assert.equal(matchesLeaseConstraints(iphone, { osVersion: '18' }), true);
+  assert.equal(matchesLeaseConstraints(iphone, { osVersion: '1' }), false);
+  assert.equal(matchesLeaseConstraints(galaxy, { osVersion: '>=15' }), false);
+  assert.equal(matchesLeaseConstraints(pixel, { osVersion: '>=14.1', name: 'pixel*' }), true);
+  assert.equal(matchesLeaseConstraints(pixel, { platform: 'ios' }), false);
+  assert.equal(matchesLeaseConstraints(pixel, { target: 'tv' }), false);
+});
+
+test('device leases bind a free matching device from the pool', () => {
+  const registry = new LeaseRegistry();
+  const first = registry.allocateLease({
+    tenantId: 'tenant-a',
+    runId: 'run-1',
+    candidates: POOL,
+    constraints: { platform: 'android' },
+  });
+  assert.equal(first.backend, 'android-emulator');
+  assert.equal(first.device?.id, 'emulator-5554');
+
+  const again = registry.allocateLease({
+    tenantId: 'tenant-a',
+    runId: 'run-1',
+    candidates: POOL,
+    constraints: { platform: 'android' },
+  });
+  assert.equal(again.leaseId, first.leaseId);
+
+  const second = registry.allocateLease({
+    tenantId: 'tenant-b',
+    runId: 'run-2',
+    candidates: POOL,
+    constraints: { platform: 'android' },
+  });
+  assert.equal(second.backend, 'android-device');
+  assert.equal(second.device?.id, 'R5CT1');
+
+  const third = { tenantId: 'tenant-c', runId: 'run-3', candidates: POOL };
+  assert.throws(
+    () => registry.allocateLease({ ...third, constraints: { platform: 'android' } }),
+    (error: any) => error.details?.reason === 'LEASE_CAPACITY_EXCEEDED',
+  );
+  assert.throws(
+    () => registry.allocateLease({ ...third, constraints: { osVersion: '19' } }),
+    /No device matches the lease constraints/,
+  );
+  const admitted = registry.assertLeaseAdmission({ tenantId: 'tenant-b', runId: 'run-2', leaseId: second.leaseId });
+  assert.equal(admitted.device?.name, 'Galaxy S23');
+});
+
+test('lease_allocate waits for a device to be released when waitMs is set', async () => {
+  const registry = new LeaseRegistry();
+  const listDevices = async () => POOL.filter((device) => device.platform === 'ios');
+  const allocate = (tenantId: string, runId: string) =>
+    handleLeaseCommands({
+      req: {
+        token: '',
+        session: 'default',
+        command: 'lease_allocate',
+        positionals: [],
+        meta: { tenantId, runId, leaseConstraints: { platform: 'ios' }, leaseWaitMs: 2_000 },
+      },
+      leaseRegistry: registry,
+      listDevices,
+    });
+  const held = await allocate('a', 'r1');
+  const heldLease = (held as any).data.lease;
+  assert.equal(heldLease.backend, 'ios-simulator');
+
+  const queued = allocate('b', 'r2');
+  setTimeout(() => registry.releaseLease({ leaseId: heldLease.leaseId }), 20);
+  const granted = await queued;
+  assert.equal((granted as any).data.lease.device.id, 'SIM-1');
+  assert.equal((granted as any).data.lease.tenantId, 'b');
+});
+
+test('queued allocations are served by priority, then tenant fairness, then FIFO', async () => {
+  const queueChanges: string[] = [];
+  const registry = new LeaseRegistry({
+    maxActiveSimulatorLeases: 1,
+    onLeaseQueueChange: ({ action, entry }) => queueChanges.push(`${action}:${entry.runId}`),
+  });
+  const held = registry.allocateLease({ tenantId: 'tenant-a', runId: 'run-1' });
+  const acquire = (tenantId: string, runId: string, priority?: 'high' | 'low') =>
+    registry.acquireLease({ tenantId, runId }, { waitMs: 5_000, priority });
+  const pending = [
+    acquire('tenant-a', 'run-2'),
+    acquire('tenant-a', 'run-3'),
+    acquire('tenant-b', 'run-4'),
+    acquire('tenant-c', 'run-5', 'low'),
+    acquire('tenant-d', 'run-6', 'high'),
+  ];
+  assert.deepEqual(
+    registry.listLeaseQueue().map((entry) => `${entry.position}:${entry.runId}`),
+    ['1:run-6', '2:run-4', '3:run-2', '4:run-3', '5:run-5'],
+  );
+  assert.deepEqual(registry.listLeaseQueue('tenant-a').map((entry) => entry.position), [3, 4]);
+
+  await assert.rejects(
+    registry.acquireLease({ tenantId: 'tenant-e', runId: 'run-7' }),
+    // tenant-e holds no leases, so it would be served right after tenant-b rather than at the back.
+    (error: any) => error.details?.reason === 'LEASE_CAPACITY_EXCEEDED' && error.details?.position === 3,
+  );
+
+  const served: string[] = [];
+  let current = held;
+  for (let index = 0; index < pending.length; index += 1) {
+    registry.releaseLease({ leaseId: current.leaseId });
+    await new Promise((resolve) => setImmediate(resolve));
+    current = registry.listActiveLeases()[0];
+    served.push(current.runId);
+  }
+  assert.deepEqual(served, ['run-6', 'run-4', 'run-2', 'run-3', 'run-5']);
+  const results = await Promise.all(pending);
+  assert.equal(results[4].queue?.position, 1);
+  assert.equal(results[4].queue?.priority, 'high');
+  assert.ok(queueChanges.includes('granted:run-5'));
+  assert.ok(queueChanges.includes('timeout:run-7'));
+});
+
+test('acquireLease times out with the queue position', async () => {
+  const registry = new LeaseRegistry({ maxActiveSimulatorLeases: 1 });
+  registry.allocateLease({ tenantId: 'tenant-a', runId: 'run-1' });
+  await assert.rejects(
+    registry.acquireLease({ tenantId: 'tenant-b', runId: 'run-2' }, { waitMs: 20 }),
+    (error: any) => /Timed out waiting for lease capacity/.test(error.message) && error.details?.position === 1,
+  );
+  assert.deepEqual(registry.listLeaseQueue(), []);
+  await assert.rejects(
+    registry.acquireLease({ tenantId: 'tenant-b', runId: 'run-2' }, { priority: 'urgent' as any }),
+    /Unsupported lease priority/,
+  );
+});
+
+test('persisted leases survive a restart and the audit log answers who held a device when', async () => {
+  const persistDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-device-leases-'));
+  let now = Date.parse('2026-03-04T14:00:00.000Z');
+  const registry = new LeaseRegistry({ persistDir, now: () => now, defaultLeaseTtlMs: 60_000 });
+  const lease = registry.allocateLease({ tenantId: 'acme', runId: 'run-1' });
+  registry.bindLeaseSession(lease.leaseId, {
+    name: 'acme:checkout',
+    device: { platform: 'ios', id: 'SIM-1', name: 'iPhone 16' },
+  });
+  now += 30_000;
+  registry.heartbeatLease({ leaseId: lease.leaseId });
+
+  const restarted = new LeaseRegistry({ persistDir, now: () => now });
+  assert.deepEqual(restarted.restore(), [lease.leaseId]);
+  assert.deepEqual(restarted.getLease(lease.leaseId)?.sessions?.[0]?.name, 'acme:checkout');
+  assert.equal(restarted.allocateLease({ tenantId: 'acme', runId: 'run-1' }).leaseId, lease.leaseId);
+
+  now = Date.parse('2026-03-04T14:01:10.000Z');
+  restarted.releaseLease({ leaseId: lease.leaseId });
+
+  const query = (positionals: string[], flags = {}) =>
+    handleLeaseCommands({
+      req: { token: '', session: 'default', command: 'lease', positionals, flags },
+      leaseRegistry: restarted,
+    });
+  const heldAt = (await query(['list'], { leaseAt: '2026-03-04T14:01:00.000Z', device: 'iPhone 16' })) as any;
+  assert.deepEqual(
+    heldAt.data.leases.map((entry: any) => [entry.runId, entry.sessions[0].device.id]),
+    [['run-1', 'SIM-1']],
+  );
+  const after = (await query(['list'], { leaseAt: '2026-03-04T14:02:00.000Z' })) as any;
+  assert.deepEqual(after.data.leases, []);
+
+  const shown = (await query(['show', lease.leaseId])) as any;
+  assert.equal(shown.data.active, false);
+  assert.deepEqual(
+    shown.data.history.map((entry: any) => entry.action),
+    ['allocated', 'session', 'heartbeat', 'heartbeat', 'released'],
+  );
+  await assert.rejects(query(['show', 'missing']), /Unknown lease: missing/);
+  await assert.rejects(query(['list'], { leaseAt: 'yesterday-ish' }), /Invalid --at time/);
+});
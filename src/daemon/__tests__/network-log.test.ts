@@ -3,7 +3,7 @@ import assert from 'node:assert/strict';
 import fs from 'node:fs';
 import os from 'node:os';
 import path from 'node:path';
-import { readRecentNetworkTraffic } from '../network-log.ts';
+import { readHarNetworkTraffic, readRecentNetworkTraffic } from '../network-log.ts';
 
 test('readRecentNetworkTraffic parses latest HTTP entries from session log', () => {
   const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-device-network-log-'));
@@ -43,3 +43,62 @@ test('readRecentNetworkTraffic returns empty result when log file is missing', (
   assert.equal(dump.exists, false);
   assert.equal(dump.entries.length, 0);
 });
+
+test('readHarNetworkTraffic returns newest captured exchanges with include modes', () => {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-device-network-har-'));
+  const harPath = path.join(tempDir, 'network.har');
+  const entry = (method: string, url: string, status: number, extra: Record<string, unknown> = {}) => ({
+    startedDateTime: '2026-02-24T10:00:00.000Z',
+    time: 42.4,
+    request: {
+      method,
+      url,
+      httpVersion: 'HTTP/1.1',
+      headers: [{ name: 'authorization', value: 'Bearer t' }],
+      queryString: [],
+      headersSize: -1,
+      bodySize: 0,
+      postData: { mimeType: 'application/json', text: '{"email":"u@example.com"}' },
+    },
+    response: {
+      status,
+      statusText: '',
+      httpVersion: 'HTTP/1.1',
+      headers: [{ name: 'content-type', value: 'image/png' }],
+      content: { size: 3, mimeType: 'image/png', text: 'iVBO', encoding: 'base64' },
+      redirectURL: '',
+      headersSize: -1,
+      bodySize: 3,
+    },
+    cache: {},
+    timings: { send: 0, wait: 40, receive: 2 },
+    ...extra,
+  });
+  fs.writeFileSync(
+    harPath,
+    JSON.stringify({
+      log: {
+        version: '1.2',
+        creator: { name: 'agent-device', version: '1' },
+        entries: [
+          entry('GET', 'https://api.example.com/v1/avatar.png', 200),
+          entry('CONNECT', 'https://pinned.example.com:443', 0, { _error: 'TLS handshake failed' }),
+        ],
+      },
+    }),
+  );
+
+  const summary = readHarNetworkTraffic(harPath, { maxEntries: 5 });
+  assert.equal(summary.scannedLines, 2);
+  assert.equal(summary.entries[0]?.error, 'TLS handshake failed');
+  assert.equal(summary.entries[0]?.status, undefined);
+  assert.equal(summary.entries[1]?.status, 200);
+  assert.equal(summary.entries[1]?.durationMs, 42);
+  assert.equal(summary.entries[1]?.headers, undefined);
+
+  const all = readHarNetworkTraffic(harPath, { maxEntries: 1, include: 'all' });
+  assert.equal(all.entries.length, 1);
+  assert.match(String(all.entries[0]?.headers), /"authorization":"Bearer t"/);
+  assert.equal(all.entries[0]?.requestBody, '{"email":"u@example.com"}');
+  assert.equal(all.entries[0]?.responseBody, '<base64> iVBO');
+});
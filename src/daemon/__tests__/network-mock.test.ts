@@ -0,0 +1,47 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { buildNetworkMockRule, findNetworkMockRule, matchesUrlPattern } from '../network-mock.ts';
+import { AppError } from '../../utils/errors.ts';
+
+test('matchesUrlPattern treats * as a wildcard and plain patterns as substrings', () => {
+  assert.equal(matchesUrlPattern('*/api/login*', 'https://example.com/api/login?next=1'), true);
+  assert.equal(matchesUrlPattern('https://*.example.com/*', 'https://cdn.example.com/a.png'), true);
+  assert.equal(matchesUrlPattern('https://*.example.com/*', 'http://cdn.example.com/a.png'), false);
+  assert.equal(matchesUrlPattern('/api/items?page=2', 'https://example.com/api/items?page=2'), true);
+  assert.equal(matchesUrlPattern('*/api/(v1)/*', 'https://example.com/api/(v1)/me'), true);
+});
+
+test('findNetworkMockRule prefers the latest matching rule and honours methods', () => {
+  const broad = buildNetworkMockRule('m1', 'example.com', { offline: true });
+  const post = buildNetworkMockRule('m2', '*/api/*', { method: 'post', status: 500 });
+  const rules = [broad, post];
+  assert.equal(findNetworkMockRule(rules, 'POST', 'https://example.com/api/save')?.id, 'm2');
+  assert.equal(findNetworkMockRule(rules, 'GET', 'https://example.com/api/save')?.id, 'm1');
+  assert.equal(findNetworkMockRule(rules, 'GET', 'https://other.dev/'), undefined);
+});
+
+test('buildNetworkMockRule reads body files and validates options', () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-device-network-mock-'));
+  fs.writeFileSync(path.join(root, 'error.json'), '{"error":"down"}');
+  const rule = buildNetworkMockRule('m1', '*/api/*', { bodyFile: 'error.json', headers: ['Retry-After: 5'] }, root);
+  assert.equal(rule.status, 200);
+  assert.equal(rule.body, '{"error":"down"}');
+  assert.deepEqual(rule.headers, { 'Retry-After': '5', 'content-type': 'application/json' });
+
+  const slow = buildNetworkMockRule('m2', '*', { delayMs: 2000, throttleKbps: 400 });
+  assert.equal(slow.status, undefined);
+
+  const rejects = (options: Parameters<typeof buildNetworkMockRule>[2], message: RegExp) =>
+    assert.throws(
+      () => buildNetworkMockRule('m3', '*', options, root),
+      (error: unknown) => error instanceof AppError && error.code === 'INVALID_ARGS' && message.test(error.message),
+    );
+  rejects({}, /requires --status/);
+  rejects({ body: 'x', bodyFile: 'error.json' }, /not both/);
+  rejects({ offline: true, status: 500 }, /--offline cannot/);
+  rejects({ bodyFile: 'missing.json' }, /not found/);
+  rejects({ status: 500, headers: ['no-colon'] }, /Name: value/);
+});
@@ -0,0 +1,257 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs';
+import http from 'node:http';
+import https from 'node:https';
+import os from 'node:os';
+import path from 'node:path';
+import tls from 'node:tls';
+import { buildNetworkMockRule } from '../network-mock.ts';
+import { parseMacProxyState, restoreMacHostProxy, startNetworkProxy, type Har } from '../network-proxy.ts';
+
+const hasOpenssl = (() => {
+  try {
+    execFileSync('openssl', ['version'], { stdio: 'ignore' });
+    return true;
+  } catch {
+    return false;
+  }
+})();
+
+function makeRoot(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'agent-device-network-proxy-'));
+}
+
+async function listen(server: http.Server): Promise<number> {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', () => resolve()));
+  return (server.address() as { port: number }).port;
+}
+
+function echo(req: http.IncomingMessage, res: http.ServerResponse): void {
+  let body = '';
+  req.on('data', (chunk) => {
+    body += chunk;
+  });
+  req.on('end', () => {
+    res.writeHead(201, { 'content-type': 'application/json', 'x-upstream': 'yes' });
+    res.end(JSON.stringify({ path: req.url, body }));
+  });
+}
+
+function readHar(harPath: string): Har {
+  return JSON.parse(fs.readFileSync(harPath, 'utf8')) as Har;
+}
+
+test('network proxy forwards plain HTTP and records HAR entries', async () => {
+  const root = makeRoot();
+  const upstream = http.createServer(echo);
+  const upstreamPort = await listen(upstream);
+  // An unwritable CA dir forces tunnel-only HTTPS; plain HTTP capture must still work.
+  const blocked = path.join(root, 'blocked');
+  fs.writeFileSync(blocked, '');
+  const proxy = await startNetworkProxy({ harPath: path.join(root, 'network.har'), certDir: path.join(blocked, 'ca') });
+  try {
+    const response = await new Promise<{ status?: number; body: string }>((resolve, reject) => {
+      const req = http.request(
+        {
+          host: '127.0.0.1',
+          port: proxy.port,
+          method: 'POST',
+          path: `http://127.0.0.1:${upstreamPort}/items?page=2`,
+          headers: { 'content-type': 'application/json' },
+        },
+        (res) => {
+          let body = '';
+          res.on('data', (chunk) => {
+            body += chunk;
+          });
+          res.on('end', () => resolve({ status: res.statusCode, body }));
+        },
+      );
+      req.on('error', reject);
+      req.end('{"name":"socks"}');
+    });
+    assert.equal(response.status, 201);
+    assert.deepEqual(JSON.parse(response.body), { path: '/items?page=2', body: '{"name":"socks"}' });
+    assert.equal(proxy.caPath, undefined);
+
+    proxy.flush();
+    const [entry] = readHar(proxy.harPath).log.entries;
+    assert.equal(entry.request.method, 'POST');
+    assert.equal(entry.request.url, `http://127.0.0.1:${upstreamPort}/items?page=2`);
+    assert.deepEqual(entry.request.queryString, [{ name: 'page', value: '2' }]);
+    assert.equal(entry.request.postData?.text, '{"name":"socks"}');
+    assert.equal(entry.response.status, 201);
+    assert.ok(entry.response.headers.some((header) => header.name === 'x-upstream'));
+    assert.equal(JSON.parse(entry.response.content.text ?? '{}').path, '/items?page=2');
+  } finally {
+    await proxy.stop();
+    upstream.close();
+  }
+});
+
+test('network proxy decrypts HTTPS with certificates from its CA', { skip: !hasOpenssl }, async () => {
+  const root = makeRoot();
+  const keyPath = path.join(root, 'upstream.key');
+  const certPath = path.join(root, 'upstream.pem');
+  execFileSync('openssl', [
+    'req', '-x509', '-newkey', 'rsa:2048', '-nodes', '-days', '1', '-subj', '/CN=localhost',
+    '-keyout', keyPath, '-out', certPath,
+  ], { stdio: 'ignore' });
+  const upstream = https.createServer({ key: fs.readFileSync(keyPath), cert: fs.readFileSync(certPath) }, echo);
+  const upstreamPort = await listen(upstream);
+  const proxy = await startNetworkProxy({
+    harPath: path.join(root, 'network.har'),
+    certDir: path.join(root, 'ca'),
+    rejectUnauthorized: false,
+  });
+  try {
+    assert.ok(proxy.caPath);
+    const socket = await new Promise<import('node:net').Socket>((resolve, reject) => {
+      const connect = http.request({
+        host: '127.0.0.1',
+        port: proxy.port,
+        method: 'CONNECT',
+        path: `localhost:${upstreamPort}`,
+      });
+      connect.on('connect', (_res, connectSocket) => resolve(connectSocket));
+      connect.on('error', reject);
+      connect.end();
+    });
+    const secureSocket = tls.connect({ socket, servername: 'localhost', ca: fs.readFileSync(proxy.caPath) });
+    const body = await new Promise<string>((resolve, reject) => {
+      const req = https.request(
+        { host: 'localhost', port: upstreamPort, path: '/secure', createConnection: () => secureSocket },
+        (res) => {
+          let text = '';
+          res.on('data', (chunk) => {
+            text += chunk;
+          });
+          res.on('end', () => resolve(text));
+        },
+      );
+      req.on('error', reject);
+      req.end();
+    });
+    assert.equal(JSON.parse(body).path, '/secure');
+    secureSocket.destroy();
+
+    proxy.flush();
+    const [entry] = readHar(proxy.harPath).log.entries;
+    assert.equal(entry.request.url, `https://localhost:${upstreamPort}/secure`);
+    assert.equal(entry.response.status, 201);
+  } finally {
+    await proxy.stop();
+    upstream.close();
+  }
+});
+
+function proxiedGet(port: number, url: string): Promise<{ status?: number; body: string; ms: number }> {
+  const started = Date.now();
+  return new Promise((resolve, reject) => {
+    const req = http.request({ host: '127.0.0.1', port, path: url }, (res) => {
+      let body = '';
+      res.on('data', (chunk) => {
+        body += chunk;
+      });
+      res.on('end', () => resolve({ status: res.statusCode, body, ms: Date.now() - started }));
+    });
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+test('network proxy applies mock rules for stubs, delays and offline requests', async () => {
+  const root = makeRoot();
+  let upstreamHits = 0;
+  const upstream = http.createServer((req, res) => {
+    upstreamHits += 1;
+    echo(req, res);
+  });
+  const upstreamPort = await listen(upstream);
+  const blocked = path.join(root, 'blocked');
+  fs.writeFileSync(blocked, '');
+  const rules = [
+    buildNetworkMockRule('m1', '*/slow*', { delayMs: 150, throttleKbps: 80 }),
+    buildNetworkMockRule('m2', '*/api/*', { status: 503, body: '{"error":"down"}', headers: ['Retry-After: 5'] }),
+    buildNetworkMockRule('m3', '/offline', { offline: true }),
+  ];
+  const proxy = await startNetworkProxy({
+    harPath: path.join(root, 'network.har'),
+    certDir: path.join(blocked, 'ca'),
+    mockRules: () => rules,
+  });
+  const base = `http://127.0.0.1:${upstreamPort}`;
+  try {
+    const stubbed = await proxiedGet(proxy.port, `${base}/api/me`);
+    assert.equal(stubbed.status, 503);
+    assert.equal(stubbed.body, '{"error":"down"}');
+    assert.equal(upstreamHits, 0);
+
+    // 80 kbps is 10 bytes per millisecond, so the ~40 byte echo adds a few ms on top of the delay.
+    const slow = await proxiedGet(proxy.port, `${base}/slow`);
+    assert.equal(slow.status, 201);
+    assert.ok(slow.ms >= 150, `expected delay, got ${slow.ms}ms`);
+    assert.equal(upstreamHits, 1);
+
+    await assert.rejects(proxiedGet(proxy.port, `${base}/offline`), /socket hang up|ECONNRESET/);
+    assert.equal(upstreamHits, 1);
+    assert.deepEqual(rules.map((rule) => rule.hits), [1, 1, 1]);
+
+    proxy.flush();
+    const entries = readHar(proxy.harPath).log.entries;
+    assert.deepEqual(entries.map((entry) => entry._mock), ['m2', 'm1', 'm3']);
+    assert.equal(entries[0].response.status, 503);
+    assert.equal(entries[0].response.content.mimeType, 'application/json');
+    assert.equal(entries[0].response.content.text, '{"error":"down"}');
+    assert.equal(entries[1].response.status, 201);
+    assert.equal(entries[2]._error, 'offline (network mock m3)');
+  } finally {
+    await proxy.stop();
+    upstream.close();
+  }
+});
+
+test('parseMacProxyState reads networksetup output', () => {
+  assert.deepEqual(
+    parseMacProxyState('Enabled: Yes\nServer: proxy.local\nPort: 8080\nAuthenticated Proxy Enabled: 0\n'),
+    { enabled: true, server: 'proxy.local', port: '8080' },
+  );
+  assert.deepEqual(parseMacProxyState('Enabled: No\nServer: \nPort: 0\n'), { enabled: false, server: '', port: '0' });
+});
+
+test('restoreMacHostProxy puts back saved host settings once and removes the marker', async () => {
+  const root = makeRoot();
+  const argsLogPath = path.join(root, 'args.log');
+  fs.writeFileSync(path.join(root, 'networksetup'), `#!/bin/sh\necho "$*" >> "${argsLogPath}"\n`, { mode: 0o755 });
+  const markerPath = path.join(root, 'network-host-proxy.json');
+  fs.writeFileSync(
+    markerPath,
+    JSON.stringify({
+      pid: 1,
+      port: 9090,
+      services: [
+        {
+          service: 'Wi-Fi',
+          web: { enabled: true, server: 'proxy.local', port: '8080' },
+          secure: { enabled: false, server: '', port: '0' },
+        },
+      ],
+    }),
+  );
+  const previousPath = process.env.PATH;
+  process.env.PATH = `${root}${path.delimiter}${previousPath ?? ''}`;
+  try {
+    assert.deepEqual(await restoreMacHostProxy(markerPath), ['Wi-Fi']);
+    assert.deepEqual(await restoreMacHostProxy(markerPath), []);
+  } finally {
+    process.env.PATH = previousPath;
+  }
+  assert.equal(fs.existsSync(markerPath), false);
+  assert.deepEqual(fs.readFileSync(argsLogPath, 'utf8').trim().split('\n'), [
+    '-setwebproxy Wi-Fi proxy.local 8080',
+    '-setwebproxystate Wi-Fi on',
+    '-setsecurewebproxystate Wi-Fi off',
+  ]);
+});
@@ -0,0 +1,75 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  parseAndroidGfxinfo,
+  parseAndroidMeminfoTotalPssKb,
+  parseIosSimulatorAppPid,
+  parseTopCpuPercent,
+  startPerfSampler,
+  summarizePerfSamples,
+  type PerfCollector,
+} from '../perf.ts';
+
+test('parses Android meminfo, gfxinfo and top output', () => {
+  assert.equal(parseAndroidMeminfoTotalPssKb('  App Summary\n  TOTAL PSS:   123456   TOTAL RSS:   200000\n'), 123456);
+  assert.equal(
+    parseAndroidMeminfoTotalPssKb('                 Pss  Private\n        TOTAL    98765    80000    1200\n'),
+    98765,
+  );
+  assert.equal(parseAndroidMeminfoTotalPssKb('No process found for: com.example'), undefined);
+
+  assert.deepEqual(
+    parseAndroidGfxinfo('Stats since: 1ns\nTotal frames rendered: 120\nJanky frames: 6 (5.00%)\n'),
+    { frames: 120, jankyFrames: 6 },
+  );
+  assert.equal(parseAndroidGfxinfo('No process found'), undefined);
+
+  const top = 'Tasks: 1 total\n  PID %CPU\n 4321 37.5\n';
+  assert.equal(parseTopCpuPercent(top, '4321'), 37.5);
+  assert.equal(parseTopCpuPercent(top, '99'), undefined);
+});
+
+test('finds the simulator app pid in launchctl output', () => {
+  const output = [
+    'PID\tStatus\tLabel',
+    '-\t0\tUIKitApplication:com.example.app.widget[1a2b][rb-legacy]',
+    '5123\t0\tUIKitApplication:com.example.app[9f3c][rb-legacy]',
+  ].join('\n');
+  assert.equal(parseIosSimulatorAppPid(output, 'com.example.app'), '5123');
+  assert.equal(parseIosSimulatorAppPid(output, 'com.example'), undefined);
+});
+
+test('summarizePerfSamples reports nearest-rank percentiles per metric', () => {
+  const samples = Array.from({ length: 10 }, (_, index) => ({
+    ts: new Date(index * 1000).toISOString(),
+    elapsedMs: index * 1000,
+    cpuPercent: (index + 1) * 10,
+    memoryKb: 1000,
+  }));
+  const summary = summarizePerfSamples([...samples, { ts: '', elapsedMs: 0, error: 'not running' }]);
+  assert.deepEqual(summary.cpu, { unit: '%', count: 10, min: 10, avg: 55, p50: 50, p90: 90, p95: 100, max: 100 });
+  assert.equal(summary.memory?.p95, 1000);
+  assert.equal(summary.fps, undefined);
+});
+
+test('startPerfSampler samples until stopped and records collector errors', async () => {
+  let calls = 0;
+  const collector: PerfCollector = {
+    method: 'test',
+    metrics: ['cpu'],
+    unavailable: {},
+    sample: async () => {
+      calls += 1;
+      if (calls === 2) throw new Error('adb offline');
+      return { cpuPercent: calls };
+    },
+  };
+  const sampler = startPerfSampler(collector, 5);
+  while (sampler.samples.length < 3) await new Promise((resolve) => setTimeout(resolve, 5));
+  await sampler.stop();
+  const count = sampler.samples.length;
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  assert.equal(sampler.samples.length, count);
+  assert.equal(sampler.samples[0].cpuPercent, 1);
+  assert.equal(sampler.samples[1].error, 'adb offline');
+});
@@ -0,0 +1,79 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { formatReplayReport, type ReplaySuiteResult } from '../replay-report.ts';
+
+function makeSuite(): ReplaySuiteResult {
+  return {
+    session: 'e2e',
+    startedAt: '2026-01-01T00:00:00.000Z',
+    durationMs: 1500,
+    scripts: [
+      {
+        path: '/flows/login.ad',
+        status: 'failed',
+        startedAt: '2026-01-01T00:00:00.000Z',
+        durationMs: 1200,
+        replayed: 2,
+        healed: 1,
+        steps: [
+          {
+            step: 1,
+            path: '/flows/login.ad',
+            line: 2,
+            command: 'click',
+            summary: 'click "id=old"',
+            status: 'healed',
+            durationMs: 250,
+            healedTo: 'click "id=new"',
+          },
+          {
+            step: 2,
+            path: '/flows/login.ad',
+            line: 3,
+            command: 'is',
+            summary: 'is visible "label=<Home>"',
+            status: 'failed',
+            durationMs: 900,
+            error: { code: 'COMMAND_FAILED', message: 'expected "Home" & <visible>' },
+            artifacts: { screenshot: '/out/login-step2.png', snapshot: '/out/login-step2.snapshot.json' },
+          },
+        ],
+      },
+      {
+        path: '/flows/broken.ad',
+        status: 'failed',
+        startedAt: '2026-01-01T00:00:01.200Z',
+        durationMs: 1,
+        replayed: 0,
+        healed: 0,
+        steps: [],
+        error: { code: 'INVALID_ARGS', message: 'Undefined replay variable: user' },
+      },
+    ],
+  };
+}
+
+test('formatReplayReport junit emits escaped test cases, failures and attachments', () => {
+  const xml = formatReplayReport(makeSuite(), 'junit');
+  assert.match(xml, /<testsuites name="agent-device replay" tests="3" failures="2" time="1\.500"/);
+  assert.match(xml, /<testsuite name="login" file="\/flows\/login\.ad" tests="2" failures="1" time="1\.200"/);
+  assert.match(xml, /name="step 2: is visible &quot;label=&lt;Home&gt;&quot;" file="\/flows\/login\.ad" line="3" time="0\.900"/);
+  assert.match(xml, /<failure type="COMMAND_FAILED" message="expected &quot;Home&quot; &amp; &lt;visible&gt;">/);
+  assert.match(xml, /\[\[ATTACHMENT\|\/out\/login-step2\.png\]\]/);
+  assert.match(xml, /healed: click "id=old" -&gt; click "id=new"/);
+  assert.match(xml, /<testcase classname="broken" name="script"[^>]*>\n\s+<failure type="INVALID_ARGS"/);
+});
+
+test('formatReplayReport tap nests steps under each script', () => {
+  const tap = formatReplayReport(makeSuite(), 'tap');
+  const lines = tap.trimEnd().split('\n');
+  assert.equal(lines[0], 'TAP version 13');
+  assert.ok(lines.includes('    ok 1 - step 1: click "id=old"'));
+  assert.ok(lines.includes('      healed: "click \\"id=new\\""'));
+  assert.ok(lines.includes('    not ok 2 - step 2: is visible "label=<Home>"'));
+  assert.ok(lines.includes('      screenshot: "/out/login-step2.png"'));
+  assert.ok(lines.includes('not ok 1 - /flows/login.ad'));
+  assert.ok(lines.includes('    not ok 1 - script'));
+  assert.equal(lines.at(-1), '1..2');
+  assert.deepEqual(JSON.parse(formatReplayReport(makeSuite(), 'json')), makeSuite());
+});
@@ -0,0 +1,156 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  applyHealedReplayAction,
+  collectReplayEnvNames,
+  formatReplayActionLine,
+  interpolateReplayValue,
+  loadReplayScript,
+  parseReplayAction,
+  resolveReplayAction,
+  resolveReplayScriptPaths,
+  tokenizeReplayLine,
+  writeReplayScript,
+} from '../replay-script.ts';
+import { AppError } from '../../utils/errors.ts';
+
+function makeRoot(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'agent-device-replay-script-'));
+}
+
+test('loadReplayScript parses blocks, includes and env references', () => {
+  const root = makeRoot();
+  fs.writeFileSync(path.join(root, 'login.ad'), 'fill "id=email" "${env.QA_EMAIL}"\n');
+  fs.writeFileSync(
+    path.join(root, 'flow.ad'),
+    [
+      'set user "${env.QA_USER:-guest}"',
+      'include login.ad',
+      'if not visible "label=Home"',
+      '  repeat 2',
+      '    back',
+      '  end',
+      'else',
+      '  click "label=Home"',
+      'end',
+    ].join('\n'),
+  );
+
+  const script = loadReplayScript(path.join(root, 'flow.ad'));
+  assert.deepEqual(script.steps.map((step) => step.kind), ['set', 'include', 'if']);
+  const branch = script.steps[2];
+  assert.ok(branch.kind === 'if');
+  assert.equal(branch.negate, true);
+  assert.equal(branch.predicate, 'visible');
+  assert.equal(branch.body[0].kind, 'repeat');
+  assert.equal(branch.elseBody?.[0].kind, 'action');
+  assert.deepEqual(collectReplayEnvNames(script).sort(), ['QA_EMAIL', 'QA_USER']);
+});
+
+test('loadReplayScript rejects include cycles and unbalanced blocks', () => {
+  const root = makeRoot();
+  fs.writeFileSync(path.join(root, 'a.ad'), 'include b.ad\n');
+  fs.writeFileSync(path.join(root, 'b.ad'), 'include a.ad\n');
+  fs.writeFileSync(path.join(root, 'open.ad'), 'repeat 2\n  back\n');
+  assert.throws(
+    () => loadReplayScript(path.join(root, 'a.ad')),
+    (error: unknown) => error instanceof AppError && /include cycle/.test(error.message),
+  );
+  assert.throws(
+    () => loadReplayScript(path.join(root, 'open.ad')),
+    (error: unknown) => error instanceof AppError && /open\.ad:1: repeat block is missing end/.test(error.message),
+  );
+});
+
+test('interpolateReplayValue resolves variables, env, defaults and escapes', () => {
+  const scope = { vars: new Map([['name', 'Ada']]), env: { HOST: 'qa.local' } };
+  assert.equal(interpolateReplayValue('hi ${name} @ ${env.HOST}', scope), 'hi Ada @ qa.local');
+  assert.equal(interpolateReplayValue('${missing:-fallback}', scope), 'fallback');
+  assert.equal(interpolateReplayValue('$${name}', scope), '${name}');
+  assert.throws(
+    () => interpolateReplayValue('${env.TOKEN}', scope),
+    (error: unknown) => error instanceof AppError && error.code === 'INVALID_ARGS',
+  );
+});
+
+test('writeReplayScript keeps control flow and variables when a step is healed', () => {
+  const root = makeRoot();
+  const scriptPath = path.join(root, 'flow.ad');
+  const source = [
+    '# checkout',
+    'set item "Socks"',
+    'repeat 2',
+    '  click "label=${item}"',
+    '  click "id=old_pay"',
+    'end',
+    '',
+  ].join('\n');
+  fs.writeFileSync(scriptPath, source);
+  const script = loadReplayScript(scriptPath);
+  const loop = script.steps[2];
+  assert.ok(loop.kind === 'repeat');
+  const step = loop.body[1];
+  assert.ok(step.kind === 'action');
+  const action = resolveReplayAction(step, { vars: new Map(), env: {} });
+  applyHealedReplayAction(script, step, action, { ...action, positionals: ['id="pay"'] });
+
+  writeReplayScript(script);
+  assert.equal(
+    fs.readFileSync(scriptPath, 'utf8'),
+    source.replace('click "id=old_pay"', 'click "id=\\"pay\\""'),
+  );
+});
+
+test('resolveReplayScriptPaths expands directories and globs and skips include-only files', () => {
+  const root = makeRoot();
+  fs.mkdirSync(path.join(root, 'flows', 'nested'), { recursive: true });
+  for (const name of ['b.ad', 'a.ad', '_login.ad', 'notes.txt', 'nested/c.ad']) {
+    fs.writeFileSync(path.join(root, 'flows', name), 'home\n');
+  }
+  const flows = path.join(root, 'flows');
+  assert.deepEqual(resolveReplayScriptPaths(['flows'], root), [
+    path.join(flows, 'a.ad'),
+    path.join(flows, 'b.ad'),
+    path.join(flows, 'nested', 'c.ad'),
+  ]);
+  assert.deepEqual(resolveReplayScriptPaths(['flows/*.ad', 'flows/a.ad'], root), [
+    path.join(flows, 'a.ad'),
+    path.join(flows, 'b.ad'),
+  ]);
+  assert.deepEqual(resolveReplayScriptPaths(['flows/**/c.ad'], root), [path.join(flows, 'nested', 'c.ad')]);
+  assert.throws(
+    () => resolveReplayScriptPaths(['flows/*.yaml'], root),
+    (error: unknown) => error instanceof AppError && error.code === 'INVALID_ARGS',
+  );
+});
+
+test('network mock rules round-trip through replay script lines', () => {
+  const action = {
+    ts: 0,
+    command: 'network',
+    positionals: ['mock', 'add', '*/api/login*'],
+    flags: {
+      mockMethod: 'POST',
+      mockStatus: 500,
+      mockHeader: ['Retry-After: 5'],
+      mockBody: ' {"error":"down"} ',
+      mockDelayMs: 2000,
+      mockThrottleKbps: 400,
+    },
+  };
+  const line = formatReplayActionLine(action);
+  assert.equal(
+    line,
+    'network "mock" "add" "*/api/login*" --method "POST" --status 500 --header "Retry-After: 5" --body " {\\"error\\":\\"down\\"} " --delay-ms 2000 --throttle-kbps 400',
+  );
+  const [command, ...args] = tokenizeReplayLine(line);
+  const parsed = parseReplayAction(command, args);
+  assert.deepEqual(parsed.positionals, action.positionals);
+  assert.deepEqual(parsed.flags, action.flags);
+
+  const offline = parseReplayAction('network', ['mock', 'add', 'example.com', '--offline', '--body-file', 'err.json']);
+  assert.deepEqual(offline.flags, { mockOffline: true, mockBodyFile: 'err.json' });
+});
@@ -0,0 +1,71 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { buildDaemonRpcSchema, listDaemonCommands } from '../rpc-schema.ts';
+import { createDaemonHttpServer } from '../http-server.ts';
+import { ERROR_CODES } from '../../utils/errors.ts';
+
+test('daemon commands use daemon names, positionals and flags', () => {
+  const commands = listDaemonCommands();
+  const names = commands.map((command) => command.name);
+  assert.ok(names.includes('session_list'));
+  assert.ok(!names.includes('session'));
+  assert.ok(!names.includes('mcp'));
+  assert.ok(!names.includes('schema'));
+
+  const fill = commands.find((command) => command.name === 'fill')!;
+  const fillProps = (fill.params as any).properties;
+  assert.equal(fillProps.command.const, 'fill');
+  assert.equal(fillProps.positionals.items.type, 'string');
+  assert.equal(fillProps.positionals.minItems, 2);
+  assert.equal(fillProps.flags.additionalProperties, false);
+  assert.equal(fillProps.flags.properties.stateDir, undefined);
+  assert.ok(fill.result);
+
+  const batchFlags = (commands.find((command) => command.name === 'batch')!.params as any).properties.flags.properties;
+  assert.equal(batchFlags.batchSteps.type, 'array');
+  assert.equal(batchFlags.steps, undefined);
+
+  const sessionList = commands.find((command) => command.name === 'session_list')!;
+  assert.equal(sessionList.cliName, 'session');
+  assert.equal((sessionList.params as any).properties.positionals.maxItems, 0);
+});
+
+test('rpc schema document references every command and lists error codes', () => {
+  const document = buildDaemonRpcSchema('1.2.3') as any;
+  assert.equal(document.openapi, '3.1.0');
+  assert.equal(document.info.version, '1.2.3');
+  const schemas = document.components.schemas;
+  assert.deepEqual(schemas.ErrorCode.enum, [...ERROR_CODES]);
+  assert.deepEqual(document['x-agent-device'].errorCodes, [...ERROR_CODES]);
+  for (const command of document['x-agent-device'].commands) {
+    const name = command.params.replace('#/components/schemas/', '');
+    assert.ok(schemas[name], `missing ${name}`);
+    assert.equal(schemas.CommandParams.discriminator.mapping[command.name], command.params);
+  }
+  assert.deepEqual(schemas['snapshot.result'].properties.nodes.items, { $ref: '#/components/schemas/SnapshotNode' });
+});
+
+test('GET /schema serves the document without a token', async () => {
+  const server = await createDaemonHttpServer({ handleRequest: async () => ({ ok: true }), token: 'secret' });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', () => resolve()));
+  const port = (server.address() as { port: number }).port;
+  try {
+    const body = await new Promise<{ status?: number; text: string }>((resolve, reject) => {
+      http.get({ host: '127.0.0.1', port, path: '/schema' }, (res) => {
+        let text = '';
+        res.setEncoding('utf8');
+        res.on('data', (chunk) => {
+          text += chunk;
+        });
+        res.on('end', () => resolve({ status: res.statusCode, text }));
+      }).on('error', reject);
+    });
+    assert.equal(body.status, 200);
+    const document = JSON.parse(body.text);
+    assert.ok(document.paths['/rpc'].post);
+    assert.ok(document.components.schemas['open.params']);
+  } finally {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+});
@@ -3,7 +3,9 @@ import assert from 'node:assert/strict';
 import { type RawSnapshotNode } from '../../utils/snapshot.ts';
 import {
   buildScrollIntoViewPlan,
+  buildScrollSwipe,
   isRectWithinSafeViewportBand,
+  resolveScrollAreaRect,
   resolveViewportRect,
 } from '../scroll-planner.ts';
 
@@ -56,3 +58,21 @@ test('buildScrollIntoViewPlan keeps swipe lane inside viewport when target cente
   assert.ok(plan);
   assert.equal(plan?.x, 351);
 });
+
+test('resolveScrollAreaRect prefers the largest scrollable node over the window', () => {
+  const nodes = [
+    { index: 0, type: 'Window', rect: { x: 0, y: 0, width: 390, height: 844 } },
+    { index: 1, type: 'ScrollView', scrollable: true, rect: { x: 0, y: 100, width: 390, height: 600 } },
+    { index: 2, type: 'ScrollView', scrollable: true, rect: { x: 0, y: 700, width: 390, height: 100 } },
+  ];
+  assert.deepEqual(resolveScrollAreaRect(nodes), { x: 0, y: 100, width: 390, height: 600 });
+  assert.deepEqual(resolveScrollAreaRect([nodes[0]]), { x: 0, y: 0, width: 390, height: 844 });
+});
+
+test('buildScrollSwipe drags against the scroll direction inside the area', () => {
+  const area = { x: 0, y: 100, width: 400, height: 500 };
+  assert.deepEqual(buildScrollSwipe(area, 'down'), { x1: 200, y1: 530, x2: 200, y2: 170 });
+  assert.deepEqual(buildScrollSwipe(area, 'up'), { x1: 200, y1: 170, x2: 200, y2: 530 });
+  assert.deepEqual(buildScrollSwipe(area, 'right'), { x1: 344, y1: 350, x2: 56, y2: 350 });
+  assert.deepEqual(buildScrollSwipe(area, 'left'), { x1: 56, y1: 350, x2: 344, y2: 350 });
+});
@@ -259,3 +259,37 @@ test('role selector normalization matches Android class names by leaf type', ()
   assert.ok(resolved);
   assert.equal(resolved.node.ref, 'a1');
 });
+
+test('state and class selector keys match checked, focused and Android class names', () => {
+  const toggles: SnapshotState['nodes'] = [
+    {
+      ref: 'a1',
+      index: 0,
+      type: 'android.widget.Switch',
+      className: 'android.widget.Switch',
+      package: 'com.android.settings',
+      label: 'Wi-Fi',
+      rect: { x: 0, y: 0, width: 120, height: 44 },
+      checked: true,
+    },
+    {
+      ref: 'a2',
+      index: 1,
+      type: 'android.widget.Switch',
+      className: 'android.widget.Switch',
+      package: 'com.android.settings',
+      label: 'Bluetooth',
+      rect: { x: 0, y: 50, width: 120, height: 44 },
+      checked: false,
+      focused: true,
+    },
+  ];
+  const resolve = (expression: string) =>
+    resolveSelectorChain(toggles, parseSelectorChain(expression), { platform: 'android' })?.node.ref;
+  assert.equal(resolve('class=Switch checked'), 'a1');
+  assert.equal(resolve('class=android.widget.Switch checked=false'), 'a2');
+  assert.equal(resolve('package=com.android.settings focused'), 'a2');
+  assert.equal(resolve('class=widget.Switch checked'), undefined);
+  assert.equal(isSelectorToken('scrollable=true'), true);
+  assert.equal(isSelectorToken('secure'), true);
+});
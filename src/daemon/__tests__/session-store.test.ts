@@ -213,3 +213,149 @@ test('writeSessionLog preserves interaction series flags for click/press/swipe',
   assert.match(script, /press 201 545 --count 4 --interval-ms 8/);
   assert.match(script, /swipe 10 20 30 40 --count 3 --pause-ms 12 --pattern ping-pong/);
 });
+
+test('persisted sessions are restored by a new store', () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-device-session-persist-'));
+  const store = new SessionStore(root, { persist: true });
+  const session = makeSession('ci:default');
+  session.appBundleId = 'com.example.app';
+  store.set(session.name, session);
+  store.recordAction(session, {
+    command: 'open',
+    positionals: ['Settings'],
+    flags: { platform: 'ios' },
+    result: {},
+  });
+  session.snapshot = { nodes: [], createdAt: 1 };
+  store.persist(session.name);
+
+  const restoredStore = new SessionStore(root, { persist: true });
+  const report = restoredStore.restore();
+  assert.deepEqual(report.restored, ['ci:default']);
+  assert.deepEqual(report.stale, []);
+  const restored = restoredStore.get('ci:default');
+  assert.ok(restored);
+  assert.equal(restored.appBundleId, 'com.example.app');
+  assert.equal(restored.actions.length, 1);
+  assert.equal(restored.actions[0].command, 'open');
+  assert.deepEqual(restored.snapshot, { nodes: [], createdAt: 1 });
+
+  restoredStore.delete('ci:default');
+  assert.deepEqual(new SessionStore(root, { persist: true }).restore().restored, []);
+});
+
+test('restore reports app-log, recording, perf and network capture references as stale', () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-device-session-stale-refs-'));
+  const store = new SessionStore(root, { persist: true });
+  const session = makeSession('default');
+  const appLogPath = store.resolveAppLogPath(session.name);
+  fs.mkdirSync(path.dirname(appLogPath), { recursive: true });
+  fs.writeFileSync(appLogPath, 'log line\n');
+  session.appLog = {
+    platform: 'ios',
+    backend: 'ios-simulator',
+    outPath: appLogPath,
+    startedAt: 1,
+    getState: () => 'active',
+    stop: async () => {},
+    wait: Promise.resolve({ stdout: '', stderr: '', exitCode: 0 }),
+  };
+  session.recording = { platform: 'ios-device-runner', outPath: '/tmp/out.mp4', remotePath: '/tmp/remote.mp4' };
+  session.perf = {
+    appBundleId: 'com.example.app',
+    method: 'simctl-ps',
+    unavailable: {},
+    intervalMs: 1000,
+    startedAt: 1,
+    outPath: store.resolveSessionOutputPath(session.name, 'perf-1.json'),
+    samples: [{ ts: '1970-01-01T00:00:00.001Z', elapsedMs: 0, cpuPercent: 3 }],
+    sampler: {
+      startedAt: 1,
+      intervalMs: 1000,
+      samples: [],
+      isTruncated: () => false,
+      sampleNow: async () => ({ ts: '', elapsedMs: 0 }),
+      stop: async () => {},
+    },
+  };
+  session.networkCapture = {
+    port: 9090,
+    harPath: store.resolveNetworkHarPath(session.name),
+    startedAt: 1,
+    entryCount: () => 0,
+    flush: () => {},
+    stop: async () => {},
+  };
+  store.set(session.name, session);
+
+  const restoredStore = new SessionStore(root, { persist: true });
+  const report = restoredStore.restore();
+  assert.deepEqual(report.restored, ['default']);
+  assert.deepEqual(
+    report.stale.map((entry) => entry.kind).sort(),
+    ['app_log', 'network_capture', 'perf', 'recording'],
+  );
+  const restored = restoredStore.get('default');
+  assert.equal(restored?.appLog, undefined);
+  assert.equal(restored?.recording, undefined);
+  assert.equal(restored?.perf, undefined);
+  assert.equal(restored?.networkCapture, undefined);
+});
+
+test('restoreStaleDeviceProxies undoes journaled device proxy settings after a daemon crash', async () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-device-session-proxy-restore-'));
+  const store = new SessionStore(root, { persist: true });
+  const session = makeSession('default');
+  session.networkCapture = {
+    port: 9090,
+    harPath: store.resolveNetworkHarPath(session.name),
+    startedAt: 1,
+    restoreState: { kind: 'android', deviceId: 'emulator-5554', port: 9090 },
+    entryCount: () => 0,
+    flush: () => {},
+    stop: async () => {},
+  };
+  store.set(session.name, session);
+
+  const restoredStore = new SessionStore(root, { persist: true });
+  assert.deepEqual(restoredStore.restore().stale, []);
+  const restoredStates: unknown[] = [];
+  const report = await restoredStore.restoreStaleDeviceProxies(async (state) => {
+    restoredStates.push(state);
+  });
+  assert.deepEqual(restoredStates, [{ kind: 'android', deviceId: 'emulator-5554', port: 9090 }]);
+  assert.equal(report.stale[0]?.kind, 'network_capture');
+  assert.match(report.stale[0]?.reason ?? '', /device proxy settings were restored/);
+  assert.deepEqual((await restoredStore.restoreStaleDeviceProxies(async () => {})).stale.length, 1);
+});
+
+test('validateRestoredSessions drops sessions whose device is gone and keeps the journal aside', async () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-device-session-stale-device-'));
+  const store = new SessionStore(root, { persist: true });
+  store.set('gone', makeSession('gone'));
+  const unknown = makeSession('unknown');
+  unknown.device = { ...unknown.device, id: 'sim-2' };
+  store.set('unknown', unknown);
+
+  const restoredStore = new SessionStore(root, { persist: true });
+  restoredStore.restore();
+  const report = await restoredStore.validateRestoredSessions(async (device) =>
+    device.id === 'sim-1' ? false : null);
+  assert.deepEqual(report.restored, ['unknown']);
+  assert.equal(report.stale.length, 1);
+  assert.equal(report.stale[0].kind, 'device');
+  assert.equal(restoredStore.has('gone'), false);
+  assert.equal(restoredStore.has('unknown'), true);
+  const goneFiles = fs.readdirSync(path.join(root, 'gone'));
+  assert.equal(goneFiles.includes('session.json'), false);
+  assert.equal(goneFiles.some((file) => file.startsWith('session.stale-')), true);
+});
+
+test('restore reports unreadable journals', () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-device-session-bad-journal-'));
+  fs.mkdirSync(path.join(root, 'broken'), { recursive: true });
+  fs.writeFileSync(path.join(root, 'broken', 'session.json'), '{not json');
+  const report = new SessionStore(root, { persist: true }).restore();
+  assert.deepEqual(report.restored, []);
+  assert.equal(report.stale[0]?.kind, 'journal');
+});
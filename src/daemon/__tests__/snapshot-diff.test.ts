@@ -97,3 +97,16 @@ test('buildSnapshotDiff flatten option uses flat snapshot line shape', () => {
     assert.equal(line.text.startsWith('  '), false);
   }
 });
+
+test('buildSnapshotDiff reports toggle state changes with state flags in the line', () => {
+  const previous = nodes([{ index: 0, depth: 0, type: 'XCUIElementTypeSwitch', label: 'Wi-Fi', checked: false }]);
+  const current = nodes([
+    { index: 0, depth: 0, type: 'XCUIElementTypeSwitch', label: 'Wi-Fi', checked: true, focused: true },
+  ]);
+
+  const diff = buildSnapshotDiff(previous, current);
+  assert.deepEqual(diff.lines, [
+    { kind: 'removed', text: '@e1 [switch] "Wi-Fi" [unchecked]' },
+    { kind: 'added', text: '@e1 [switch] "Wi-Fi" [checked, focused]' },
+  ]);
+});
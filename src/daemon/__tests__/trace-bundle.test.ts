@@ -0,0 +1,50 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { readTraceBundle, startTraceBundle, traceRequest } from '../trace-bundle.ts';
+import { AppError } from '../../utils/errors.ts';
+import type { SessionState } from '../types.ts';
+
+const session: SessionState = {
+  name: 'default',
+  device: { platform: 'ios', id: 'sim-1', name: 'iPhone 16', kind: 'simulator', booted: true },
+  createdAt: Date.now(),
+  actions: [],
+};
+
+test('traceRequest records thrown errors and capture failures without masking the error', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-device-trace-'));
+  startTraceBundle(dir, session, { screenshots: false });
+  await assert.rejects(
+    traceRequest({
+      dir,
+      seq: 1,
+      req: { token: 't', session: 'default', command: 'fill', positionals: ['@e2', 'secret'] },
+      screenshots: false,
+      capture: {
+        snapshot: async () => {
+          throw new Error('runner unavailable');
+        },
+        screenshot: async () => {},
+      },
+      run: async () => {
+        throw new AppError('COMMAND_FAILED', 'element not found');
+      },
+    }),
+    /element not found/,
+  );
+
+  const { manifest, steps } = readTraceBundle(dir);
+  assert.equal(manifest.device.name, 'iPhone 16');
+  assert.equal(steps.length, 1);
+  assert.equal(steps[0].ok, false);
+  assert.deepEqual(steps[0].response, { code: 'COMMAND_FAILED', message: 'element not found' });
+  assert.deepEqual(steps[0].captureErrors, ['pre snapshot: runner unavailable', 'post snapshot: runner unavailable']);
+});
+
+test('readTraceBundle rejects directories without a manifest', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-device-trace-'));
+  assert.throws(() => readTraceBundle(dir), /Not a trace bundle/);
+});
@@ -5,6 +5,7 @@ import type { DeviceInfo } from '../utils/device.ts';
 import { AppError } from '../utils/errors.ts';
 import { runCmd, type ExecResult } from '../utils/exec.ts';
 import { readProcessCommand, readProcessStartTime } from '../utils/process-identity.ts';
+import { findPlatformBackend } from '../core/platform-backends.ts';
 
 const DEFAULT_MAX_APP_LOG_BYTES = 5 * 1024 * 1024;
 const DEFAULT_MAX_ROTATED_FILES = 1;
@@ -17,7 +18,8 @@ type StoredAppLogProcessMeta = {
 };
 
 export type AppLogResult = {
-  backend: 'ios-simulator' | 'ios-device' | 'android';
+  /** Built-in stream kinds; registered platform backends report their own name. */
+  backend: 'ios-simulator' | 'ios-device' | 'android' | (string & {});
   getState: () => 'active' | 'failed';
   startedAt: number;
   stop: () => Promise<void>;
@@ -414,6 +416,10 @@ export async function startAppLog(
     return await startAndroidAppLog(device.id, appBundleId, stream, redactionPatterns, pidPath);
   }
   stream.end();
+  const backend = findPlatformBackend(device.platform);
+  if (backend?.startAppLog) {
+    return await backend.startAppLog(device, appBundleId, outPath);
+  }
   throw new AppError('UNSUPPORTED_PLATFORM', `unsupported platform: ${device.platform}`);
 }
 
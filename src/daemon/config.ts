@@ -11,6 +11,7 @@ export type DaemonPaths = {
   lockPath: string;
   logPath: string;
   sessionsDir: string;
+  leasesDir: string;
 };
 
 export function resolveDaemonPaths(stateDir: string | undefined): DaemonPaths {
@@ -21,6 +22,7 @@ export function resolveDaemonPaths(stateDir: string | undefined): DaemonPaths {
     lockPath: path.join(baseDir, 'daemon.lock'),
     logPath: path.join(baseDir, 'daemon.log'),
     sessionsDir: path.join(baseDir, 'sessions'),
+    leasesDir: path.join(baseDir, 'leases'),
   };
 }
 
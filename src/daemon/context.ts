@@ -1,4 +1,5 @@
 import type { CommandFlags } from '../core/dispatch.ts';
+import type { DragProfile } from '../core/gestures.ts';
 import { getDiagnosticsMeta } from '../utils/diagnostics.ts';
 
 export type DaemonCommandContext = {
@@ -20,6 +21,7 @@ export type DaemonCommandContext = {
   doubleTap?: boolean;
   pauseMs?: number;
   pattern?: 'one-way' | 'ping-pong';
+  dragProfile?: DragProfile;
 };
 
 export function contextFromFlags(
@@ -49,5 +51,6 @@ export function contextFromFlags(
     doubleTap: flags?.doubleTap,
     pauseMs: flags?.pauseMs,
     pattern: flags?.pattern,
+    dragProfile: flags?.dragProfile,
   };
 }
@@ -0,0 +1,216 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { AppError } from '../utils/errors.ts';
+import type { CommandFlags } from '../core/dispatch.ts';
+import type { DaemonRequest, DaemonResponse } from './types.ts';
+
+export const DEVICE_GROUPS_FILE = 'device-groups.json';
+
+/** Commands that do not act on one device, so fanning them out is meaningless. */
+const FANOUT_UNSUPPORTED_COMMANDS = new Set([
+  'devices',
+  'session_list',
+  'lease_allocate',
+  'lease_heartbeat',
+  'lease_release',
+  'lease_queue',
+  'lease',
+]);
+
+export type DeviceFanoutTarget = {
+  /** Selector entry as written, for example `android:Pixel 9`. */
+  label: string;
+  /** Suffix of the per-device session name and output files. */
+  slug: string;
+  selector: Pick<CommandFlags, 'platform' | 'device' | 'udid' | 'serial'>;
+};
+
+export type DeviceFanoutResult = {
+  device: string;
+  session: string;
+  ok: boolean;
+  durationMs: number;
+  data?: Record<string, unknown>;
+  error?: { code: string; message: string; hint?: string; diagnosticId?: string };
+};
+
+export type DeviceGroups = Record<string, string[]>;
+
+/** Reads `device-groups.json` from the state directory; a missing file means no groups. */
+export function readDeviceGroups(stateDir: string): DeviceGroups {
+  const filePath = path.join(stateDir, DEVICE_GROUPS_FILE);
+  let raw: string;
+  try {
+    raw = fs.readFileSync(filePath, 'utf8');
+  } catch {
+    return {};
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new AppError('INVALID_ARGS', `Invalid JSON in ${filePath}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new AppError('INVALID_ARGS', `${filePath} must map group names to selector lists`);
+  }
+  const groups: DeviceGroups = {};
+  for (const [name, value] of Object.entries(parsed as Record<string, unknown>)) {
+    const entries = typeof value === 'string' ? value.split(',') : value;
+    if (!Array.isArray(entries) || !entries.every((entry) => typeof entry === 'string')) {
+      throw new AppError('INVALID_ARGS', `Device group ${name} in ${filePath} must be a list of selectors`);
+    }
+    groups[name] = entries;
+  }
+  return groups;
+}
+
+/**
+ * Parses a `--devices` value: comma separated `[platform:]name`, `platform:id=<udid|serial>` or `@group` entries.
+ */
+export function parseDeviceSelectorList(value: string, groups: DeviceGroups = {}): DeviceFanoutTarget[] {
+  const entries = expandDeviceGroups(value.split(','), groups, []);
+  if (entries.length === 0) {
+    throw new AppError('INVALID_ARGS', '--devices requires at least one device selector');
+  }
+  const targets: DeviceFanoutTarget[] = [];
+  const slugs = new Set<string>();
+  for (const label of entries) {
+    const selector = parseDeviceSelector(label);
+    let slug = toSlug(label);
+    for (let index = 2; slugs.has(slug); index += 1) slug = `${toSlug(label)}-${index}`;
+    slugs.add(slug);
+    targets.push({ label, slug, selector });
+  }
+  return targets;
+}
+
+function expandDeviceGroups(entries: string[], groups: DeviceGroups, stack: string[]): string[] {
+  const expanded: string[] = [];
+  for (const rawEntry of entries) {
+    const entry = rawEntry.trim();
+    if (!entry) continue;
+    if (!entry.startsWith('@')) {
+      expanded.push(entry);
+      continue;
+    }
+    const name = entry.slice(1);
+    const group = groups[name];
+    if (!group) {
+      throw new AppError('INVALID_ARGS', `Unknown device group: ${name}`, {
+        hint: `Define it in ${DEVICE_GROUPS_FILE} in the agent-device state directory.`,
+        groups: Object.keys(groups),
+      });
+    }
+    if (stack.includes(name)) {
+      throw new AppError('INVALID_ARGS', `Device group ${name} includes itself`);
+    }
+    expanded.push(...expandDeviceGroups(group, groups, [...stack, name]));
+  }
+  return expanded;
+}
+
+function parseDeviceSelector(label: string): DeviceFanoutTarget['selector'] {
+  const separator = label.indexOf(':');
+  if (separator === -1) return { device: label };
+  const platform = label.slice(0, separator).trim().toLowerCase();
+  const rest = label.slice(separator + 1).trim();
+  if (!platform || !rest) {
+    throw new AppError('INVALID_ARGS', `Invalid device selector: ${label}`);
+  }
+  if (!rest.startsWith('id=')) return { platform, device: rest };
+  const id = rest.slice('id='.length).trim();
+  if (!id) throw new AppError('INVALID_ARGS', `Invalid device selector: ${label}`);
+  if (platform === 'ios' || platform === 'apple') return { platform, udid: id };
+  if (platform === 'android') return { platform, serial: id };
+  throw new AppError('INVALID_ARGS', `id= selectors are only supported for ios and android: ${label}`);
+}
+
+function toSlug(label: string): string {
+  return label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'device';
+}
+
+/** Inserts the device slug before the extension so concurrent runs do not overwrite each other's files. */
+function withDeviceSuffix(filePath: string, slug: string): string {
+  const extension = path.extname(filePath);
+  return `${filePath.slice(0, filePath.length - extension.length)}-${slug}${extension}`;
+}
+
+function buildDeviceRequest(req: DaemonRequest, target: DeviceFanoutTarget, index: number): DaemonRequest {
+  const flags: CommandFlags = { ...req.flags };
+  delete flags.devices;
+  delete flags.device;
+  delete flags.udid;
+  delete flags.serial;
+  Object.assign(flags, target.selector);
+  if (flags.out) flags.out = withDeviceSuffix(flags.out, target.slug);
+  if (flags.replayReportFile) flags.replayReportFile = withDeviceSuffix(flags.replayReportFile, target.slug);
+  if (typeof flags.saveScript === 'string') flags.saveScript = withDeviceSuffix(flags.saveScript, target.slug);
+  const positionals = [...(req.positionals ?? [])];
+  if (req.command === 'screenshot' && positionals[0]) {
+    positionals[0] = withDeviceSuffix(positionals[0], target.slug);
+  }
+  const requestId = req.meta?.requestId;
+  return {
+    ...req,
+    session: `${req.session || 'default'}@${target.slug}`,
+    positionals,
+    flags,
+    meta: { ...req.meta, requestId: requestId ? `${requestId}.${index + 1}` : undefined },
+  };
+}
+
+/**
+ * Runs one request on every `--devices` target concurrently, each in its own `<session>@<device>` session.
+ * Succeeds only when every device succeeds; per-device results are in `results` either way.
+ * Invalid selectors, unsupported commands and `replay --update` throw before any device runs.
+ */
+export async function runDeviceFanout(params: {
+  req: DaemonRequest;
+  groups: DeviceGroups;
+  invoke: (req: DaemonRequest) => Promise<DaemonResponse>;
+}): Promise<DaemonResponse> {
+  const { req, groups, invoke } = params;
+  if (FANOUT_UNSUPPORTED_COMMANDS.has(req.command)) {
+    throw new AppError('INVALID_ARGS', `${req.command} does not support --devices`);
+  }
+  if (req.flags?.replayUpdate) {
+    // Every device would heal and rewrite the same .ad files with its own selectors.
+    throw new AppError('INVALID_ARGS', 'replay --update does not support --devices', {
+      hint: 'Heal the script on one device, then replay it with --devices.',
+    });
+  }
+  const targets = parseDeviceSelectorList(req.flags?.devices ?? '', groups);
+  const startedAt = Date.now();
+  const results = await Promise.all(
+    targets.map(async (target, index): Promise<DeviceFanoutResult> => {
+      const deviceReq = buildDeviceRequest(req, target, index);
+      const deviceStartedAt = Date.now();
+      const response = await invoke(deviceReq);
+      const base = { device: target.label, session: deviceReq.session, durationMs: Date.now() - deviceStartedAt };
+      if (response.ok) return { ...base, ok: true, data: response.data ?? {} };
+      const { code, message, hint, diagnosticId } = response.error;
+      return { ...base, ok: false, error: { code, message, hint, diagnosticId } };
+    }),
+  );
+  const failures = results.filter((result) => !result.ok);
+  const summary = {
+    total: results.length,
+    passed: results.length - failures.length,
+    failed: failures.length,
+    totalDurationMs: Date.now() - startedAt,
+    results,
+  };
+  if (failures.length === 0) return { ok: true, data: summary };
+  const failedLabels = failures.map((result) => `${result.device} (${result.error?.code})`).join(', ');
+  return {
+    ok: false,
+    error: {
+      code: 'COMMAND_FAILED',
+      message: `${req.command} failed on ${failures.length} of ${results.length} devices: ${failedLabels}`,
+      details: summary,
+    },
+  };
+}
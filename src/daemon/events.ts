@@ -0,0 +1,180 @@
+import fs from 'node:fs';
+import { AppError } from '../utils/errors.ts';
+
+export const DAEMON_EVENT_TYPES = ['command_start', 'command_finish', 'diagnostic', 'app_log', 'lease'] as const;
+
+export type DaemonEventType = (typeof DAEMON_EVENT_TYPES)[number];
+
+/** One entry of the `GET /events` stream; `session` is the client-facing name (without the tenant prefix). */
+export type DaemonEvent = {
+  id: number;
+  type: DaemonEventType;
+  ts: string;
+  session?: string;
+  tenantId?: string;
+  data: Record<string, unknown>;
+};
+
+export type DaemonEventFilter = {
+  session?: string;
+  tenantId?: string;
+  types?: DaemonEventType[];
+};
+
+export type DaemonEventListener = (event: DaemonEvent) => void;
+
+export type DaemonEventBus = {
+  publish: (event: Omit<DaemonEvent, 'id' | 'ts'>) => void;
+  subscribe: (filter: DaemonEventFilter, listener: DaemonEventListener) => () => void;
+  subscriberCount: () => number;
+};
+
+const APP_LOG_POLL_INTERVAL_MS = 500;
+const APP_LOG_MAX_READ_BYTES = 64 * 1024;
+
+export function createDaemonEventBus(options: {
+  onSubscribersChange?: (count: number) => void;
+} = {}): DaemonEventBus {
+  const subscribers = new Map<DaemonEventListener, DaemonEventFilter>();
+  let nextId = 1;
+  return {
+    publish: (event) => {
+      if (subscribers.size === 0) return;
+      const payload: DaemonEvent = { id: nextId++, ts: new Date().toISOString(), ...event };
+      for (const [listener, filter] of subscribers) {
+        if (!matchesDaemonEventFilter(payload, filter)) continue;
+        try {
+          listener(payload);
+        } catch {
+          // A broken subscriber must not affect the daemon or other subscribers.
+        }
+      }
+    },
+    subscribe: (filter, listener) => {
+      subscribers.set(listener, filter);
+      options.onSubscribersChange?.(subscribers.size);
+      return () => {
+        if (!subscribers.delete(listener)) return;
+        options.onSubscribersChange?.(subscribers.size);
+      };
+    },
+    subscriberCount: () => subscribers.size,
+  };
+}
+
+/** Events without a session (for example lease changes) pass a session filter but not a tenant filter. */
+export function matchesDaemonEventFilter(event: DaemonEvent, filter: DaemonEventFilter): boolean {
+  if (filter.types && !filter.types.includes(event.type)) return false;
+  if (filter.tenantId && event.tenantId !== filter.tenantId) return false;
+  if (filter.session && event.session && event.session !== filter.session) return false;
+  return true;
+}
+
+export function parseDaemonEventFilter(params: URLSearchParams): DaemonEventFilter {
+  const filter: DaemonEventFilter = {};
+  const session = params.get('session')?.trim();
+  if (session) filter.session = session;
+  const tenantId = (params.get('tenant') ?? params.get('tenantId'))?.trim();
+  if (tenantId) filter.tenantId = tenantId;
+  const rawTypes = params.getAll('types').flatMap((value) => value.split(','));
+  const types = rawTypes.map((value) => value.trim()).filter((value) => value.length > 0);
+  if (types.length > 0) {
+    const invalid = types.filter((value) => !(DAEMON_EVENT_TYPES as readonly string[]).includes(value));
+    if (invalid.length > 0) {
+      throw new AppError('INVALID_ARGS', `Unknown event type: ${invalid.join(', ')}`, {
+        supported: [...DAEMON_EVENT_TYPES],
+      });
+    }
+    filter.types = types as DaemonEventType[];
+  }
+  return filter;
+}
+
+export function formatSseEvent(event: DaemonEvent): string {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+export type AppLogSource = {
+  session: string;
+  tenantId?: string;
+  outPath: string;
+};
+
+/**
+ * Tails session app log files and publishes new lines as `app_log` events.
+ * Files are read from their size at the time they are first seen, so only lines written while following are sent.
+ */
+export function createAppLogFollower(options: {
+  listSources: () => AppLogSource[];
+  publish: DaemonEventBus['publish'];
+  intervalMs?: number;
+}): { start: () => void; stop: () => void; poll: () => void } {
+  const offsets = new Map<string, { offset: number; partial: string }>();
+  let timer: NodeJS.Timeout | undefined;
+
+  const poll = () => {
+    const sources = options.listSources();
+    const seen = new Set<string>();
+    for (const source of sources) {
+      seen.add(source.outPath);
+      let size: number;
+      try {
+        size = fs.statSync(source.outPath).size;
+      } catch {
+        continue;
+      }
+      const state = offsets.get(source.outPath);
+      if (!state) {
+        offsets.set(source.outPath, { offset: size, partial: '' });
+        continue;
+      }
+      if (size < state.offset) {
+        state.offset = 0;
+        state.partial = '';
+      }
+      if (size === state.offset) continue;
+      const length = Math.min(size - state.offset, APP_LOG_MAX_READ_BYTES);
+      const buffer = Buffer.alloc(length);
+      let fd: number | undefined;
+      try {
+        fd = fs.openSync(source.outPath, 'r');
+        fs.readSync(fd, buffer, 0, length, state.offset);
+      } catch {
+        continue;
+      } finally {
+        if (fd !== undefined) fs.closeSync(fd);
+      }
+      state.offset += length;
+      const lines = `${state.partial}${buffer.toString('utf8')}`.split('\n');
+      state.partial = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line.length === 0) continue;
+        options.publish({
+          type: 'app_log',
+          session: source.session,
+          tenantId: source.tenantId,
+          data: { line },
+        });
+      }
+    }
+    for (const outPath of offsets.keys()) {
+      if (!seen.has(outPath)) offsets.delete(outPath);
+    }
+  };
+
+  return {
+    start: () => {
+      if (timer) return;
+      poll();
+      timer = setInterval(poll, options.intervalMs ?? APP_LOG_POLL_INTERVAL_MS);
+      timer.unref();
+    },
+    stop: () => {
+      if (!timer) return;
+      clearInterval(timer);
+      timer = undefined;
+      offsets.clear();
+    },
+    poll,
+  };
+}
@@ -508,3 +508,158 @@ test('scrollintoview @ref does not run post-scroll verification snapshot', async
   assert.equal(response.ok, true);
   assert.equal(snapshotCallCount, 0);
 });
+
+test('scrollintoview selector swipes inside the container until the selector matches', async () => {
+  const sessionStore = makeSessionStore();
+  const sessionName = 'default';
+  sessionStore.set(sessionName, makeSession(sessionName));
+  const list = {
+    index: 1,
+    type: 'XCUIElementTypeTable',
+    identifier: 'feed',
+    rect: { x: 0, y: 100, width: 390, height: 500 },
+  };
+  const pages = [
+    [{ index: 2, type: 'XCUIElementTypeCell', label: 'Item 1', rect: { x: 0, y: 120, width: 390, height: 60 } }],
+    [{ index: 2, type: 'XCUIElementTypeCell', label: 'Item 9', rect: { x: 0, y: 120, width: 390, height: 60 } }],
+    [{ index: 2, type: 'XCUIElementTypeCell', label: 'Item 42', rect: { x: 0, y: 300, width: 390, height: 60 } }],
+  ];
+  let page = 0;
+  const swipes: string[][] = [];
+
+  const response = await handleInteractionCommands({
+    req: {
+      token: 't',
+      session: sessionName,
+      command: 'scrollintoview',
+      positionals: ['label="Item 42"'],
+      flags: { scrollContainer: 'id=feed', scrollMaxSwipes: 5 },
+    },
+    sessionName,
+    sessionStore,
+    contextFromFlags,
+    dispatch: async (_device, command, positionals) => {
+      if (command === 'snapshot') return { nodes: [list, ...pages[page]!], backend: 'xctest' };
+      swipes.push(positionals);
+      page += 1;
+      return {};
+    },
+  });
+
+  assert.equal(response?.ok, true);
+  assert.deepEqual((response as any).data, { selector: 'label="Item 42"', ref: 'e2', swipes: 2, direction: 'down' });
+  assert.deepEqual(swipes, [['195', '530', '195', '170'], ['195', '530', '195', '170']]);
+  const action = sessionStore.get(sessionName)?.actions[0];
+  assert.equal(action?.flags.scrollContainer, 'id=feed');
+  assert.equal(action?.flags.scrollMaxSwipes, 5);
+});
+
+test('scrollintoview selector stops at the end of the list when snapshots stop changing', async () => {
+  const sessionStore = makeSessionStore();
+  const sessionName = 'default';
+  sessionStore.set(sessionName, makeSession(sessionName));
+  let swipes = 0;
+
+  const response = await handleInteractionCommands({
+    req: {
+      token: 't',
+      session: sessionName,
+      command: 'scrollintoview',
+      positionals: ['Missing item'],
+      flags: { scrollDirection: 'up' },
+    },
+    sessionName,
+    sessionStore,
+    contextFromFlags,
+    dispatch: async (_device, command) => {
+      if (command !== 'snapshot') {
+        swipes += 1;
+        return {};
+      }
+      return {
+        nodes: [
+          { index: 0, type: 'Window', rect: { x: 0, y: 0, width: 390, height: 844 } },
+          { index: 1, type: 'XCUIElementTypeCell', label: 'Top item', rect: { x: 0, y: 100, width: 390, height: 60 } },
+        ],
+        backend: 'xctest',
+      };
+    },
+  });
+
+  assert.equal(response?.ok, false);
+  assert.equal(swipes, 1);
+  assert.match((response as any).error.message, /reached the end of the list without finding text="Missing item"/);
+  assert.deepEqual((response as any).error.details, { swipes: 1, direction: 'up', endOfList: true });
+});
+
+test('drag resolves refs, selectors and waypoints into one dispatched path', async () => {
+  const sessionStore = makeSessionStore();
+  const sessionName = 'default';
+  const session = makeSession(sessionName);
+  session.snapshot = {
+    nodes: attachRefs([
+      { index: 0, type: 'XCUIElementTypeCell', label: 'Photo', rect: { x: 0, y: 100, width: 100, height: 100 } },
+    ]),
+    createdAt: Date.now(),
+  };
+  sessionStore.set(sessionName, session);
+  const dispatchCalls: Array<{ command: string; positionals: string[] }> = [];
+
+  const response = await handleInteractionCommands({
+    req: {
+      token: 't',
+      session: sessionName,
+      command: 'drag',
+      positionals: ['@e1', 'label="Trash"', '800'],
+      flags: { dragVia: ['200,300'], holdMs: 500 },
+    },
+    sessionName,
+    sessionStore,
+    contextFromFlags,
+    dispatch: async (_device, command, positionals) => {
+      dispatchCalls.push({ command, positionals });
+      if (command === 'snapshot') {
+        return {
+          nodes: [
+            { index: 0, type: 'XCUIElementTypeButton', label: 'Trash', rect: { x: 300, y: 700, width: 40, height: 40 } },
+          ],
+          backend: 'xctest',
+        };
+      }
+      return { durationMs: 800 };
+    },
+  });
+
+  assert.equal(response?.ok, true);
+  assert.deepEqual(dispatchCalls.map((call) => call.command), ['snapshot', 'drag']);
+  assert.deepEqual(dispatchCalls[1]?.positionals, ['50,150', '200,300', '320,720', '800']);
+  const targets = [{ x: 50, y: 150, ref: 'e1' }, { x: 200, y: 300 }, { x: 320, y: 720, selector: 'label="Trash"' }];
+  assert.deepEqual((response as any).data, { durationMs: 800, targets });
+  const action = sessionStore.get(sessionName)?.actions[0];
+  assert.deepEqual(action?.positionals, ['@e1', 'label="Trash"', '800']);
+  assert.deepEqual(action?.flags.dragVia, ['200,300']);
+  assert.equal(action?.flags.holdMs, 500);
+});
+
+test('drag fails when a selector endpoint does not match', async () => {
+  const sessionStore = makeSessionStore();
+  const sessionName = 'default';
+  sessionStore.set(sessionName, makeSession(sessionName));
+  let dragged = false;
+
+  const response = await handleInteractionCommands({
+    req: { token: 't', session: sessionName, command: 'drag', positionals: ['10,10', 'id=missing'], flags: {} },
+    sessionName,
+    sessionStore,
+    contextFromFlags,
+    dispatch: async (_device, command) => {
+      if (command === 'snapshot') return { nodes: [], backend: 'xctest' };
+      dragged = true;
+      return {};
+    },
+  });
+
+  assert.equal(response?.ok, false);
+  assert.equal((response as any).error.code, 'COMMAND_FAILED');
+  assert.equal(dragged, false);
+});
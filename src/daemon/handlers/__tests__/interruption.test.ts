@@ -0,0 +1,160 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { handleInterruptionCommands, runWithInterruptionHandlers } from '../interruption.ts';
+import { SessionStore } from '../../session-store.ts';
+import type { DaemonRequest, DaemonResponse, SessionState } from '../../types.ts';
+import type { RawSnapshotNode } from '../../../utils/snapshot.ts';
+
+function makeSessionStore(): SessionStore {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-device-interruption-handler-'));
+  return new SessionStore(path.join(root, 'sessions'));
+}
+
+function makeSession(name: string): SessionState {
+  return {
+    name,
+    device: { platform: 'android', id: 'emulator-5554', name: 'Pixel', kind: 'emulator', booted: true },
+    createdAt: Date.now(),
+    actions: [],
+  };
+}
+
+function request(command: string, positionals: string[]): DaemonRequest {
+  return { token: 't', session: 'default', command, positionals, flags: {} };
+}
+
+const permissionPrompt: RawSnapshotNode[] = [
+  { index: 0, type: 'android.widget.TextView', label: 'Allow Demo to send you notifications?' },
+  { index: 1, type: 'android.widget.Button', label: 'Allow', rect: { x: 0, y: 400, width: 200, height: 100 } },
+];
+
+async function addHandler(sessionStore: SessionStore, positionals: string[]): Promise<DaemonResponse | null> {
+  return await handleInterruptionCommands({
+    req: request('handler', ['add', ...positionals]),
+    sessionName: 'default',
+    sessionStore,
+  });
+}
+
+test('handler add, list and clear manage session handlers and record add/clear', async () => {
+  const sessionStore = makeSessionStore();
+  sessionStore.set('default', makeSession('default'));
+
+  const added = await addHandler(sessionStore, ['label="Rate this app"', 'press', 'label="Not now"']);
+  assert.equal(added?.ok, true);
+  await addHandler(sessionStore, ['label="Allow Demo"', 'accept']);
+  const invalid = await addHandler(sessionStore, ['label="Allow"', 'tap']).catch((error: Error) => error);
+  assert.ok(invalid instanceof Error);
+
+  const list = await handleInterruptionCommands({
+    req: request('handler', ['list']),
+    sessionName: 'default',
+    sessionStore,
+  });
+  assert.deepEqual((list as any).data.lines, [
+    'h1 label="Rate this app" -> press label="Not now" (hits=0)',
+    'h2 label="Allow Demo" -> accept (hits=0)',
+  ]);
+
+  const cleared = await handleInterruptionCommands({
+    req: request('handler', ['clear', 'h1']),
+    sessionName: 'default',
+    sessionStore,
+  });
+  assert.deepEqual((cleared as any).data, { cleared: 1, remaining: 1 });
+  const session = sessionStore.get('default');
+  assert.deepEqual(session?.interruptionHandlers?.map((handler) => handler.id), ['h2']);
+  assert.deepEqual(session?.actions.map((action) => action.positionals[0]), ['add', 'add', 'clear']);
+});
+
+test('runWithInterruptionHandlers dismisses overlays before an interaction and reports them', async () => {
+  const sessionStore = makeSessionStore();
+  sessionStore.set('default', makeSession('default'));
+  await addHandler(sessionStore, ['label="Allow Demo to send you notifications?"', 'press', 'label="Allow"']);
+
+  let promptVisible = true;
+  const dispatched: string[] = [];
+  const response = await runWithInterruptionHandlers({
+    req: request('press', ['label="Continue"']),
+    sessionName: 'default',
+    sessionStore,
+    logPath: '/tmp/daemon.log',
+    settleMs: 0,
+    dispatch: async (_device, command, positionals) => {
+      dispatched.push([command, ...positionals].join(' '));
+      if (command === 'press') promptVisible = false;
+      return { nodes: promptVisible ? permissionPrompt : [] };
+    },
+    run: async () => {
+      const session = sessionStore.get('default')!;
+      sessionStore.recordAction(session, { command: 'press', positionals: ['label="Continue"'], flags: {} });
+      return { ok: true, data: { x: 10, y: 20 } };
+    },
+  });
+
+  assert.deepEqual(dispatched, ['snapshot', 'press 100 450', 'snapshot', 'snapshot']);
+  assert.equal(response.ok, true);
+  const interruptions = (response as any).data.interruptions;
+  assert.deepEqual(interruptions, [
+    {
+      handler: 'h1',
+      selector: 'label="Allow Demo to send you notifications?"',
+      action: 'press',
+      phase: 'before',
+      label: 'Allow',
+      x: 100,
+      y: 450,
+    },
+  ]);
+  const session = sessionStore.get('default');
+  assert.deepEqual(session?.actions.at(-1)?.result?.interruptions, interruptions);
+  assert.equal(session?.interruptionHandlers?.[0]?.hits, 1);
+});
+
+test('runWithInterruptionHandlers retries a failed selector once after a handler fires', async () => {
+  const sessionStore = makeSessionStore();
+  sessionStore.set('default', makeSession('default'));
+  await addHandler(sessionStore, ['label="Allow Demo to send you notifications?"', 'accept']);
+
+  const alertActions: string[] = [];
+  let attempts = 0;
+  const response = await runWithInterruptionHandlers({
+    req: request('get', ['text', 'label="Welcome"']),
+    sessionName: 'default',
+    sessionStore,
+    logPath: '/tmp/daemon.log',
+    settleMs: 0,
+    dispatch: async () => ({ nodes: alertActions.length === 0 ? permissionPrompt : [] }),
+    runAlert: async (_device, action) => {
+      alertActions.push(action);
+      return { message: 'accepted' };
+    },
+    run: async () => {
+      attempts += 1;
+      if (attempts === 1) return { ok: false, error: { code: 'COMMAND_FAILED', message: 'Selector did not match' } };
+      return { ok: true, data: { text: 'Welcome' } };
+    },
+  });
+
+  assert.equal(attempts, 2);
+  assert.deepEqual(alertActions, ['accept']);
+  assert.equal(response.ok, true);
+  assert.equal((response as any).data.interruptions[0].phase, 'selector_failed');
+});
+
+test('runWithInterruptionHandlers leaves commands untouched without handlers', async () => {
+  const sessionStore = makeSessionStore();
+  sessionStore.set('default', makeSession('default'));
+  const response = await runWithInterruptionHandlers({
+    req: request('press', ['10', '20']),
+    sessionName: 'default',
+    sessionStore,
+    logPath: '/tmp/daemon.log',
+    dispatch: async () => assert.fail('no snapshot without handlers'),
+    run: async () => ({ ok: true, data: { x: 10, y: 20 } }),
+  });
+  assert.deepEqual(response, { ok: true, data: { x: 10, y: 20 } });
+});
@@ -3,7 +3,7 @@ import assert from 'node:assert/strict';
 import fs from 'node:fs';
 import os from 'node:os';
 import path from 'node:path';
-import { handleRecordTraceCommands } from '../record-trace.ts';
+import { handleRecordTraceCommands, runTracedRequest } from '../record-trace.ts';
 import { SessionStore } from '../../session-store.ts';
 import type { SessionState } from '../../types.ts';
 
@@ -531,3 +531,91 @@ test('record keeps android pull + cleanup flow', async () => {
   assert.match(adbCalls[0]?.join(' '), /pull/);
   assert.match(adbCalls[1]?.join(' '), /shell rm -f/);
 });
+
+test('trace bundle records traced commands and renders a timeline', async () => {
+  const sessionStore = makeSessionStore();
+  const sessionName = 'android-trace';
+  const session = makeSession(sessionName, {
+    platform: 'android',
+    id: 'emulator-5554',
+    name: 'Pixel',
+    kind: 'emulator',
+    booted: true,
+  });
+  const appLogPath = path.join(os.tmpdir(), `agent-device-trace-app-${Date.now()}.log`);
+  fs.writeFileSync(appLogPath, 'before trace\n');
+  session.appLog = {
+    platform: 'android',
+    backend: 'android',
+    outPath: appLogPath,
+    startedAt: Date.now(),
+    getState: () => 'active',
+    stop: async () => {},
+    wait: Promise.resolve({ stdout: '', stderr: '', exitCode: 0 }),
+  };
+  sessionStore.set(sessionName, session);
+  const cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-device-trace-bundle-'));
+  const traceCommand = (positionals: string[], flags: Record<string, unknown> = {}) =>
+    handleRecordTraceCommands({
+      req: { token: 't', session: sessionName, command: 'trace', positionals, flags, meta: { cwd } },
+      sessionName,
+      sessionStore,
+    });
+
+  const started = await traceCommand(['start', 'bundle'], { traceScreenshots: true });
+  assert.equal(started?.ok, true);
+  const bundleDir = path.join(cwd, 'bundle');
+  assert.equal(sessionStore.get(sessionName)?.trace?.outPath, path.join(bundleDir, 'runner.log'));
+
+  let label = 'Off';
+  const dispatched: string[] = [];
+  const dispatch = (async (_device: unknown, command: string, positionals: string[]) => {
+    dispatched.push(command);
+    if (command === 'screenshot') fs.writeFileSync(positionals[0], 'png');
+    return { nodes: [{ index: 0, type: 'android.widget.Switch', label }] };
+  }) as unknown as Parameters<typeof runTracedRequest>[0]['dispatch'];
+  const response = await runTracedRequest({
+    req: { token: 't', session: sessionName, command: 'press', positionals: ['@e1'], flags: {} },
+    sessionName,
+    sessionStore,
+    logPath: '/tmp/daemon.log',
+    dispatch,
+    run: async () => {
+      label = 'On';
+      fs.appendFileSync(appLogPath, 'toggled wifi\n');
+      return { ok: true, data: { ref: 'e1' } };
+    },
+  });
+  assert.deepEqual(response, { ok: true, data: { ref: 'e1' } });
+  assert.deepEqual(dispatched, ['snapshot', 'snapshot', 'screenshot']);
+  await runTracedRequest({
+    req: { token: 't', session: sessionName, command: 'trace', positionals: ['stop'] },
+    sessionName,
+    sessionStore,
+    logPath: '/tmp/daemon.log',
+    dispatch,
+    run: async () => ({ ok: true }),
+  });
+  assert.equal(dispatched.length, 3);
+
+  const stopped = await traceCommand(['stop']);
+  assert.equal(stopped?.ok, true);
+  assert.equal(sessionStore.get(sessionName)?.trace, undefined);
+  const steps = fs
+    .readFileSync(path.join(bundleDir, 'steps.ndjson'), 'utf8')
+    .trim()
+    .split('\n')
+    .map((line) => JSON.parse(line));
+  assert.equal(steps.length, 1);
+  assert.equal(steps[0].command, 'press');
+  assert.equal(steps[0].screenshot, 'steps/0001.png');
+  assert.equal(fs.readFileSync(path.join(bundleDir, steps[0].appLog), 'utf8'), 'toggled wifi\n');
+  assert.equal(fs.readFileSync(path.join(bundleDir, 'replay.ad'), 'utf8').split('\n')[1], 'press @e1');
+
+  const shown = await traceCommand(['show', 'bundle']);
+  assert.equal(shown?.ok, true);
+  const html = fs.readFileSync(path.join(bundleDir, 'index.html'), 'utf8');
+  assert.match(html, /press @e1/);
+  assert.match(html, /\+ @e1 \[switch\] &quot;On&quot;/);
+  assert.match(html, /<img src="steps\/0001.png"/);
+});
@@ -672,3 +672,223 @@ test('replay rejects malformed .ad lines with unclosed quotes', async () => {
     assert.match(response.error.message, /Invalid replay script line/);
   }
 });
+
+test('replay runs set, if, repeat and include steps with interpolated values', async () => {
+  const tempRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-device-replay-control-flow-'));
+  const sessionsDir = path.join(tempRoot, 'sessions');
+  const replayPath = path.join(tempRoot, 'replay.ad');
+  const sessionStore = new SessionStore(sessionsDir);
+  const sessionName = 'control-flow-session';
+  sessionStore.set(sessionName, makeSession(sessionName));
+  fs.writeFileSync(path.join(tempRoot, 'login.ad'), 'fill "id=email" "${env.QA_EMAIL}"\n');
+  fs.writeFileSync(
+    replayPath,
+    [
+      'set label "Next"',
+      'include login.ad',
+      'if visible "label=Promo"',
+      '  click "label=Dismiss"',
+      'end',
+      'if not exists "label=Done"',
+      '  repeat 2',
+      '    click "label=${label}"',
+      '  end',
+      'else',
+      '  click "label=Unexpected"',
+      'end',
+      'click "label=Missing"',
+    ].join('\n'),
+  );
+
+  const invokeCalls: string[] = [];
+  const invoke = async (request: DaemonRequest): Promise<DaemonResponse> => {
+    invokeCalls.push([request.command, ...(request.positionals ?? [])].join(' '));
+    if (request.command === 'is') {
+      assert.equal(request.flags?.noRecord, true);
+      return { ok: false, error: { code: 'COMMAND_FAILED', message: 'predicate failed' } };
+    }
+    if (request.positionals?.[0] === 'label=Missing') {
+      return { ok: false, error: { code: 'COMMAND_FAILED', message: 'not found' } };
+    }
+    return { ok: true, data: {} };
+  };
+
+  const response = await handleSessionCommands({
+    req: {
+      token: 't',
+      session: sessionName,
+      command: 'replay',
+      positionals: [replayPath],
+      flags: {},
+      meta: { env: { QA_EMAIL: 'qa@example.com' } },
+    },
+    sessionName,
+    logPath: path.join(tempRoot, 'daemon.log'),
+    sessionStore,
+    invoke,
+  });
+
+  assert.deepEqual(invokeCalls, [
+    'fill id=email qa@example.com',
+    'is visible label=Promo',
+    'is exists label=Done',
+    'click label=Next',
+    'click label=Next',
+    'click label=Missing',
+  ]);
+  assert.ok(response);
+  assert.equal(response.ok, false);
+  if (!response.ok) {
+    assert.match(response.error.message, /^Replay failed at step 4 /);
+    assert.equal(response.error.details?.line, 13);
+    assert.equal(response.error.details?.replayPath, replayPath);
+  }
+});
+
+test('replay reports undefined variables with the script line', async () => {
+  const tempRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-device-replay-undefined-var-'));
+  const replayPath = path.join(tempRoot, 'replay.ad');
+  const sessionStore = new SessionStore(path.join(tempRoot, 'sessions'));
+  const sessionName = 'undefined-var-session';
+  sessionStore.set(sessionName, makeSession(sessionName));
+  fs.writeFileSync(replayPath, 'repeat 1\n  fill "id=email" "${email}"\nend\n');
+
+  const response = await handleSessionCommands({
+    req: { token: 't', session: sessionName, command: 'replay', positionals: [replayPath], flags: {} },
+    sessionName,
+    logPath: path.join(tempRoot, 'daemon.log'),
+    sessionStore,
+    invoke: async () => ({ ok: true, data: {} }),
+  });
+
+  assert.ok(response);
+  assert.equal(response.ok, false);
+  if (!response.ok) {
+    assert.equal(response.error.code, 'INVALID_ARGS');
+    assert.ok(response.error.message.endsWith(`(${replayPath}:2)`), response.error.message);
+  }
+});
+
+test('replay resolves network mock body files against the script directory', async () => {
+  const tempRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-device-replay-mock-body-'));
+  const flowsDir = path.join(tempRoot, 'flows');
+  fs.mkdirSync(flowsDir);
+  const replayPath = path.join(flowsDir, 'checkout.ad');
+  const sessionStore = new SessionStore(path.join(tempRoot, 'sessions'));
+  const sessionName = 'mock-body-session';
+  sessionStore.set(sessionName, makeSession(sessionName));
+  fs.writeFileSync(replayPath, 'network mock add "*/api/cart" --body-file fixtures/cart.json\n');
+  const invoked: DaemonRequest[] = [];
+
+  const response = await handleSessionCommands({
+    req: {
+      token: 't',
+      session: sessionName,
+      command: 'replay',
+      positionals: [replayPath],
+      flags: {},
+      meta: { cwd: tempRoot },
+    },
+    sessionName,
+    logPath: path.join(tempRoot, 'daemon.log'),
+    sessionStore,
+    invoke: async (request) => {
+      invoked.push(request);
+      return { ok: true, data: {} };
+    },
+  });
+
+  assert.ok(response?.ok);
+  assert.equal(invoked.length, 1);
+  assert.deepEqual(invoked[0].positionals, ['mock', 'add', '*/api/cart']);
+  assert.equal(invoked[0].flags?.mockBodyFile, path.join(flowsDir, 'fixtures', 'cart.json'));
+});
+
+test('replay does not read env references from the daemon environment', async () => {
+  const tempRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-device-replay-daemon-env-'));
+  const replayPath = path.join(tempRoot, 'replay.ad');
+  const sessionStore = new SessionStore(path.join(tempRoot, 'sessions'));
+  const sessionName = 'daemon-env-session';
+  sessionStore.set(sessionName, makeSession(sessionName));
+  fs.writeFileSync(replayPath, 'fill "id=token" "${env.AGENT_DEVICE_TEST_DAEMON_SECRET}"\n');
+  const invokeCalls: string[] = [];
+  process.env.AGENT_DEVICE_TEST_DAEMON_SECRET = 'daemon-only';
+  try {
+    const response = await handleSessionCommands({
+      req: { token: 't', session: sessionName, command: 'replay', positionals: [replayPath], flags: {} },
+      sessionName,
+      logPath: path.join(tempRoot, 'daemon.log'),
+      sessionStore,
+      invoke: async (request) => {
+        invokeCalls.push([request.command, ...(request.positionals ?? [])].join(' '));
+        return { ok: true, data: {} };
+      },
+    });
+
+    assert.ok(response);
+    assert.equal(response.ok, false);
+    if (!response.ok) assert.equal(response.error.code, 'INVALID_ARGS');
+    assert.deepEqual(invokeCalls, []);
+  } finally {
+    delete process.env.AGENT_DEVICE_TEST_DAEMON_SECRET;
+  }
+});
+
+test('replay runs a directory as a suite and writes a junit report with failure artifacts', async () => {
+  const tempRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-device-replay-suite-'));
+  const flowsDir = path.join(tempRoot, 'flows');
+  const reportPath = path.join(tempRoot, 'out', 'report.xml');
+  const sessionStore = new SessionStore(path.join(tempRoot, 'sessions'));
+  const sessionName = 'suite-session';
+  sessionStore.set(sessionName, makeSession(sessionName));
+  fs.mkdirSync(flowsDir);
+  fs.writeFileSync(path.join(flowsDir, 'a-pass.ad'), 'click "label=Ok"\n');
+  fs.writeFileSync(path.join(flowsDir, 'b-fail.ad'), 'click "label=Ok"\nclick "label=Missing"\n');
+
+  const invokeCalls: string[] = [];
+  const invoke = async (request: DaemonRequest): Promise<DaemonResponse> => {
+    invokeCalls.push(request.command);
+    if (request.command === 'screenshot') {
+      assert.equal(request.flags?.noRecord, true);
+      fs.writeFileSync(request.positionals?.[0] ?? '', 'png');
+      return { ok: true, data: { path: request.positionals?.[0] } };
+    }
+    if (request.command === 'snapshot') return { ok: true, data: { nodes: [] } };
+    if (request.positionals?.[0] === 'label=Missing') {
+      return { ok: false, error: { code: 'COMMAND_FAILED', message: 'not found' } };
+    }
+    return { ok: true, data: {} };
+  };
+
+  const response = await handleSessionCommands({
+    req: {
+      token: 't',
+      session: sessionName,
+      command: 'replay',
+      positionals: ['flows'],
+      flags: { replayReport: 'junit', replayReportFile: 'out/report.xml' },
+      meta: { cwd: tempRoot },
+    },
+    sessionName,
+    logPath: path.join(tempRoot, 'daemon.log'),
+    sessionStore,
+    invoke,
+  });
+
+  assert.ok(response);
+  assert.equal(response.ok, false);
+  if (!response.ok) {
+    assert.equal(response.error.message, 'Replay suite failed: 1 of 2 scripts failed');
+    assert.equal(response.error.details?.report, reportPath);
+    const scripts = response.error.details?.scripts as Array<Record<string, unknown>>;
+    assert.deepEqual(scripts.map((script) => script.status), ['passed', 'failed']);
+  }
+  assert.deepEqual(invokeCalls, ['click', 'click', 'click', 'screenshot', 'snapshot']);
+  const artifactsDir = path.join(tempRoot, 'out', 'report-artifacts');
+  assert.ok(fs.existsSync(path.join(artifactsDir, '2-b-fail-step2.png')));
+  assert.ok(fs.existsSync(path.join(artifactsDir, '2-b-fail-step2.snapshot.json')));
+  const xml = fs.readFileSync(reportPath, 'utf8');
+  assert.match(xml, /tests="3" failures="1"/);
+  assert.match(xml, /<testsuite name="b-fail"/);
+  assert.match(xml, /\[\[ATTACHMENT\|[^\]]*2-b-fail-step2\.png\]\]/);
+});
@@ -0,0 +1,157 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { handleScreenshotCommands } from '../screenshot.ts';
+import { SessionStore } from '../../session-store.ts';
+import type { DaemonRequest, SessionState } from '../../types.ts';
+import { createRgbaImage, encodePng, type RgbaImage } from '../../../utils/png.ts';
+import type { RawSnapshotNode } from '../../../utils/snapshot.ts';
+
+function makeRoot(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'agent-device-screenshot-handler-'));
+}
+
+function makeSession(name: string): SessionState {
+  return {
+    name,
+    device: { platform: 'android', id: 'emulator-5554', name: 'Pixel', kind: 'emulator', booted: true },
+    createdAt: Date.now(),
+    actions: [],
+  };
+}
+
+/** Fake dispatch that "captures" screens in order and reports a fixed snapshot (rects in points, 2x scale). */
+function makeDispatch(screens: RgbaImage[], nodes: RawSnapshotNode[] = []) {
+  const calls: string[] = [];
+  const dispatch = async (_device: unknown, command: string, positionals: string[]) => {
+    calls.push(command);
+    if (command === 'screenshot') {
+      fs.mkdirSync(path.dirname(positionals[0]), { recursive: true });
+      fs.writeFileSync(positionals[0], encodePng(screens.shift() ?? createRgbaImage(1, 1, [0, 0, 0, 255])));
+      return { path: positionals[0] };
+    }
+    return { nodes };
+  };
+  return { dispatch: dispatch as any, calls };
+}
+
+function screen(banner: [number, number, number, number] = [255, 255, 255, 255]): RgbaImage {
+  const image = createRgbaImage(20, 20, [255, 255, 255, 255]);
+  for (let y = 0; y < 4; y += 1) {
+    for (let x = 0; x < 20; x += 1) image.data.set(banner, (y * 20 + x) * 4);
+  }
+  return image;
+}
+
+function request(root: string, command: string, positionals: string[], flags: DaemonRequest['flags']): DaemonRequest {
+  return { token: 't', session: 'default', command, positionals, flags, meta: { cwd: root } };
+}
+
+test('screenshot --compare initializes a missing baseline and fails over the threshold', async () => {
+  const root = makeRoot();
+  const sessionStore = new SessionStore(path.join(root, 'sessions'));
+  sessionStore.set('default', makeSession('default'));
+  const { dispatch } = makeDispatch([screen(), screen([0, 0, 0, 255])]);
+
+  const first = await handleScreenshotCommands({
+    req: request(root, 'screenshot', ['first.png'], { screenshotCompare: 'baseline.png' }),
+    sessionName: 'default',
+    logPath: path.join(root, 'daemon.log'),
+    sessionStore,
+    dispatch,
+  });
+  assert.equal(first?.ok, true);
+  assert.equal(first?.ok && first.data?.baselineInitialized, true);
+  assert.ok(fs.existsSync(path.join(root, 'baseline.png')));
+
+  const second = await handleScreenshotCommands({
+    req: request(root, 'screenshot', ['second.png'], { screenshotCompare: 'baseline.png', screenshotThreshold: '5%' }),
+    sessionName: 'default',
+    logPath: path.join(root, 'daemon.log'),
+    sessionStore,
+    dispatch,
+  });
+  assert.equal(second?.ok, false);
+  if (second && !second.ok) {
+    assert.equal(second.error.code, 'COMMAND_FAILED');
+    assert.match(second.error.message, /20% of pixels \(threshold 5%\)/);
+    assert.equal(second.error.details?.diffPath, path.join(root, 'second.diff.png'));
+  }
+  assert.ok(fs.existsSync(path.join(root, 'second.diff.png')));
+  assert.equal(sessionStore.get('default')?.actions.length, 2);
+});
+
+test('screenshot --compare ignores regions matched by selectors and rects', async () => {
+  const root = makeRoot();
+  const sessionStore = new SessionStore(path.join(root, 'sessions'));
+  sessionStore.set('default', makeSession('default'));
+  fs.writeFileSync(path.join(root, 'baseline.png'), encodePng(screen()));
+  const nodes: RawSnapshotNode[] = [
+    { index: 0, type: 'android.widget.FrameLayout', rect: { x: 0, y: 0, width: 10, height: 10 } },
+    {
+      index: 1,
+      type: 'android.widget.TextView',
+      label: 'Clock',
+      rect: { x: 0, y: 0, width: 10, height: 2 },
+      parentIndex: 0,
+    },
+  ];
+  const { dispatch, calls } = makeDispatch([screen([0, 0, 0, 255]), screen([0, 0, 0, 255])], nodes);
+
+  const bySelector = await handleScreenshotCommands({
+    req: request(root, 'screenshot', ['a.png'], {
+      screenshotCompare: 'baseline.png',
+      screenshotIgnore: ['label=Clock'],
+    }),
+    sessionName: 'default',
+    logPath: path.join(root, 'daemon.log'),
+    sessionStore,
+    dispatch,
+  });
+  assert.equal(bySelector?.ok, true);
+  assert.equal(bySelector?.ok && (bySelector.data?.summary as any).ignoredPixels, 80);
+  assert.deepEqual(calls, ['screenshot', 'snapshot']);
+
+  const byRect = await handleScreenshotCommands({
+    req: request(root, 'screenshot', ['b.png'], {
+      screenshotCompare: 'baseline.png',
+      screenshotIgnore: ['0,0,20,2'],
+      screenshotThreshold: '12',
+    }),
+    sessionName: 'default',
+    logPath: path.join(root, 'daemon.log'),
+    sessionStore,
+    dispatch,
+  });
+  assert.equal(byRect?.ok, true);
+  assert.equal(byRect?.ok && (byRect.data?.summary as any).mismatchPercent, 11.1111);
+});
+
+test('diff screenshot rolls the session baseline forward', async () => {
+  const root = makeRoot();
+  const sessionStore = new SessionStore(path.join(root, 'sessions'));
+  sessionStore.set('default', makeSession('default'));
+  const { dispatch } = makeDispatch([screen(), screen([0, 0, 0, 255]), screen([0, 0, 0, 255])]);
+  const run = () =>
+    handleScreenshotCommands({
+      req: request(root, 'diff', ['screenshot'], {}),
+      sessionName: 'default',
+      logPath: path.join(root, 'daemon.log'),
+      sessionStore,
+      dispatch,
+    });
+
+  const first = await run();
+  assert.equal(first?.ok && first.data?.baselineInitialized, true);
+  const second = await run();
+  assert.equal(second?.ok, true);
+  assert.equal(second?.ok && (second.data?.summary as any).mismatchPercent, 20);
+  const third = await run();
+  assert.equal(third?.ok && (third.data?.summary as any).differentPixels, 0);
+  assert.equal(
+    sessionStore.get('default')?.screenshotBaseline,
+    sessionStore.resolveSessionOutputPath('default', 'screenshot-baseline.png'),
+  );
+});
@@ -1184,6 +1184,80 @@ test('perf reports startup metric as unavailable when no sample exists', async (
   }
 });
 
+test('perf start, sample and stop write a summarized time series to the session directory', async () => {
+  const sessionStore = makeSessionStore();
+  const sessionName = 'perf-window';
+  const session = makeSession(sessionName, {
+    platform: 'android',
+    id: 'emulator-5554',
+    name: 'Pixel Emulator',
+    kind: 'emulator',
+    booted: true,
+  });
+  session.appBundleId = 'com.example.app';
+  sessionStore.set(sessionName, session);
+  let memoryKb = 1000;
+  const perfOps = {
+    createCollector: () => ({
+      method: 'test',
+      metrics: ['cpu', 'memory'] as Array<'cpu' | 'memory'>,
+      unavailable: { fps: 'not in tests' },
+      sample: async () => ({ cpuPercent: 20, memoryKb: (memoryKb += 1000) }),
+    }),
+    startSampler: (collector: any, intervalMs: number) => {
+      const samples: any[] = [];
+      return {
+        startedAt: Date.now(),
+        intervalMs,
+        samples,
+        isTruncated: () => false,
+        sampleNow: async () => {
+          const sample = { ts: new Date().toISOString(), elapsedMs: 0, ...(await collector.sample()) };
+          samples.push(sample);
+          return sample;
+        },
+        stop: async () => {},
+      };
+    },
+  };
+  const run = (positionals: string[], flags: DaemonRequest['flags'] = {}) =>
+    handleSessionCommands({
+      req: { token: 't', session: sessionName, command: 'perf', positionals, flags },
+      sessionName,
+      logPath: path.join(os.tmpdir(), 'daemon.log'),
+      sessionStore,
+      invoke: noopInvoke,
+      perfOps,
+    });
+
+  const tooFast = await run(['start'], { intervalMs: 10 });
+  assert.equal(tooFast?.ok, false);
+  const started = await run(['start'], { intervalMs: 500 });
+  assert.equal(started?.ok, true);
+  assert.equal((await run(['start']))?.ok, false);
+  await run(['sample']);
+  await run(['sample']);
+
+  const live = await run([]);
+  assert.equal(live?.ok && (live.data?.metrics as any).memory.max, 3000);
+  assert.equal(live?.ok && (live.data?.metrics as any).fps.reason, 'not in tests');
+  assert.equal(live?.ok && (live.data?.sampling as any).window.active, true);
+
+  const stopped = await run(['stop']);
+  assert.ok(stopped?.ok);
+  const outPath = String(stopped.data?.path);
+  assert.equal(path.dirname(outPath), path.dirname(sessionStore.resolveSessionOutputPath(sessionName, 'x')));
+  const written = JSON.parse(fs.readFileSync(outPath, 'utf8'));
+  assert.equal(written.samples.length, 2);
+  assert.equal(written.summary.cpu.p95, 20);
+  assert.equal(written.active, false);
+  assert.equal((await run(['stop']))?.ok, false);
+  assert.deepEqual(
+    sessionStore.get(sessionName)?.actions.map((action) => action.positionals[0]),
+    ['start', 'sample', 'sample', 'stop'],
+  );
+});
+
 test('open URL on existing iOS session clears stale app bundle id', async () => {
   const sessionStore = makeSessionStore();
   const sessionName = 'ios-session';
@@ -2543,6 +2617,173 @@ test('network dump returns recent parsed HTTP entries', async () => {
   }
 });
 
+test('network capture start/stop configures the device and dump reads the HAR', async () => {
+  const sessionStore = makeSessionStore();
+  const sessionName = 'default';
+  sessionStore.set(
+    sessionName,
+    makeSession(sessionName, {
+      platform: 'android',
+      id: 'emulator-5554',
+      name: 'Pixel',
+      kind: 'emulator',
+      booted: true,
+    }),
+  );
+  const events: string[] = [];
+  const deviceOptions: Array<{ hostProxy?: boolean; hostProxyMarkerPath: string }> = [];
+  const networkCaptureOps = {
+    startProxy: async (options: { harPath: string; certDir: string }) => {
+      events.push('proxy:start');
+      const har = {
+        log: {
+          version: '1.2',
+          creator: { name: 'agent-device', version: '1' },
+          entries: [] as unknown[],
+        },
+      };
+      return {
+        port: 9090,
+        harPath: options.harPath,
+        caPath: path.join(options.certDir, 'ca.pem'),
+        startedAt: Date.now(),
+        entryCount: () => har.log.entries.length,
+        flush: () => {
+          har.log.entries = [
+            {
+              startedDateTime: '2026-02-24T10:00:00.000Z',
+              time: 12,
+              request: { method: 'GET', url: 'https://api.example.com/v1/me', headers: [], queryString: [] },
+              response: { status: 200, headers: [], content: { size: 2, mimeType: 'application/json', text: '{}' } },
+            },
+          ];
+          fs.mkdirSync(path.dirname(options.harPath), { recursive: true });
+          fs.writeFileSync(options.harPath, JSON.stringify(har));
+        },
+        stop: async () => {
+          events.push('proxy:stop');
+        },
+      };
+    },
+    configureDevice: async (
+      _device: SessionState['device'],
+      proxy: { port: number },
+      options: { hostProxy?: boolean; hostProxyMarkerPath: string },
+    ) => {
+      events.push(`device:${proxy.port}`);
+      deviceOptions.push(options);
+      return {
+        notes: ['configured'],
+        restore: async () => {
+          events.push('device:restore');
+        },
+      };
+    },
+  };
+  const run = (positionals: string[]) =>
+    handleSessionCommands({
+      req: { token: 't', session: sessionName, command: 'network', positionals, flags: {} },
+      sessionName,
+      logPath: path.join(os.tmpdir(), 'daemon.log'),
+      sessionStore,
+      invoke: noopInvoke,
+      networkCaptureOps: networkCaptureOps as any,
+    });
+
+  const started = await run(['capture', 'start']);
+  assert.equal(started?.ok, true);
+  assert.deepEqual(deviceOptions.map((options) => [options.hostProxy, options.hostProxyMarkerPath]), [
+    [false, sessionStore.resolveNetworkHostProxyMarkerPath()],
+  ]);
+  assert.equal(started?.ok && started.data?.harPath, sessionStore.resolveNetworkHarPath(sessionName));
+  assert.equal((await run(['capture', 'start']))?.ok, false);
+
+  const dump = await run(['dump', '5', 'body']);
+  assert.ok(dump?.ok);
+  assert.equal(dump.data?.backend, 'proxy');
+  assert.equal(dump.data?.active, true);
+  const [entry] = dump.data?.entries as Array<Record<string, unknown>>;
+  assert.equal(entry.url, 'https://api.example.com/v1/me');
+  assert.equal(entry.responseBody, '{}');
+
+  const stopped = await run(['capture', 'stop']);
+  assert.equal(stopped?.ok && stopped.data?.entries, 1);
+  assert.deepEqual(events, ['proxy:start', 'device:9090', 'device:restore', 'proxy:stop']);
+  assert.equal((await run(['capture', 'stop']))?.ok, false);
+  assert.equal((await run(['capture', 'pause']))?.ok, false);
+});
+
+test('network mock add starts capture, and list/clear manage the session rules', async () => {
+  const sessionStore = makeSessionStore();
+  const sessionName = 'default';
+  sessionStore.set(
+    sessionName,
+    makeSession(sessionName, {
+      platform: 'android',
+      id: 'emulator-5554',
+      name: 'Pixel',
+      kind: 'emulator',
+      booted: true,
+    }),
+  );
+  let mockRules: (() => unknown[]) | undefined;
+  let proxyStarts = 0;
+  const networkCaptureOps = {
+    startProxy: async (options: { harPath: string; mockRules?: () => unknown[] }) => {
+      proxyStarts += 1;
+      mockRules = options.mockRules;
+      return {
+        port: 9091,
+        harPath: options.harPath,
+        startedAt: Date.now(),
+        entryCount: () => 0,
+        flush: () => {},
+        stop: async () => {},
+      };
+    },
+    configureDevice: async () => ({ notes: [], restore: async () => {} }),
+  };
+  const run = (positionals: string[], flags: DaemonRequest['flags'] = {}) =>
+    handleSessionCommands({
+      req: { token: 't', session: sessionName, command: 'network', positionals, flags },
+      sessionName,
+      logPath: path.join(os.tmpdir(), 'daemon.log'),
+      sessionStore,
+      invoke: noopInvoke,
+      networkCaptureOps: networkCaptureOps as any,
+    });
+
+  const added = await run(['mock', 'add', '*/api/login*'], { mockStatus: 500, mockBody: '{"error":"boom"}' });
+  assert.ok(added?.ok);
+  assert.equal(added.data?.line, 'm1 * */api/login* -> 500 body 16B (0 hits)');
+  assert.match(String((added.data?.notes as string[])[0]), /Started network capture/);
+  assert.equal(proxyStarts, 1);
+  await run(['mock', 'add', 'example.com'], { mockDelayMs: 2000, mockThrottleKbps: 400 });
+  assert.equal(proxyStarts, 1);
+  assert.deepEqual(mockRules?.().map((rule) => (rule as { id: string }).id), ['m1', 'm2']);
+  await assert.rejects(run(['mock', 'add', '*'], {}), /requires --status/);
+
+  const listed = await run(['mock', 'list']);
+  assert.ok(listed?.ok);
+  assert.equal(listed.data?.proxyActive, true);
+  assert.deepEqual(listed.data?.lines, [
+    'm1 * */api/login* -> 500 body 16B (0 hits)',
+    'm2 * example.com -> delay 2000ms throttle 400kbps upstream (0 hits)',
+  ]);
+
+  assert.equal((await run(['mock', 'clear', 'm9']))?.ok, false);
+  const cleared = await run(['mock', 'clear', 'm1']);
+  assert.equal(cleared?.ok && cleared.data?.remaining, 1);
+  await run(['mock', 'clear']);
+  assert.deepEqual(mockRules?.(), []);
+  const readded = await run(['mock', 'add', '/offline'], { mockOffline: true });
+  assert.equal(readded?.ok && (readded.data?.rule as { id: string }).id, 'm3');
+  assert.equal((await run(['mock', 'toggle']))?.ok, false);
+
+  const recorded = sessionStore.get(sessionName)?.actions.map((action) => action.positionals.slice(0, 2).join(' '));
+  assert.deepEqual(recorded, ['mock add', 'mock add', 'mock clear', 'mock clear', 'mock add']);
+});
+
 test('network dump validates include mode and limit', async () => {
   const sessionStore = makeSessionStore();
   const sessionName = 'default';
@@ -2597,3 +2838,25 @@ test('network dump validates include mode and limit', async () => {
     assert.match(invalidMode.error.message, /summary, headers, body, all/);
   }
 });
+
+test('devices does not list the fake device without --platform fake or a screen graph', async () => {
+  const savedGraph = process.env.AGENT_DEVICE_FAKE_SCREEN_GRAPH;
+  delete process.env.AGENT_DEVICE_FAKE_SCREEN_GRAPH;
+  try {
+    const listed = async (flags: DaemonRequest['flags']) => {
+      const response = await handleSessionCommands({
+        req: { token: 't', session: 'default', command: 'devices', positionals: [], flags },
+        sessionName: 'default',
+        logPath: path.join(os.tmpdir(), 'daemon.log'),
+        sessionStore: makeSessionStore(),
+        invoke: noopInvoke,
+      });
+      assert.ok(response?.ok);
+      return (response.data?.devices as Array<{ platform: string }>).map((device) => device.platform);
+    };
+    assert.equal((await listed({})).includes('fake'), false);
+    assert.deepEqual(await listed({ platform: 'fake' }), ['fake']);
+  } finally {
+    if (savedGraph !== undefined) process.env.AGENT_DEVICE_FAKE_SCREEN_GRAPH = savedGraph;
+  }
+});
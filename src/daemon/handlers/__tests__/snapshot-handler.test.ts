@@ -5,7 +5,8 @@ import os from 'node:os';
 import path from 'node:path';
 import { handleSnapshotCommands } from '../snapshot.ts';
 import { SessionStore } from '../../session-store.ts';
-import type { SessionState } from '../../types.ts';
+import type { DaemonRequest, SessionState } from '../../types.ts';
+import { attachRefs, type RawSnapshotNode } from '../../../utils/snapshot.ts';
 
 function makeSessionStore(): SessionStore {
   const root = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-device-snapshot-handler-'));
@@ -225,3 +226,93 @@ test('diff initializes baseline on first run and updates it for subsequent runs'
   const updatedSession = sessionStore.get(sessionName);
   assert.equal(updatedSession?.snapshot?.nodes[1]?.label, '134');
 });
+
+function makeIosSessionStore(): { sessionStore: SessionStore; sessionName: string } {
+  const sessionStore = makeSessionStore();
+  const sessionName = 'ios-sim';
+  sessionStore.set(
+    sessionName,
+    makeSession(sessionName, {
+      platform: 'ios',
+      id: 'sim-1',
+      name: 'My iPhone Simulator',
+      kind: 'simulator',
+      booted: true,
+    }),
+  );
+  return { sessionStore, sessionName };
+}
+
+function runWait(
+  sessionStore: SessionStore,
+  sessionName: string,
+  positionals: string[],
+  frames: RawSnapshotNode[][],
+  flags: DaemonRequest['flags'] = { pollMs: 50 },
+) {
+  let call = 0;
+  const dispatchSnapshotCommand = async () => {
+    const nodes = frames[Math.min(call, frames.length - 1)];
+    call += 1;
+    return { nodes, truncated: false, backend: 'xctest' as const };
+  };
+  return handleSnapshotCommands({
+    req: { token: 't', session: sessionName, command: 'wait', positionals, flags },
+    sessionName,
+    logPath: '/tmp/daemon.log',
+    sessionStore,
+    dispatchSnapshotCommand: dispatchSnapshotCommand as any,
+  });
+}
+
+const WINDOW = { index: 0, depth: 0, type: 'XCUIElementTypeWindow' };
+const RECT = { x: 0, y: 0, width: 40, height: 40 };
+
+test('wait hidden passes once the matching element disappears', async () => {
+  const { sessionStore, sessionName } = makeIosSessionStore();
+  const spinner = { index: 1, depth: 1, type: 'XCUIElementTypeActivityIndicator', label: 'Loading', rect: RECT };
+  const response = await runWait(sessionStore, sessionName, ['hidden', 'label=Loading', '2000'], [
+    [WINDOW, spinner],
+    [WINDOW, spinner],
+    [WINDOW],
+  ]);
+  assert.ok(response?.ok);
+  assert.equal(response.data?.predicate, 'hidden');
+  assert.equal(response.data?.matches, 0);
+  assert.equal(sessionStore.get(sessionName)?.actions[0]?.command, 'wait');
+
+  const timedOut = await runWait(sessionStore, sessionName, ['visible', 'label=Never', '150'], [[WINDOW]]);
+  assert.equal(timedOut?.ok, false);
+  if (timedOut && !timedOut.ok) assert.match(timedOut.error.message, /wait visible timed out after 150ms/);
+});
+
+test('wait text follows a ref by its id while the label changes', async () => {
+  const { sessionStore, sessionName } = makeIosSessionStore();
+  const status = { index: 1, depth: 1, type: 'XCUIElementTypeStaticText', identifier: 'status', rect: RECT };
+  const session = sessionStore.get(sessionName)!;
+  session.snapshot = { nodes: attachRefs([WINDOW, { ...status, label: 'Saving' }]), createdAt: Date.now() };
+  const response = await runWait(sessionStore, sessionName, ['text', '@e2', 'Done'], [
+    [WINDOW, { ...status, label: 'Saving' }],
+    [WINDOW, { ...status, label: 'Done' }],
+  ]);
+  assert.ok(response?.ok);
+  assert.equal(response.data?.target, '@e2');
+});
+
+test('wait stable passes after two identical snapshots and reports ongoing changes on timeout', async () => {
+  const { sessionStore, sessionName } = makeIosSessionStore();
+  const label = (text: string) => ({ index: 1, depth: 1, type: 'XCUIElementTypeStaticText', label: text });
+  const stable = await runWait(sessionStore, sessionName, ['stable'], [
+    [WINDOW, label('1')],
+    [WINDOW, label('2')],
+    [WINDOW, label('2')],
+  ]);
+  assert.ok(stable?.ok);
+  assert.equal(stable.data?.snapshots, 3);
+
+  let tick = 0;
+  const frames = Array.from({ length: 50 }, () => [WINDOW, label(String((tick += 1)))]);
+  const changing = await runWait(sessionStore, sessionName, ['stable', '200'], frames);
+  assert.equal(changing?.ok, false);
+  if (changing && !changing.ok) assert.match(changing.error.message, /1 additions and 1 removals/);
+});
@@ -126,3 +126,36 @@ test('parseWaitArgs text keyword with non-numeric trailing leaves timeoutMs null
   const result = parseWaitArgs(['text', 'Loading', 'abc']);
   assert.deepEqual(result, { kind: 'text', text: 'Loading abc', timeoutMs: null });
 });
+
+test('parseWaitArgs parses is predicates with selectors, refs, values and timeouts', () => {
+  const hidden = parseWaitArgs(['hidden', 'label=Loading', '5000']);
+  assert.equal(hidden?.kind, 'predicate');
+  if (hidden?.kind === 'predicate') {
+    assert.equal(hidden.predicate, 'hidden');
+    assert.equal(hidden.target.kind === 'selector' && hidden.target.selectorExpression, 'label=Loading');
+    assert.equal(hidden.timeoutMs, 5000);
+  }
+  assert.deepEqual(parseWaitArgs(['text', '@e4', 'Done']), {
+    kind: 'predicate',
+    predicate: 'text',
+    target: { kind: 'ref', rawRef: '@e4' },
+    expectedText: 'Done',
+    timeoutMs: null,
+  });
+  const textWithNumber = parseWaitArgs(['text', 'id=counter', '42']);
+  assert.equal(textWithNumber?.kind === 'predicate' && textWithNumber.expectedText, '42');
+  assert.equal(textWithNumber?.kind === 'predicate' && textWithNumber.timeoutMs, null);
+  const enabled = parseWaitArgs(['editable', 'id=submit']);
+  assert.equal(enabled?.kind === 'predicate' && enabled.predicate, 'editable');
+});
+
+test('parseWaitArgs keeps text waits when a predicate has no target', () => {
+  assert.deepEqual(parseWaitArgs(['hidden', 'gem']), { kind: 'text', text: 'hidden gem', timeoutMs: null });
+  assert.deepEqual(parseWaitArgs(['text', 'label=Foo']), { kind: 'text', text: 'label=Foo', timeoutMs: null });
+});
+
+test('parseWaitArgs parses stable with an optional timeout', () => {
+  assert.deepEqual(parseWaitArgs(['stable']), { kind: 'stable', timeoutMs: null });
+  assert.deepEqual(parseWaitArgs(['stable', '4000']), { kind: 'stable', timeoutMs: 4000 });
+  assert.deepEqual(parseWaitArgs(['stable', 'state']), { kind: 'text', text: 'stable state', timeoutMs: null });
+});
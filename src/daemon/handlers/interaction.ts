@@ -24,7 +24,16 @@ import {
   splitSelectorFromArgs,
 } from '../selectors.ts';
 import { withDiagnosticTimer } from '../../utils/diagnostics.ts';
-import { buildScrollIntoViewPlan, resolveViewportRect } from '../scroll-planner.ts';
+import {
+  buildScrollIntoViewPlan,
+  buildScrollSwipe,
+  isRectCenterWithin,
+  resolveScrollAreaRect,
+  resolveViewportRect,
+} from '../scroll-planner.ts';
+
+/** A resolved drag endpoint or waypoint, with the ref or selector it came from. */
+type DragTarget = { x: number; y: number; ref?: string; selector?: string };
 
 type ContextFromFlags = (
   flags: CommandFlags | undefined,
@@ -205,6 +214,118 @@ export async function handleInteractionCommands(params: {
     return { ok: true, data: { ...(data ?? {}), selector: resolved.selector.raw, x, y } };
   }
 
+  if (command === 'drag') {
+    const session = sessionStore.get(sessionName);
+    if (!session) {
+      return {
+        ok: false,
+        error: { code: 'SESSION_NOT_FOUND', message: 'No active session. Run open first.' },
+      };
+    }
+    if (!isCommandSupportedOnDevice('drag', session.device)) {
+      return {
+        ok: false,
+        error: { code: 'UNSUPPORTED_OPERATION', message: 'drag is not supported on this device' },
+      };
+    }
+    const positionals = req.positionals ?? [];
+    if (positionals.length < 2 || positionals.length > 3) {
+      return {
+        ok: false,
+        error: {
+          code: 'INVALID_ARGS',
+          message: 'drag requires <x,y|@ref|selector> <x,y|@ref|selector> [durationMs]',
+        },
+      };
+    }
+    const [from, to, durationMs] = positionals;
+    const endpoints = [from, ...(req.flags?.dragVia ?? []), to];
+    if (endpoints.some((endpoint) => endpoint.startsWith('@'))) {
+      const invalidRefFlagsResponse = refSnapshotFlagGuardResponse('drag', req.flags);
+      if (invalidRefFlagsResponse) return invalidRefFlagsResponse;
+    }
+    const targets: DragTarget[] = [];
+    let snapshotNodes: SnapshotNode[] | undefined;
+    for (const endpoint of endpoints) {
+      const point = parseDragPointInput(endpoint);
+      if (point) {
+        targets.push(point);
+        continue;
+      }
+      if (endpoint.startsWith('@')) {
+        const resolvedRefTarget = resolveRefTarget({
+          session,
+          refInput: endpoint,
+          fallbackLabel: '',
+          requireRect: true,
+          invalidRefMessage: `drag requires a ref like @e2, got ${endpoint}`,
+          notFoundMessage: `Ref ${endpoint} not found or has no bounds`,
+        });
+        if (!resolvedRefTarget.ok) return resolvedRefTarget.response;
+        const center = resolveRectCenter(resolvedRefTarget.target.node.rect);
+        if (!center) {
+          return {
+            ok: false,
+            error: { code: 'COMMAND_FAILED', message: `Ref ${endpoint} not found or has invalid bounds` },
+          };
+        }
+        targets.push({ ...center, ref: resolvedRefTarget.target.ref });
+        continue;
+      }
+      const chain = parseSelectorChain(endpoint);
+      // One snapshot serves every selector endpoint, so they resolve against the same screen.
+      snapshotNodes ??= (
+        await captureSnapshotForSession(
+          session,
+          req.flags,
+          sessionStore,
+          contextFromFlags,
+          { interactiveOnly: true },
+          dispatch,
+        )
+      ).nodes;
+      const nodes = snapshotNodes;
+      const resolved = await withDiagnosticTimer(
+        'selector_resolve',
+        () =>
+          resolveSelectorChain(nodes, chain, {
+            platform: session.device.platform,
+            requireRect: true,
+            requireUnique: true,
+            disambiguateAmbiguous: true,
+          }),
+        { command },
+      );
+      const center = resolveRectCenter(resolved?.node.rect);
+      if (!resolved || !center) {
+        return {
+          ok: false,
+          error: {
+            code: 'COMMAND_FAILED',
+            message: formatSelectorFailure(chain, resolved?.diagnostics ?? [], { unique: true }),
+          },
+        };
+      }
+      targets.push({ ...center, selector: resolved.selector.raw });
+    }
+    const data = await dispatch(
+      session.device,
+      'drag',
+      [...targets.map(({ x, y }) => `${x},${y}`), ...(durationMs !== undefined ? [durationMs] : [])],
+      req.flags?.out,
+      {
+        ...contextFromFlags(req.flags, session.appBundleId, session.trace?.outPath),
+      },
+    );
+    sessionStore.recordAction(session, {
+      command,
+      positionals,
+      flags: req.flags ?? {},
+      result: { ...(data ?? {}), targets },
+    });
+    return { ok: true, data: { ...(data ?? {}), targets } };
+  }
+
   if (command === 'fill') {
     const session = sessionStore.get(sessionName);
     if (session && !isCommandSupportedOnDevice('fill', session.device)) {
@@ -471,7 +592,7 @@ export async function handleInteractionCommands(params: {
         ok: false,
         error: {
           code: 'INVALID_ARGS',
-          message: 'is requires predicate: visible|hidden|exists|editable|selected|text',
+          message: 'is requires predicate: visible|hidden|exists|editable|selected|checked|focused|text',
         },
       };
     }
@@ -618,6 +739,24 @@ export async function handleInteractionCommands(params: {
     }
     const targetInput = req.positionals?.[0] ?? '';
     if (!targetInput.startsWith('@')) {
+      const flags = req.flags ?? {};
+      const selectorArgs = splitSelectorFromArgs(req.positionals ?? []);
+      const hasScrollOptions = [flags.scrollContainer, flags.scrollDirection, flags.scrollMaxSwipes].some(
+        (value) => value !== undefined,
+      );
+      if (selectorArgs?.rest.length === 0 || hasScrollOptions) {
+        const text = (req.positionals ?? []).join(' ').trim();
+        return await scrollSelectorIntoView({
+          req,
+          session,
+          sessionStore,
+          contextFromFlags,
+          dispatch,
+          selectorExpression:
+            selectorArgs?.rest.length === 0 ? selectorArgs.selectorExpression : `text=${JSON.stringify(text)}`,
+        });
+      }
+      // Plain text is delegated to the platform's own scroll-and-find.
       return null;
     }
     const invalidRefFlagsResponse = refSnapshotFlagGuardResponse('scrollintoview', req.flags);
@@ -700,6 +839,115 @@ export async function handleInteractionCommands(params: {
   return null;
 }
 
+const DEFAULT_SCROLL_MAX_SWIPES = 10;
+
+/**
+ * Swipes within the container (or the largest scrollable area) and re-snapshots until the selector matches a node
+ * whose center is inside it. Stops early when two successive snapshots are identical, which marks the end of the list.
+ */
+async function scrollSelectorIntoView(params: {
+  req: DaemonRequest;
+  session: SessionState;
+  sessionStore: SessionStore;
+  contextFromFlags: ContextFromFlags;
+  dispatch: typeof dispatchCommand;
+  selectorExpression: string;
+}): Promise<DaemonResponse> {
+  const { req, session, sessionStore, contextFromFlags, dispatch, selectorExpression } = params;
+  const flags = req.flags ?? {};
+  const platform = session.device.platform;
+  const chain = parseSelectorChain(selectorExpression);
+  const containerChain = flags.scrollContainer ? parseSelectorChain(flags.scrollContainer) : null;
+  const direction = flags.scrollDirection ?? 'down';
+  const maxSwipes = flags.scrollMaxSwipes ?? DEFAULT_SCROLL_MAX_SWIPES;
+  let previousSignature: string | null = null;
+  for (let swipes = 0; ; swipes += 1) {
+    const snapshot = await captureSnapshotForSession(
+      session,
+      req.flags,
+      sessionStore,
+      contextFromFlags,
+      { interactiveOnly: false },
+      dispatch,
+    );
+    const container = containerChain
+      ? resolveSelectorChain(snapshot.nodes, containerChain, {
+        platform,
+        requireRect: true,
+        disambiguateAmbiguous: true,
+      })
+      : null;
+    if (containerChain && !container?.node.rect) {
+      return {
+        ok: false,
+        error: {
+          code: 'COMMAND_FAILED',
+          message: formatSelectorFailure(containerChain, container?.diagnostics ?? [], { unique: false }),
+        },
+      };
+    }
+    const areaRect = container?.node.rect ?? resolveScrollAreaRect(snapshot.nodes);
+    if (!areaRect) {
+      return {
+        ok: false,
+        error: { code: 'COMMAND_FAILED', message: 'scrollintoview could not infer a scrollable area' },
+      };
+    }
+    const resolved = resolveSelectorChain(
+      snapshot.nodes.filter((node) => node.rect && isRectCenterWithin(node.rect, areaRect)),
+      chain,
+      { platform, requireRect: true, disambiguateAmbiguous: true },
+    );
+    if (resolved?.node.rect) {
+      const { node } = resolved;
+      const result = {
+        selector: resolved.selector.raw,
+        ref: node.ref,
+        swipes,
+        direction,
+        refLabel: resolveRefLabel(node, snapshot.nodes),
+        selectorChain: buildSelectorChainForNode(node, platform, { action: 'get' }),
+      };
+      sessionStore.recordAction(session, {
+        command: req.command,
+        positionals: req.positionals ?? [],
+        flags,
+        result,
+      });
+      return { ok: true, data: { selector: result.selector, ref: node.ref, swipes, direction } };
+    }
+    const signature = snapshotSignature(snapshot.nodes);
+    if (signature === previousSignature || swipes >= maxSwipes) {
+      const endOfList = signature === previousSignature;
+      return {
+        ok: false,
+        error: {
+          code: 'COMMAND_FAILED',
+          message: endOfList
+            ? `scrollintoview reached the end of the list without finding ${chain.raw}`
+            : `scrollintoview did not find ${chain.raw} after ${swipes} swipes`,
+          details: { swipes, direction, endOfList },
+        },
+      };
+    }
+    previousSignature = signature;
+    const { x1, y1, x2, y2 } = buildScrollSwipe(areaRect, direction);
+    await dispatch(session.device, 'swipe', [x1, y1, x2, y2].map(String), req.flags?.out, {
+      ...contextFromFlags(req.flags, session.appBundleId, session.trace?.outPath),
+    });
+  }
+}
+
+/** Content and geometry of a snapshot; unchanged across a swipe means the list did not move. */
+function snapshotSignature(nodes: SnapshotNode[]): string {
+  return nodes
+    .map((node) => {
+      const rect = node.rect ? `${node.rect.x},${node.rect.y},${node.rect.width},${node.rect.height}` : '';
+      return `${node.type ?? ''}|${node.label ?? ''}|${node.identifier ?? ''}|${node.value ?? ''}|${rect}`;
+    })
+    .join('\n');
+}
+
 async function captureSnapshotForSession(
   session: SessionState,
   flags: CommandFlags | undefined,
@@ -742,7 +990,7 @@ const REF_UNSUPPORTED_FLAG_MAP: ReadonlyArray<[keyof CommandFlags, string]> = [
 ];
 
 function refSnapshotFlagGuardResponse(
-  command: 'press' | 'fill' | 'get' | 'scrollintoview',
+  command: 'press' | 'fill' | 'get' | 'scrollintoview' | 'drag',
   flags: CommandFlags | undefined,
 ): DaemonResponse | null {
   const unsupported = unsupportedRefSnapshotFlags(flags);
@@ -764,6 +1012,11 @@ function parseCoordinateTarget(positionals: string[]): { x: number; y: number }
   return { x, y };
 }
 
+function parseDragPointInput(value: string): { x: number; y: number } | null {
+  const match = value.trim().match(/^(-?\d+(?:\.\d+)?),\s*(-?\d+(?:\.\d+)?)$/);
+  return match ? { x: Number(match[1]), y: Number(match[2]) } : null;
+}
+
 export function unsupportedRefSnapshotFlags(flags: CommandFlags | undefined): string[] {
   if (!flags) return [];
   const unsupported: string[] = [];
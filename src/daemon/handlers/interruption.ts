@@ -0,0 +1,190 @@
+import { dispatchCommand } from '../../core/dispatch.ts';
+import { emitDiagnostic } from '../../utils/diagnostics.ts';
+import { attachRefs, centerOfRect, type RawSnapshotNode } from '../../utils/snapshot.ts';
+import { contextFromFlags } from '../context.ts';
+import {
+  buildInterruptionHandler,
+  describeInterruptionHandler,
+  isInterruptibleCommand,
+  isSelectorCommand,
+  matchInterruptionHandler,
+  MAX_INTERRUPTIONS_PER_CHECK,
+  type InterruptionPhase,
+  type InterruptionRecord,
+} from '../interruption-handlers.ts';
+import { SessionStore } from '../session-store.ts';
+import { pruneGroupNodes } from '../snapshot-processing.ts';
+import type { DaemonRequest, DaemonResponse, SessionState } from '../types.ts';
+import { runAlertAction } from './snapshot.ts';
+
+const HANDLER_MESSAGE = 'handler requires add, list or clear';
+/** Gives a dismissed overlay time to animate away before the next check or the interaction itself. */
+const INTERRUPTION_SETTLE_MS = 300;
+
+export async function handleInterruptionCommands(params: {
+  req: DaemonRequest;
+  sessionName: string;
+  sessionStore: SessionStore;
+}): Promise<DaemonResponse | null> {
+  const { req, sessionName, sessionStore } = params;
+  if (req.command !== 'handler') return null;
+  const session = sessionStore.get(sessionName);
+  if (!session) {
+    return { ok: false, error: { code: 'SESSION_NOT_FOUND', message: 'No active session. Run open first.' } };
+  }
+  const action = (req.positionals?.[0] ?? 'list').toLowerCase();
+  const handlers = session.interruptionHandlers ?? [];
+  const record = (data: Record<string, unknown>): DaemonResponse => {
+    sessionStore.recordAction(session, {
+      command: req.command,
+      positionals: req.positionals ?? [],
+      flags: req.flags ?? {},
+      result: data,
+    });
+    return { ok: true, data };
+  };
+  if (action === 'list') {
+    return { ok: true, data: { handlers, lines: handlers.map(describeInterruptionHandler) } };
+  }
+  if (action === 'clear') {
+    const id = req.positionals?.[1];
+    if (id && !handlers.some((handler) => handler.id === id)) {
+      return { ok: false, error: { code: 'INVALID_ARGS', message: `handler not found: ${id}` } };
+    }
+    const remaining = id ? handlers.filter((handler) => handler.id !== id) : [];
+    session.interruptionHandlers = remaining;
+    return record({ cleared: handlers.length - remaining.length, remaining: remaining.length });
+  }
+  if (action !== 'add') {
+    return { ok: false, error: { code: 'INVALID_ARGS', message: HANDLER_MESSAGE } };
+  }
+  const handler = buildInterruptionHandler(
+    `h${(session.interruptionHandlerSeq ?? 0) + 1}`,
+    req.positionals?.[1] ?? '',
+    req.positionals?.[2] ?? '',
+    req.positionals?.[3],
+  );
+  session.interruptionHandlerSeq = (session.interruptionHandlerSeq ?? 0) + 1;
+  session.interruptionHandlers = [...handlers, handler];
+  return record({ handler, line: describeInterruptionHandler(handler) });
+}
+
+/**
+ * Runs an interaction with the session's interruption handlers: overlays they match are handled before and after
+ * it, and a failed selector or ref resolution is retried once when a handler fired. What the handlers did is
+ * returned and recorded as `interruptions`.
+ */
+export async function runWithInterruptionHandlers(params: {
+  req: DaemonRequest;
+  sessionName: string;
+  sessionStore: SessionStore;
+  logPath: string;
+  run: () => Promise<DaemonResponse>;
+  dispatch?: typeof dispatchCommand;
+  runAlert?: typeof runAlertAction;
+  settleMs?: number;
+}): Promise<DaemonResponse> {
+  const { req, sessionName, sessionStore, run } = params;
+  const session = sessionStore.get(sessionName);
+  const interruptible = isInterruptibleCommand(req.command);
+  if (!session?.interruptionHandlers?.length || (!interruptible && !isSelectorCommand(req.command))) {
+    return await run();
+  }
+  const interruptions: InterruptionRecord[] = [];
+  const check = async (phase: InterruptionPhase): Promise<number> => {
+    const handled = await checkInterruptionHandlers(session, phase, params);
+    interruptions.push(...handled);
+    return handled.length;
+  };
+
+  if (interruptible) await check('before');
+  const recordedBefore = session.actions.length;
+  let response = await run();
+  if (
+    !response.ok &&
+    response.error.code === 'COMMAND_FAILED' &&
+    isSelectorCommand(req.command) &&
+    (await check('selector_failed')) > 0
+  ) {
+    response = await run();
+  }
+  if (response.ok && interruptible) await check('after');
+  if (interruptions.length === 0) return response;
+
+  for (const action of session.actions.slice(recordedBefore)) {
+    action.result = { ...(action.result ?? {}), interruptions };
+  }
+  if (response.ok) return { ok: true, data: { ...(response.data ?? {}), interruptions } };
+  return { ok: false, error: { ...response.error, details: { ...(response.error.details ?? {}), interruptions } } };
+}
+
+async function checkInterruptionHandlers(
+  session: SessionState,
+  phase: InterruptionPhase,
+  params: {
+    req: DaemonRequest;
+    logPath: string;
+    dispatch?: typeof dispatchCommand;
+    runAlert?: typeof runAlertAction;
+    settleMs?: number;
+  },
+): Promise<InterruptionRecord[]> {
+  const { req, logPath } = params;
+  const dispatch = params.dispatch ?? dispatchCommand;
+  const runAlert = params.runAlert ?? runAlertAction;
+  const settleMs = params.settleMs ?? INTERRUPTION_SETTLE_MS;
+  const context = contextFromFlags(
+    logPath,
+    { ...req.flags, snapshotInteractiveOnly: false, snapshotCompact: false },
+    session.appBundleId,
+    session.trace?.outPath,
+  );
+  const records: InterruptionRecord[] = [];
+  try {
+    for (let round = 0; round < MAX_INTERRUPTIONS_PER_CHECK; round += 1) {
+      const data = (await dispatch(session.device, 'snapshot', [], undefined, context)) as {
+        nodes?: RawSnapshotNode[];
+      };
+      const nodes = attachRefs(pruneGroupNodes(data?.nodes ?? []));
+      const match = matchInterruptionHandler(nodes, session.interruptionHandlers ?? [], session.device.platform);
+      if (!match) break;
+      const { handler, node } = match;
+      const entry: InterruptionRecord = {
+        handler: handler.id,
+        selector: handler.selector,
+        action: handler.action,
+        phase,
+      };
+      const label = node.label ?? node.identifier;
+      if (label) entry.label = label;
+      if (handler.action === 'press' && node.rect) {
+        const { x, y } = centerOfRect(node.rect);
+        await dispatch(session.device, 'press', [String(x), String(y)], undefined, context);
+        entry.x = x;
+        entry.y = y;
+      } else if (handler.action === 'back') {
+        await dispatch(session.device, 'back', [], undefined, context);
+      } else if (handler.action !== 'press') {
+        await runAlert(session.device, handler.action, {
+          appBundleId: session.appBundleId,
+          verbose: req.flags?.verbose,
+          logPath,
+          traceLogPath: session.trace?.outPath,
+          requestId: req.meta?.requestId,
+        });
+      }
+      handler.hits += 1;
+      records.push(entry);
+      emitDiagnostic({ level: 'info', phase: 'interruption_handled', data: { ...entry, session: session.name } });
+      if (settleMs > 0) await new Promise((resolve) => setTimeout(resolve, settleMs));
+    }
+  } catch (error) {
+    // Handlers are best effort: the interaction still runs and reports its own failure.
+    emitDiagnostic({
+      level: 'warn',
+      phase: 'interruption_handler_failed',
+      data: { phase, error: error instanceof Error ? error.message : String(error) },
+    });
+  }
+  return records;
+}
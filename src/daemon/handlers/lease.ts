@@ -1,26 +1,46 @@
 import type { DaemonRequest, DaemonResponse } from '../types.ts';
-import type { LeaseRegistry } from '../lease-registry.ts';
+import type { DeviceInfo } from '../../utils/device.ts';
+import { AppError } from '../../utils/errors.ts';
+import { getPlatformBackend } from '../../core/platform-backends.ts';
+import type { DeviceLease, LeaseDeviceConstraints, LeaseRegistry } from '../lease-registry.ts';
+import type { LeaseAuditEntry } from '../lease-journal.ts';
 import { resolveLeaseScope } from '../lease-context.ts';
 
 type LeaseHandlerArgs = {
   req: DaemonRequest;
   leaseRegistry: LeaseRegistry;
+  /** Lists the device pool for device leases; defaults to the iOS and Android backends. */
+  listDevices?: (constraints: LeaseDeviceConstraints) => Promise<DeviceInfo[]>;
 };
 
 export async function handleLeaseCommands(args: LeaseHandlerArgs): Promise<DaemonResponse | null> {
-  const { req, leaseRegistry } = args;
+  const { req, leaseRegistry, listDevices = listLeaseCandidates } = args;
   const leaseScope = resolveLeaseScope(req);
   switch (req.command) {
     case 'lease_allocate': {
-      const lease = leaseRegistry.allocateLease({
-        tenantId: leaseScope.tenantId ?? '',
-        runId: leaseScope.runId ?? '',
-        backend: leaseScope.leaseBackend,
-        ttlMs: leaseScope.leaseTtlMs,
-      });
+      const constraints = leaseScope.leaseConstraints;
+      const usesDevicePool = Boolean(constraints)
+        || (leaseScope.leaseBackend !== undefined && leaseScope.leaseBackend !== 'ios-simulator');
+      const { lease, queue } = await leaseRegistry.acquireLease(
+        {
+          tenantId: leaseScope.tenantId ?? '',
+          runId: leaseScope.runId ?? '',
+          backend: leaseScope.leaseBackend,
+          ttlMs: leaseScope.leaseTtlMs,
+          constraints,
+          candidates: usesDevicePool ? await listDevices(constraints ?? {}) : undefined,
+        },
+        { waitMs: leaseScope.leaseWaitMs, priority: leaseScope.leasePriority },
+      );
       return {
         ok: true,
-        data: { lease },
+        data: queue ? { lease, queue } : { lease },
+      };
+    }
+    case 'lease_queue': {
+      return {
+        ok: true,
+        data: { queue: leaseRegistry.listLeaseQueue(leaseScope.tenantId) },
       };
     }
     case 'lease_heartbeat': {
@@ -46,7 +66,83 @@ export async function handleLeaseCommands(args: LeaseHandlerArgs): Promise<Daemo
         data: result,
       };
     }
+    case 'lease': {
+      return handleLeaseQuery(req, leaseRegistry, leaseScope.tenantId, leaseScope.runId);
+    }
     default:
       return null;
   }
 }
+
+function handleLeaseQuery(
+  req: DaemonRequest,
+  leaseRegistry: LeaseRegistry,
+  tenantId: string | undefined,
+  runId: string | undefined,
+): DaemonResponse {
+  const sub = req.positionals?.[0] ?? 'list';
+  if (sub === 'list') {
+    const matches = (lease: DeviceLease | LeaseAuditEntry) =>
+      (!tenantId || lease.tenantId === tenantId)
+      && (!runId || lease.runId === runId)
+      && (!req.flags?.device || leaseUsesDevice(lease, req.flags.device));
+    if (req.flags?.leaseAt) {
+      const at = parseLeaseTime(req.flags.leaseAt);
+      const leases = leaseRegistry.listLeasesHeldAt(at).filter(matches);
+      return { ok: true, data: { at: new Date(at).toISOString(), leases } };
+    }
+    const leases = leaseRegistry.listActiveLeases().filter(matches);
+    return { ok: true, data: { leases, queue: leaseRegistry.listLeaseQueue(tenantId) } };
+  }
+  if (sub === 'show') {
+    const leaseId = req.positionals?.[1];
+    if (!leaseId) throw new AppError('INVALID_ARGS', 'lease show requires a lease id');
+    const lease = leaseRegistry.getLease(leaseId);
+    const history = leaseRegistry.readLeaseHistory(leaseId);
+    const latest = lease ?? history[history.length - 1];
+    // Leases of other tenants are reported as unknown rather than revealing that they exist.
+    if (!latest || (tenantId && latest.tenantId !== tenantId)) {
+      throw new AppError('INVALID_ARGS', `Unknown lease: ${leaseId}`, {
+        hint: 'Run lease list to see active leases, or lease list --at <time> for past ones.',
+      });
+    }
+    return { ok: true, data: { active: Boolean(lease), lease: latest, history } };
+  }
+  throw new AppError('INVALID_ARGS', 'lease only supports list and show');
+}
+
+function leaseUsesDevice(lease: DeviceLease | LeaseAuditEntry, selector: string): boolean {
+  const devices = [lease.device, ...(lease.sessions ?? []).map((session) => session.device)];
+  const wanted = selector.toLowerCase();
+  return devices.some((device) => device && (device.id === selector || device.name.toLowerCase() === wanted));
+}
+
+/** Accepts an ISO date/time or `HH:MM[:SS]`, read as today in local time. */
+function parseLeaseTime(raw: string): number {
+  const clock = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(raw.trim());
+  if (clock) {
+    const date = new Date();
+    date.setHours(Number(clock[1]), Number(clock[2]), Number(clock[3] ?? 0), 0);
+    return date.getTime();
+  }
+  const parsed = Date.parse(raw);
+  if (Number.isNaN(parsed)) {
+    throw new AppError('INVALID_ARGS', `Invalid --at time: ${raw}`, {
+      hint: "Use an ISO time such as 2026-03-04T14:02 or today's HH:MM.",
+    });
+  }
+  return parsed;
+}
+
+async function listLeaseCandidates(constraints: LeaseDeviceConstraints): Promise<DeviceInfo[]> {
+  const platforms = constraints.platform ? [constraints.platform] : ['ios', 'android'];
+  const devices: DeviceInfo[] = [];
+  for (const platform of platforms) {
+    try {
+      devices.push(...(await getPlatformBackend(platform).listDevices({})));
+    } catch {
+      // A missing toolchain only shrinks the pool.
+    }
+  }
+  return devices;
+}
@@ -1,7 +1,7 @@
 import fs from 'node:fs';
 import path from 'node:path';
 import { runCmd, runCmdBackground } from '../../utils/exec.ts';
-import { resolveTargetDevice, type CommandFlags } from '../../core/dispatch.ts';
+import { dispatchCommand, resolveTargetDevice, type CommandFlags } from '../../core/dispatch.ts';
 import { isCommandSupportedOnDevice } from '../../core/capabilities.ts';
 import { runIosRunnerCommand, IOS_RUNNER_CONTAINER_BUNDLE_IDS } from '../../platforms/ios/runner-client.ts';
 import { buildSimctlArgsForDevice } from '../../platforms/ios/simctl.ts';
@@ -9,6 +9,17 @@ import type { DaemonRequest, DaemonResponse, SessionState } from '../types.ts';
 import { SessionStore } from '../session-store.ts';
 import { ensureDeviceReady } from '../device-ready.ts';
 import { emitDiagnostic } from '../../utils/diagnostics.ts';
+import { attachRefs, type RawSnapshotNode } from '../../utils/snapshot.ts';
+import { contextFromFlags } from '../context.ts';
+import { pruneGroupNodes } from '../snapshot-processing.ts';
+import {
+  finishTraceBundle,
+  isTracedCommand,
+  readTraceBundle,
+  startTraceBundle,
+  traceRequest,
+  writeTraceBundleHtml,
+} from '../trace-bundle.ts';
 
 
 const IOS_DEVICE_RECORD_MIN_FPS = 1;
@@ -292,8 +303,21 @@ export async function handleRecordTraceCommands(params: {
 
   if (command === 'trace') {
     const action = (req.positionals?.[0] ?? '').toLowerCase();
-    if (!['start', 'stop'].includes(action)) {
-      return { ok: false, error: { code: 'INVALID_ARGS', message: 'trace requires start|stop' } };
+    if (!['start', 'stop', 'show'].includes(action)) {
+      return { ok: false, error: { code: 'INVALID_ARGS', message: 'trace requires start|stop|show' } };
+    }
+    if (action === 'show') {
+      const bundleArg = req.positionals?.[1];
+      if (!bundleArg) {
+        return { ok: false, error: { code: 'INVALID_ARGS', message: 'trace show requires a bundle directory' } };
+      }
+      const bundleDir = SessionStore.expandHome(bundleArg, req.meta?.cwd);
+      const { steps } = readTraceBundle(bundleDir);
+      const html = writeTraceBundleHtml(bundleDir);
+      return {
+        ok: true,
+        data: { bundle: bundleDir, html, steps: steps.length, failed: steps.filter((step) => !step.ok).length },
+      };
     }
     const session = sessionStore.get(sessionName);
     if (!session) {
@@ -303,6 +327,28 @@ export async function handleRecordTraceCommands(params: {
       if (session.trace) {
         return { ok: false, error: { code: 'INVALID_ARGS', message: 'trace already in progress' } };
       }
+      const screenshots = req.flags?.traceScreenshots === true;
+      if (req.flags?.traceBundle || screenshots) {
+        const bundleArg = req.positionals?.[1] ?? sessionStore.defaultTracePath(session).replace(/\.log$/, '');
+        const bundleDir = SessionStore.expandHome(bundleArg, req.meta?.cwd);
+        if (fs.existsSync(bundleDir) && fs.readdirSync(bundleDir).length > 0) {
+          return {
+            ok: false,
+            error: { code: 'INVALID_ARGS', message: `trace bundle directory is not empty: ${bundleDir}` },
+          };
+        }
+        startTraceBundle(bundleDir, session, { screenshots });
+        const runnerLog = path.join(bundleDir, 'runner.log');
+        fs.appendFileSync(runnerLog, '');
+        session.trace = { outPath: runnerLog, startedAt: Date.now(), bundleDir, screenshots, steps: 0 };
+        sessionStore.recordAction(session, {
+          command,
+          positionals: req.positionals ?? [],
+          flags: (req.flags ?? {}) as CommandFlags,
+          result: { action: 'start', outPath: bundleDir },
+        });
+        return { ok: true, data: { trace: 'started', outPath: bundleDir, bundle: true } };
+      }
       const outPath = req.positionals?.[1] ?? sessionStore.defaultTracePath(session);
       const resolvedOut = SessionStore.expandHome(outPath);
       fs.mkdirSync(path.dirname(resolvedOut), { recursive: true });
@@ -319,6 +365,33 @@ export async function handleRecordTraceCommands(params: {
     if (!session.trace) {
       return { ok: false, error: { code: 'INVALID_ARGS', message: 'no active trace' } };
     }
+    if (session.trace.bundleDir) {
+      let bundleDir = session.trace.bundleDir;
+      if (req.positionals?.[1]) {
+        const resolvedOut = SessionStore.expandHome(req.positionals[1], req.meta?.cwd);
+        if (resolvedOut !== bundleDir) {
+          if (fs.existsSync(resolvedOut)) {
+            return {
+              ok: false,
+              error: { code: 'INVALID_ARGS', message: `trace bundle destination already exists: ${resolvedOut}` },
+            };
+          }
+          fs.mkdirSync(path.dirname(resolvedOut), { recursive: true });
+          fs.renameSync(bundleDir, resolvedOut);
+          bundleDir = resolvedOut;
+        }
+      }
+      session.trace = undefined;
+      const { steps, replayPath } = finishTraceBundle(bundleDir);
+      const html = writeTraceBundleHtml(bundleDir);
+      sessionStore.recordAction(session, {
+        command,
+        positionals: req.positionals ?? [],
+        flags: (req.flags ?? {}) as CommandFlags,
+        result: { action: 'stop', outPath: bundleDir },
+      });
+      return { ok: true, data: { trace: 'stopped', outPath: bundleDir, bundle: true, steps, html, replayPath } };
+    }
     let outPath = session.trace.outPath;
     if (req.positionals?.[1]) {
       const resolvedOut = SessionStore.expandHome(req.positionals[1]);
@@ -342,3 +415,50 @@ export async function handleRecordTraceCommands(params: {
 
   return null;
 }
+
+/**
+ * Runs a request through the session's trace bundle when one is active. Snapshots and screenshots are taken
+ * directly from the device so the session's snapshot (and its refs) stay untouched.
+ */
+export async function runTracedRequest(params: {
+  req: DaemonRequest;
+  sessionName: string;
+  sessionStore: SessionStore;
+  logPath: string;
+  run: () => Promise<DaemonResponse>;
+  dispatch?: typeof dispatchCommand;
+}): Promise<DaemonResponse> {
+  const { req, sessionName, sessionStore, logPath, run } = params;
+  const session = sessionStore.get(sessionName);
+  const trace = session?.trace;
+  if (!session || !trace?.bundleDir || !isTracedCommand(req.command)) return await run();
+  const dispatch = params.dispatch ?? dispatchCommand;
+  const context = () => contextFromFlags(logPath, {}, session.appBundleId, trace.outPath);
+  const seq = (trace.steps ?? 0) + 1;
+  trace.steps = seq;
+  const response = await traceRequest({
+    dir: trace.bundleDir,
+    seq,
+    req,
+    screenshots: trace.screenshots === true,
+    appLogPath: session.appLog?.outPath,
+    capture: {
+      snapshot: async () => {
+        const data = (await dispatch(session.device, 'snapshot', [], undefined, context())) as {
+          nodes?: RawSnapshotNode[];
+        };
+        return attachRefs(pruneGroupNodes(data?.nodes ?? []));
+      },
+      screenshot: async (outPath) => {
+        await dispatch(session.device, 'screenshot', [outPath], undefined, context());
+      },
+    },
+    run,
+  });
+  // `close` ends the session mid-trace; finish the bundle so it is complete on disk.
+  if (!sessionStore.get(sessionName) && fs.existsSync(trace.bundleDir)) {
+    finishTraceBundle(trace.bundleDir);
+    writeTraceBundleHtml(trace.bundleDir);
+  }
+  return response;
+}
@@ -0,0 +1,239 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { dispatchCommand } from '../../core/dispatch.ts';
+import { isCommandSupportedOnDevice } from '../../core/capabilities.ts';
+import { AppError } from '../../utils/errors.ts';
+import { diffImages, type ImageDiff, type ImageRegion } from '../../utils/image-diff.ts';
+import { decodePng, encodePng, type RgbaImage } from '../../utils/png.ts';
+import {
+  attachRefs,
+  findNodeByRef,
+  normalizeRef,
+  type RawSnapshotNode,
+  type SnapshotNode,
+} from '../../utils/snapshot.ts';
+import type { DaemonRequest, DaemonResponse, SessionState } from '../types.ts';
+import { SessionStore } from '../session-store.ts';
+import { contextFromFlags } from '../context.ts';
+import { pruneGroupNodes } from '../snapshot-processing.ts';
+import { findSelectorChainNodes, tryParseSelectorChain } from '../selectors.ts';
+
+const RECT_REGION_RE = /^\s*(\d+(?:\.\d+)?)\s*,\s*(\d+(?:\.\d+)?)\s*,\s*(\d+(?:\.\d+)?)\s*,\s*(\d+(?:\.\d+)?)\s*$/;
+
+type ScreenshotComparison = {
+  path: string;
+  baseline: string;
+  baselineInitialized: boolean;
+  diffPath?: string;
+  threshold: number;
+  passed: boolean;
+  summary?: {
+    differentPixels: number;
+    comparedPixels: number;
+    ignoredPixels: number;
+    mismatchPercent: number;
+  };
+};
+
+/**
+ * Handles `screenshot --compare <baseline>` (fails when the difference exceeds `--threshold`) and
+ * `diff screenshot`, which like `diff snapshot` reports against the session's previous capture.
+ */
+export async function handleScreenshotCommands(params: {
+  req: DaemonRequest;
+  sessionName: string;
+  logPath: string;
+  sessionStore: SessionStore;
+  dispatch?: typeof dispatchCommand;
+}): Promise<DaemonResponse | null> {
+  const { req, sessionName, logPath, sessionStore } = params;
+  const dispatch = params.dispatch ?? dispatchCommand;
+  const isDiff = req.command === 'diff' && req.positionals?.[0] === 'screenshot';
+  const isCompare = req.command === 'screenshot' && req.flags?.screenshotCompare !== undefined;
+  if (!isDiff && !isCompare) return null;
+
+  const session = sessionStore.get(sessionName);
+  if (!session) {
+    return { ok: false, error: { code: 'SESSION_NOT_FOUND', message: 'No active session. Run open first.' } };
+  }
+  if (!isCommandSupportedOnDevice('screenshot', session.device)) {
+    return {
+      ok: false,
+      error: { code: 'UNSUPPORTED_OPERATION', message: `${req.command} screenshot is not supported on this device` },
+    };
+  }
+  const threshold = parseThreshold(req.flags?.screenshotThreshold);
+  const cwd = req.meta?.cwd;
+  const requestedPath = isDiff ? req.positionals?.[1] : (req.positionals?.[0] ?? req.flags?.out);
+  const currentPath = requestedPath
+    ? SessionStore.expandHome(requestedPath, cwd)
+    : isDiff
+      ? sessionStore.resolveSessionOutputPath(sessionName, 'screenshot-current.png')
+      : SessionStore.expandHome(`screenshot-${Date.now()}.png`, cwd);
+  const explicitBaseline = req.flags?.screenshotCompare
+    ? SessionStore.expandHome(req.flags.screenshotCompare, cwd)
+    : undefined;
+  const sessionBaselinePath = sessionStore.resolveSessionOutputPath(sessionName, 'screenshot-baseline.png');
+  const baselinePath = explicitBaseline ?? session.screenshotBaseline;
+
+  const context = contextFromFlags(logPath, req.flags, session.appBundleId, session.trace?.outPath);
+  await dispatch(session.device, 'screenshot', [currentPath], undefined, context);
+  const current = decodePng(fs.readFileSync(currentPath));
+
+  let comparison: ScreenshotComparison;
+  if (!baselinePath || !fs.existsSync(baselinePath)) {
+    if (explicitBaseline) {
+      fs.mkdirSync(path.dirname(explicitBaseline), { recursive: true });
+      fs.copyFileSync(currentPath, explicitBaseline);
+    }
+    comparison = {
+      path: currentPath,
+      baseline: explicitBaseline ?? sessionBaselinePath,
+      baselineInitialized: true,
+      threshold,
+      passed: true,
+    };
+  } else {
+    const ignore = await resolveIgnoreRegions({
+      specs: req.flags?.screenshotIgnore ?? [],
+      session,
+      image: current,
+      capture: async () => {
+        const data = (await dispatch(session.device, 'snapshot', [], undefined, context)) as {
+          nodes?: RawSnapshotNode[];
+        };
+        return attachRefs(pruneGroupNodes(data?.nodes ?? []));
+      },
+    });
+    const diff = diffImages(decodePng(fs.readFileSync(baselinePath)), current, ignore);
+    const diffPath = req.flags?.screenshotDiffOut
+      ? SessionStore.expandHome(req.flags.screenshotDiffOut, cwd)
+      : currentPath.replace(/(\.png)?$/i, '.diff.png');
+    fs.mkdirSync(path.dirname(diffPath), { recursive: true });
+    fs.writeFileSync(diffPath, encodePng(diff.image));
+    comparison = {
+      path: currentPath,
+      baseline: baselinePath,
+      baselineInitialized: false,
+      diffPath,
+      threshold,
+      passed: diff.mismatchPercent <= threshold,
+      summary: summarizeDiff(diff),
+    };
+  }
+
+  if (isDiff && !explicitBaseline) {
+    // Roll the session baseline forward, mirroring how `diff snapshot` replaces its baseline.
+    fs.mkdirSync(path.dirname(sessionBaselinePath), { recursive: true });
+    fs.copyFileSync(currentPath, sessionBaselinePath);
+    session.screenshotBaseline = sessionBaselinePath;
+  }
+  sessionStore.recordAction(session, {
+    command: req.command,
+    positionals: req.positionals ?? [],
+    flags: req.flags ?? {},
+    result: { ...comparison },
+  });
+  sessionStore.set(sessionName, session);
+
+  if (isDiff) {
+    return { ok: true, data: { mode: 'screenshot', ...comparison } };
+  }
+  if (!comparison.passed) {
+    return {
+      ok: false,
+      error: {
+        code: 'COMMAND_FAILED',
+        message: `Screenshot differs from baseline: ${comparison.summary?.mismatchPercent}% of pixels (threshold ${threshold}%)`,
+        hint: `Inspect ${comparison.diffPath}; mask dynamic areas with --ignore or update the baseline.`,
+        details: { ...comparison },
+      },
+    };
+  }
+  return { ok: true, data: comparison };
+}
+
+function parseThreshold(raw: string | undefined): number {
+  if (raw === undefined) return 0;
+  const value = Number(raw.trim().replace(/%$/, ''));
+  if (!Number.isFinite(value) || value < 0 || value > 100) {
+    throw new AppError('INVALID_ARGS', `Invalid threshold: ${raw}. Use a percentage between 0 and 100.`);
+  }
+  return value;
+}
+
+function summarizeDiff(diff: ImageDiff): NonNullable<ScreenshotComparison['summary']> {
+  return {
+    differentPixels: diff.differentPixels,
+    comparedPixels: diff.comparedPixels,
+    ignoredPixels: diff.ignoredPixels,
+    mismatchPercent: Math.round(diff.mismatchPercent * 10_000) / 10_000,
+  };
+}
+
+/**
+ * Converts `--ignore` specs into image-pixel regions. Rects are taken as pixels; refs and selectors
+ * are scaled from snapshot points using the screenshot width.
+ */
+async function resolveIgnoreRegions(params: {
+  specs: string[];
+  session: SessionState;
+  image: RgbaImage;
+  capture: () => Promise<SnapshotNode[]>;
+}): Promise<ImageRegion[]> {
+  const { specs, session, image, capture } = params;
+  const regions: ImageRegion[] = [];
+  let freshNodes: SnapshotNode[] | null = null;
+  for (const spec of specs) {
+    const rect = RECT_REGION_RE.exec(spec);
+    if (rect) {
+      const [x, y, width, height] = rect.slice(1).map(Number);
+      regions.push({ x, y, width, height });
+      continue;
+    }
+    if (spec.trim().startsWith('@')) {
+      const ref = normalizeRef(spec.trim());
+      const nodes = session.snapshot?.nodes;
+      if (!ref || !nodes) {
+        throw new AppError(
+          'INVALID_ARGS',
+          `--ignore ${spec} requires a ref from the current snapshot. Run snapshot first.`,
+        );
+      }
+      const node = findNodeByRef(nodes, ref);
+      if (!node?.rect) {
+        throw new AppError('COMMAND_FAILED', `--ignore ref ${spec} not found or has no bounds`);
+      }
+      regions.push(scaleRect(node.rect, resolveScale(nodes, image)));
+      continue;
+    }
+    const chain = tryParseSelectorChain(spec);
+    if (!chain) {
+      throw new AppError('INVALID_ARGS', `Invalid --ignore region: ${spec}. Use @ref, a selector or x,y,width,height.`);
+    }
+    freshNodes ??= await capture();
+    const matches = findSelectorChainNodes(freshNodes, chain, { platform: session.device.platform, requireRect: true });
+    if (matches.length === 0) {
+      throw new AppError('COMMAND_FAILED', `--ignore selector did not match: ${spec}`);
+    }
+    const scale = resolveScale(freshNodes, image);
+    for (const node of matches) regions.push(scaleRect(node.rect!, scale));
+  }
+  return regions;
+}
+
+/** Screenshot pixels per snapshot point (for example 3 on a 3x iPhone, 1 on Android). */
+function resolveScale(nodes: SnapshotNode[], image: RgbaImage): number {
+  let viewportWidth = 0;
+  for (const node of nodes) {
+    if (!node.rect || node.rect.x > 0) continue;
+    viewportWidth = Math.max(viewportWidth, node.rect.x + node.rect.width);
+  }
+  if (viewportWidth <= 0) return 1;
+  const scale = image.width / viewportWidth;
+  return Number.isFinite(scale) && scale > 0 ? scale : 1;
+}
+
+function scaleRect(rect: NonNullable<SnapshotNode['rect']>, scale: number): ImageRegion {
+  return { x: rect.x * scale, y: rect.y * scale, width: rect.width * scale, height: rect.height * scale };
+}
@@ -1,4 +1,5 @@
 import fs from 'node:fs';
+import path from 'node:path';
 import { dispatchCommand, resolveTargetDevice, type BatchStep, type CommandFlags } from '../../core/dispatch.ts';
 import {
   DEFAULT_BATCH_MAX_STEPS,
@@ -7,10 +8,10 @@ import {
   validateAndNormalizeBatchSteps,
 } from '../../core/batch.ts';
 import { isCommandSupportedOnDevice } from '../../core/capabilities.ts';
+import { getPlatformBackend, listDiscoveryBackends } from '../../core/platform-backends.ts';
 import { isDeepLinkTarget, resolveIosDeviceDeepLinkBundleId } from '../../core/open-target.ts';
 import { AppError, asAppError, normalizeError } from '../../utils/errors.ts';
 import { normalizePlatformSelector, type DeviceInfo } from '../../utils/device.ts';
-import { resolveAndroidSerialAllowlist, resolveIosSimulatorDeviceSetPath } from '../../utils/device-isolation.ts';
 import type { DaemonRequest, DaemonResponse, SessionAction, SessionState } from '../types.ts';
 import { SessionStore } from '../session-store.ts';
 import { contextFromFlags } from '../context.ts';
@@ -26,13 +27,28 @@ import {
   tryParseSelectorChain,
 } from '../selectors.ts';
 import { inferFillText, uniqueStrings } from '../action-utils.ts';
+import { formatScriptActionSummary, isClickLikeCommand } from '../script-utils.ts';
 import {
-  appendScriptSeriesFlags,
-  formatScriptActionSummary,
-  formatScriptArg,
-  isClickLikeCommand,
-  parseReplaySeriesFlags,
-} from '../script-utils.ts';
+  applyHealedReplayAction,
+  interpolateReplayValue,
+  listReplayScripts,
+  loadReplayScript,
+  MAX_REPLAY_REPEAT,
+  resolveReplayAction,
+  resolveReplayScriptPaths,
+  writeReplayScript,
+  type ReplayScope,
+  type ReplayScript,
+  type ReplayScriptStep,
+} from '../replay-script.ts';
+import {
+  resolveReplayArtifactsDir,
+  resolveReplayReportPath,
+  writeReplayReport,
+  type ReplayScriptResult,
+  type ReplayStepResult,
+  type ReplaySuiteResult,
+} from '../replay-report.ts';
 import { resolvePayloadInput } from '../../utils/payload-input.ts';
 import {
   appendAppLogMarker,
@@ -42,7 +58,20 @@ import {
   startAppLog,
   stopAppLog,
 } from '../app-log.ts';
-import { readRecentNetworkTraffic } from '../network-log.ts';
+import { readHarNetworkTraffic, readRecentNetworkTraffic } from '../network-log.ts';
+import { configureDeviceProxy, startNetworkProxy } from '../network-proxy.ts';
+import { buildNetworkMockRule, describeNetworkMockRule } from '../network-mock.ts';
+import { parseWaitArgs } from './snapshot.ts';
+import {
+  collectPerfSample,
+  createPerfCollector,
+  DEFAULT_PERF_INTERVAL_MS,
+  MIN_PERF_INTERVAL_MS,
+  startPerfSampler,
+  summarizePerfSamples,
+  writePerfSeries,
+  type PerfMetricName,
+} from '../perf.ts';
 
 type ReinstallOps = {
   ios: (device: DeviceInfo, app: string, appPath: string) => Promise<{ bundleId: string }>;
@@ -57,11 +86,31 @@ type EnsureAndroidEmulatorBoot = (params: {
 
 const IOS_APPSTATE_SESSION_REQUIRED_MESSAGE =
   'iOS appstate requires an active session on the target device. Run open first (for example: open --session sim --platform ios --device "<name>" <app>).';
-const BATCH_PARENT_FLAG_KEYS: Array<keyof CommandFlags> = ['platform', 'target', 'device', 'udid', 'serial', 'verbose', 'out'];
-const REPLAY_PARENT_FLAG_KEYS: Array<keyof CommandFlags> = ['platform', 'target', 'device', 'udid', 'serial', 'verbose', 'out'];
+const BATCH_PARENT_FLAG_KEYS: Array<keyof CommandFlags> = [
+  'platform',
+  'target',
+  'device',
+  'udid',
+  'serial',
+  'fakeScreenGraph',
+  'verbose',
+  'out',
+];
+const REPLAY_PARENT_FLAG_KEYS: Array<keyof CommandFlags> = [
+  'platform',
+  'target',
+  'device',
+  'udid',
+  'serial',
+  'fakeScreenGraph',
+  'verbose',
+  'out',
+];
 const LOG_ACTIONS = ['path', 'start', 'stop', 'doctor', 'mark', 'clear'] as const;
 const LOG_ACTIONS_MESSAGE = `logs requires ${LOG_ACTIONS.slice(0, -1).join(', ')}, or ${LOG_ACTIONS.at(-1)}`;
-const PERF_UNAVAILABLE_REASON = 'Not implemented for this platform in this release.';
+const PERF_ACTIONS = ['start', 'stop', 'sample'] as const;
+const PERF_ACTIONS_MESSAGE = `perf accepts no action or one of: ${PERF_ACTIONS.join(', ')}`;
+const PERF_NOT_SAMPLED_REASON = 'No samples yet. Run perf start (or perf sample) in this session.';
 const STARTUP_SAMPLE_METHOD = 'open-command-roundtrip';
 const STARTUP_SAMPLE_DESCRIPTION =
   'Elapsed wall-clock time around dispatching the open command for the active session app target.';
@@ -154,9 +203,10 @@ function buildPerfResponseData(session: SessionState): Record<string, unknown> {
     deviceId: session.device.id,
     metrics: {
       startup: startupMetric,
-      fps: { available: false, reason: PERF_UNAVAILABLE_REASON },
-      memory: { available: false, reason: PERF_UNAVAILABLE_REASON },
-      cpu: { available: false, reason: PERF_UNAVAILABLE_REASON },
+      fps: buildPerfWindowMetric(session, 'fps'),
+      jank: buildPerfWindowMetric(session, 'jank'),
+      memory: buildPerfWindowMetric(session, 'memory'),
+      cpu: buildPerfWindowMetric(session, 'cpu'),
     },
     sampling: {
       startup: {
@@ -164,11 +214,68 @@ function buildPerfResponseData(session: SessionState): Record<string, unknown> {
         description: STARTUP_SAMPLE_DESCRIPTION,
         unit: 'ms',
       },
+      ...(session.perf ? { window: describePerfWindow(session.perf) } : {}),
     },
   };
 }
-const NETWORK_ACTIONS = ['dump', 'log'] as const;
-const NETWORK_ACTIONS_MESSAGE = `network requires ${NETWORK_ACTIONS.join(' or ')}`;
+
+function buildPerfWindowMetric(session: SessionState, metric: PerfMetricName): Record<string, unknown> {
+  const window = session.perf;
+  if (!window) return { available: false, reason: PERF_NOT_SAMPLED_REASON };
+  const unavailable = window.unavailable[metric];
+  if (unavailable) return { available: false, reason: unavailable, method: window.method };
+  const summary = summarizePerfSamples(window.samples)[metric];
+  if (!summary) return { available: false, reason: PERF_NOT_SAMPLED_REASON, method: window.method };
+  return { available: true, method: window.method, ...summary };
+}
+
+function describePerfWindow(window: NonNullable<SessionState['perf']>): Record<string, unknown> {
+  return {
+    active: Boolean(window.sampler),
+    appBundleId: window.appBundleId,
+    method: window.method,
+    intervalMs: window.intervalMs,
+    startedAt: new Date(window.startedAt).toISOString(),
+    stoppedAt: window.stoppedAt ? new Date(window.stoppedAt).toISOString() : undefined,
+    sampleCount: window.samples.length,
+    truncated: window.truncated || undefined,
+    path: window.outPath,
+  };
+}
+
+/** Stops an active perf window and writes its time series next to the other session artifacts. */
+async function finishPerfWindow(session: SessionState): Promise<NonNullable<SessionState['perf']> | undefined> {
+  const window = session.perf;
+  if (!window?.sampler) return undefined;
+  await window.sampler.stop();
+  const finished = { ...window, stoppedAt: Date.now(), truncated: window.sampler.isTruncated(), sampler: undefined };
+  writePerfSeries(finished.outPath, {
+    session: session.name,
+    platform: session.device.platform,
+    device: session.device.name,
+    deviceId: session.device.id,
+    ...describePerfWindow(finished),
+    summary: summarizePerfSamples(finished.samples),
+    unavailable: finished.unavailable,
+    samples: finished.samples,
+  });
+  session.perf = finished;
+  return finished;
+}
+
+/** Stops the perf sampler and network capture of a session, restoring device proxy settings. */
+export async function stopSessionCaptures(session: SessionState): Promise<void> {
+  await finishPerfWindow(session);
+  const capture = session.networkCapture;
+  if (!capture) return;
+  session.networkCapture = undefined;
+  await capture.stop();
+}
+
+const NETWORK_ACTIONS = ['dump', 'log', 'capture', 'mock'] as const;
+const NETWORK_ACTIONS_MESSAGE = `network requires ${NETWORK_ACTIONS.join(', ')}`;
+const NETWORK_CAPTURE_MESSAGE = 'network capture requires start or stop';
+const NETWORK_MOCK_MESSAGE = 'network mock requires add, list or clear';
 const NETWORK_INCLUDE_MODES = ['summary', 'headers', 'body', 'all'] as const;
 const NETWORK_INCLUDE_MESSAGE = `network include mode must be one of: ${NETWORK_INCLUDE_MODES.join(', ')}`;
 type NetworkIncludeMode = (typeof NETWORK_INCLUDE_MODES)[number];
@@ -555,6 +662,14 @@ export async function handleSessionCommands(params: {
     start: typeof startAppLog;
     stop: typeof stopAppLog;
   };
+  perfOps?: {
+    createCollector: typeof createPerfCollector;
+    startSampler: typeof startPerfSampler;
+  };
+  networkCaptureOps?: {
+    startProxy: typeof startNetworkProxy;
+    configureDevice: typeof configureDeviceProxy;
+  };
   ensureAndroidEmulatorBoot?: EnsureAndroidEmulatorBoot;
   resolveAndroidPackageForOpen?: (
     device: DeviceInfo,
@@ -576,6 +691,14 @@ export async function handleSessionCommands(params: {
       start: startAppLog,
       stop: stopAppLog,
     },
+    perfOps = {
+      createCollector: createPerfCollector,
+      startSampler: startPerfSampler,
+    },
+    networkCaptureOps = {
+      startProxy: startNetworkProxy,
+      configureDevice: configureDeviceProxy,
+    },
     ensureAndroidEmulatorBoot: ensureAndroidEmulatorBootOverride = defaultEnsureAndroidEmulatorBoot,
     resolveAndroidPackageForOpen: resolveAndroidPackageForOpenOverride = resolveAndroidPackageForOpen,
   } = params;
@@ -596,33 +719,27 @@ export async function handleSessionCommands(params: {
         createdAt: s.createdAt,
       })),
     };
+    const { stale } = sessionStore.getRestoreReport();
+    if (stale.length > 0) {
+      return { ok: true, data: { ...data, staleSessionReferences: stale } };
+    }
     return { ok: true, data };
   }
 
   if (command === 'devices') {
     try {
       const devices: DeviceInfo[] = [];
-      const iosSimulatorSetPath = resolveIosSimulatorDeviceSetPath(req.flags?.iosSimulatorDeviceSet);
-      const androidSerialAllowlist = resolveAndroidSerialAllowlist(req.flags?.androidDeviceAllowlist);
-      const requestedPlatform = normalizePlatformSelector(req.flags?.platform);
-      if (requestedPlatform === 'android') {
-        const { listAndroidDevices } = await import('../../platforms/android/devices.ts');
-        devices.push(...(await listAndroidDevices({ serialAllowlist: androidSerialAllowlist })));
-      } else if (requestedPlatform === 'ios') {
-        const { listIosDevices } = await import('../../platforms/ios/devices.ts');
-        devices.push(...(await listIosDevices({ simulatorSetPath: iosSimulatorSetPath })));
+      const flags = req.flags ?? {};
+      const requestedPlatform = normalizePlatformSelector(flags.platform);
+      if (requestedPlatform) {
+        devices.push(...(await getPlatformBackend(requestedPlatform).listDevices(flags)));
       } else {
-        const { listAndroidDevices } = await import('../../platforms/android/devices.ts');
-        const { listIosDevices } = await import('../../platforms/ios/devices.ts');
-        try {
-          devices.push(...(await listAndroidDevices({ serialAllowlist: androidSerialAllowlist })));
-        } catch {
-          // ignore
-        }
-        try {
-          devices.push(...(await listIosDevices({ simulatorSetPath: iosSimulatorSetPath })));
-        } catch {
-          // ignore
+        for (const backend of listDiscoveryBackends(flags)) {
+          try {
+            devices.push(...(await backend.listDevices(flags)));
+          } catch {
+            // ignore
+          }
         }
       }
       const filtered = req.flags?.target
@@ -831,10 +948,92 @@ export async function handleSessionCommands(params: {
         },
       };
     }
-    return {
-      ok: true,
-      data: buildPerfResponseData(session),
+    const action = req.positionals?.[0];
+    if (action === undefined) {
+      return {
+        ok: true,
+        data: buildPerfResponseData(session),
+      };
+    }
+    if (!PERF_ACTIONS.includes(action as (typeof PERF_ACTIONS)[number])) {
+      return { ok: false, error: { code: 'INVALID_ARGS', message: PERF_ACTIONS_MESSAGE } };
+    }
+    const record = (result: Record<string, unknown>): DaemonResponse => {
+      sessionStore.recordAction(session, {
+        command,
+        positionals: req.positionals ?? [],
+        flags: req.flags ?? {},
+        result,
+      });
+      sessionStore.set(sessionName, session);
+      return { ok: true, data: result };
     };
+    if (action === 'stop') {
+      const finished = await finishPerfWindow(session);
+      if (!finished) {
+        return {
+          ok: false,
+          error: { code: 'INVALID_ARGS', message: 'perf sampling is not running. Run perf start first.' },
+        };
+      }
+      return record({
+        action,
+        path: finished.outPath,
+        sampleCount: finished.samples.length,
+        durationMs: (finished.stoppedAt ?? Date.now()) - finished.startedAt,
+        truncated: finished.truncated || undefined,
+        summary: summarizePerfSamples(finished.samples),
+        unavailable: finished.unavailable,
+      });
+    }
+    if (action === 'sample' && session.perf?.sampler) {
+      return record({ action, active: true, sample: await session.perf.sampler.sampleNow() });
+    }
+    if (action === 'start' && session.perf?.sampler) {
+      return {
+        ok: false,
+        error: { code: 'INVALID_ARGS', message: 'perf sampling is already running. Run perf stop first.' },
+      };
+    }
+    if (!session.appBundleId) {
+      return {
+        ok: false,
+        error: {
+          code: 'INVALID_ARGS',
+          message: `perf ${action} requires an app opened in this session. Run open <app> first.`,
+        },
+      };
+    }
+    const collector = perfOps.createCollector(session.device, session.appBundleId);
+    if (action === 'sample') {
+      return record({ action, active: false, sample: await collectPerfSample(collector) });
+    }
+    const intervalMs = req.flags?.intervalMs ?? DEFAULT_PERF_INTERVAL_MS;
+    if (intervalMs < MIN_PERF_INTERVAL_MS) {
+      return {
+        ok: false,
+        error: { code: 'INVALID_ARGS', message: `perf --interval-ms must be at least ${MIN_PERF_INTERVAL_MS}` },
+      };
+    }
+    const sampler = perfOps.startSampler(collector, intervalMs);
+    session.perf = {
+      appBundleId: session.appBundleId,
+      method: collector.method,
+      unavailable: collector.unavailable,
+      intervalMs,
+      startedAt: sampler.startedAt,
+      outPath: sessionStore.resolveSessionOutputPath(sessionName, `perf-${sampler.startedAt}.json`),
+      samples: sampler.samples,
+      sampler,
+    };
+    return record({
+      action,
+      intervalMs,
+      method: collector.method,
+      metrics: collector.metrics,
+      unavailable: collector.unavailable,
+      path: session.perf.outPath,
+    });
   }
 
   if (command === 'reinstall') {
@@ -1095,74 +1294,92 @@ export async function handleSessionCommands(params: {
   }
 
   if (command === 'replay') {
-    const filePath = req.positionals?.[0];
-    if (!filePath) {
+    const inputs = req.positionals ?? [];
+    if (inputs.length === 0) {
       return { ok: false, error: { code: 'INVALID_ARGS', message: 'replay requires a path' } };
     }
+    const reportFormat = req.flags?.replayReport;
+    const suiteStartedAt = Date.now();
+    let scriptPaths: string[];
+    let reportPath: string | undefined;
     try {
-      const resolved = SessionStore.expandHome(filePath, req.meta?.cwd);
-      const script = fs.readFileSync(resolved, 'utf8');
-      const firstNonWhitespace = script.trimStart()[0];
-      if (firstNonWhitespace === '{' || firstNonWhitespace === '[') {
-        return {
-          ok: false,
-          error: {
-            code: 'INVALID_ARGS',
-            message: 'replay accepts .ad script files. JSON replay payloads are no longer supported.',
-          },
-        };
-      }
-      const actions = parseReplayScript(script);
-      const shouldUpdate = req.flags?.replayUpdate === true;
-      let healed = 0;
-      for (let index = 0; index < actions.length; index += 1) {
-        const action = actions[index];
-        if (!action || action.command === 'replay') continue;
-        let response = await invoke({
-          token: req.token,
-          session: sessionName,
-          command: action.command,
-          positionals: action.positionals ?? [],
-          flags: buildReplayActionFlags(req.flags, action.flags),
-          meta: req.meta,
-        });
-        if (response.ok) continue;
-        if (!shouldUpdate) {
-          return withReplayFailureContext(response, action, index, resolved);
-        }
-        const nextAction = await healReplayAction({
-          action,
-          sessionName,
-          logPath,
-          sessionStore,
-          dispatch,
-        });
-        if (!nextAction) {
-          return withReplayFailureContext(response, action, index, resolved);
-        }
-        actions[index] = nextAction;
-        response = await invoke({
-          token: req.token,
-          session: sessionName,
-          command: nextAction.command,
-          positionals: nextAction.positionals ?? [],
-          flags: buildReplayActionFlags(req.flags, nextAction.flags),
-          meta: req.meta,
-        });
-        if (!response.ok) {
-          return withReplayFailureContext(response, nextAction, index, resolved);
-        }
-        healed += 1;
-      }
-      if (shouldUpdate && healed > 0) {
-        const session = sessionStore.get(sessionName);
-        writeReplayScript(resolved, actions, session);
-      }
-      return { ok: true, data: { replayed: actions.length, healed, session: sessionName } };
+      scriptPaths = resolveReplayScriptPaths(inputs, req.meta?.cwd);
+      reportPath = reportFormat
+        ? resolveReplayReportPath(reportFormat, req.flags?.replayReportFile, req.meta?.cwd ?? process.cwd())
+        : undefined;
     } catch (err) {
       const appErr = asAppError(err);
       return { ok: false, error: { code: appErr.code, message: appErr.message } };
     }
+    const scripts: ReplayScriptResult[] = [];
+    let firstFailure: DaemonResponse | null = null;
+    for (const [index, scriptPath] of scriptPaths.entries()) {
+      const scriptName = path.basename(scriptPath, '.ad');
+      const outcome = await runReplayFile({
+        req,
+        sessionName,
+        logPath,
+        sessionStore,
+        invoke,
+        dispatch,
+        scriptPath,
+        artifactsDir: reportPath ? resolveReplayArtifactsDir(reportPath) : undefined,
+        artifactPrefix: scriptPaths.length > 1 ? `${index + 1}-${scriptName}` : scriptName,
+      });
+      scripts.push(outcome.result);
+      firstFailure ??= outcome.response.ok ? null : outcome.response;
+    }
+    if (reportFormat && reportPath) {
+      const suite: ReplaySuiteResult = {
+        session: sessionName,
+        startedAt: new Date(suiteStartedAt).toISOString(),
+        durationMs: Date.now() - suiteStartedAt,
+        scripts,
+      };
+      writeReplayReport(suite, reportFormat, reportPath);
+    }
+    const replayed = scripts.reduce((total, script) => total + script.replayed, 0);
+    const healed = scripts.reduce((total, script) => total + script.healed, 0);
+    if (scriptPaths.length === 1) {
+      if (firstFailure && !firstFailure.ok && reportPath) {
+        const details = { ...(firstFailure.error.details ?? {}), report: reportPath };
+        return { ok: false, error: { ...firstFailure.error, details } };
+      }
+      if (firstFailure) return firstFailure;
+      return {
+        ok: true,
+        data: { replayed, healed, session: sessionName, ...(reportPath ? { report: reportPath } : {}) },
+      };
+    }
+    const summaries = scripts.map((script) => ({
+      path: script.path,
+      status: script.status,
+      replayed: script.replayed,
+      healed: script.healed,
+      durationMs: script.durationMs,
+      ...(script.status === 'failed' ? { error: findReplayScriptError(script) } : {}),
+    }));
+    const failed = scripts.filter((script) => script.status === 'failed').length;
+    if (failed > 0) {
+      return {
+        ok: false,
+        error: {
+          code: 'COMMAND_FAILED',
+          message: `Replay suite failed: ${failed} of ${scripts.length} scripts failed`,
+          details: { scripts: summaries, ...(reportPath ? { report: reportPath } : {}) },
+        },
+      };
+    }
+    return {
+      ok: true,
+      data: {
+        replayed,
+        healed,
+        session: sessionName,
+        scripts: summaries,
+        ...(reportPath ? { report: reportPath } : {}),
+      },
+    };
   }
 
   if (command === 'logs') {
@@ -1330,6 +1547,134 @@ export async function handleSessionCommands(params: {
     if (!NETWORK_ACTIONS.includes(action as (typeof NETWORK_ACTIONS)[number])) {
       return { ok: false, error: { code: 'INVALID_ARGS', message: NETWORK_ACTIONS_MESSAGE } };
     }
+    const record = (result: Record<string, unknown>): DaemonResponse => {
+      sessionStore.recordAction(session, {
+        command,
+        positionals: req.positionals ?? [],
+        flags: req.flags ?? {},
+        result,
+      });
+      sessionStore.set(sessionName, session);
+      return { ok: true, data: result };
+    };
+    const startNetworkCapture = async () => {
+      const proxy = await networkCaptureOps.startProxy({
+        harPath: sessionStore.resolveNetworkHarPath(sessionName),
+        certDir: sessionStore.resolveNetworkCaDir(),
+        mockRules: () => sessionStore.get(sessionName)?.networkMocks ?? [],
+      });
+      let deviceProxy: Awaited<ReturnType<typeof configureDeviceProxy>>;
+      try {
+        deviceProxy = await networkCaptureOps.configureDevice(session.device, proxy, {
+          appBundleId: session.appBundleId,
+          hostProxy: req.flags?.networkHostProxy === true,
+          hostProxyMarkerPath: sessionStore.resolveNetworkHostProxyMarkerPath(),
+          session: sessionName,
+        });
+      } catch (error) {
+        await proxy.stop();
+        throw error;
+      }
+      session.networkCapture = {
+        port: proxy.port,
+        harPath: proxy.harPath,
+        caPath: proxy.caPath,
+        startedAt: proxy.startedAt,
+        restoreState: deviceProxy.restoreState,
+        entryCount: proxy.entryCount,
+        flush: proxy.flush,
+        stop: async () => {
+          await deviceProxy.restore();
+          await proxy.stop();
+        },
+      };
+      const notes = [...deviceProxy.notes];
+      if (!proxy.caPath) notes.push('openssl is unavailable, so HTTPS is tunnelled and only hosts are recorded.');
+      return { port: proxy.port, harPath: proxy.harPath, caPath: proxy.caPath, notes };
+    };
+    if (action === 'capture') {
+      const captureAction = req.positionals?.[1]?.toLowerCase();
+      if (captureAction === 'stop') {
+        const capture = session.networkCapture;
+        if (!capture) {
+          return {
+            ok: false,
+            error: { code: 'INVALID_ARGS', message: 'network capture is not running. Run network capture start first.' },
+          };
+        }
+        await capture.stop();
+        session.networkCapture = undefined;
+        return record({ capturing: false, harPath: capture.harPath, entries: capture.entryCount() });
+      }
+      if (captureAction !== 'start') {
+        return { ok: false, error: { code: 'INVALID_ARGS', message: NETWORK_CAPTURE_MESSAGE } };
+      }
+      if (session.networkCapture) {
+        return {
+          ok: false,
+          error: { code: 'INVALID_ARGS', message: 'network capture is already running. Run network capture stop first.' },
+        };
+      }
+      const capture = await startNetworkCapture();
+      return record({
+        capturing: true,
+        port: capture.port,
+        harPath: capture.harPath,
+        caPath: capture.caPath,
+        notes: capture.notes,
+      });
+    }
+    if (action === 'mock') {
+      const mockAction = req.positionals?.[1]?.toLowerCase();
+      const rules = session.networkMocks ?? [];
+      if (mockAction === 'list') {
+        return {
+          ok: true,
+          data: {
+            rules,
+            proxyActive: Boolean(session.networkCapture),
+            lines: rules.map(describeNetworkMockRule),
+          },
+        };
+      }
+      if (mockAction === 'clear') {
+        const id = req.positionals?.[2];
+        if (id && !rules.some((rule) => rule.id === id)) {
+          return { ok: false, error: { code: 'INVALID_ARGS', message: `network mock rule not found: ${id}` } };
+        }
+        const remaining = id ? rules.filter((rule) => rule.id !== id) : [];
+        session.networkMocks = remaining;
+        return record({ cleared: rules.length - remaining.length, remaining: remaining.length });
+      }
+      if (mockAction !== 'add') {
+        return { ok: false, error: { code: 'INVALID_ARGS', message: NETWORK_MOCK_MESSAGE } };
+      }
+      const flags = req.flags ?? {};
+      const rule = buildNetworkMockRule(
+        `m${(session.networkMockSeq ?? 0) + 1}`,
+        req.positionals?.[2] ?? '',
+        {
+          method: flags.mockMethod,
+          status: flags.mockStatus,
+          headers: flags.mockHeader,
+          body: flags.mockBody,
+          bodyFile: flags.mockBodyFile,
+          delayMs: flags.mockDelayMs,
+          throttleKbps: flags.mockThrottleKbps,
+          offline: flags.mockOffline,
+        },
+        req.meta?.cwd,
+      );
+      session.networkMockSeq = (session.networkMockSeq ?? 0) + 1;
+      session.networkMocks = [...rules, rule];
+      const notes: string[] = [];
+      if (!session.networkCapture) {
+        const capture = await startNetworkCapture();
+        notes.push('Started network capture so mock rules apply; run network capture stop to remove the proxy.');
+        notes.push(...capture.notes);
+      }
+      return record({ rule, line: describeNetworkMockRule(rule), notes });
+    }
 
     const requestedLimit = req.positionals?.[1];
     const maxEntries = requestedLimit ? Number.parseInt(requestedLimit, 10) : 25;
@@ -1343,6 +1688,25 @@ export async function handleSessionCommands(params: {
     }
     const include = requestedInclude as NetworkIncludeMode;
 
+    const harPath = session.networkCapture?.harPath ?? sessionStore.resolveNetworkHarPath(sessionName);
+    session.networkCapture?.flush();
+    if (fs.existsSync(harPath)) {
+      const capture = session.networkCapture;
+      const dump = readHarNetworkTraffic(harPath, { maxEntries, include, maxPayloadChars: 2048 });
+      const notes: string[] = [];
+      if (!capture) notes.push('Showing the last network capture. Run network capture start to record new traffic.');
+      if (dump.entries.length === 0) notes.push('No HTTP(s) exchanges captured yet.');
+      return {
+        ok: true,
+        data: {
+          ...dump,
+          active: Boolean(capture),
+          state: capture ? 'active' : 'inactive',
+          backend: 'proxy',
+          notes,
+        },
+      };
+    }
     const networkPath = sessionStore.resolveAppLogPath(sessionName);
     const dump = readRecentNetworkTraffic(networkPath, {
       maxEntries,
@@ -1360,6 +1724,7 @@ export async function handleSessionCommands(params: {
     const notes: string[] = [];
     if (!session.appLog) {
       notes.push('Capture uses the session app log file. For fresh traffic, run logs clear --restart before reproducing requests.');
+      notes.push('For real headers and bodies, run network capture start to record traffic through a proxy.');
     }
     if (dump.entries.length === 0) {
       notes.push('No HTTP(s) entries were found in recent session app logs.');
@@ -1388,6 +1753,7 @@ export async function handleSessionCommands(params: {
     if (session.appLog) {
       await appLogOps.stop(session.appLog);
     }
+    await stopSessionCaptures(session);
     if (req.positionals && req.positionals.length > 0) {
       await dispatch(session.device, 'close', req.positionals ?? [], req.flags?.out, {
         ...contextFromFlags(logPath, req.flags, session.appBundleId, session.trace?.outPath),
@@ -1560,33 +1926,319 @@ function buildBatchStepFlags(
   return merged;
 }
 
+type ReplayRun = {
+  req: DaemonRequest;
+  sessionName: string;
+  logPath: string;
+  sessionStore: SessionStore;
+  invoke: (req: DaemonRequest) => Promise<DaemonResponse>;
+  dispatch: typeof dispatchCommand;
+  shouldUpdate: boolean;
+  scope: ReplayScope;
+  executed: number;
+  healed: number;
+  steps: ReplayStepResult[];
+  /** Set when a report was requested; failure screenshots and snapshots are written here. */
+  artifactsDir?: string;
+  artifactPrefix: string;
+};
+
+async function runReplayFile(params: {
+  req: DaemonRequest;
+  sessionName: string;
+  logPath: string;
+  sessionStore: SessionStore;
+  invoke: (req: DaemonRequest) => Promise<DaemonResponse>;
+  dispatch: typeof dispatchCommand;
+  scriptPath: string;
+  artifactsDir?: string;
+  artifactPrefix: string;
+}): Promise<{ response: DaemonResponse; result: ReplayScriptResult }> {
+  const { req, sessionName, sessionStore, scriptPath } = params;
+  const startedAt = Date.now();
+  const run: ReplayRun = {
+    req,
+    sessionName,
+    logPath: params.logPath,
+    sessionStore,
+    invoke: params.invoke,
+    dispatch: params.dispatch,
+    shouldUpdate: req.flags?.replayUpdate === true,
+    // Only values the client forwarded; the daemon's own environment may hold secrets.
+    scope: { vars: new Map(), env: req.meta?.env ?? {} },
+    executed: 0,
+    healed: 0,
+    steps: [],
+    artifactsDir: params.artifactsDir,
+    artifactPrefix: params.artifactPrefix,
+  };
+  let response: DaemonResponse;
+  try {
+    const source = fs.readFileSync(scriptPath, 'utf8');
+    const firstNonWhitespace = source.trimStart()[0];
+    if (firstNonWhitespace === '{' || firstNonWhitespace === '[') {
+      throw new AppError('INVALID_ARGS', 'replay accepts .ad script files. JSON replay payloads are no longer supported.');
+    }
+    const root = loadReplayScript(scriptPath);
+    const failure = await runReplaySteps(run, root, root.steps);
+    if (failure) {
+      response = failure;
+    } else {
+      if (run.shouldUpdate && run.healed > 0) {
+        const session = sessionStore.get(sessionName);
+        for (const script of listReplayScripts(root)) {
+          if (script.dirty) writeReplayScript(script, session, { root: script === root });
+        }
+      }
+      response = { ok: true, data: { replayed: run.executed, healed: run.healed, session: sessionName } };
+    }
+  } catch (err) {
+    const appErr = asAppError(err);
+    response = {
+      ok: false,
+      error: { code: appErr.code, message: appErr.message, hint: appErr.details?.hint as string | undefined },
+    };
+  }
+  const result: ReplayScriptResult = {
+    path: scriptPath,
+    status: response.ok ? 'passed' : 'failed',
+    startedAt: new Date(startedAt).toISOString(),
+    durationMs: Date.now() - startedAt,
+    replayed: run.executed,
+    healed: run.healed,
+    steps: run.steps,
+  };
+  // Failures outside an action step (parse errors, conditions, variables) belong to the script itself.
+  if (!response.ok && run.steps.at(-1)?.status !== 'failed') {
+    result.error = { code: response.error.code, message: response.error.message };
+  }
+  return { response, result };
+}
+
+function findReplayScriptError(script: ReplayScriptResult): { code: string; message: string } | undefined {
+  return script.error ?? script.steps.find((step) => step.error)?.error;
+}
+
+type ReplayLocation = {
+  step: number;
+  replayPath: string;
+  line: number;
+};
+
+async function runReplaySteps(
+  run: ReplayRun,
+  script: ReplayScript,
+  steps: ReplayScriptStep[],
+): Promise<DaemonResponse | null> {
+  for (const step of steps) {
+    let failure: DaemonResponse | null = null;
+    try {
+      failure = await runReplayStep(run, script, step);
+    } catch (error) {
+      const appErr = asAppError(error);
+      // Nested blocks rethrow; only the innermost step adds its location.
+      if (appErr.details?.replayPath) throw appErr;
+      throw new AppError(appErr.code, `${appErr.message} (${script.path}:${step.line})`, {
+        ...(appErr.details ?? {}),
+        replayPath: script.path,
+        line: step.line,
+      });
+    }
+    if (failure) return failure;
+  }
+  return null;
+}
+
+async function runReplayStep(
+  run: ReplayRun,
+  script: ReplayScript,
+  step: ReplayScriptStep,
+): Promise<DaemonResponse | null> {
+  switch (step.kind) {
+    case 'text':
+      return null;
+    case 'set':
+      run.scope.vars.set(step.name, interpolateReplayValue(step.valueTokens.join(' '), run.scope));
+      return null;
+    case 'include':
+      return await runReplaySteps(run, step.script, step.script.steps);
+    case 'repeat': {
+      const count = Number(interpolateReplayValue(step.countToken, run.scope));
+      if (!Number.isInteger(count) || count < 0 || count > MAX_REPLAY_REPEAT) {
+        throw new AppError('INVALID_ARGS', `repeat count must be an integer between 0 and ${MAX_REPLAY_REPEAT}`);
+      }
+      for (let iteration = 0; iteration < count; iteration += 1) {
+        const failure = await runReplaySteps(run, script, step.body);
+        if (failure) return failure;
+      }
+      return null;
+    }
+    case 'if': {
+      const positionals = [step.predicate, ...step.args.map((arg) => interpolateReplayValue(arg, run.scope))];
+      const response = await run.invoke({
+        token: run.req.token,
+        session: run.sessionName,
+        command: 'is',
+        positionals,
+        flags: buildReplayActionFlags(run.req.flags, { noRecord: true }),
+        meta: run.req.meta,
+      });
+      // A failed predicate only selects the branch; other errors (no session, bad selector) stop the replay.
+      if (!response.ok && response.error.code !== 'COMMAND_FAILED') {
+        return withReplayFailureContext(
+          response,
+          { ts: Date.now(), command: 'if', positionals, flags: {} },
+          { step: run.executed, replayPath: script.path, line: step.line },
+        );
+      }
+      const branch = response.ok !== step.negate ? step.body : step.elseBody;
+      return branch ? await runReplaySteps(run, script, branch) : null;
+    }
+    case 'action':
+      return await runReplayActionStep(run, script, step);
+  }
+}
+
+async function runReplayActionStep(
+  run: ReplayRun,
+  script: ReplayScript,
+  step: Extract<ReplayScriptStep, { kind: 'action' }>,
+): Promise<DaemonResponse | null> {
+  run.executed += 1;
+  const action = resolveReplayAction(step, run.scope);
+  if (action.command === 'replay') return null;
+  const startedAt = Date.now();
+  const result: ReplayStepResult = {
+    step: run.executed,
+    path: script.path,
+    line: step.line,
+    command: action.command,
+    summary: formatReplayActionSummary(action),
+    status: 'passed',
+    durationMs: 0,
+  };
+  run.steps.push(result);
+  const outcome = await executeReplayAction(run, script, step, action);
+  result.durationMs = Date.now() - startedAt;
+  if (outcome.response.ok) {
+    if (outcome.action !== action) {
+      result.status = 'healed';
+      result.healedTo = formatReplayActionSummary(outcome.action);
+    }
+    return null;
+  }
+  result.status = 'failed';
+  result.error = { code: outcome.response.error.code, message: outcome.response.error.message };
+  result.artifacts = await captureReplayFailureArtifacts(run, result);
+  return withReplayFailureContext(outcome.response, outcome.action, {
+    step: result.step,
+    replayPath: script.path,
+    line: step.line,
+  });
+}
+
+async function executeReplayAction(
+  run: ReplayRun,
+  script: ReplayScript,
+  step: Extract<ReplayScriptStep, { kind: 'action' }>,
+  action: SessionAction,
+): Promise<{ response: DaemonResponse; action: SessionAction }> {
+  const response = await invokeReplayAction(run, script, action);
+  if (response.ok || !run.shouldUpdate) return { response, action };
+  const nextAction = await healReplayAction({
+    action,
+    sessionName: run.sessionName,
+    logPath: run.logPath,
+    sessionStore: run.sessionStore,
+    dispatch: run.dispatch,
+  });
+  if (!nextAction) return { response, action };
+  applyHealedReplayAction(script, step, action, nextAction);
+  const healedResponse = await invokeReplayAction(run, script, nextAction);
+  if (healedResponse.ok) run.healed += 1;
+  return { response: healedResponse, action: nextAction };
+}
+
+/** Best effort: a failed capture must not mask the step failure being reported. */
+async function captureReplayFailureArtifacts(
+  run: ReplayRun,
+  result: ReplayStepResult,
+): Promise<ReplayStepResult['artifacts']> {
+  if (!run.artifactsDir) return undefined;
+  const artifacts: NonNullable<ReplayStepResult['artifacts']> = {};
+  const basePath = path.join(run.artifactsDir, `${run.artifactPrefix}-step${result.step}`);
+  const capture = async (command: string, positionals: string[]) =>
+    await run.invoke({
+      token: run.req.token,
+      session: run.sessionName,
+      command,
+      positionals,
+      flags: buildReplayActionFlags(run.req.flags, { noRecord: true }),
+      meta: run.req.meta,
+    });
+  try {
+    fs.mkdirSync(run.artifactsDir, { recursive: true });
+    const screenshotPath = `${basePath}.png`;
+    if ((await capture('screenshot', [screenshotPath])).ok) {
+      artifacts.screenshot = screenshotPath;
+    }
+    const snapshot = await capture('snapshot', []);
+    if (snapshot.ok) {
+      const snapshotPath = `${basePath}.snapshot.json`;
+      fs.writeFileSync(snapshotPath, `${JSON.stringify(snapshot.data ?? {}, null, 2)}\n`);
+      artifacts.snapshot = snapshotPath;
+    }
+  } catch {
+    // Keep whatever was captured before the error.
+  }
+  return artifacts;
+}
+
+async function invokeReplayAction(
+  run: ReplayRun,
+  script: ReplayScript,
+  action: SessionAction,
+): Promise<DaemonResponse> {
+  const flags = buildReplayActionFlags(run.req.flags, action.flags);
+  // Fixtures sit next to the script, like `include` targets, not in the directory the suite runs from.
+  if (flags.mockBodyFile) flags.mockBodyFile = path.resolve(path.dirname(script.path), flags.mockBodyFile);
+  return await run.invoke({
+    token: run.req.token,
+    session: run.sessionName,
+    command: action.command,
+    positionals: action.positionals ?? [],
+    flags,
+    meta: run.req.meta,
+  });
+}
+
 function withReplayFailureContext(
   response: DaemonResponse,
   action: SessionAction,
-  index: number,
-  replayPath: string,
+  location: ReplayLocation,
 ): DaemonResponse {
   if (response.ok) return response;
-  const step = index + 1;
+  const { step, replayPath, line } = location;
   const summary = formatReplayActionSummary(action);
   const details = {
     ...(response.error.details ?? {}),
     replayPath,
     step,
+    line,
     action: action.command,
     positionals: action.positionals ?? [],
   };
-    return {
-      ok: false,
-      error: {
-        code: response.error.code,
-        message: `Replay failed at step ${step} (${summary}): ${response.error.message}`,
-        hint: response.error.hint,
-        diagnosticId: response.error.diagnosticId,
-        logPath: response.error.logPath,
-        details,
-      },
-    };
+  return {
+    ok: false,
+    error: {
+      code: response.error.code,
+      message: `Replay failed at step ${step} (${summary}): ${response.error.message}`,
+      hint: response.error.hint,
+      diagnosticId: response.error.diagnosticId,
+      logPath: response.error.logPath,
+      details,
+    },
+  };
 }
 
 function buildReplayActionFlags(
@@ -1676,8 +2328,11 @@ async function healReplayAction(params: {
       };
     }
     if (action.command === 'wait') {
-      const { selectorTimeout } = parseSelectorWaitPositionals(action.positionals ?? []);
-      const nextPositionals = [selectorExpression];
+      const { selectorTimeout, predicate, expectedText } = parseSelectorWaitPositionals(action.positionals ?? []);
+      const nextPositionals = predicate ? [predicate, selectorExpression] : [selectorExpression];
+      if (expectedText) {
+        nextPositionals.push(expectedText);
+      }
       if (selectorTimeout) {
         nextPositionals.push(selectorTimeout);
       }
@@ -1793,7 +2448,18 @@ function collectReplaySelectorCandidates(action: SessionAction): string[] {
 function parseSelectorWaitPositionals(positionals: string[]): {
   selectorExpression: string | null;
   selectorTimeout: string | null;
+  predicate?: string;
+  expectedText?: string;
 } {
+  const parsedWait = parseWaitArgs(positionals);
+  if (parsedWait?.kind === 'predicate' && parsedWait.target.kind === 'selector') {
+    return {
+      selectorExpression: parsedWait.target.selectorExpression,
+      selectorTimeout: parsedWait.timeoutMs !== null ? String(parsedWait.timeoutMs) : null,
+      predicate: parsedWait.predicate,
+      expectedText: parsedWait.expectedText,
+    };
+  }
   if (positionals.length === 0) return { selectorExpression: null, selectorTimeout: null };
   const maybeTimeout = positionals[positionals.length - 1];
   const hasTimeout = /^\d+$/.test(maybeTimeout ?? '');
@@ -1857,241 +2523,3 @@ function healNumericGetTextDrift(
     positionals: ['text', selectorChain.join(' || ')],
   };
 }
-
-function parseReplayScript(script: string): SessionAction[] {
-  const actions: SessionAction[] = [];
-  const lines = script.split(/\r?\n/);
-  for (const line of lines) {
-    const parsed = parseReplayScriptLine(line);
-    if (parsed) {
-      actions.push(parsed);
-    }
-  }
-  return actions;
-}
-
-function parseReplayScriptLine(line: string): SessionAction | null {
-  const trimmed = line.trim();
-  if (trimmed.length === 0 || trimmed.startsWith('#')) return null;
-  const tokens = tokenizeReplayLine(trimmed);
-  if (tokens.length === 0) return null;
-  const [command, ...args] = tokens;
-  if (command === 'context') return null;
-
-  const action: SessionAction = {
-    ts: Date.now(),
-    command,
-    positionals: [],
-    flags: {},
-  };
-
-  if (command === 'snapshot') {
-    action.positionals = [];
-    for (let index = 0; index < args.length; index += 1) {
-      const token = args[index];
-      if (token === '-i') {
-        action.flags.snapshotInteractiveOnly = true;
-        continue;
-      }
-      if (token === '-c') {
-        action.flags.snapshotCompact = true;
-        continue;
-      }
-      if (token === '--raw') {
-        action.flags.snapshotRaw = true;
-        continue;
-      }
-      if ((token === '-d' || token === '--depth') && index + 1 < args.length) {
-        const parsedDepth = Number(args[index + 1]);
-        if (Number.isFinite(parsedDepth) && parsedDepth >= 0) {
-          action.flags.snapshotDepth = Math.floor(parsedDepth);
-        }
-        index += 1;
-        continue;
-      }
-      if ((token === '-s' || token === '--scope') && index + 1 < args.length) {
-        action.flags.snapshotScope = args[index + 1];
-        index += 1;
-        continue;
-      }
-      if (token === '--backend' && index + 1 < args.length) {
-        // Backward compatibility: ignore legacy snapshot backend token.
-        index += 1;
-        continue;
-      }
-    }
-    return action;
-  }
-
-  if (command === 'open') {
-    action.positionals = [];
-    for (let index = 0; index < args.length; index += 1) {
-      const token = args[index];
-      if (token === '--relaunch') {
-        action.flags.relaunch = true;
-        continue;
-      }
-      action.positionals.push(token);
-    }
-    return action;
-  }
-
-  if (isClickLikeCommand(command)) {
-    const parsed = parseReplaySeriesFlags(command, args);
-    Object.assign(action.flags, parsed.flags);
-    if (parsed.positionals.length === 0) return action;
-    const target = parsed.positionals[0];
-    if (target.startsWith('@')) {
-      action.positionals = [target];
-      if (parsed.positionals[1]) {
-        action.result = { refLabel: parsed.positionals[1] };
-      }
-      return action;
-    }
-    const maybeX = parsed.positionals[0];
-    const maybeY = parsed.positionals[1];
-    if (isNumericToken(maybeX) && isNumericToken(maybeY) && parsed.positionals.length >= 2) {
-      action.positionals = [maybeX, maybeY];
-      return action;
-    }
-    action.positionals = [parsed.positionals.join(' ')];
-    return action;
-  }
-
-  if (command === 'fill') {
-    if (args.length < 2) {
-      action.positionals = args;
-      return action;
-    }
-    const target = args[0];
-    if (target.startsWith('@')) {
-      if (args.length >= 3) {
-        action.positionals = [target, args.slice(2).join(' ')];
-        action.result = { refLabel: args[1] };
-        return action;
-      }
-      action.positionals = [target, args[1]];
-      return action;
-    }
-    action.positionals = [target, args.slice(1).join(' ')];
-    return action;
-  }
-
-  if (command === 'get') {
-    if (args.length < 2) {
-      action.positionals = args;
-      return action;
-    }
-    const sub = args[0];
-    const target = args[1];
-    if (target.startsWith('@')) {
-      action.positionals = [sub, target];
-      if (args[2]) {
-        action.result = { refLabel: args[2] };
-      }
-      return action;
-    }
-    action.positionals = [sub, args.slice(1).join(' ')];
-    return action;
-  }
-
-  if (command === 'swipe') {
-    const parsed = parseReplaySeriesFlags(command, args);
-    Object.assign(action.flags, parsed.flags);
-    action.positionals = parsed.positionals;
-    return action;
-  }
-
-  action.positionals = args;
-  return action;
-}
-
-function isNumericToken(token: string | undefined): token is string {
-  if (!token) return false;
-  return !Number.isNaN(Number(token));
-}
-
-function tokenizeReplayLine(line: string): string[] {
-  const tokens: string[] = [];
-  let cursor = 0;
-  while (cursor < line.length) {
-    while (cursor < line.length && /\s/.test(line[cursor])) {
-      cursor += 1;
-    }
-    if (cursor >= line.length) break;
-    if (line[cursor] === '"') {
-      let end = cursor + 1;
-      let escaped = false;
-      while (end < line.length) {
-        const char = line[end];
-        if (char === '"' && !escaped) break;
-        escaped = char === '\\' && !escaped;
-        if (char !== '\\') escaped = false;
-        end += 1;
-      }
-      if (end >= line.length) {
-        throw new AppError('INVALID_ARGS', `Invalid replay script line: ${line}`);
-      }
-      const literal = line.slice(cursor, end + 1);
-      tokens.push(JSON.parse(literal) as string);
-      cursor = end + 1;
-      continue;
-    }
-    let end = cursor;
-    while (end < line.length && !/\s/.test(line[end])) {
-      end += 1;
-    }
-    tokens.push(line.slice(cursor, end));
-    cursor = end;
-  }
-  return tokens;
-}
-
-function writeReplayScript(filePath: string, actions: SessionAction[], session?: SessionState) {
-  const lines: string[] = [];
-  // Session can be missing if the replay session is closed/deleted between execution and update write.
-  // In that case we still persist healed actions and omit only the context header.
-  if (session) {
-    const deviceLabel = session.device.name.replace(/"/g, '\\"');
-    const kind = session.device.kind ? ` kind=${session.device.kind}` : '';
-    const target = session.device.target ? ` target=${session.device.target}` : '';
-    lines.push(`context platform=${session.device.platform}${target} device="${deviceLabel}"${kind} theme=unknown`);
-  }
-  for (const action of actions) {
-    lines.push(formatReplayActionLine(action));
-  }
-  const serialized = `${lines.join('\n')}\n`;
-  const tmpPath = `${filePath}.tmp-${process.pid}-${Date.now()}`;
-  fs.writeFileSync(tmpPath, serialized);
-  fs.renameSync(tmpPath, filePath);
-}
-
-function formatReplayActionLine(action: SessionAction): string {
-  const parts: string[] = [action.command];
-  if (action.command === 'snapshot') {
-    if (action.flags?.snapshotInteractiveOnly) parts.push('-i');
-    if (action.flags?.snapshotCompact) parts.push('-c');
-    if (typeof action.flags?.snapshotDepth === 'number') {
-      parts.push('-d', String(action.flags.snapshotDepth));
-    }
-    if (action.flags?.snapshotScope) {
-      parts.push('-s', formatScriptArg(action.flags.snapshotScope));
-    }
-    if (action.flags?.snapshotRaw) parts.push('--raw');
-    return parts.join(' ');
-  }
-  if (action.command === 'open') {
-    for (const positional of action.positionals ?? []) {
-      parts.push(formatScriptArg(positional));
-    }
-    if (action.flags?.relaunch) {
-      parts.push('--relaunch');
-    }
-    return parts.join(' ');
-  }
-  for (const positional of action.positionals ?? []) {
-    parts.push(formatScriptArg(positional));
-  }
-  appendScriptSeriesFlags(parts, action);
-  return parts.join(' ');
-}
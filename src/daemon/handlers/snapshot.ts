@@ -2,7 +2,7 @@ import { dispatchCommand, resolveTargetDevice } from '../../core/dispatch.ts';
 import { isCommandSupportedOnDevice } from '../../core/capabilities.ts';
 import { SETTINGS_INVALID_ARGS_MESSAGE } from '../../core/settings-contract.ts';
 import { runIosRunnerCommand, stopIosRunnerSession } from '../../platforms/ios/runner-client.ts';
-import { snapshotAndroid } from '../../platforms/android/index.ts';
+import { alertAndroid, snapshotAndroid } from '../../platforms/android/index.ts';
 import {
   attachRefs,
   findNodeByRef,
@@ -15,9 +15,17 @@ import { SessionStore } from '../session-store.ts';
 import { contextFromFlags } from '../context.ts';
 import { ensureDeviceReady } from '../device-ready.ts';
 import { findNodeByLabel, pruneGroupNodes, resolveRefLabel } from '../snapshot-processing.ts';
-import { findSelectorChainMatch, splitSelectorFromArgs, tryParseSelectorChain, type SelectorChain } from '../selectors.ts';
+import {
+  buildSelectorChainForNode,
+  findSelectorChainMatch,
+  findSelectorChainNodes,
+  splitSelectorFromArgs,
+  tryParseSelectorChain,
+  type SelectorChain,
+} from '../selectors.ts';
 import { parseTimeout, POLL_INTERVAL_MS, DEFAULT_TIMEOUT_MS } from './parse-utils.ts';
 import { buildSnapshotDiff, countSnapshotComparableLines } from '../snapshot-diff.ts';
+import { evaluateIsPredicateForMatches, isSupportedPredicate, type IsPredicate } from '../is-predicates.ts';
 
 export async function handleSnapshotCommands(params: {
   req: DaemonRequest;
@@ -89,7 +97,7 @@ export async function handleSnapshotCommands(params: {
         ok: false,
         error: {
           code: 'INVALID_ARGS',
-          message: 'diff currently supports only: diff snapshot',
+          message: 'diff supports: diff snapshot | diff screenshot',
         },
       };
     }
@@ -197,40 +205,129 @@ export async function handleSnapshotCommands(params: {
         error: { code: 'UNSUPPORTED_OPERATION', message: 'wait is not supported on this device' },
       };
     }
+    const pollMs = req.flags?.pollMs ?? POLL_INTERVAL_MS;
+    const pause = () => new Promise((resolve) => setTimeout(resolve, pollMs));
+    // Full (non-interactive) snapshots so hidden and disabled elements are visible to selectors and diffs.
+    const captureWaitNodes = async (): Promise<SnapshotState['nodes']> => {
+      const data = (await dispatchSnapshotCommand(device, 'snapshot', [], req.flags?.out, {
+        ...contextFromFlags(
+          logPath,
+          {
+            ...req.flags,
+            snapshotInteractiveOnly: false,
+            snapshotCompact: false,
+          },
+          session?.appBundleId,
+          session?.trace?.outPath,
+        ),
+      })) as {
+        nodes?: RawSnapshotNode[];
+        truncated?: boolean;
+        backend?: 'xctest' | 'android';
+      };
+      const rawNodes = data?.nodes ?? [];
+      const nodes = attachRefs(req.flags?.snapshotRaw ? rawNodes : pruneGroupNodes(rawNodes));
+      if (session) {
+        session.snapshot = {
+          nodes,
+          truncated: data?.truncated,
+          createdAt: Date.now(),
+          backend: data?.backend,
+        };
+        sessionStore.set(sessionName, session);
+      }
+      return nodes;
+    };
     return await withSessionlessRunnerCleanup(session, device, async () => {
       let text: string;
       let timeoutMs: number | null;
-      if (parsed.kind === 'selector') {
+      if (parsed.kind === 'stable') {
         const timeout = parsed.timeoutMs ?? DEFAULT_TIMEOUT_MS;
         const start = Date.now();
+        let previous: SnapshotState['nodes'] | undefined;
+        let snapshots = 0;
+        let lastChange = { additions: 0, removals: 0 };
         while (Date.now() - start < timeout) {
-          const data = (await dispatchSnapshotCommand(device, 'snapshot', [], req.flags?.out, {
-            ...contextFromFlags(
-              logPath,
-              {
-                ...req.flags,
-                snapshotInteractiveOnly: false,
-                snapshotCompact: false,
-              },
-              session?.appBundleId,
-              session?.trace?.outPath,
-            ),
-          })) as {
-            nodes?: RawSnapshotNode[];
-            truncated?: boolean;
-            backend?: 'xctest' | 'android';
-          };
-          const rawNodes = data?.nodes ?? [];
-          const nodes = attachRefs(req.flags?.snapshotRaw ? rawNodes : pruneGroupNodes(rawNodes));
-          if (session) {
-            session.snapshot = {
-              nodes,
-              truncated: data?.truncated,
-              createdAt: Date.now(),
-              backend: data?.backend,
+          const nodes = await captureWaitNodes();
+          snapshots += 1;
+          if (previous) {
+            const { summary } = buildSnapshotDiff(previous, nodes);
+            if (summary.additions === 0 && summary.removals === 0) {
+              const result = { stable: true, snapshots, waitedMs: Date.now() - start };
+              recordIfSession(sessionStore, session, req, result);
+              return { ok: true, data: result };
+            }
+            lastChange = summary;
+          }
+          previous = nodes;
+          await pause();
+        }
+        return {
+          ok: false,
+          error: {
+            code: 'COMMAND_FAILED',
+            message: `wait stable timed out after ${timeout}ms; the last snapshot diff had ${lastChange.additions} additions and ${lastChange.removals} removals`,
+          },
+        };
+      }
+      if (parsed.kind === 'predicate') {
+        const { predicate, target, expectedText } = parsed;
+        let selector: SelectorChain;
+        if (target.kind === 'ref') {
+          const resolved = resolveWaitRefNode(session, target.rawRef);
+          if (!resolved.ok) return resolved.response;
+          // Refs are renumbered on every snapshot, so follow the element by selectors built from it (id first).
+          const chain = tryParseSelectorChain(buildSelectorChainForNode(resolved.node, device.platform).join(' || '));
+          if (!chain) {
+            return {
+              ok: false,
+              error: { code: 'COMMAND_FAILED', message: `Ref ${target.rawRef} has no id, label or value to follow` },
             };
-            sessionStore.set(sessionName, session);
           }
+          selector = chain;
+        } else {
+          selector = target.selector;
+        }
+        const targetText = target.kind === 'ref' ? target.rawRef : target.selectorExpression;
+        const timeout = parsed.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+        const start = Date.now();
+        let details = '';
+        while (Date.now() - start < timeout) {
+          const nodes = await captureWaitNodes();
+          const matches = findSelectorChainNodes(nodes, selector, { platform: device.platform });
+          const evaluation = evaluateIsPredicateForMatches({
+            predicate,
+            nodes: matches,
+            expectedText,
+            platform: device.platform,
+          });
+          details = evaluation.details;
+          if (evaluation.pass) {
+            const result = {
+              predicate,
+              target: targetText,
+              pass: true,
+              matches: matches.length,
+              waitedMs: Date.now() - start,
+            };
+            recordIfSession(sessionStore, session, req, result);
+            return { ok: true, data: result };
+          }
+          await pause();
+        }
+        return {
+          ok: false,
+          error: {
+            code: 'COMMAND_FAILED',
+            message: `wait ${predicate} timed out after ${timeout}ms for ${targetText}: ${details}`,
+          },
+        };
+      }
+      if (parsed.kind === 'selector') {
+        const timeout = parsed.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+        const start = Date.now();
+        while (Date.now() - start < timeout) {
+          const nodes = await captureWaitNodes();
           const match = findSelectorChainMatch(nodes, parsed.selector, { platform: device.platform });
           if (match) {
             recordIfSession(sessionStore, session, req, {
@@ -245,7 +342,7 @@ export async function handleSnapshotCommands(params: {
               },
             };
           }
-          await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+          await pause();
         }
         return {
           ok: false,
@@ -255,25 +352,10 @@ export async function handleSnapshotCommands(params: {
           },
         };
       } else if (parsed.kind === 'ref') {
-        if (!session?.snapshot) {
-          return {
-            ok: false,
-            error: {
-              code: 'INVALID_ARGS',
-              message: 'Ref wait requires an existing snapshot in session.',
-            },
-          };
-        }
-        const ref = normalizeRef(parsed.rawRef);
-        if (!ref) {
-          return {
-            ok: false,
-            error: { code: 'INVALID_ARGS', message: `Invalid ref: ${parsed.rawRef}` },
-          };
-        }
-        const node = findNodeByRef(session.snapshot.nodes, ref);
-        const resolved = node ? resolveRefLabel(node, session.snapshot.nodes) : undefined;
-        if (!resolved) {
+        const resolved = resolveWaitRefNode(session, parsed.rawRef);
+        if (!resolved.ok) return resolved.response;
+        const label = resolveRefLabel(resolved.node, resolved.nodes);
+        if (!label) {
           return {
             ok: false,
             error: {
@@ -282,7 +364,7 @@ export async function handleSnapshotCommands(params: {
             },
           };
         }
-        text = resolved;
+        text = label;
         timeoutMs = parsed.timeoutMs;
       } else {
         text = parsed.text;
@@ -315,8 +397,16 @@ export async function handleSnapshotCommands(params: {
             recordIfSession(sessionStore, session, req, { text, waitedMs: Date.now() - start });
             return { ok: true, data: { text, waitedMs: Date.now() - start } };
           }
+        } else {
+          const data = (await dispatchSnapshotCommand(device, 'snapshot', [], undefined, {
+            ...contextFromFlags(logPath, { ...req.flags, snapshotScope: text }, session?.appBundleId, session?.trace?.outPath),
+          })) as { nodes?: RawSnapshotNode[] };
+          if (findNodeByLabel(attachRefs(data?.nodes ?? []), text)) {
+            recordIfSession(sessionStore, session, req, { text, waitedMs: Date.now() - start });
+            return { ok: true, data: { text, waitedMs: Date.now() - start } };
+          }
         }
-        await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+        await pause();
       }
       return {
         ok: false,
@@ -333,27 +423,26 @@ export async function handleSnapshotCommands(params: {
         ok: false,
         error: {
           code: 'UNSUPPORTED_OPERATION',
-          message: 'alert is only supported on iOS simulators',
+          message: 'alert is only supported on iOS simulators and Android',
         },
       };
     }
+    const runAlert = (alertAction: AlertAction) =>
+      runAlertAction(device, alertAction, {
+        appBundleId: session?.appBundleId,
+        verbose: req.flags?.verbose,
+        logPath,
+        traceLogPath: session?.trace?.outPath,
+        requestId: req.meta?.requestId,
+      });
     return await withSessionlessRunnerCleanup(session, device, async () => {
       if (action === 'wait') {
         const timeout = parseTimeout(req.positionals?.[1]) ?? DEFAULT_TIMEOUT_MS;
         const start = Date.now();
         while (Date.now() - start < timeout) {
           try {
-            const data = await runIosRunnerCommand(
-              device,
-              { command: 'alert', action: 'get', appBundleId: session?.appBundleId },
-              {
-                verbose: req.flags?.verbose,
-                logPath,
-                traceLogPath: session?.trace?.outPath,
-                requestId: req.meta?.requestId,
-              },
-            );
-            recordIfSession(sessionStore, session, req, data as Record<string, unknown>);
+            const data = await runAlert('get');
+            recordIfSession(sessionStore, session, req, data);
             return { ok: true, data };
           } catch {
             // keep waiting
@@ -362,22 +451,8 @@ export async function handleSnapshotCommands(params: {
         }
         return { ok: false, error: { code: 'COMMAND_FAILED', message: 'alert wait timed out' } };
       }
-      const data = await runIosRunnerCommand(
-        device,
-        {
-          command: 'alert',
-          action:
-            action === 'accept' || action === 'dismiss' ? (action as 'accept' | 'dismiss') : 'get',
-          appBundleId: session?.appBundleId,
-        },
-        {
-          verbose: req.flags?.verbose,
-          logPath,
-          traceLogPath: session?.trace?.outPath,
-          requestId: req.meta?.requestId,
-        },
-      );
-      recordIfSession(sessionStore, session, req, data as Record<string, unknown>);
+      const data = await runAlert(action === 'accept' || action === 'dismiss' ? action : 'get');
+      recordIfSession(sessionStore, session, req, data);
       return { ok: true, data };
     });
   }
@@ -514,11 +589,17 @@ function resolveSnapshotScope(
   return { ok: true, scope: resolved };
 }
 
+type WaitTarget =
+  | { kind: 'ref'; rawRef: string }
+  | { kind: 'selector'; selector: SelectorChain; selectorExpression: string };
+
 type WaitParsed =
   | { kind: 'sleep'; durationMs: number }
   | { kind: 'ref'; rawRef: string; timeoutMs: number | null }
   | { kind: 'selector'; selector: SelectorChain; selectorExpression: string; timeoutMs: number | null }
-  | { kind: 'text'; text: string; timeoutMs: number | null };
+  | { kind: 'text'; text: string; timeoutMs: number | null }
+  | { kind: 'predicate'; predicate: IsPredicate; target: WaitTarget; expectedText?: string; timeoutMs: number | null }
+  | { kind: 'stable'; timeoutMs: number | null };
 
 export function parseWaitArgs(args: string[]): WaitParsed | null {
   if (args.length === 0) return null;
@@ -526,6 +607,13 @@ export function parseWaitArgs(args: string[]): WaitParsed | null {
   const sleepMs = parseTimeout(args[0]);
   if (sleepMs !== null) return { kind: 'sleep', durationMs: sleepMs };
 
+  if (args[0] === 'stable' && (args.length === 1 || (args.length === 2 && parseTimeout(args[1]) !== null))) {
+    return { kind: 'stable', timeoutMs: parseTimeout(args[1]) };
+  }
+
+  const predicate = parseWaitPredicateArgs(args);
+  if (predicate) return predicate;
+
   if (args[0] === 'text') {
     const timeoutMs = parseTimeout(args[args.length - 1]);
     const text = timeoutMs !== null ? args.slice(1, -1).join(' ') : args.slice(1).join(' ');
@@ -556,6 +644,80 @@ export function parseWaitArgs(args: string[]): WaitParsed | null {
   return { kind: 'text', text: text.trim(), timeoutMs };
 }
 
+/**
+ * `wait <predicate> <@ref|selector> [value] [timeoutMs]` with any `is` predicate. Returns null when the
+ * arguments do not name a target, so `wait text Loading` keeps waiting for text.
+ */
+function parseWaitPredicateArgs(args: string[]): WaitParsed | null {
+  const predicate = args[0].toLowerCase();
+  if (!isSupportedPredicate(predicate) || args.length < 2) return null;
+  const timeoutMs = parseTimeout(args[args.length - 1]);
+  // A trailing number is a timeout unless `text` needs it as the expected value.
+  const candidates: Array<[string[], number | null]> =
+    timeoutMs !== null ? [[args.slice(1, -1), timeoutMs], [args.slice(1), null]] : [[args.slice(1), null]];
+  for (const [rest, timeout] of candidates) {
+    let target: WaitTarget | null = null;
+    let value: string[] = [];
+    if (rest[0]?.startsWith('@')) {
+      target = { kind: 'ref', rawRef: rest[0] };
+      value = rest.slice(1);
+    } else {
+      const split = splitSelectorFromArgs(rest, { preferTrailingValue: predicate === 'text' });
+      const selector = split ? tryParseSelectorChain(split.selectorExpression) : null;
+      if (split && selector) {
+        target = { kind: 'selector', selector, selectorExpression: split.selectorExpression };
+        value = split.rest;
+      }
+    }
+    if (!target) continue;
+    const expectedText = value.join(' ').trim();
+    if (predicate === 'text' ? !expectedText : value.length > 0) continue;
+    return {
+      kind: 'predicate',
+      predicate,
+      target,
+      ...(predicate === 'text' ? { expectedText } : {}),
+      timeoutMs: timeout,
+    };
+  }
+  return null;
+}
+
+function resolveWaitRefNode(
+  session: SessionState | undefined,
+  rawRef: string,
+):
+  | { ok: true; node: SnapshotState['nodes'][number]; nodes: SnapshotState['nodes'] }
+  | { ok: false; response: DaemonResponse } {
+  if (!session?.snapshot) {
+    return {
+      ok: false,
+      response: {
+        ok: false,
+        error: {
+          code: 'INVALID_ARGS',
+          message: 'Ref wait requires an existing snapshot in session.',
+        },
+      },
+    };
+  }
+  const ref = normalizeRef(rawRef);
+  if (!ref) {
+    return {
+      ok: false,
+      response: { ok: false, error: { code: 'INVALID_ARGS', message: `Invalid ref: ${rawRef}` } },
+    };
+  }
+  const node = findNodeByRef(session.snapshot.nodes, ref);
+  if (!node) {
+    return {
+      ok: false,
+      response: { ok: false, error: { code: 'COMMAND_FAILED', message: `Ref ${rawRef} not found or has no label` } },
+    };
+  }
+  return { ok: true, node, nodes: session.snapshot.nodes };
+}
+
 async function resolveSessionDevice(
   sessionStore: SessionStore,
   sessionName: string,
@@ -567,6 +729,19 @@ async function resolveSessionDevice(
   return { session, device };
 }
 
+export type AlertAction = 'get' | 'accept' | 'dismiss';
+
+/** Reads or answers the frontmost alert through the iOS runner or the Android UI hierarchy. */
+export async function runAlertAction(
+  device: SessionState['device'],
+  action: AlertAction,
+  options: { appBundleId?: string; verbose?: boolean; logPath?: string; traceLogPath?: string; requestId?: string },
+): Promise<Record<string, unknown>> {
+  if (device.platform === 'android') return await alertAndroid(device, action);
+  const { appBundleId, ...runnerOptions } = options;
+  return await runIosRunnerCommand(device, { command: 'alert', action, appBundleId }, runnerOptions);
+}
+
 async function withSessionlessRunnerCleanup<T>(
   session: SessionState | undefined,
   device: SessionState['device'],
@@ -1,7 +1,11 @@
 import http, { type IncomingHttpHeaders } from 'node:http';
 import { AppError, normalizeError } from '../utils/errors.ts';
 import type { DaemonRequest, DaemonResponse } from './types.ts';
+import type { LeaseBackend, LeaseDeviceConstraints, LeasePriority } from './lease-registry.ts';
 import { normalizeTenantId } from './config.ts';
+import { formatSseEvent, parseDaemonEventFilter, type DaemonEventBus } from './events.ts';
+import { buildDaemonRpcSchema } from './rpc-schema.ts';
+import { readVersion } from '../utils/version.ts';
 import path from 'node:path';
 import { pathToFileURL } from 'node:url';
 
@@ -48,18 +52,29 @@ type HttpAuthDecision =
 
 const MAX_HTTP_RPC_BODY_BYTES = 1024 * 1024;
 const COMMAND_RPC_METHODS = new Set(['agent_device.command', 'agent-device.command']);
-const LEASE_RPC_METHOD_TO_COMMAND: Record<string, 'lease_allocate' | 'lease_heartbeat' | 'lease_release'> = {
+type LeaseDaemonCommand = 'lease_allocate' | 'lease_heartbeat' | 'lease_release' | 'lease_queue' | 'lease';
+
+const LEASE_RPC_METHOD_TO_COMMAND: Record<string, LeaseDaemonCommand> = {
   'agent_device.lease.allocate': 'lease_allocate',
   'agent-device.lease.allocate': 'lease_allocate',
   'agent_device.lease.heartbeat': 'lease_heartbeat',
   'agent-device.lease.heartbeat': 'lease_heartbeat',
   'agent_device.lease.release': 'lease_release',
   'agent-device.lease.release': 'lease_release',
+  'agent_device.lease.queue': 'lease_queue',
+  'agent-device.lease.queue': 'lease_queue',
+  'agent_device.lease.list': 'lease',
+  'agent-device.lease.list': 'lease',
+  'agent_device.lease.show': 'lease',
+  'agent-device.lease.show': 'lease',
 };
 const SUPPORTED_RPC_METHODS = new Set([
   ...COMMAND_RPC_METHODS,
   ...Object.keys(LEASE_RPC_METHOD_TO_COMMAND),
 ]);
+/** Method name the auth hook sees for `GET /events` subscriptions. */
+const EVENTS_RPC_METHOD = 'agent_device.events';
+const EVENTS_HEARTBEAT_INTERVAL_MS = 15_000;
 
 function createRpcError(
   id: string | number | null,
@@ -127,7 +142,7 @@ function readIntParam(params: Record<string, unknown>, key: string): number | un
 }
 
 function toLeaseDaemonRequest(
-  command: 'lease_allocate' | 'lease_heartbeat' | 'lease_release',
+  command: LeaseDaemonCommand,
   params: Record<string, unknown>,
   headers: IncomingHttpHeaders,
 ): DaemonRequest {
@@ -141,11 +156,25 @@ function toLeaseDaemonRequest(
       runId: readStringParam(params, 'runId'),
       leaseId: readStringParam(params, 'leaseId'),
       leaseTtlMs: readIntParam(params, 'ttlMs'),
-      leaseBackend: readStringParam(params, 'backend') as 'ios-simulator' | undefined,
+      leaseBackend: readStringParam(params, 'backend') as LeaseBackend | undefined,
+      leaseConstraints: readLeaseConstraints(params),
+      leaseWaitMs: readIntParam(params, 'waitMs'),
+      leasePriority: readStringParam(params, 'priority') as LeasePriority | undefined,
     },
   };
 }
 
+function readLeaseConstraints(params: Record<string, unknown>): LeaseDeviceConstraints | undefined {
+  const constraints = {
+    platform: readStringParam(params, 'platform') as LeaseDeviceConstraints['platform'],
+    target: readStringParam(params, 'target') as LeaseDeviceConstraints['target'],
+    osVersion: readStringParam(params, 'osVersion'),
+    name: readStringParam(params, 'name'),
+  };
+  const defined = Object.entries(constraints).filter(([, value]) => value !== undefined);
+  return defined.length > 0 ? (Object.fromEntries(defined) as LeaseDeviceConstraints) : undefined;
+}
+
 function methodToDaemonRequest(
   method: string,
   params: Record<string, unknown>,
@@ -155,6 +184,15 @@ function methodToDaemonRequest(
     return toDaemonRequest(params as unknown as Partial<DaemonRequest>, headers);
   }
   const leaseCommand = LEASE_RPC_METHOD_TO_COMMAND[method];
+  if (leaseCommand === 'lease') {
+    // `lease list|show` read models; same request shape as the `lease` CLI command.
+    const show = method.endsWith('.show');
+    return {
+      ...toLeaseDaemonRequest(leaseCommand, params, headers),
+      positionals: show ? ['show', readStringParam(params, 'leaseId') ?? ''] : ['list'],
+      flags: { leaseAt: readStringParam(params, 'at'), device: readStringParam(params, 'device') },
+    };
+  }
   if (leaseCommand) {
     return toLeaseDaemonRequest(leaseCommand, params, headers);
   }
@@ -231,12 +269,83 @@ async function loadHttpAuthHook(): Promise<HttpAuthHook | null> {
   return maybeHook as HttpAuthHook;
 }
 
+async function handleEventsRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse<http.IncomingMessage>,
+  options: {
+    authHook: HttpAuthHook | null;
+    token?: string;
+    events: DaemonEventBus;
+    streams: Set<http.ServerResponse>;
+  },
+): Promise<void> {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const params: Record<string, unknown> = Object.fromEntries(url.searchParams);
+  let filter: ReturnType<typeof parseDaemonEventFilter>;
+  try {
+    filter = parseDaemonEventFilter(url.searchParams);
+  } catch (error) {
+    const normalized = normalizeError(error);
+    sendJson(res, createRpcError(null, -32602, normalized.message, normalized), 400);
+    return;
+  }
+  const requestToken = resolveToken(params, req.headers);
+  if (options.token && requestToken !== options.token) {
+    const normalized = normalizeError(new AppError('UNAUTHORIZED', 'Invalid token'));
+    sendJson(res, createRpcError(null, -32001, normalized.message, normalized), 401);
+    return;
+  }
+  const authResult = await runHttpAuthHook(options.authHook, {
+    headers: req.headers,
+    rpcRequest: { jsonrpc: '2.0', id: null, method: EVENTS_RPC_METHOD, params },
+    daemonRequest: {
+      token: requestToken,
+      session: filter.session ?? 'default',
+      command: 'events',
+      positionals: [],
+      meta: { tenantId: filter.tenantId },
+    },
+  });
+  if (!authResult.ok) {
+    sendJson(res, authResult.response, authResult.statusCode);
+    return;
+  }
+  // A tenant granted by the auth hook always wins so subscribers cannot read other tenants' activity.
+  if (authResult.tenantId) filter.tenantId = authResult.tenantId;
+
+  res.writeHead(200, {
+    'content-type': 'text/event-stream',
+    'cache-control': 'no-cache',
+    connection: 'keep-alive',
+  });
+  res.write(': connected\n\n');
+  options.streams.add(res);
+  const unsubscribe = options.events.subscribe(filter, (event) => {
+    res.write(formatSseEvent(event));
+  });
+  const heartbeat = setInterval(() => {
+    res.write(': ping\n\n');
+  }, EVENTS_HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+  res.on('close', () => {
+    options.streams.delete(res);
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+}
+
 export async function createDaemonHttpServer(options: {
   handleRequest: (req: DaemonRequest) => Promise<DaemonResponse>;
+  /** Daemon token required by `GET /events`; RPC requests are checked by `handleRequest` instead. */
+  token?: string;
+  /** Enables `GET /events` (server-sent events). */
+  events?: DaemonEventBus;
 }): Promise<http.Server> {
   const authHook = await loadHttpAuthHook();
-  const { handleRequest } = options;
-  return http.createServer((req, res) => {
+  const { handleRequest, token, events } = options;
+  // Event streams never finish on their own, and `close()` waits for every open connection.
+  const streams = new Set<http.ServerResponse>();
+  const server = http.createServer((req, res) => {
     if (req.method === 'GET' && req.url === '/health') {
       res.statusCode = 200;
       res.setHeader('content-type', 'application/json');
@@ -244,6 +353,25 @@ export async function createDaemonHttpServer(options: {
       return;
     }
 
+    if (req.method === 'GET' && req.url === '/schema') {
+      res.statusCode = 200;
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify(buildDaemonRpcSchema(readVersion())));
+      return;
+    }
+
+    if (events && req.method === 'GET' && (req.url === '/events' || req.url?.startsWith('/events?'))) {
+      handleEventsRequest(req, res, { authHook, token, events, streams }).catch((error) => {
+        if (res.headersSent) {
+          res.end();
+          return;
+        }
+        const normalized = normalizeError(error);
+        sendJson(res, createRpcError(null, -32000, normalized.message, normalized), 500);
+      });
+      return;
+    }
+
     if (req.method !== 'POST' || req.url !== '/rpc') {
       res.statusCode = 404;
       res.end('Not found');
@@ -340,4 +468,12 @@ export async function createDaemonHttpServer(options: {
       }
     });
   });
+  const close = server.close.bind(server);
+  server.close = ((callback?: (error?: Error) => void) => {
+    for (const stream of streams) stream.end();
+    streams.clear();
+    server.closeIdleConnections();
+    return close(callback);
+  }) as typeof server.close;
+  return server;
 }
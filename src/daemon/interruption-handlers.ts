@@ -0,0 +1,132 @@
+import { AppError } from '../utils/errors.ts';
+import type { Platform } from '../utils/device.ts';
+import type { SnapshotNode } from '../utils/snapshot.ts';
+import { findSelectorChainNodes, parseSelectorChain } from './selectors.ts';
+
+export const INTERRUPTION_ACTIONS = ['press', 'accept', 'dismiss', 'back'] as const;
+
+export type InterruptionAction = (typeof INTERRUPTION_ACTIONS)[number];
+
+/** When a handler check ran: around an interaction, or after a selector failed to resolve. */
+export type InterruptionPhase = 'before' | 'after' | 'selector_failed';
+
+export type InterruptionHandler = {
+  id: string;
+  /** Selector chain that identifies the overlay, for example `label="Rate this app"`. */
+  selector: string;
+  action: InterruptionAction;
+  /** `press` only: selector of the button to tap; the matched overlay node itself is tapped when unset. */
+  target?: string;
+  createdAt: number;
+  hits: number;
+};
+
+/** What a handler did; attached to the interaction's result as `interruptions`. */
+export type InterruptionRecord = {
+  handler: string;
+  selector: string;
+  action: InterruptionAction;
+  phase: InterruptionPhase;
+  label?: string;
+  x?: number;
+  y?: number;
+};
+
+/** Commands that act on the screen; handlers are checked before and after each of them. */
+const INTERACTION_COMMANDS = new Set([
+  'press',
+  'fill',
+  'type',
+  'focus',
+  'longpress',
+  'swipe',
+  'scroll',
+  'scrollintoview',
+  'pinch',
+  'rotate',
+  'gesture',
+  'drag',
+]);
+
+/** Commands that resolve selectors or refs; a failed resolution is retried once after a handler fires. */
+const SELECTOR_COMMANDS = new Set([
+  'press',
+  'fill',
+  'get',
+  'is',
+  'find',
+  'scrollintoview',
+  'longpress',
+  'focus',
+  'drag',
+]);
+
+/** Stacked overlays (for example two permission prompts) are handled in one check, up to this many. */
+export const MAX_INTERRUPTIONS_PER_CHECK = 3;
+
+const ACTION_MESSAGE = `handler action must be one of: ${INTERRUPTION_ACTIONS.join(', ')}`;
+
+export function isInterruptibleCommand(command: string): boolean {
+  return INTERACTION_COMMANDS.has(command);
+}
+
+export function isSelectorCommand(command: string): boolean {
+  return SELECTOR_COMMANDS.has(command);
+}
+
+/** Validates `handler add <selector> <action> [target]`; selectors are parsed now so typos fail at registration. */
+export function buildInterruptionHandler(
+  id: string,
+  selector: string,
+  action: string,
+  target?: string,
+): InterruptionHandler {
+  if (!selector.trim()) {
+    throw new AppError('INVALID_ARGS', 'handler add requires a selector and an action');
+  }
+  parseSelectorChain(selector);
+  const normalizedAction = action.trim().toLowerCase();
+  if (!INTERRUPTION_ACTIONS.includes(normalizedAction as InterruptionAction)) {
+    throw new AppError('INVALID_ARGS', ACTION_MESSAGE);
+  }
+  if (target !== undefined && normalizedAction !== 'press') {
+    throw new AppError('INVALID_ARGS', 'Only press handlers accept a target selector');
+  }
+  if (target !== undefined) parseSelectorChain(target);
+  return {
+    id,
+    selector: selector.trim(),
+    action: normalizedAction as InterruptionAction,
+    ...(target !== undefined ? { target: target.trim() } : {}),
+    createdAt: Date.now(),
+    hits: 0,
+  };
+}
+
+export function describeInterruptionHandler(handler: InterruptionHandler): string {
+  const target = handler.target ? ` ${handler.target}` : '';
+  return `${handler.id} ${handler.selector} -> ${handler.action}${target} (hits=${handler.hits})`;
+}
+
+/**
+ * First handler, in registration order, whose selector matches the snapshot. For `press` handlers the node to tap
+ * is the target selector's match, or the overlay node itself; a handler whose target is missing is skipped.
+ */
+export function matchInterruptionHandler(
+  nodes: SnapshotNode[],
+  handlers: InterruptionHandler[],
+  platform: Platform,
+): { handler: InterruptionHandler; node: SnapshotNode } | null {
+  for (const handler of handlers) {
+    const [overlay] = findSelectorChainNodes(nodes, parseSelectorChain(handler.selector), { platform });
+    if (!overlay) continue;
+    if (handler.action !== 'press') return { handler, node: overlay };
+    const [node] = handler.target
+      ? findSelectorChainNodes(nodes, parseSelectorChain(handler.target), { platform, requireRect: true })
+      : overlay.rect
+        ? [overlay]
+        : [];
+    if (node) return { handler, node };
+  }
+  return null;
+}
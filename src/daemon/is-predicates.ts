@@ -1,18 +1,19 @@
 import type { SnapshotState } from '../utils/snapshot.ts';
+import type { Platform } from '../utils/device.ts';
 import { extractNodeText } from './snapshot-processing.ts';
 import { isNodeEditable, isNodeVisible } from './selectors.ts';
 
-type IsPredicate = 'visible' | 'hidden' | 'exists' | 'editable' | 'selected' | 'text';
+export type IsPredicate = 'visible' | 'hidden' | 'exists' | 'editable' | 'selected' | 'checked' | 'focused' | 'text';
 
 export function isSupportedPredicate(input: string): input is IsPredicate {
-  return ['visible', 'hidden', 'exists', 'editable', 'selected', 'text'].includes(input);
+  return ['visible', 'hidden', 'exists', 'editable', 'selected', 'checked', 'focused', 'text'].includes(input);
 }
 
 export function evaluateIsPredicate(params: {
   predicate: Exclude<IsPredicate, 'exists'>;
   node: SnapshotState['nodes'][number];
   expectedText?: string;
-  platform: 'ios' | 'android';
+  platform: Platform;
 }): { pass: boolean; actualText: string; details: string } {
   const { predicate, node, expectedText, platform } = params;
   const actualText = extractNodeText(node);
@@ -30,6 +31,12 @@ export function evaluateIsPredicate(params: {
     case 'selected':
       pass = node.selected === true;
       break;
+    case 'checked':
+      pass = node.checked === true;
+      break;
+    case 'focused':
+      pass = node.focused === true;
+      break;
     case 'text':
       pass = actualText === (expectedText ?? '');
       break;
@@ -41,6 +48,26 @@ export function evaluateIsPredicate(params: {
           visible: isNodeVisible(node),
           editable: isNodeEditable(node, platform),
           selected: node.selected === true,
+          checked: node.checked === true,
+          focused: node.focused === true,
         })}`;
   return { pass, actualText, details };
 }
+
+/**
+ * Evaluates a predicate over every node a selector currently matches, for `wait`. No match only satisfies
+ * `hidden`; `hidden` needs every match hidden, the other predicates need one passing match.
+ */
+export function evaluateIsPredicateForMatches(params: {
+  predicate: IsPredicate;
+  nodes: SnapshotState['nodes'];
+  expectedText?: string;
+  platform: Platform;
+}): { pass: boolean; details: string } {
+  const { predicate, nodes, expectedText, platform } = params;
+  if (predicate === 'exists') return { pass: nodes.length > 0, details: `matches=${nodes.length}` };
+  if (nodes.length === 0) return { pass: predicate === 'hidden', details: 'no matching element' };
+  const results = nodes.map((node) => evaluateIsPredicate({ predicate, node, expectedText, platform }));
+  const pass = predicate === 'hidden' ? results.every((result) => result.pass) : results.some((result) => result.pass);
+  return { pass, details: results[0].details };
+}
@@ -1,11 +1,16 @@
+import { AppError } from '../utils/errors.ts';
 import type { DaemonRequest } from './types.ts';
+import type { LeaseBackend, LeaseDeviceConstraints, LeasedDevice, LeasePriority } from './lease-registry.ts';
 
 export type LeaseScope = {
   tenantId?: string;
   runId?: string;
   leaseId?: string;
   leaseTtlMs?: number;
-  leaseBackend?: 'ios-simulator';
+  leaseBackend?: LeaseBackend;
+  leaseConstraints?: LeaseDeviceConstraints;
+  leaseWaitMs?: number;
+  leasePriority?: LeasePriority;
 };
 
 export function resolveLeaseScope(req: Pick<DaemonRequest, 'flags' | 'meta'>): LeaseScope {
@@ -15,5 +20,29 @@ export function resolveLeaseScope(req: Pick<DaemonRequest, 'flags' | 'meta'>): L
     leaseId: req.meta?.leaseId ?? req.flags?.leaseId,
     leaseTtlMs: req.meta?.leaseTtlMs,
     leaseBackend: req.meta?.leaseBackend,
+    leaseConstraints: req.meta?.leaseConstraints,
+    leaseWaitMs: req.meta?.leaseWaitMs,
+    leasePriority: req.meta?.leasePriority,
   };
 }
+
+/**
+ * Pins a request admitted under a device lease to the leased device.
+ * Selectors that name a different device are rejected rather than silently overridden.
+ */
+export function bindRequestToLeasedDevice(req: DaemonRequest, device: LeasedDevice): DaemonRequest {
+  const flags = req.flags ?? {};
+  const idKey = device.platform === 'android' ? 'serial' : 'udid';
+  const conflicts =
+    (flags.platform && flags.platform !== device.platform && !(flags.platform === 'apple' && device.platform === 'ios'))
+    || (flags.udid && (idKey !== 'udid' || flags.udid !== device.id))
+    || (flags.serial && (idKey !== 'serial' || flags.serial !== device.id))
+    || (flags.device && flags.device !== device.name);
+  if (conflicts) {
+    throw new AppError('UNAUTHORIZED', `Lease is bound to ${device.name} (${device.id})`, {
+      reason: 'LEASE_DEVICE_MISMATCH',
+      hint: 'Drop the device selector flags or allocate a lease for the other device.',
+    });
+  }
+  return { ...req, flags: { ...flags, platform: device.platform, [idKey]: device.id } };
+}
@@ -0,0 +1,114 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { DeviceLease, LeaseChange, LeaseSession } from './lease-registry.ts';
+
+const LEASE_JOURNAL_FILE = 'leases.json';
+const LEASE_AUDIT_FILE = 'audit.ndjson';
+const LEASE_JOURNAL_VERSION = 1;
+
+type LeaseJournal = {
+  version: number;
+  updatedAt: number;
+  leases: DeviceLease[];
+};
+
+/** One line of the append-only lease audit log. `session` entries record a session opened under the lease. */
+export type LeaseAuditEntry = {
+  ts: string;
+  action: LeaseChange['action'] | 'session';
+  leaseId: string;
+  tenantId: string;
+  runId: string;
+  backend: DeviceLease['backend'];
+  device?: DeviceLease['device'];
+  sessions?: LeaseSession[];
+  expiresAt: number;
+};
+
+export function resolveLeaseJournalPath(leasesDir: string): string {
+  return path.join(leasesDir, LEASE_JOURNAL_FILE);
+}
+
+export function resolveLeaseAuditPath(leasesDir: string): string {
+  return path.join(leasesDir, LEASE_AUDIT_FILE);
+}
+
+export function writeLeaseJournal(journalPath: string, leases: DeviceLease[]): void {
+  fs.mkdirSync(path.dirname(journalPath), { recursive: true });
+  const payload: LeaseJournal = { version: LEASE_JOURNAL_VERSION, updatedAt: Date.now(), leases };
+  // Write-then-rename keeps the previous journal intact if the daemon dies mid-write.
+  const tmpPath = `${journalPath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(payload));
+  fs.renameSync(tmpPath, journalPath);
+}
+
+/** Leases journaled by a previous daemon run; a missing or unreadable journal means none. */
+export function readLeaseJournal(journalPath: string): DeviceLease[] {
+  let parsed: Partial<LeaseJournal>;
+  try {
+    parsed = JSON.parse(fs.readFileSync(journalPath, 'utf8')) as Partial<LeaseJournal>;
+  } catch {
+    return [];
+  }
+  if (parsed.version !== LEASE_JOURNAL_VERSION || !Array.isArray(parsed.leases)) return [];
+  return parsed.leases.filter(
+    (lease) => typeof lease?.leaseId === 'string' && typeof lease.expiresAt === 'number',
+  );
+}
+
+export function toLeaseAuditEntry(
+  action: LeaseAuditEntry['action'],
+  lease: DeviceLease,
+  now: number,
+): LeaseAuditEntry {
+  return {
+    ts: new Date(now).toISOString(),
+    action,
+    leaseId: lease.leaseId,
+    tenantId: lease.tenantId,
+    runId: lease.runId,
+    backend: lease.backend,
+    ...(lease.device ? { device: lease.device } : {}),
+    ...(lease.sessions?.length ? { sessions: lease.sessions } : {}),
+    expiresAt: lease.expiresAt,
+  };
+}
+
+export function appendLeaseAuditEntry(auditPath: string, entry: LeaseAuditEntry): void {
+  fs.mkdirSync(path.dirname(auditPath), { recursive: true });
+  fs.appendFileSync(auditPath, `${JSON.stringify(entry)}\n`);
+}
+
+export function readLeaseAuditEntries(auditPath: string): LeaseAuditEntry[] {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(auditPath, 'utf8');
+  } catch {
+    return [];
+  }
+  const entries: LeaseAuditEntry[] = [];
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as LeaseAuditEntry);
+    } catch {
+      // A torn final line from a crash is skipped rather than failing the whole history.
+    }
+  }
+  return entries;
+}
+
+/**
+ * Reconstructs the leases held at `at` (epoch ms) from audit entries. Expiry is detected lazily, so a lease
+ * counts as held only until its recorded `expiresAt` even when the `expired` entry was written later.
+ */
+export function resolveLeasesHeldAt(entries: LeaseAuditEntry[], at: number): LeaseAuditEntry[] {
+  const latest = new Map<string, LeaseAuditEntry>();
+  for (const entry of entries) {
+    if (Date.parse(entry.ts) > at) continue;
+    latest.set(entry.leaseId, entry);
+  }
+  return Array.from(latest.values()).filter(
+    (entry) => entry.action !== 'released' && entry.action !== 'expired' && entry.expiresAt > at,
+  );
+}
@@ -1,25 +1,117 @@
 import crypto from 'node:crypto';
 import { AppError } from '../utils/errors.ts';
+import type { DeviceInfo, DeviceTarget } from '../utils/device.ts';
+import { emitDiagnostic } from '../utils/diagnostics.ts';
 import { normalizeTenantId } from './config.ts';
+import {
+  appendLeaseAuditEntry,
+  readLeaseAuditEntries,
+  readLeaseJournal,
+  resolveLeaseAuditPath,
+  resolveLeaseJournalPath,
+  resolveLeasesHeldAt,
+  toLeaseAuditEntry,
+  writeLeaseJournal,
+  type LeaseAuditEntry,
+} from './lease-journal.ts';
 
-export type LeaseBackend = 'ios-simulator';
+export const LEASE_BACKENDS = ['ios-simulator', 'ios-device', 'android-emulator', 'android-device'] as const;
 
-export type SimulatorLease = {
+export type LeaseBackend = (typeof LEASE_BACKENDS)[number];
+
+/** Selector constraints for leasing a concrete device from the discovered pool. */
+export type LeaseDeviceConstraints = {
+  platform?: 'ios' | 'android';
+  target?: DeviceTarget;
+  /** Version prefix (`17`, `17.4`) or minimum (`>=14`). */
+  osVersion?: string;
+  /** Case-insensitive device name; `*` matches any characters. */
+  name?: string;
+};
+
+export type LeasedDevice = Pick<DeviceInfo, 'platform' | 'id' | 'name' | 'kind' | 'target' | 'osVersion'>;
+
+/** Session admitted under a lease, with the device it ran on once known. */
+export type LeaseSession = {
+  name: string;
+  device?: Pick<DeviceInfo, 'platform' | 'id' | 'name'>;
+};
+
+export type DeviceLease = {
   leaseId: string;
   tenantId: string;
   runId: string;
   backend: LeaseBackend;
+  /** Device bound to the lease; absent for capacity-only simulator leases. */
+  device?: LeasedDevice;
+  sessions?: LeaseSession[];
   createdAt: number;
   heartbeatAt: number;
   expiresAt: number;
 };
 
+export type LeaseChange = {
+  action: 'allocated' | 'heartbeat' | 'released' | 'expired';
+  lease: DeviceLease;
+};
+
+export const LEASE_PRIORITIES = ['high', 'normal', 'low'] as const;
+
+/** Queued allocations of a higher class are always served first; within a class tenants take turns. */
+export type LeasePriority = (typeof LEASE_PRIORITIES)[number];
+
+export type LeaseQueueEntry = {
+  waiterId: string;
+  tenantId: string;
+  runId: string;
+  priority: LeasePriority;
+  /** 1-based place in the order queued allocations will be served. */
+  position: number;
+  enqueuedAt: number;
+  waitedMs: number;
+};
+
+export type LeaseQueueChange = {
+  action: 'queued' | 'granted' | 'timeout';
+  entry: LeaseQueueEntry;
+};
+
+export type AcquireLeaseOptions = {
+  /** How long to wait in the queue for capacity; `0` fails immediately when nothing is free. */
+  waitMs?: number;
+  priority?: LeasePriority;
+};
+
+export type AcquiredLease = {
+  lease: DeviceLease;
+  /** Present when the allocation had to wait in the queue. */
+  queue?: { position: number; waitedMs: number; priority: LeasePriority };
+};
+
+type LeaseWaiter = {
+  waiterId: string;
+  tenantId: string;
+  runId: string;
+  priority: LeasePriority;
+  enqueuedAt: number;
+  request: AllocateLeaseRequest;
+  resolve: (lease: DeviceLease) => void;
+  reject: (error: unknown) => void;
+  timer?: ReturnType<typeof setTimeout>;
+};
+
 export type LeaseRegistryOptions = {
   maxActiveSimulatorLeases?: number;
   defaultLeaseTtlMs?: number;
   minLeaseTtlMs?: number;
   maxLeaseTtlMs?: number;
   now?: () => number;
+  /** Called after every lease state change; used to stream lease activity. */
+  onLeaseChange?: (change: LeaseChange) => void;
+  /** Called when an allocation joins, is served from, or times out of the wait queue. */
+  onLeaseQueueChange?: (change: LeaseQueueChange) => void;
+  /** Journal active leases to `<persistDir>/leases.json` and append every change to `<persistDir>/audit.ndjson`. */
+  persistDir?: string;
 };
 
 export type AllocateLeaseRequest = {
@@ -27,6 +119,9 @@ export type AllocateLeaseRequest = {
   runId: string;
   backend?: LeaseBackend;
   ttlMs?: number;
+  /** Discovered devices to lease from; when set, the lease binds the first free device matching `constraints`. */
+  candidates?: DeviceInfo[];
+  constraints?: LeaseDeviceConstraints;
 };
 
 export type HeartbeatLeaseRequest = {
@@ -69,20 +164,88 @@ function normalizeLeaseId(raw: string | undefined): string | undefined {
   return value.toLowerCase();
 }
 
+function normalizeLeasePriority(raw: string | undefined): LeasePriority {
+  const value = (raw ?? '').trim().toLowerCase();
+  if (!value) return 'normal';
+  if ((LEASE_PRIORITIES as readonly string[]).includes(value)) return value as LeasePriority;
+  throw new AppError('INVALID_ARGS', `Unsupported lease priority: ${raw ?? ''}`, {
+    supported: [...LEASE_PRIORITIES],
+  });
+}
+
+function isCapacityError(error: unknown): boolean {
+  return error instanceof AppError && error.details?.reason === 'LEASE_CAPACITY_EXCEEDED';
+}
+
 function normalizeLeaseBackend(raw: string | undefined): LeaseBackend {
   const value = (raw ?? '').trim().toLowerCase();
-  if (!value || value === 'ios-simulator') return 'ios-simulator';
-  throw new AppError('INVALID_ARGS', `Unsupported lease backend: ${raw ?? ''}`);
+  if (!value) return 'ios-simulator';
+  if ((LEASE_BACKENDS as readonly string[]).includes(value)) return value as LeaseBackend;
+  throw new AppError('INVALID_ARGS', `Unsupported lease backend: ${raw ?? ''}`, {
+    supported: [...LEASE_BACKENDS],
+  });
+}
+
+export function resolveDeviceLeaseBackend(device: Pick<DeviceInfo, 'platform' | 'kind'>): LeaseBackend | undefined {
+  if (device.platform === 'ios') return device.kind === 'device' ? 'ios-device' : 'ios-simulator';
+  if (device.platform === 'android') return device.kind === 'device' ? 'android-device' : 'android-emulator';
+  return undefined;
+}
+
+export function matchesLeaseConstraints(
+  device: Pick<DeviceInfo, 'platform' | 'name' | 'target' | 'osVersion'>,
+  constraints: LeaseDeviceConstraints,
+): boolean {
+  if (constraints.platform && device.platform !== constraints.platform) return false;
+  if (constraints.target && (device.target ?? 'mobile') !== constraints.target) return false;
+  if (constraints.osVersion && !matchesOsVersion(device.osVersion, constraints.osVersion)) return false;
+  if (constraints.name && !matchesNamePattern(device.name, constraints.name)) return false;
+  return true;
+}
+
+function matchesOsVersion(actual: string | undefined, expected: string): boolean {
+  if (!actual) return false;
+  const trimmed = expected.trim();
+  if (trimmed.startsWith('>=')) return compareVersions(actual, trimmed.slice(2).trim()) >= 0;
+  return actual === trimmed || actual.startsWith(`${trimmed}.`);
+}
+
+function compareVersions(left: string, right: string): number {
+  const a = left.split('.').map((part) => Number.parseInt(part, 10) || 0);
+  const b = right.split('.').map((part) => Number.parseInt(part, 10) || 0);
+  for (let index = 0; index < Math.max(a.length, b.length); index += 1) {
+    const diff = (a[index] ?? 0) - (b[index] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+function matchesNamePattern(name: string, pattern: string): boolean {
+  const escaped = pattern.trim().split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`^${escaped.join('.*')}$`, 'i').test(name);
+}
+
+function toLeasedDevice(device: DeviceInfo): LeasedDevice {
+  const { platform, id, name, kind, target, osVersion } = device;
+  return { platform, id, name, kind, ...(target ? { target } : {}), ...(osVersion ? { osVersion } : {}) };
 }
 
 export class LeaseRegistry {
-  private readonly leases = new Map<string, SimulatorLease>();
+  private readonly leases = new Map<string, DeviceLease>();
   private readonly runBindings = new Map<string, string>();
   private readonly maxActiveSimulatorLeases: number;
   private readonly defaultLeaseTtlMs: number;
   private readonly minLeaseTtlMs: number;
   private readonly maxLeaseTtlMs: number;
   private readonly now: () => number;
+  private readonly onLeaseChange: ((change: LeaseChange) => void) | undefined;
+  private readonly onLeaseQueueChange: ((change: LeaseQueueChange) => void) | undefined;
+  private readonly waiters: LeaseWaiter[] = [];
+  private drainScheduled = false;
+  // Grant sequence number of each tenant's most recent lease, so tenants take turns within a priority class.
+  private readonly lastGrantByTenant = new Map<string, number>();
+  private grantSequence = 0;
+  private readonly persistDir: string | undefined;
 
   constructor(options: LeaseRegistryOptions = {}) {
     this.maxActiveSimulatorLeases = Number.isInteger(options.maxActiveSimulatorLeases)
@@ -98,10 +261,26 @@ export class LeaseRegistry {
       ? Math.max(this.minLeaseTtlMs, Number(options.maxLeaseTtlMs))
       : MAX_LEASE_TTL_MS;
     this.now = options.now ?? (() => Date.now());
+    this.onLeaseChange = options.onLeaseChange;
+    this.onLeaseQueueChange = options.onLeaseQueueChange;
+    this.persistDir = options.persistDir;
   }
 
-  allocateLease(request: AllocateLeaseRequest): SimulatorLease {
-    const backend = normalizeLeaseBackend(request.backend);
+  /** Loads leases journaled by a previous daemon run; overdue ones expire on the next sweep. */
+  restore(): string[] {
+    if (!this.persistDir) return [];
+    const restored: string[] = [];
+    for (const lease of readLeaseJournal(resolveLeaseJournalPath(this.persistDir))) {
+      if (this.leases.has(lease.leaseId)) continue;
+      this.leases.set(lease.leaseId, lease);
+      restored.push(lease.leaseId);
+      if (lease.device) continue;
+      this.runBindings.set(this.bindingKey(lease.tenantId, lease.runId, lease.backend), lease.leaseId);
+    }
+    return restored;
+  }
+
+  allocateLease(request: AllocateLeaseRequest): DeviceLease {
     const tenantId = normalizeTenantId(request.tenantId);
     if (!tenantId) {
       throw new AppError('INVALID_ARGS', 'Invalid tenant id. Use 1-128 chars: letters, numbers, dot, underscore, hyphen.');
@@ -112,6 +291,10 @@ export class LeaseRegistry {
     }
     this.cleanupExpiredLeases();
     const leaseTtlMs = this.resolveLeaseTtlMs(request.ttlMs);
+    if (request.candidates) {
+      return this.allocateDeviceLease(request, request.candidates, tenantId, runId, leaseTtlMs);
+    }
+    const backend = normalizeLeaseBackend(request.backend);
     const bindingKey = this.bindingKey(tenantId, runId, backend);
     const existingId = this.runBindings.get(bindingKey);
     if (existingId) {
@@ -122,22 +305,12 @@ export class LeaseRegistry {
       this.runBindings.delete(bindingKey);
     }
     this.enforceCapacity(backend);
-    const now = this.now();
-    const lease: SimulatorLease = {
-      leaseId: crypto.randomBytes(16).toString('hex'),
-      tenantId,
-      runId,
-      backend,
-      createdAt: now,
-      heartbeatAt: now,
-      expiresAt: now + leaseTtlMs,
-    };
-    this.leases.set(lease.leaseId, lease);
+    const lease = this.createLease(tenantId, runId, backend, leaseTtlMs);
     this.runBindings.set(bindingKey, lease.leaseId);
-    return { ...lease };
+    return lease;
   }
 
-  heartbeatLease(request: HeartbeatLeaseRequest): SimulatorLease {
+  heartbeatLease(request: HeartbeatLeaseRequest): DeviceLease {
     const leaseId = normalizeLeaseId(request.leaseId);
     if (!leaseId) {
       throw new AppError('INVALID_ARGS', 'Invalid lease id.');
@@ -165,13 +338,13 @@ export class LeaseRegistry {
       return { released: false };
     }
     this.assertOptionalScopeMatch(lease, request.tenantId, request.runId);
-    this.leases.delete(leaseId);
-    this.runBindings.delete(this.bindingKey(lease.tenantId, lease.runId, lease.backend));
+    this.removeLease(lease);
+    this.notifyLeaseChange('released', lease);
     return { released: true };
   }
 
-  assertLeaseAdmission(request: AdmissionRequest): void {
-    const backend = normalizeLeaseBackend(request.backend);
+  assertLeaseAdmission(request: AdmissionRequest): DeviceLease {
+    const backend = request.backend ? normalizeLeaseBackend(request.backend) : undefined;
     const tenantId = normalizeTenantId(request.tenantId);
     if (!tenantId) {
       throw new AppError('INVALID_ARGS', 'tenant isolation requires tenant id.');
@@ -191,14 +364,94 @@ export class LeaseRegistry {
         reason: 'LEASE_NOT_FOUND',
       });
     }
-    if (lease.backend !== backend || lease.tenantId !== tenantId || lease.runId !== runId) {
+    if ((backend && lease.backend !== backend) || lease.tenantId !== tenantId || lease.runId !== runId) {
       throw new AppError('UNAUTHORIZED', 'Lease does not match tenant/run scope', {
         reason: 'LEASE_SCOPE_MISMATCH',
       });
     }
+    return { ...lease };
   }
 
-  listActiveLeases(): SimulatorLease[] {
+  /** Expires overdue leases now instead of waiting for the next lease call. */
+  sweepExpiredLeases(): void {
+    this.cleanupExpiredLeases();
+  }
+
+  /**
+   * Allocates a lease, queueing for up to `waitMs` when capacity or every matching device is taken.
+   * Queued allocations are served by priority class, then to the tenant holding the fewest leases, then FIFO.
+   * A caller never jumps ahead of an earlier waiter it competes with, even with `waitMs` 0.
+   */
+  async acquireLease(request: AllocateLeaseRequest, options: AcquireLeaseOptions = {}): Promise<AcquiredLease> {
+    const priority = normalizeLeasePriority(options.priority);
+    const waitMs = Math.max(0, options.waitMs ?? 0);
+    if (this.waiters.length === 0) {
+      try {
+        return { lease: this.allocateLease(request) };
+      } catch (error) {
+        if (!isCapacityError(error) || waitMs === 0) throw error;
+      }
+    }
+    const waiter = this.enqueueWaiter(request, priority);
+    const granted = new Promise<DeviceLease>((resolve, reject) => {
+      waiter.resolve = resolve;
+      waiter.reject = reject;
+    });
+    const entry = this.toQueueEntry(waiter);
+    this.notifyQueueChange('queued', entry);
+    this.drainQueue();
+    if (this.waiters.includes(waiter)) {
+      if (waitMs === 0) this.timeoutWaiter(waiter, 'Lease capacity is reserved for queued allocations');
+      else waiter.timer = setTimeout(() => this.timeoutWaiter(waiter), waitMs);
+    }
+    const lease = await granted;
+    return { lease, queue: { position: entry.position, waitedMs: this.now() - waiter.enqueuedAt, priority } };
+  }
+
+  /** Queued allocations in the order they will be served. */
+  listLeaseQueue(tenantId?: string): LeaseQueueEntry[] {
+    const entries = this.orderedWaiters().map((waiter) => this.toQueueEntry(waiter));
+    return tenantId ? entries.filter((entry) => entry.tenantId === tenantId) : entries;
+  }
+
+  /** Records a session admitted under a lease so it is audited and closed with the lease. */
+  bindLeaseSession(leaseId: string, session: LeaseSession): void {
+    const lease = this.leases.get(leaseId);
+    if (!lease) return;
+    const sessions = lease.sessions ?? [];
+    const existing = sessions.find((entry) => entry.name === session.name);
+    if (existing && (!session.device || existing.device?.id === session.device.id)) return;
+    const updated: DeviceLease = {
+      ...lease,
+      sessions: [...sessions.filter((entry) => entry !== existing), session],
+    };
+    this.leases.set(leaseId, updated);
+    this.persistLeaseChange('session', updated);
+  }
+
+  /** Leases held at `at` (epoch ms), reconstructed from the audit log. */
+  listLeasesHeldAt(at: number): LeaseAuditEntry[] {
+    if (!this.persistDir) {
+      throw new AppError('UNSUPPORTED_OPERATION', 'Lease history requires lease persistence', {
+        hint: 'Unset AGENT_DEVICE_LEASE_PERSIST=0 to keep a lease audit log.',
+      });
+    }
+    return resolveLeasesHeldAt(readLeaseAuditEntries(resolveLeaseAuditPath(this.persistDir)), at);
+  }
+
+  /** Audit history of one lease, oldest first. */
+  readLeaseHistory(leaseId: string): LeaseAuditEntry[] {
+    if (!this.persistDir) return [];
+    return readLeaseAuditEntries(resolveLeaseAuditPath(this.persistDir)).filter((entry) => entry.leaseId === leaseId);
+  }
+
+  getLease(leaseId: string): DeviceLease | undefined {
+    this.cleanupExpiredLeases();
+    const lease = this.leases.get(leaseId);
+    return lease ? { ...lease } : undefined;
+  }
+
+  listActiveLeases(): DeviceLease[] {
     this.cleanupExpiredLeases();
     return Array.from(this.leases.values()).map((entry) => ({ ...entry }));
   }
@@ -207,11 +460,210 @@ export class LeaseRegistry {
     const now = this.now();
     for (const lease of this.leases.values()) {
       if (lease.expiresAt > now) continue;
-      this.leases.delete(lease.leaseId);
-      this.runBindings.delete(this.bindingKey(lease.tenantId, lease.runId, lease.backend));
+      this.removeLease(lease);
+      this.notifyLeaseChange('expired', lease);
+    }
+  }
+
+  private allocateDeviceLease(
+    request: AllocateLeaseRequest,
+    candidates: DeviceInfo[],
+    tenantId: string,
+    runId: string,
+    leaseTtlMs: number,
+  ): DeviceLease {
+    const requestedBackend = request.backend ? normalizeLeaseBackend(request.backend) : undefined;
+    const constraints = request.constraints ?? {};
+    for (const lease of this.leases.values()) {
+      if (lease.tenantId !== tenantId || lease.runId !== runId || !lease.device) continue;
+      if (requestedBackend && lease.backend !== requestedBackend) continue;
+      if (matchesLeaseConstraints(lease.device, constraints)) return this.refreshLease(lease, leaseTtlMs);
+    }
+    const matching = candidates.filter((device) => {
+      const backend = resolveDeviceLeaseBackend(device);
+      if (!backend || (requestedBackend && backend !== requestedBackend)) return false;
+      return matchesLeaseConstraints(device, constraints);
+    });
+    if (matching.length === 0) {
+      throw new AppError('DEVICE_NOT_FOUND', 'No device matches the lease constraints', {
+        constraints,
+        backend: requestedBackend,
+        hint: 'Run devices to list available devices and their OS versions.',
+      });
+    }
+    const leasedDevices = new Set(
+      Array.from(this.leases.values()).flatMap((lease) =>
+        lease.device ? [`${lease.device.platform}:${lease.device.id}`] : [],
+      ),
+    );
+    const free = matching
+      .filter((device) => !leasedDevices.has(`${device.platform}:${device.id}`))
+      .sort((left, right) => Number(right.booted === true) - Number(left.booted === true));
+    if (free.length === 0) {
+      throw new AppError('COMMAND_FAILED', 'All matching devices are leased', {
+        reason: 'LEASE_CAPACITY_EXCEEDED',
+        matchingDevices: matching.length,
+        hint: 'Retry after another lease is released, or pass waitMs to queue for a device.',
+      });
+    }
+    const device = free[0];
+    const backend = resolveDeviceLeaseBackend(device) as LeaseBackend;
+    this.enforceCapacity(backend);
+    return this.createLease(tenantId, runId, backend, leaseTtlMs, toLeasedDevice(device));
+  }
+
+  private enqueueWaiter(request: AllocateLeaseRequest, priority: LeasePriority): LeaseWaiter {
+    const waiter: LeaseWaiter = {
+      waiterId: crypto.randomBytes(8).toString('hex'),
+      tenantId: normalizeTenantId(request.tenantId) ?? request.tenantId,
+      runId: normalizeRunId(request.runId) ?? request.runId,
+      priority,
+      enqueuedAt: this.now(),
+      request,
+      resolve: () => {},
+      reject: () => {},
+    };
+    this.waiters.push(waiter);
+    return waiter;
+  }
+
+  /**
+   * Orders waiters for service: highest priority class first; within a class the tenant with the fewest
+   * active (or already scheduled) leases goes next, then the tenant served least recently, then FIFO.
+   */
+  private orderedWaiters(): LeaseWaiter[] {
+    const leaseCounts = new Map<string, number>();
+    for (const lease of this.leases.values()) {
+      leaseCounts.set(lease.tenantId, (leaseCounts.get(lease.tenantId) ?? 0) + 1);
+    }
+    const lastGrants = new Map(this.lastGrantByTenant);
+    let sequence = this.grantSequence;
+    const remaining = [...this.waiters];
+    const ordered: LeaseWaiter[] = [];
+    while (remaining.length > 0) {
+      const topRank = Math.min(...remaining.map((waiter) => LEASE_PRIORITIES.indexOf(waiter.priority)));
+      let next: LeaseWaiter | undefined;
+      for (const waiter of remaining) {
+        if (LEASE_PRIORITIES.indexOf(waiter.priority) !== topRank) continue;
+        if (!next) {
+          next = waiter;
+          continue;
+        }
+        const countDiff = (leaseCounts.get(waiter.tenantId) ?? 0) - (leaseCounts.get(next.tenantId) ?? 0);
+        const grantDiff = (lastGrants.get(waiter.tenantId) ?? 0) - (lastGrants.get(next.tenantId) ?? 0);
+        if (countDiff < 0 || (countDiff === 0 && grantDiff < 0)) next = waiter;
+      }
+      const chosen = next as LeaseWaiter;
+      remaining.splice(remaining.indexOf(chosen), 1);
+      ordered.push(chosen);
+      leaseCounts.set(chosen.tenantId, (leaseCounts.get(chosen.tenantId) ?? 0) + 1);
+      sequence += 1;
+      lastGrants.set(chosen.tenantId, sequence);
+    }
+    return ordered;
+  }
+
+  private drainQueue(): void {
+    for (const waiter of this.orderedWaiters()) {
+      let lease: DeviceLease;
+      try {
+        lease = this.allocateLease(waiter.request);
+      } catch (error) {
+        if (isCapacityError(error)) continue;
+        this.removeWaiter(waiter);
+        waiter.reject(error);
+        continue;
+      }
+      const entry = this.toQueueEntry(waiter);
+      this.removeWaiter(waiter);
+      this.notifyQueueChange('granted', entry);
+      waiter.resolve(lease);
     }
   }
 
+  private scheduleDrain(): void {
+    if (this.drainScheduled || this.waiters.length === 0) return;
+    this.drainScheduled = true;
+    queueMicrotask(() => {
+      this.drainScheduled = false;
+      this.drainQueue();
+    });
+  }
+
+  private timeoutWaiter(waiter: LeaseWaiter, message = 'Timed out waiting for lease capacity'): void {
+    if (!this.waiters.includes(waiter)) return;
+    const entry = this.toQueueEntry(waiter);
+    this.removeWaiter(waiter);
+    this.notifyQueueChange('timeout', entry);
+    waiter.reject(
+      new AppError('COMMAND_FAILED', message, {
+        reason: 'LEASE_CAPACITY_EXCEEDED',
+        waitedMs: entry.waitedMs,
+        position: entry.position,
+        priority: entry.priority,
+        hint: 'Retry with a longer waitMs or a higher priority, or release another lease.',
+      }),
+    );
+  }
+
+  private removeWaiter(waiter: LeaseWaiter): void {
+    const index = this.waiters.indexOf(waiter);
+    if (index !== -1) this.waiters.splice(index, 1);
+    if (waiter.timer) clearTimeout(waiter.timer);
+  }
+
+  private toQueueEntry(waiter: LeaseWaiter): LeaseQueueEntry {
+    return {
+      waiterId: waiter.waiterId,
+      tenantId: waiter.tenantId,
+      runId: waiter.runId,
+      priority: waiter.priority,
+      position: this.orderedWaiters().indexOf(waiter) + 1,
+      enqueuedAt: waiter.enqueuedAt,
+      waitedMs: this.now() - waiter.enqueuedAt,
+    };
+  }
+
+  private notifyQueueChange(action: LeaseQueueChange['action'], entry: LeaseQueueEntry): void {
+    if (!this.onLeaseQueueChange) return;
+    try {
+      this.onLeaseQueueChange({ action, entry });
+    } catch {
+      // Observers must not break lease bookkeeping.
+    }
+  }
+
+  private createLease(
+    tenantId: string,
+    runId: string,
+    backend: LeaseBackend,
+    ttlMs: number,
+    device?: LeasedDevice,
+  ): DeviceLease {
+    const now = this.now();
+    const lease: DeviceLease = {
+      leaseId: crypto.randomBytes(16).toString('hex'),
+      tenantId,
+      runId,
+      backend,
+      ...(device ? { device } : {}),
+      createdAt: now,
+      heartbeatAt: now,
+      expiresAt: now + ttlMs,
+    };
+    this.leases.set(lease.leaseId, lease);
+    this.grantSequence += 1;
+    this.lastGrantByTenant.set(tenantId, this.grantSequence);
+    this.notifyLeaseChange('allocated', lease);
+    return { ...lease };
+  }
+
+  private removeLease(lease: DeviceLease): void {
+    this.leases.delete(lease.leaseId);
+    const bindingKey = this.bindingKey(lease.tenantId, lease.runId, lease.backend);
+    if (this.runBindings.get(bindingKey) === lease.leaseId) this.runBindings.delete(bindingKey);
+  }
+
   private enforceCapacity(backend: LeaseBackend): void {
     if (backend !== 'ios-simulator') return;
     if (this.maxActiveSimulatorLeases <= 0) return;
@@ -240,24 +692,56 @@ export class LeaseRegistry {
     return value;
   }
 
-  private refreshLease(lease: SimulatorLease, ttlMs: number): SimulatorLease {
+  private refreshLease(lease: DeviceLease, ttlMs: number): DeviceLease {
     const now = this.now();
-    const updated: SimulatorLease = {
+    const updated: DeviceLease = {
       ...lease,
       heartbeatAt: now,
       expiresAt: now + ttlMs,
     };
     this.leases.set(updated.leaseId, updated);
-    this.runBindings.set(this.bindingKey(updated.tenantId, updated.runId, updated.backend), updated.leaseId);
+    if (!updated.device) {
+      this.runBindings.set(this.bindingKey(updated.tenantId, updated.runId, updated.backend), updated.leaseId);
+    }
+    this.notifyLeaseChange('heartbeat', updated);
     return { ...updated };
   }
 
+  private notifyLeaseChange(action: LeaseChange['action'], lease: DeviceLease): void {
+    this.persistLeaseChange(action, lease);
+    if (action === 'released' || action === 'expired') this.scheduleDrain();
+    if (!this.onLeaseChange) return;
+    try {
+      this.onLeaseChange({ action, lease: { ...lease } });
+    } catch {
+      // Observers must not break lease bookkeeping.
+    }
+  }
+
+  private persistLeaseChange(action: LeaseAuditEntry['action'], lease: DeviceLease): void {
+    if (!this.persistDir) return;
+    try {
+      writeLeaseJournal(resolveLeaseJournalPath(this.persistDir), Array.from(this.leases.values()));
+      appendLeaseAuditEntry(resolveLeaseAuditPath(this.persistDir), toLeaseAuditEntry(action, lease, this.now()));
+    } catch (error) {
+      emitDiagnostic({
+        level: 'warn',
+        phase: 'lease_persist_failed',
+        data: {
+          leaseId: lease.leaseId,
+          action,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  }
+
   private bindingKey(tenantId: string, runId: string, backend: LeaseBackend): string {
     return `${tenantId}:${runId}:${backend}`;
   }
 
   private assertOptionalScopeMatch(
-    lease: SimulatorLease,
+    lease: DeviceLease,
     tenantRaw: string | undefined,
     runRaw: string | undefined,
   ): void {
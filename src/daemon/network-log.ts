@@ -1,4 +1,5 @@
 import fs from 'node:fs';
+import type { Har } from './network-proxy.ts';
 
 const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'] as const;
 const METHOD_REGEX = new RegExp(`\\b(${HTTP_METHODS.join('|')})\\b`, 'i');
@@ -21,6 +22,12 @@ export type NetworkEntry = {
   responseBody?: string;
   raw: string;
   line: number;
+  /** HAR capture only: total exchange time. */
+  durationMs?: number;
+  /** HAR capture only: why the exchange failed (TLS trust, unreachable host). */
+  error?: string;
+  /** HAR capture only: id of the `network mock` rule that stubbed, delayed or dropped the exchange. */
+  mock?: string;
 };
 
 export type NetworkDump = {
@@ -87,6 +94,76 @@ export function readRecentNetworkTraffic(
   };
 }
 
+/** Reads `network capture` HAR output with the same include modes and limits as the log parser. */
+export function readHarNetworkTraffic(
+  harPath: string,
+  options?: {
+    maxEntries?: number;
+    include?: NetworkIncludeMode;
+    maxPayloadChars?: number;
+  },
+): NetworkDump {
+  const maxEntries = clampInt(options?.maxEntries, 25, 1, 200);
+  const include = options?.include ?? 'summary';
+  const maxPayloadChars = clampInt(options?.maxPayloadChars, 2048, 64, 16_384);
+  const limits = { maxEntries, maxPayloadChars, maxScanLines: 0 };
+  if (!fs.existsSync(harPath)) {
+    return { path: harPath, exists: false, scannedLines: 0, matchedLines: 0, entries: [], include, limits };
+  }
+  let harEntries: Har['log']['entries'] = [];
+  try {
+    harEntries = (JSON.parse(fs.readFileSync(harPath, 'utf8')) as Har).log?.entries ?? [];
+  } catch {
+    // A HAR being rewritten by the proxy reads as empty rather than failing the dump.
+  }
+  const entries: NetworkEntry[] = [];
+  for (let i = harEntries.length - 1; i >= 0 && entries.length < maxEntries; i -= 1) {
+    const entry = harEntries[i];
+    const status = entry.response.status > 0 ? entry.response.status : undefined;
+    const result: NetworkEntry = {
+      method: entry.request.method,
+      url: entry.request.url,
+      status,
+      timestamp: entry.startedDateTime,
+      durationMs: Math.round(entry.time),
+      raw: truncate(`${entry.request.method} ${entry.request.url}${status ? ` ${status}` : ''}`, maxPayloadChars),
+      line: i + 1,
+    };
+    if (entry._error) result.error = entry._error;
+    if (entry._mock) result.mock = entry._mock;
+    if (include === 'headers' || include === 'all') {
+      result.headers = truncate(
+        JSON.stringify({
+          request: Object.fromEntries(entry.request.headers.map((header) => [header.name, header.value])),
+          response: Object.fromEntries(entry.response.headers.map((header) => [header.name, header.value])),
+        }),
+        maxPayloadChars,
+      );
+    }
+    if (include === 'body' || include === 'all') {
+      const requestBody = formatHarBody(entry.request.postData);
+      const responseBody = formatHarBody(entry.response.content);
+      if (requestBody) result.requestBody = truncate(requestBody, maxPayloadChars);
+      if (responseBody) result.responseBody = truncate(responseBody, maxPayloadChars);
+    }
+    entries.push(result);
+  }
+  return {
+    path: harPath,
+    exists: true,
+    scannedLines: harEntries.length,
+    matchedLines: entries.length,
+    entries,
+    include,
+    limits,
+  };
+}
+
+function formatHarBody(body: { text?: string; encoding?: 'base64' } | undefined): string | undefined {
+  if (!body?.text) return undefined;
+  return body.encoding === 'base64' ? `<base64> ${body.text}` : body.text;
+}
+
 function parseNetworkLine(
   line: string,
   lineNumber: number,
@@ -0,0 +1,160 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { AppError } from '../utils/errors.ts';
+
+export type NetworkMockRule = {
+  id: string;
+  /** URL glob where `*` matches any run of characters; patterns without `*` match anywhere in the URL. */
+  urlPattern: string;
+  method?: string;
+  /** Stubbed response status; when neither status nor body is set the request still goes upstream. */
+  status?: number;
+  headers?: Record<string, string>;
+  body?: string;
+  bodyFile?: string;
+  /** Added before the request is stubbed or forwarded. */
+  delayMs?: number;
+  /** Caps the response body rate in kilobits per second. */
+  throttleKbps?: number;
+  /** Drops the connection without a response, as a network failure would. */
+  offline?: boolean;
+  createdAt: number;
+  hits: number;
+};
+
+export type NetworkMockOptions = {
+  method?: string;
+  status?: number;
+  headers?: string[];
+  body?: string;
+  bodyFile?: string;
+  delayMs?: number;
+  throttleKbps?: number;
+  offline?: boolean;
+};
+
+/** Validates `network mock add` options and reads `bodyFile` now, so later edits to the file do not change the rule. */
+export function buildNetworkMockRule(
+  id: string,
+  urlPattern: string,
+  options: NetworkMockOptions,
+  cwd?: string,
+): NetworkMockRule {
+  if (!urlPattern.trim()) {
+    throw new AppError('INVALID_ARGS', 'network mock add requires a URL pattern');
+  }
+  if (options.body !== undefined && options.bodyFile) {
+    throw new AppError('INVALID_ARGS', 'network mock add accepts --body or --body-file, not both');
+  }
+  if (options.offline && (options.status !== undefined || options.body !== undefined || options.bodyFile)) {
+    throw new AppError('INVALID_ARGS', 'network mock add --offline cannot be combined with a stubbed response');
+  }
+  const hasEffect =
+    options.status !== undefined
+    || options.body !== undefined
+    || Boolean(options.bodyFile)
+    || options.delayMs !== undefined
+    || options.throttleKbps !== undefined
+    || options.offline === true;
+  if (!hasEffect) {
+    throw new AppError(
+      'INVALID_ARGS',
+      'network mock add requires --status, --body, --body-file, --delay-ms, --throttle-kbps or --offline',
+    );
+  }
+  let body = options.body;
+  if (options.bodyFile) {
+    const bodyPath = path.resolve(cwd ?? process.cwd(), options.bodyFile);
+    if (!fs.existsSync(bodyPath)) {
+      throw new AppError('INVALID_ARGS', `network mock body file not found: ${bodyPath}`);
+    }
+    body = fs.readFileSync(bodyPath, 'utf8');
+  }
+  const headers = parseMockHeaders(options.headers ?? []);
+  if (body !== undefined && !Object.keys(headers).some((name) => name.toLowerCase() === 'content-type')) {
+    headers['content-type'] = guessContentType(body, options.bodyFile);
+  }
+  const stubbed = options.status !== undefined || body !== undefined;
+  return {
+    id,
+    urlPattern,
+    method: options.method?.toUpperCase(),
+    status: stubbed ? (options.status ?? 200) : undefined,
+    headers: Object.keys(headers).length > 0 ? headers : undefined,
+    body,
+    bodyFile: options.bodyFile,
+    delayMs: options.delayMs,
+    throttleKbps: options.throttleKbps,
+    offline: options.offline || undefined,
+    createdAt: Date.now(),
+    hits: 0,
+  };
+}
+
+/** The most recently added matching rule wins, so a new rule can override a broader earlier one. */
+export function findNetworkMockRule(
+  rules: readonly NetworkMockRule[],
+  method: string,
+  url: string,
+): NetworkMockRule | undefined {
+  for (let index = rules.length - 1; index >= 0; index -= 1) {
+    const rule = rules[index];
+    if (rule.method && rule.method !== method.toUpperCase()) continue;
+    if (matchesUrlPattern(rule.urlPattern, url)) return rule;
+  }
+  return undefined;
+}
+
+export function matchesUrlPattern(pattern: string, url: string): boolean {
+  if (!pattern.includes('*')) return url.includes(pattern);
+  const source = pattern.split('*').map(escapeRegExp).join('.*');
+  return new RegExp(`^${source}$`).test(url);
+}
+
+export function isStubbedMockRule(rule: NetworkMockRule): boolean {
+  return rule.status !== undefined;
+}
+
+export function describeNetworkMockRule(rule: NetworkMockRule): string {
+  const parts = [rule.id, rule.method ?? '*', rule.urlPattern, '->'];
+  if (rule.offline) parts.push('offline');
+  if (rule.status !== undefined) parts.push(String(rule.status));
+  if (rule.bodyFile) parts.push(`body ${rule.bodyFile}`);
+  else if (rule.body !== undefined) parts.push(`body ${Buffer.byteLength(rule.body)}B`);
+  if (rule.delayMs !== undefined) parts.push(`delay ${rule.delayMs}ms`);
+  if (rule.throttleKbps !== undefined) parts.push(`throttle ${rule.throttleKbps}kbps`);
+  if (!rule.offline && rule.status === undefined) parts.push('upstream');
+  parts.push(`(${rule.hits} hit${rule.hits === 1 ? '' : 's'})`);
+  return parts.join(' ');
+}
+
+function parseMockHeaders(values: string[]): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const value of values) {
+    const separator = value.indexOf(':');
+    const name = separator > 0 ? value.slice(0, separator).trim() : '';
+    if (!name) {
+      throw new AppError('INVALID_ARGS', `network mock header must look like "Name: value", got: ${value}`);
+    }
+    headers[name] = value.slice(separator + 1).trim();
+  }
+  return headers;
+}
+
+function guessContentType(body: string, bodyFile: string | undefined): string {
+  const extension = bodyFile ? path.extname(bodyFile).toLowerCase() : '';
+  if (extension === '.json') return 'application/json';
+  if (extension === '.html' || extension === '.htm') return 'text/html';
+  if (extension === '.xml') return 'application/xml';
+  if (!/^\s*[[{]/.test(body)) return 'text/plain';
+  try {
+    JSON.parse(body);
+    return 'application/json';
+  } catch {
+    return 'text/plain';
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
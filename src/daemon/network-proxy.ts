@@ -0,0 +1,883 @@
+import fs from 'node:fs';
+import http from 'node:http';
+import https from 'node:https';
+import net from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import tls from 'node:tls';
+import zlib from 'node:zlib';
+import type { DeviceInfo } from '../utils/device.ts';
+import { AppError } from '../utils/errors.ts';
+import { runCmd } from '../utils/exec.ts';
+import { buildSimctlArgsForDevice } from '../platforms/ios/simctl.ts';
+import { findNetworkMockRule, isStubbedMockRule, type NetworkMockRule } from './network-mock.ts';
+
+const MAX_HAR_ENTRIES = 500;
+const DEFAULT_MAX_BODY_BYTES = 64 * 1024;
+const HAR_WRITE_DELAY_MS = 200;
+const THROTTLE_CHUNK_BYTES = 1024;
+const CA_COMMON_NAME = 'agent-device capture CA';
+const CA_FILE = 'ca.pem';
+const CA_KEY_FILE = 'ca.key';
+const LEAF_KEY_FILE = 'leaf.key';
+const HOP_BY_HOP_HEADERS = new Set([
+  'proxy-connection',
+  'proxy-authorization',
+  'proxy-authenticate',
+  'connection',
+  'keep-alive',
+  'transfer-encoding',
+  'upgrade',
+  'te',
+  'trailer',
+]);
+const TEXT_CONTENT_TYPE_RE = /^(text\/|application\/(json|xml|javascript|x-www-form-urlencoded|graphql|[\w.+-]+\+(json|xml)))/i;
+
+type HarHeader = { name: string; value: string };
+
+export type HarEntry = {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    headers: HarHeader[];
+    queryString: Array<{ name: string; value: string }>;
+    headersSize: number;
+    bodySize: number;
+    postData?: { mimeType: string; text: string; encoding?: 'base64' };
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    headers: HarHeader[];
+    content: { size: number; mimeType: string; text?: string; encoding?: 'base64' };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+  /** Set when the exchange failed before a response, for example an untrusted CA or an unreachable host. */
+  _error?: string;
+  /** Id of the `network mock` rule applied to the exchange. */
+  _mock?: string;
+};
+
+export type Har = {
+  log: {
+    version: '1.2';
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+};
+
+export type NetworkProxy = {
+  port: number;
+  harPath: string;
+  /** CA certificate that apps must trust for HTTPS interception; unset when HTTPS is tunnelled without decryption. */
+  caPath?: string;
+  startedAt: number;
+  entryCount: () => number;
+  /** Writes pending entries to `harPath` now. */
+  flush: () => void;
+  stop: () => Promise<void>;
+};
+
+export type DeviceProxyConfig = {
+  notes: string[];
+  /** What was changed, journaled so a daemon that died mid-capture can still undo it on its next start. */
+  restoreState?: DeviceProxyRestoreState;
+  restore: () => Promise<void>;
+};
+
+export type DeviceProxyRestoreState =
+  | { kind: 'android'; deviceId: string; port: number }
+  | { kind: 'ios-app'; device: DeviceInfo; appBundleId: string }
+  | { kind: 'mac-host'; markerPath: string };
+
+export type DeviceProxyOptions = {
+  /** App that iOS simulator capture is scoped to; it is relaunched with proxy environment variables. */
+  appBundleId?: string;
+  /** Opt-in: route the whole Mac through the proxy (iOS simulators use the host network settings). */
+  hostProxy?: boolean;
+  /** File holding the previous host proxy settings while `hostProxy` is active; restored on the next daemon start. */
+  hostProxyMarkerPath: string;
+  session?: string;
+};
+
+type HostProxyMarker = {
+  session?: string;
+  pid: number;
+  port: number;
+  services: Array<{ service: string; web: MacProxyState; secure: MacProxyState }>;
+};
+
+/**
+ * Starts an HTTP(S) proxy on localhost that records every exchange to a HAR file. HTTPS is decrypted
+ * with per-host certificates signed by the CA in `certDir` (generated with openssl on first use).
+ */
+export async function startNetworkProxy(options: {
+  harPath: string;
+  certDir: string;
+  port?: number;
+  maxBodyBytes?: number;
+  /** Verify upstream TLS certificates (default true). */
+  rejectUnauthorized?: boolean;
+  /** Read on every request, so rules added while the proxy runs apply immediately. */
+  mockRules?: () => NetworkMockRule[];
+}): Promise<NetworkProxy> {
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  const rejectUnauthorized = options.rejectUnauthorized ?? true;
+  const authority = await ensureProxyCertificateAuthority(options.certDir).catch(() => null);
+  const har: Har = {
+    log: { version: '1.2', creator: { name: 'agent-device', version: '1' }, entries: [] },
+  };
+  let writeTimer: NodeJS.Timeout | undefined;
+  const flush = () => {
+    if (writeTimer) clearTimeout(writeTimer);
+    writeTimer = undefined;
+    fs.mkdirSync(path.dirname(options.harPath), { recursive: true });
+    fs.writeFileSync(options.harPath, JSON.stringify(har, null, 2));
+  };
+  const addEntry = (entry: HarEntry) => {
+    har.log.entries.push(entry);
+    if (har.log.entries.length > MAX_HAR_ENTRIES) har.log.entries.shift();
+    writeTimer ??= setTimeout(flush, HAR_WRITE_DELAY_MS);
+  };
+  flush();
+
+  const tunnelTargets = new WeakMap<net.Socket, string>();
+  // CONNECT sockets leave the HTTP server's bookkeeping, so track them for shutdown.
+  const connectSockets = new Set<net.Socket>();
+  let stopped = false;
+  const handle = (secure: boolean) => (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const target = resolveRequestTarget(req, secure, tunnelTargets.get(req.socket));
+    if (!target) {
+      res.writeHead(400, { 'content-type': 'text/plain' });
+      res.end('agent-device network proxy only accepts proxied requests\n');
+      return;
+    }
+    const rule = findNetworkMockRule(options.mockRules?.() ?? [], req.method ?? 'GET', target.toString());
+    if (rule) rule.hits += 1;
+    const run = () => {
+      if (stopped) return;
+      if (rule?.offline) {
+        dropRequest({ req, target, rule, addEntry });
+      } else if (rule && isStubbedMockRule(rule)) {
+        respondWithMock({ req, res, target, rule, maxBodyBytes, addEntry });
+      } else {
+        forwardRequest({ req, res, target, maxBodyBytes, rejectUnauthorized, addEntry, rule });
+      }
+    };
+    if (rule?.delayMs) setTimeout(run, rule.delayMs);
+    else run();
+  };
+
+  const mitmServer = http.createServer(handle(true));
+  const hostContexts = new Map<string, Promise<tls.SecureContext>>();
+  const server = http.createServer(handle(false));
+  server.on('connect', (req: http.IncomingMessage, clientSocket: net.Socket, head: Buffer) => {
+    const [host, port = '443'] = splitHostPort(req.url ?? '');
+    if (!host) {
+      clientSocket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      return;
+    }
+    clientSocket.on('error', () => undefined);
+    connectSockets.add(clientSocket);
+    clientSocket.on('close', () => connectSockets.delete(clientSocket));
+    if (!authority) {
+      tunnelConnection(clientSocket, head, host, Number(port), addEntry);
+      return;
+    }
+    let context = hostContexts.get(host);
+    if (!context) {
+      context = createHostSecureContext(authority, host);
+      hostContexts.set(host, context);
+    }
+    void context.then(
+      (secureContext) => {
+        clientSocket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+        if (head.length > 0) clientSocket.unshift(head);
+        const tlsSocket = new tls.TLSSocket(clientSocket, { isServer: true, secureContext });
+        tunnelTargets.set(tlsSocket, `${host}:${port}`);
+        tlsSocket.on('error', (error) => {
+          addEntry(buildFailedEntry('CONNECT', `https://${host}:${port}`, describeTlsError(error)));
+        });
+        mitmServer.emit('connection', tlsSocket);
+      },
+      (error: unknown) => {
+        hostContexts.delete(host);
+        clientSocket.end('HTTP/1.1 502 Bad Gateway\r\n\r\n');
+        addEntry(buildFailedEntry('CONNECT', `https://${host}:${port}`, String(error)));
+      },
+    );
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', (error) =>
+      reject(new AppError('COMMAND_FAILED', `Failed to start network proxy: ${error.message}`)),
+    );
+    server.listen(options.port ?? 0, '127.0.0.1', () => resolve());
+  });
+  const address = server.address();
+  const port = typeof address === 'object' && address ? address.port : 0;
+
+  return {
+    port,
+    harPath: options.harPath,
+    caPath: authority?.certPath,
+    startedAt: Date.now(),
+    entryCount: () => har.log.entries.length,
+    flush,
+    stop: async () => {
+      stopped = true;
+      await new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        server.closeAllConnections();
+        mitmServer.closeAllConnections();
+        for (const socket of connectSockets) socket.destroy();
+      });
+      flush();
+    },
+  };
+}
+
+export async function ensureProxyCertificateAuthority(
+  certDir: string,
+): Promise<{ certPath: string; keyPath: string; leafKeyPath: string; certDir: string }> {
+  const certPath = path.join(certDir, CA_FILE);
+  const keyPath = path.join(certDir, CA_KEY_FILE);
+  const leafKeyPath = path.join(certDir, LEAF_KEY_FILE);
+  if (fs.existsSync(certPath) && fs.existsSync(keyPath) && fs.existsSync(leafKeyPath)) {
+    return { certPath, keyPath, leafKeyPath, certDir };
+  }
+  fs.mkdirSync(certDir, { recursive: true, mode: 0o700 });
+  const configPath = path.join(certDir, 'ca.cnf');
+  fs.writeFileSync(
+    configPath,
+    [
+      '[req]',
+      'distinguished_name = dn',
+      'prompt = no',
+      '[dn]',
+      `CN = ${CA_COMMON_NAME}`,
+      '[ca_ext]',
+      'basicConstraints = critical,CA:TRUE',
+      'keyUsage = critical,keyCertSign,cRLSign',
+      'subjectKeyIdentifier = hash',
+      '',
+    ].join('\n'),
+  );
+  await runOpenssl([
+    'req', '-x509', '-newkey', 'rsa:2048', '-nodes', '-sha256', '-days', '825',
+    '-keyout', keyPath, '-out', certPath, '-config', configPath, '-extensions', 'ca_ext',
+  ]);
+  // One key for every host certificate keeps per-host signing fast.
+  await runOpenssl(['genrsa', '-out', leafKeyPath, '2048']);
+  return { certPath, keyPath, leafKeyPath, certDir };
+}
+
+/** Points the device at the proxy and trusts its CA where the platform allows it. */
+export async function configureDeviceProxy(
+  device: DeviceInfo,
+  proxy: Pick<NetworkProxy, 'port' | 'caPath'>,
+  options: DeviceProxyOptions,
+): Promise<DeviceProxyConfig> {
+  if (device.platform === 'android') return await configureAndroidProxy(device, proxy);
+  if (device.platform === 'ios' && device.kind === 'simulator') {
+    return await configureIosSimulatorProxy(device, proxy, options);
+  }
+  throw new AppError(
+    'UNSUPPORTED_OPERATION',
+    'network capture supports Android emulators/devices and iOS simulators',
+  );
+}
+
+function resolveRequestTarget(
+  req: http.IncomingMessage,
+  secure: boolean,
+  tunnelTarget: string | undefined,
+): URL | null {
+  try {
+    if (secure) {
+      const host = req.headers.host ?? tunnelTarget;
+      return host ? new URL(`https://${host}${req.url ?? '/'}`) : null;
+    }
+    const url = new URL(req.url ?? '');
+    return url.protocol === 'http:' ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+function forwardRequest(params: {
+  req: http.IncomingMessage;
+  res: http.ServerResponse;
+  target: URL;
+  maxBodyBytes: number;
+  rejectUnauthorized: boolean;
+  addEntry: (entry: HarEntry) => void;
+  /** Pass-through rule that only delays or throttles. */
+  rule?: NetworkMockRule;
+}): void {
+  const { req, res, target, maxBodyBytes, rejectUnauthorized, addEntry, rule } = params;
+  const started = Date.now();
+  const requestBody = createBodyCollector(maxBodyBytes);
+  const responseBody = createBodyCollector(maxBodyBytes);
+  let sentAt = started;
+  let respondedAt = started;
+  const headers = filterHeaders(req.headers);
+  const transport = target.protocol === 'https:' ? https : http;
+  const upstream = transport.request({
+    protocol: target.protocol,
+    hostname: target.hostname,
+    port: target.port || (target.protocol === 'https:' ? 443 : 80),
+    method: req.method,
+    path: `${target.pathname}${target.search}`,
+    headers,
+    rejectUnauthorized,
+  });
+  const baseEntry = () => buildRequestEntry(req, target, started, requestBody, rule);
+
+  upstream.on('response', (upstreamRes) => {
+    respondedAt = Date.now();
+    res.writeHead(upstreamRes.statusCode ?? 502, upstreamRes.statusMessage, filterHeaders(upstreamRes.headers));
+    upstreamRes.on('data', (chunk: Buffer) => {
+      responseBody.push(chunk);
+      res.write(chunk);
+      if (rule?.throttleKbps) {
+        upstreamRes.pause();
+        setTimeout(() => upstreamRes.resume(), throttleDelayMs(chunk.length, rule.throttleKbps));
+      }
+    });
+    upstreamRes.on('end', () => {
+      res.end();
+      const finished = Date.now();
+      const entry = baseEntry();
+      const mimeType = String(upstreamRes.headers['content-type'] ?? '');
+      entry.time = finished - started;
+      entry.timings = { send: sentAt - started, wait: respondedAt - sentAt, receive: finished - respondedAt };
+      entry.response = {
+        status: upstreamRes.statusCode ?? 0,
+        statusText: upstreamRes.statusMessage ?? '',
+        httpVersion: `HTTP/${upstreamRes.httpVersion}`,
+        headers: toHarHeaders(upstreamRes.rawHeaders),
+        content: {
+          size: responseBody.size,
+          mimeType,
+          ...encodeBody(decodeContent(responseBody, upstreamRes.headers['content-encoding']), mimeType),
+        },
+        redirectURL: String(upstreamRes.headers.location ?? ''),
+        headersSize: -1,
+        bodySize: responseBody.size,
+      };
+      addEntry(entry);
+    });
+  });
+  upstream.on('error', (error) => {
+    if (!res.headersSent) res.writeHead(502, { 'content-type': 'text/plain' });
+    res.end(`agent-device network proxy: ${error.message}\n`);
+    const entry = baseEntry();
+    entry.time = Date.now() - started;
+    entry._error = error.message;
+    addEntry(entry);
+  });
+  req.on('data', (chunk: Buffer) => {
+    requestBody.push(chunk);
+    upstream.write(chunk);
+  });
+  req.on('end', () => {
+    sentAt = Date.now();
+    upstream.end();
+  });
+  req.on('error', () => upstream.destroy());
+}
+
+/** Answers from a `network mock` rule without contacting the upstream server. */
+function respondWithMock(params: {
+  req: http.IncomingMessage;
+  res: http.ServerResponse;
+  target: URL;
+  rule: NetworkMockRule;
+  maxBodyBytes: number;
+  addEntry: (entry: HarEntry) => void;
+}): void {
+  const { req, res, target, rule, maxBodyBytes, addEntry } = params;
+  const started = Date.now();
+  const requestBody = createBodyCollector(maxBodyBytes);
+  req.on('data', (chunk: Buffer) => requestBody.push(chunk));
+  req.on('end', () => {
+    const respondedAt = Date.now();
+    const body = Buffer.from(rule.body ?? '', 'utf8');
+    const status = rule.status ?? 200;
+    const headers: Record<string, string> = { ...rule.headers, 'content-length': String(body.length) };
+    res.writeHead(status, headers);
+    void writeThrottled(res, body, rule.throttleKbps).then(() => {
+      const finished = Date.now();
+      const entry = buildRequestEntry(req, target, started, requestBody, rule);
+      const header = (name: string) => Object.entries(headers).find(([key]) => key.toLowerCase() === name)?.[1] ?? '';
+      const mimeType = header('content-type');
+      entry.time = finished - started;
+      entry.timings = { send: respondedAt - started, wait: 0, receive: finished - respondedAt };
+      entry.response = {
+        status,
+        statusText: http.STATUS_CODES[status] ?? '',
+        httpVersion: 'HTTP/1.1',
+        headers: Object.entries(headers).map(([name, value]) => ({ name, value })),
+        content: { size: body.length, mimeType, ...encodeBody(body.subarray(0, maxBodyBytes), mimeType) },
+        redirectURL: header('location'),
+        headersSize: -1,
+        bodySize: body.length,
+      };
+      addEntry(entry);
+    });
+  });
+}
+
+/** Resets the client connection so the app sees a network failure instead of an HTTP error. */
+function dropRequest(params: {
+  req: http.IncomingMessage;
+  target: URL;
+  rule: NetworkMockRule;
+  addEntry: (entry: HarEntry) => void;
+}): void {
+  const { req, target, rule, addEntry } = params;
+  const entry = buildRequestEntry(req, target, Date.now(), createBodyCollector(0), rule);
+  entry._error = `offline (network mock ${rule.id})`;
+  addEntry(entry);
+  req.socket.destroy();
+}
+
+async function writeThrottled(res: http.ServerResponse, body: Buffer, throttleKbps: number | undefined): Promise<void> {
+  if (!throttleKbps) {
+    res.end(body);
+    return;
+  }
+  for (let offset = 0; offset < body.length && !res.destroyed; offset += THROTTLE_CHUNK_BYTES) {
+    const chunk = body.subarray(offset, offset + THROTTLE_CHUNK_BYTES);
+    res.write(chunk);
+    await new Promise((resolve) => setTimeout(resolve, throttleDelayMs(chunk.length, throttleKbps)));
+  }
+  res.end();
+}
+
+/** Transfer time of `bytes` at `kbps`; one kilobit per second is one bit per millisecond. */
+function throttleDelayMs(bytes: number, kbps: number): number {
+  return Math.ceil((bytes * 8) / kbps);
+}
+
+/** Without a CA, HTTPS is relayed as-is and only the CONNECT target is recorded. */
+function tunnelConnection(
+  clientSocket: net.Socket,
+  head: Buffer,
+  host: string,
+  port: number,
+  addEntry: (entry: HarEntry) => void,
+): void {
+  const started = Date.now();
+  const upstream = net.connect(port, host);
+  upstream.on('connect', () => {
+    clientSocket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+    if (head.length > 0) upstream.write(head);
+    upstream.pipe(clientSocket);
+    clientSocket.pipe(upstream);
+  });
+  let failed = false;
+  upstream.on('error', (error) => {
+    failed = true;
+    clientSocket.end('HTTP/1.1 502 Bad Gateway\r\n\r\n');
+    addEntry(buildFailedEntry('CONNECT', `https://${host}:${port}`, error.message));
+  });
+  upstream.on('close', () => {
+    if (failed) return;
+    const entry = buildFailedEntry(
+      'CONNECT',
+      `https://${host}:${port}`,
+      'HTTPS tunnelled without decryption (openssl unavailable)',
+    );
+    entry.time = Date.now() - started;
+    addEntry(entry);
+  });
+}
+
+async function createHostSecureContext(
+  authority: Awaited<ReturnType<typeof ensureProxyCertificateAuthority>>,
+  host: string,
+): Promise<tls.SecureContext> {
+  const safeHost = host.replace(/[^a-zA-Z0-9.-]/g, '_');
+  const hostsDir = path.join(authority.certDir, 'hosts');
+  const certPath = path.join(hostsDir, `${safeHost}.pem`);
+  if (!fs.existsSync(certPath)) {
+    fs.mkdirSync(hostsDir, { recursive: true });
+    const csrPath = path.join(hostsDir, `${safeHost}.csr`);
+    const extPath = path.join(hostsDir, `${safeHost}.ext`);
+    const altName = /^[\d.]+$/.test(host) || host.includes(':') ? `IP:${host}` : `DNS:${host}`;
+    fs.writeFileSync(
+      extPath,
+      [
+        `subjectAltName = ${altName}`,
+        'basicConstraints = CA:FALSE',
+        'keyUsage = critical,digitalSignature,keyEncipherment',
+        'extendedKeyUsage = serverAuth',
+        '',
+      ].join('\n'),
+    );
+    await runOpenssl(['req', '-new', '-key', authority.leafKeyPath, '-subj', `/CN=${host}`, '-out', csrPath]);
+    // Apple platforms reject server certificates valid for more than 398 days.
+    await runOpenssl([
+      'x509', '-req', '-in', csrPath, '-CA', authority.certPath, '-CAkey', authority.keyPath,
+      '-set_serial', String(Date.now()), '-days', '397', '-sha256', '-extfile', extPath, '-out', certPath,
+    ]);
+    fs.rmSync(csrPath, { force: true });
+    fs.rmSync(extPath, { force: true });
+  }
+  return tls.createSecureContext({
+    key: fs.readFileSync(authority.leafKeyPath),
+    cert: `${fs.readFileSync(certPath, 'utf8')}${fs.readFileSync(authority.certPath, 'utf8')}`,
+  });
+}
+
+async function runOpenssl(args: string[]): Promise<void> {
+  const result = await runCmd('openssl', args, { allowFailure: true, timeoutMs: 30_000 }).catch((error: unknown) => ({
+    exitCode: -1,
+    stdout: '',
+    stderr: error instanceof Error ? error.message : String(error),
+  }));
+  if (result.exitCode !== 0) {
+    throw new AppError('COMMAND_FAILED', 'openssl failed while preparing network capture certificates', {
+      args,
+      stderr: result.stderr,
+    });
+  }
+}
+
+async function configureAndroidProxy(
+  device: DeviceInfo,
+  proxy: Pick<NetworkProxy, 'port' | 'caPath'>,
+): Promise<DeviceProxyConfig> {
+  const adb = (args: string[]) => runCmd('adb', ['-s', device.id, ...args]);
+  // adb reverse makes the host proxy reachable as device localhost on emulators and USB devices alike.
+  await adb(['reverse', `tcp:${proxy.port}`, `tcp:${proxy.port}`]);
+  await adb(['shell', 'settings', 'put', 'global', 'http_proxy', `127.0.0.1:${proxy.port}`]);
+  const notes = [`Device proxy set to 127.0.0.1:${proxy.port} (adb reverse).`];
+  if (proxy.caPath) {
+    const remoteCaPath = '/sdcard/Download/agent-device-ca.crt';
+    const pushed = await runCmd('adb', ['-s', device.id, 'push', proxy.caPath, remoteCaPath], { allowFailure: true });
+    notes.push(
+      pushed.exitCode === 0
+        ? `HTTPS needs the CA trusted: install ${remoteCaPath} under Settings > Security > Encryption & credentials, and allow user CAs in the app network security config (debug builds).`
+        : `HTTPS needs the CA at ${proxy.caPath} trusted on the device.`,
+    );
+  }
+  const restoreState: DeviceProxyRestoreState = { kind: 'android', deviceId: device.id, port: proxy.port };
+  return { notes, restoreState, restore: () => restoreDeviceProxy(restoreState) };
+}
+
+async function configureIosSimulatorProxy(
+  device: DeviceInfo,
+  proxy: Pick<NetworkProxy, 'port' | 'caPath'>,
+  options: DeviceProxyOptions,
+): Promise<DeviceProxyConfig> {
+  if (os.platform() !== 'darwin') {
+    throw new AppError('UNSUPPORTED_OPERATION', 'iOS simulator network capture requires macOS');
+  }
+  if (!options.hostProxy && !options.appBundleId) {
+    throw new AppError(
+      'INVALID_ARGS',
+      'iOS simulator network capture is scoped to the session app. Run open <app> first, or pass --host-proxy.',
+    );
+  }
+  const notes: string[] = [];
+  if (proxy.caPath) {
+    await runCmd('xcrun', buildSimctlArgsForDevice(device, ['keychain', device.id, 'add-root-cert', proxy.caPath]));
+    notes.push('Capture CA added to the simulator keychain.');
+  }
+  if (options.hostProxy) {
+    notes.push(...(await enableMacHostProxy(proxy.port, options)));
+    const restoreState: DeviceProxyRestoreState = { kind: 'mac-host', markerPath: options.hostProxyMarkerPath };
+    return { notes, restoreState, restore: () => restoreDeviceProxy(restoreState) };
+  }
+  // Simulators share the host network stack, so the proxy stays scoped to the app through its launch environment.
+  const proxyUrl = `http://127.0.0.1:${proxy.port}`;
+  const env: NodeJS.ProcessEnv = { ...process.env };
+  for (const name of ['http_proxy', 'https_proxy', 'HTTP_PROXY', 'HTTPS_PROXY']) {
+    env[`SIMCTL_CHILD_${name}`] = proxyUrl;
+  }
+  const appBundleId = options.appBundleId!;
+  await runCmd(
+    'xcrun',
+    buildSimctlArgsForDevice(device, ['launch', '--terminate-running-process', device.id, appBundleId]),
+    { env },
+  );
+  notes.push(
+    `Relaunched ${appBundleId} with http(s)_proxy=${proxyUrl}; only this app's traffic is captured.`,
+    'Clients that ignore proxy environment variables are not captured; use --host-proxy for those.',
+    'Network capture stop terminates the app so it drops the proxy; run open again afterwards.',
+  );
+  const restoreState: DeviceProxyRestoreState = { kind: 'ios-app', device, appBundleId };
+  return { notes, restoreState, restore: () => restoreDeviceProxy(restoreState) };
+}
+
+/** Undoes `configureDeviceProxy`; safe to run more than once and after the daemon that applied it died. */
+export async function restoreDeviceProxy(state: DeviceProxyRestoreState): Promise<void> {
+  if (state.kind === 'android') {
+    // `:0` is the documented way to clear a global proxy; deleting the setting leaves stale values on some images.
+    await runCmd('adb', ['-s', state.deviceId, 'shell', 'settings', 'put', 'global', 'http_proxy', ':0'], {
+      allowFailure: true,
+    });
+    await runCmd('adb', ['-s', state.deviceId, 'reverse', '--remove', `tcp:${state.port}`], { allowFailure: true });
+    return;
+  }
+  if (state.kind === 'ios-app') {
+    await runCmd(
+      'xcrun',
+      buildSimctlArgsForDevice(state.device, ['terminate', state.device.id, state.appBundleId]),
+      { allowFailure: true },
+    );
+    return;
+  }
+  await restoreMacHostProxy(state.markerPath);
+}
+
+/**
+ * Puts back host proxy settings left behind by a capture that never stopped (daemon crash). Returns the services
+ * that were restored.
+ */
+export async function restoreMacHostProxy(markerPath: string): Promise<string[]> {
+  const marker = readHostProxyMarker(markerPath);
+  if (!marker) return [];
+  for (const { service, web, secure } of marker.services) {
+    await restoreMacProxy(service, 'web', web);
+    await restoreMacProxy(service, 'secureweb', secure);
+  }
+  fs.rmSync(markerPath, { force: true });
+  return marker.services.map((entry) => entry.service);
+}
+
+async function enableMacHostProxy(port: number, options: DeviceProxyOptions): Promise<string[]> {
+  const markerPath = options.hostProxyMarkerPath;
+  const existing = readHostProxyMarker(markerPath);
+  if (existing) {
+    throw new AppError('COMMAND_FAILED', 'The host proxy is already in use by another network capture', {
+      session: existing.session,
+      port: existing.port,
+      hint: 'Stop that capture first; only one session can proxy the host at a time.',
+    });
+  }
+  const services = await listMacNetworkServices();
+  const previous: HostProxyMarker['services'] = [];
+  for (const service of services) {
+    const web = parseMacProxyState((await runCmd('networksetup', ['-getwebproxy', service])).stdout);
+    const secure = parseMacProxyState((await runCmd('networksetup', ['-getsecurewebproxy', service])).stdout);
+    // A localhost proxy that is not ours means another daemon (other state dir) already captures the host.
+    const foreign = [web, secure].find((state) => state.enabled && isLocalProxyServer(state.server));
+    if (foreign) {
+      const message = `Host proxy on ${service} already points at ${foreign.server}:${foreign.port}`;
+      throw new AppError('COMMAND_FAILED', message, {
+        hint: 'Another agent-device daemon may be capturing the host; stop it before using --host-proxy.',
+      });
+    }
+    previous.push({ service, web, secure });
+  }
+  // The previous settings are on disk before anything changes, so a crash can always be undone.
+  const marker: HostProxyMarker = { session: options.session, pid: process.pid, port, services: previous };
+  fs.mkdirSync(path.dirname(markerPath), { recursive: true });
+  fs.writeFileSync(markerPath, JSON.stringify(marker));
+  try {
+    for (const { service } of previous) {
+      await runCmd('networksetup', ['-setwebproxy', service, '127.0.0.1', String(port)]);
+      await runCmd('networksetup', ['-setsecurewebproxy', service, '127.0.0.1', String(port)]);
+    }
+  } catch (error) {
+    await restoreMacHostProxy(markerPath);
+    throw new AppError(
+      'COMMAND_FAILED',
+      'Failed to set the host proxy',
+      { hint: 'networksetup needs an administrator account; the previous settings were restored.' },
+      error,
+    );
+  }
+  return [
+    `Host HTTP(S) proxy set to 127.0.0.1:${port} for: ${services.join(', ')}. All traffic on this Mac is captured.`,
+    'The host proxy is restored on network capture stop, session close, daemon shutdown or the next daemon start.',
+  ];
+}
+
+function readHostProxyMarker(markerPath: string): HostProxyMarker | null {
+  if (!fs.existsSync(markerPath)) return null;
+  try {
+    const marker = JSON.parse(fs.readFileSync(markerPath, 'utf8')) as HostProxyMarker;
+    return Array.isArray(marker?.services) ? marker : null;
+  } catch {
+    return null;
+  }
+}
+
+function isLocalProxyServer(server: string): boolean {
+  return server === '127.0.0.1' || server === 'localhost' || server === '::1';
+}
+
+type MacProxyState = { enabled: boolean; server: string; port: string };
+
+export function parseMacProxyState(output: string): MacProxyState {
+  const read = (key: string) => new RegExp(`^${key}:[ \\t]*(.*)$`, 'm').exec(output)?.[1]?.trim() ?? '';
+  return { enabled: read('Enabled') === 'Yes', server: read('Server'), port: read('Port') };
+}
+
+async function listMacNetworkServices(): Promise<string[]> {
+  const result = await runCmd('networksetup', ['-listallnetworkservices']);
+  // The first line is a legend; services prefixed with `*` are disabled.
+  return result.stdout
+    .split('\n')
+    .slice(1)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith('*'));
+}
+
+async function restoreMacProxy(service: string, kind: 'web' | 'secureweb', state: MacProxyState): Promise<void> {
+  const setter = kind === 'web' ? '-setwebproxy' : '-setsecurewebproxy';
+  const toggle = kind === 'web' ? '-setwebproxystate' : '-setsecurewebproxystate';
+  if (state.server && state.port && state.port !== '0') {
+    await runCmd('networksetup', [setter, service, state.server, state.port], { allowFailure: true });
+  }
+  await runCmd('networksetup', [toggle, service, state.enabled ? 'on' : 'off'], { allowFailure: true });
+}
+
+function buildRequestEntry(
+  req: http.IncomingMessage,
+  target: URL,
+  started: number,
+  body: BodyCollector,
+  rule?: NetworkMockRule,
+): HarEntry {
+  const mimeType = String(req.headers['content-type'] ?? '');
+  const postData = body.size > 0 ? { mimeType, ...encodeBody(body.buffer(), mimeType) } : undefined;
+  return {
+    startedDateTime: new Date(started).toISOString(),
+    time: 0,
+    request: {
+      method: req.method ?? 'GET',
+      url: target.toString(),
+      httpVersion: `HTTP/${req.httpVersion}`,
+      headers: toHarHeaders(req.rawHeaders),
+      queryString: [...target.searchParams].map(([name, value]) => ({ name, value })),
+      headersSize: -1,
+      bodySize: body.size,
+      ...(postData ? { postData: { ...postData, text: postData.text ?? '' } } : {}),
+    },
+    response: emptyResponse(),
+    cache: {},
+    timings: { send: 0, wait: 0, receive: 0 },
+    ...(rule ? { _mock: rule.id } : {}),
+  };
+}
+
+function buildFailedEntry(method: string, url: string, error: string): HarEntry {
+  return {
+    startedDateTime: new Date().toISOString(),
+    time: 0,
+    request: {
+      method,
+      url,
+      httpVersion: 'HTTP/1.1',
+      headers: [],
+      queryString: [],
+      headersSize: -1,
+      bodySize: 0,
+    },
+    response: emptyResponse(),
+    cache: {},
+    timings: { send: 0, wait: 0, receive: 0 },
+    _error: error,
+  };
+}
+
+function emptyResponse(): HarEntry['response'] {
+  return {
+    status: 0,
+    statusText: '',
+    httpVersion: '',
+    headers: [],
+    content: { size: 0, mimeType: '' },
+    redirectURL: '',
+    headersSize: -1,
+    bodySize: -1,
+  };
+}
+
+function describeTlsError(error: Error): string {
+  return /certificate|alert|handshake/i.test(error.message)
+    ? `TLS handshake failed; the app likely does not trust the capture CA (${error.message})`
+    : error.message;
+}
+
+type BodyCollector = {
+  push: (chunk: Buffer) => void;
+  buffer: () => Buffer;
+  size: number;
+  truncated: boolean;
+};
+
+/** Keeps the first `limit` bytes for the HAR while counting the full size. */
+function createBodyCollector(limit: number): BodyCollector {
+  const chunks: Buffer[] = [];
+  let kept = 0;
+  const collector: BodyCollector = {
+    size: 0,
+    truncated: false,
+    push: (chunk) => {
+      collector.size += chunk.length;
+      const slice = chunk.subarray(0, Math.max(0, limit - kept));
+      if (slice.length < chunk.length) collector.truncated = true;
+      if (slice.length === 0) return;
+      chunks.push(slice);
+      kept += slice.length;
+    },
+    buffer: () => Buffer.concat(chunks),
+  };
+  return collector;
+}
+
+function decodeContent(body: BodyCollector, encoding: string | string[] | undefined): Buffer {
+  const raw = body.buffer();
+  if (body.truncated || typeof encoding !== 'string') return raw;
+  try {
+    if (encoding === 'gzip') return zlib.gunzipSync(raw);
+    if (encoding === 'deflate') return zlib.inflateSync(raw);
+    if (encoding === 'br') return zlib.brotliDecompressSync(raw);
+  } catch {
+    // Keep the encoded bytes when decompression fails.
+  }
+  return raw;
+}
+
+function encodeBody(body: Buffer, mimeType: string): { text?: string; encoding?: 'base64' } {
+  if (body.length === 0) return {};
+  if (TEXT_CONTENT_TYPE_RE.test(mimeType)) return { text: body.toString('utf8') };
+  return { text: body.toString('base64'), encoding: 'base64' };
+}
+
+function filterHeaders(headers: http.IncomingHttpHeaders): http.OutgoingHttpHeaders {
+  const filtered: http.OutgoingHttpHeaders = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === undefined || HOP_BY_HOP_HEADERS.has(name.toLowerCase())) continue;
+    filtered[name] = value;
+  }
+  return filtered;
+}
+
+function toHarHeaders(rawHeaders: string[]): HarHeader[] {
+  const headers: HarHeader[] = [];
+  for (let index = 0; index + 1 < rawHeaders.length; index += 2) {
+    headers.push({ name: rawHeaders[index], value: rawHeaders[index + 1] });
+  }
+  return headers;
+}
+
+function splitHostPort(authority: string): [string, string | undefined] {
+  const match = /^\[?([^\]]+?)\]?(?::(\d+))?$/.exec(authority);
+  return match ? [match[1], match[2]] : ['', undefined];
+}
@@ -0,0 +1,273 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { DeviceInfo } from '../utils/device.ts';
+import { AppError } from '../utils/errors.ts';
+import { runCmd } from '../utils/exec.ts';
+import { buildSimctlArgsForDevice } from '../platforms/ios/simctl.ts';
+
+export const DEFAULT_PERF_INTERVAL_MS = 1000;
+export const MIN_PERF_INTERVAL_MS = 250;
+/** One hour at the default interval; later samples are dropped and the window is marked truncated. */
+const MAX_PERF_SAMPLES = 3600;
+const PERF_COMMAND_TIMEOUT_MS = 10_000;
+
+export type PerfMetricName = 'cpu' | 'memory' | 'fps' | 'jank';
+
+export type PerfSample = {
+  ts: string;
+  elapsedMs: number;
+  /** App process CPU usage; can exceed 100 on multi-core devices. */
+  cpuPercent?: number;
+  /** Android total PSS or iOS simulator resident size. */
+  memoryKb?: number;
+  /** Frames rendered per second since the previous sample. */
+  fps?: number;
+  frames?: number;
+  jankyFrames?: number;
+  /** Share of janky frames since the previous sample. */
+  jankPercent?: number;
+  error?: string;
+};
+
+export type PerfMetricSummary = {
+  unit: string;
+  count: number;
+  min: number;
+  avg: number;
+  p50: number;
+  p90: number;
+  p95: number;
+  max: number;
+};
+
+export type PerfSummary = Partial<Record<PerfMetricName, PerfMetricSummary>>;
+
+export type PerfCollector = {
+  /** How values are read, for example `adb-dumpsys` or `simctl-ps`. */
+  method: string;
+  metrics: PerfMetricName[];
+  /** Reasons for metrics this platform cannot sample. */
+  unavailable: Partial<Record<PerfMetricName, string>>;
+  sample: () => Promise<Omit<PerfSample, 'ts' | 'elapsedMs'>>;
+};
+
+export type PerfSampler = {
+  startedAt: number;
+  intervalMs: number;
+  samples: PerfSample[];
+  isTruncated: () => boolean;
+  sampleNow: () => Promise<PerfSample>;
+  stop: () => Promise<void>;
+};
+
+const METRIC_UNITS: Record<PerfMetricName, string> = {
+  cpu: '%',
+  memory: 'kB',
+  fps: 'fps',
+  jank: '%',
+};
+
+const SAMPLE_FIELDS: Record<PerfMetricName, keyof PerfSample> = {
+  cpu: 'cpuPercent',
+  memory: 'memoryKb',
+  fps: 'fps',
+  jank: 'jankPercent',
+};
+
+export function createPerfCollector(device: DeviceInfo, appBundleId: string): PerfCollector {
+  if (device.platform === 'android') return createAndroidCollector(device, appBundleId);
+  if (device.platform === 'ios' && device.kind === 'simulator') return createIosSimulatorCollector(device, appBundleId);
+  throw new AppError(
+    'UNSUPPORTED_OPERATION',
+    device.platform === 'ios'
+      ? 'perf sampling is not supported on physical iOS devices; use Instruments. Startup timing is still reported by perf.'
+      : `perf sampling is not supported on ${device.platform} devices`,
+  );
+}
+
+/** Samples on a fixed interval until stopped. Each sample awaits the previous one, so slow reads stretch the interval. */
+export function startPerfSampler(collector: PerfCollector, intervalMs: number): PerfSampler {
+  const startedAt = Date.now();
+  const samples: PerfSample[] = [];
+  let truncated = false;
+  let stopped = false;
+  let timer: NodeJS.Timeout | undefined;
+  let inFlight: Promise<PerfSample> | undefined;
+
+  const sampleNow = async (): Promise<PerfSample> => {
+    const sample = await collectPerfSample(collector, startedAt);
+    if (samples.length < MAX_PERF_SAMPLES) samples.push(sample);
+    else truncated = true;
+    return sample;
+  };
+  const tick = () => {
+    if (stopped) return;
+    inFlight = sampleNow();
+    void inFlight.finally(() => {
+      inFlight = undefined;
+      if (stopped) return;
+      timer = setTimeout(tick, intervalMs);
+      timer.unref();
+    });
+  };
+  tick();
+
+  return {
+    startedAt,
+    intervalMs,
+    samples,
+    isTruncated: () => truncated,
+    sampleNow,
+    stop: async () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      await inFlight?.catch(() => undefined);
+    },
+  };
+}
+
+export async function collectPerfSample(collector: PerfCollector, startedAt = Date.now()): Promise<PerfSample> {
+  const now = Date.now();
+  const base = { ts: new Date(now).toISOString(), elapsedMs: now - startedAt };
+  try {
+    return { ...base, ...(await collector.sample()) };
+  } catch (error) {
+    return { ...base, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export function summarizePerfSamples(samples: PerfSample[]): PerfSummary {
+  const summary: PerfSummary = {};
+  for (const metric of Object.keys(SAMPLE_FIELDS) as PerfMetricName[]) {
+    const values = samples
+      .map((sample) => sample[SAMPLE_FIELDS[metric]])
+      .filter((value): value is number => typeof value === 'number' && Number.isFinite(value))
+      .sort((a, b) => a - b);
+    if (values.length === 0) continue;
+    summary[metric] = {
+      unit: METRIC_UNITS[metric],
+      count: values.length,
+      min: round(values[0]),
+      avg: round(values.reduce((total, value) => total + value, 0) / values.length),
+      p50: round(percentile(values, 50)),
+      p90: round(percentile(values, 90)),
+      p95: round(percentile(values, 95)),
+      max: round(values[values.length - 1]),
+    };
+  }
+  return summary;
+}
+
+export function writePerfSeries(outPath: string, data: Record<string, unknown>): void {
+  fs.mkdirSync(path.dirname(outPath), { recursive: true });
+  fs.writeFileSync(outPath, `${JSON.stringify(data, null, 2)}\n`);
+}
+
+/** `TOTAL PSS:` on Android 10+, otherwise the first column of the `TOTAL` row. */
+export function parseAndroidMeminfoTotalPssKb(output: string): number | undefined {
+  const modern = /TOTAL PSS:\s+(\d+)/.exec(output);
+  if (modern) return Number(modern[1]);
+  const legacy = /^\s*TOTAL\s+(\d+)/m.exec(output);
+  return legacy ? Number(legacy[1]) : undefined;
+}
+
+export function parseAndroidGfxinfo(output: string): { frames: number; jankyFrames: number } | undefined {
+  const frames = /Total frames rendered:\s*(\d+)/.exec(output);
+  if (!frames) return undefined;
+  const janky = /Janky frames:\s*(\d+)/.exec(output);
+  return { frames: Number(frames[1]), jankyFrames: janky ? Number(janky[1]) : 0 };
+}
+
+/** Reads the `%CPU` value for `pid` from `top -b -n 1 -p <pid> -o PID,%CPU`. */
+export function parseTopCpuPercent(output: string, pid: string): number | undefined {
+  for (const line of output.split('\n')) {
+    const columns = line.trim().split(/\s+/);
+    if (columns[0] === pid && columns.length >= 2) {
+      const value = Number(columns[1]);
+      return Number.isFinite(value) ? value : undefined;
+    }
+  }
+  return undefined;
+}
+
+/** Finds the app's pid in `launchctl list` output from inside the simulator. */
+export function parseIosSimulatorAppPid(output: string, bundleId: string): string | undefined {
+  for (const line of output.split('\n')) {
+    const [pid, , label] = line.trim().split(/\s+/);
+    if (!label || !/^\d+$/.test(pid)) continue;
+    if (label.startsWith(`UIKitApplication:${bundleId}[`)) return pid;
+  }
+  return undefined;
+}
+
+function createAndroidCollector(device: DeviceInfo, packageName: string): PerfCollector {
+  const adb = (args: string[]) =>
+    runCmd('adb', ['-s', device.id, 'shell', ...args], { allowFailure: true, timeoutMs: PERF_COMMAND_TIMEOUT_MS });
+  let lastFrameReset: number | undefined;
+  return {
+    method: 'adb-dumpsys',
+    metrics: ['cpu', 'memory', 'fps', 'jank'],
+    unavailable: {},
+    sample: async () => {
+      const pid = (await adb(['pidof', packageName])).stdout.trim().split(/\s+/)[0];
+      if (!pid) return { error: `${packageName} is not running` };
+      const top = await adb(['top', '-b', '-n', '1', '-p', pid, '-o', 'PID,%CPU']);
+      const meminfo = await adb(['dumpsys', 'meminfo', packageName]);
+      // `reset` returns counters since the previous reset, so each sample covers one interval.
+      const gfxinfo = await adb(['dumpsys', 'gfxinfo', packageName, 'reset']);
+      const now = Date.now();
+      const sample: Omit<PerfSample, 'ts' | 'elapsedMs'> = {
+        cpuPercent: parseTopCpuPercent(top.stdout, pid),
+        memoryKb: parseAndroidMeminfoTotalPssKb(meminfo.stdout),
+      };
+      const frames = parseAndroidGfxinfo(gfxinfo.stdout);
+      if (frames && lastFrameReset !== undefined && now > lastFrameReset) {
+        sample.frames = frames.frames;
+        sample.jankyFrames = frames.jankyFrames;
+        sample.fps = round((frames.frames * 1000) / (now - lastFrameReset));
+        sample.jankPercent = frames.frames > 0 ? round((frames.jankyFrames / frames.frames) * 100) : 0;
+      }
+      lastFrameReset = now;
+      return sample;
+    },
+  };
+}
+
+function createIosSimulatorCollector(device: DeviceInfo, bundleId: string): PerfCollector {
+  return {
+    method: 'simctl-ps',
+    metrics: ['cpu', 'memory'],
+    unavailable: {
+      fps: 'Frame timing is not exposed by iOS simulators; use Instruments.',
+      jank: 'Frame timing is not exposed by iOS simulators; use Instruments.',
+    },
+    sample: async () => {
+      const list = await runCmd('xcrun', buildSimctlArgsForDevice(device, ['spawn', device.id, 'launchctl', 'list']), {
+        allowFailure: true,
+        timeoutMs: PERF_COMMAND_TIMEOUT_MS,
+      });
+      const pid = parseIosSimulatorAppPid(list.stdout, bundleId);
+      if (!pid) return { error: `${bundleId} is not running` };
+      // Simulator apps are host processes, so host ps reports their CPU and resident memory.
+      const ps = await runCmd('ps', ['-o', '%cpu=,rss=', '-p', pid], {
+        allowFailure: true,
+        timeoutMs: PERF_COMMAND_TIMEOUT_MS,
+      });
+      const [cpu, rss] = ps.stdout.trim().split(/\s+/).map(Number);
+      return {
+        cpuPercent: Number.isFinite(cpu) ? cpu : undefined,
+        memoryKb: Number.isFinite(rss) ? rss : undefined,
+      };
+    },
+  };
+}
+
+/** Nearest-rank percentile over sorted values. */
+function percentile(sorted: number[], p: number): number {
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,212 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { AppError } from '../utils/errors.ts';
+
+export const REPLAY_REPORT_FORMATS = ['junit', 'tap', 'json'] as const;
+
+export type ReplayReportFormat = (typeof REPLAY_REPORT_FORMATS)[number];
+
+const REPORT_EXTENSIONS: Record<ReplayReportFormat, string> = {
+  junit: '.xml',
+  tap: '.tap',
+  json: '.json',
+};
+
+export type ReplayStepResult = {
+  step: number;
+  path: string;
+  line: number;
+  command: string;
+  summary: string;
+  status: 'passed' | 'healed' | 'failed';
+  durationMs: number;
+  /** Summary of the healed action that replaced `summary`. */
+  healedTo?: string;
+  error?: { code: string; message: string };
+  artifacts?: { screenshot?: string; snapshot?: string };
+};
+
+export type ReplayScriptResult = {
+  path: string;
+  status: 'passed' | 'failed';
+  startedAt: string;
+  durationMs: number;
+  replayed: number;
+  healed: number;
+  steps: ReplayStepResult[];
+  /** Failure that is not tied to an action step (parse errors, undefined variables, failed conditions). */
+  error?: { code: string; message: string };
+};
+
+export type ReplaySuiteResult = {
+  session: string;
+  startedAt: string;
+  durationMs: number;
+  scripts: ReplayScriptResult[];
+};
+
+export function resolveReplayReportPath(
+  format: ReplayReportFormat,
+  requested: string | undefined,
+  cwd: string,
+): string {
+  return path.resolve(cwd, requested ?? `replay-report${REPORT_EXTENSIONS[format]}`);
+}
+
+/** Directory for failure screenshots and snapshots, next to the report file. */
+export function resolveReplayArtifactsDir(reportPath: string): string {
+  const parsed = path.parse(reportPath);
+  return path.join(parsed.dir, `${parsed.name}-artifacts`);
+}
+
+export function writeReplayReport(suite: ReplaySuiteResult, format: ReplayReportFormat, outPath: string): void {
+  fs.mkdirSync(path.dirname(outPath), { recursive: true });
+  fs.writeFileSync(outPath, formatReplayReport(suite, format));
+}
+
+export function formatReplayReport(suite: ReplaySuiteResult, format: ReplayReportFormat): string {
+  switch (format) {
+    case 'junit':
+      return formatJunit(suite);
+    case 'tap':
+      return formatTap(suite);
+    case 'json':
+      return `${JSON.stringify(suite, null, 2)}\n`;
+    default:
+      throw new AppError('INVALID_ARGS', `Unsupported replay report format: ${String(format)}`);
+  }
+}
+
+function formatJunit(suite: ReplaySuiteResult): string {
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>'];
+  const totals = countCases(suite.scripts);
+  lines.push(
+    `<testsuites name="agent-device replay" tests="${totals.tests}" failures="${totals.failures}" time="${seconds(suite.durationMs)}" timestamp="${suite.startedAt}">`,
+  );
+  for (const script of suite.scripts) {
+    const counts = countCases([script]);
+    const name = xmlAttr(scriptName(script.path));
+    lines.push(
+      `  <testsuite name="${name}" file="${xmlAttr(script.path)}" tests="${counts.tests}" failures="${counts.failures}" time="${seconds(script.durationMs)}" timestamp="${script.startedAt}">`,
+    );
+    for (const step of script.steps) {
+      const testcase = `    <testcase classname="${name}" name="${xmlAttr(stepName(step))}" file="${xmlAttr(step.path)}" line="${step.line}" time="${seconds(step.durationMs)}"`;
+      const notes = stepNotes(step);
+      if (!step.error && notes.length === 0) {
+        lines.push(`${testcase} />`);
+        continue;
+      }
+      lines.push(`${testcase}>`);
+      if (step.error) {
+        lines.push(
+          `      <failure type="${xmlAttr(step.error.code)}" message="${xmlAttr(step.error.message)}">${xmlText(formatStepDetails(step).join('\n'))}</failure>`,
+        );
+      }
+      if (notes.length > 0) {
+        lines.push(`      <system-out>${xmlText(notes.join('\n'))}</system-out>`);
+      }
+      lines.push('    </testcase>');
+    }
+    if (script.error) {
+      lines.push(`    <testcase classname="${name}" name="script" file="${xmlAttr(script.path)}" time="0">`);
+      lines.push(
+        `      <failure type="${xmlAttr(script.error.code)}" message="${xmlAttr(script.error.message)}"></failure>`,
+      );
+      lines.push('    </testcase>');
+    }
+    lines.push('  </testsuite>');
+  }
+  lines.push('</testsuites>');
+  return `${lines.join('\n')}\n`;
+}
+
+function formatTap(suite: ReplaySuiteResult): string {
+  const lines = ['TAP version 13'];
+  suite.scripts.forEach((script, scriptIndex) => {
+    lines.push(`# Subtest: ${scriptName(script.path)}`);
+    const cases = script.steps.length + (script.error ? 1 : 0);
+    lines.push(`    1..${cases}`);
+    script.steps.forEach((step, stepIndex) => {
+      lines.push(`    ${step.error ? 'not ok' : 'ok'} ${stepIndex + 1} - ${tapDescription(stepName(step))}`);
+      const yaml = [
+        `duration_ms: ${step.durationMs}`,
+        `at: ${JSON.stringify(`${step.path}:${step.line}`)}`,
+        ...(step.healedTo ? [`healed: ${JSON.stringify(step.healedTo)}`] : []),
+        ...(step.error
+          ? [`code: ${step.error.code}`, `message: ${JSON.stringify(step.error.message)}`]
+          : []),
+        ...(step.artifacts?.screenshot ? [`screenshot: ${JSON.stringify(step.artifacts.screenshot)}`] : []),
+        ...(step.artifacts?.snapshot ? [`snapshot: ${JSON.stringify(step.artifacts.snapshot)}`] : []),
+      ];
+      lines.push('      ---', ...yaml.map((entry) => `      ${entry}`), '      ...');
+    });
+    if (script.error) {
+      lines.push(`    not ok ${cases} - script`);
+      lines.push(
+        '      ---',
+        `      code: ${script.error.code}`,
+        `      message: ${JSON.stringify(script.error.message)}`,
+        '      ...',
+      );
+    }
+    lines.push(`${script.status === 'passed' ? 'ok' : 'not ok'} ${scriptIndex + 1} - ${tapDescription(script.path)}`);
+    lines.push('  ---', `  duration_ms: ${script.durationMs}`, `  healed: ${script.healed}`, '  ...');
+  });
+  lines.push(`1..${suite.scripts.length}`);
+  return `${lines.join('\n')}\n`;
+}
+
+function countCases(scripts: ReplayScriptResult[]): { tests: number; failures: number } {
+  let tests = 0;
+  let failures = 0;
+  for (const script of scripts) {
+    tests += script.steps.length + (script.error ? 1 : 0);
+    failures += script.steps.filter((step) => step.error).length + (script.error ? 1 : 0);
+  }
+  return { tests, failures };
+}
+
+function stepName(step: ReplayStepResult): string {
+  return `step ${step.step}: ${step.summary}`;
+}
+
+function stepNotes(step: ReplayStepResult): string[] {
+  const notes: string[] = [];
+  if (step.healedTo) notes.push(`healed: ${step.summary} -> ${step.healedTo}`);
+  // JUnit attachment markers are picked up by GitLab and the Jenkins attachments plugin.
+  if (step.artifacts?.screenshot) notes.push(`[[ATTACHMENT|${step.artifacts.screenshot}]]`);
+  if (step.artifacts?.snapshot) notes.push(`[[ATTACHMENT|${step.artifacts.snapshot}]]`);
+  return notes;
+}
+
+function formatStepDetails(step: ReplayStepResult): string[] {
+  const details = [`${step.error?.message ?? ''}`, `at ${step.path}:${step.line}`];
+  if (step.artifacts?.screenshot) details.push(`screenshot: ${step.artifacts.screenshot}`);
+  if (step.artifacts?.snapshot) details.push(`snapshot: ${step.artifacts.snapshot}`);
+  return details;
+}
+
+function scriptName(scriptPath: string): string {
+  return path.basename(scriptPath, path.extname(scriptPath));
+}
+
+function seconds(durationMs: number): string {
+  return (durationMs / 1000).toFixed(3);
+}
+
+function tapDescription(value: string): string {
+  // `#` starts a TAP directive; keep it inside the description.
+  return value.replace(/\\/g, '\\\\').replace(/#/g, '\\#');
+}
+
+function xmlText(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+function xmlAttr(value: string): string {
+  return xmlText(value).replace(/"/g, '&quot;').replace(/\n/g, '&#10;');
+}
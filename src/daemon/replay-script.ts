@@ -0,0 +1,628 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { AppError } from '../utils/errors.ts';
+import type { SessionAction, SessionState } from './types.ts';
+import { isSupportedPredicate } from './is-predicates.ts';
+import {
+  appendScriptSeriesFlags,
+  formatScriptArg,
+  isClickLikeCommand,
+  parseReplaySeriesFlags,
+} from './script-utils.ts';
+
+export const MAX_REPLAY_REPEAT = 1000;
+
+const VARIABLE_NAME_RE = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const INTERPOLATION_RE = /\$\$\{|\$\{([^}]*)\}/g;
+const ENV_REFERENCE_RE = /\$\{env\.([A-Za-z_][A-Za-z0-9_]*)/g;
+
+export type ReplayScript = {
+  path: string;
+  steps: ReplayScriptStep[];
+  /** Set when healing rewrote an action so the file needs to be written back. */
+  dirty: boolean;
+};
+
+export type ReplayScriptStep =
+  | { kind: 'text'; line: number; text: string }
+  | { kind: 'action'; line: number; text: string; indent: string; command: string; args: string[] }
+  | { kind: 'set'; line: number; text: string; name: string; valueTokens: string[] }
+  | {
+    kind: 'if';
+    line: number;
+    text: string;
+    negate: boolean;
+    predicate: string;
+    args: string[];
+    body: ReplayScriptStep[];
+    elseText?: string;
+    elseBody?: ReplayScriptStep[];
+    endText: string;
+  }
+  | { kind: 'repeat'; line: number; text: string; countToken: string; body: ReplayScriptStep[]; endText: string }
+  | { kind: 'include'; line: number; text: string; script: ReplayScript };
+
+export type ReplayScope = {
+  vars: Map<string, string>;
+  env: Record<string, string | undefined>;
+};
+
+type OpenBlock = {
+  step: Extract<ReplayScriptStep, { kind: 'if' | 'repeat' }>;
+  target: ReplayScriptStep[];
+};
+
+/**
+ * Loads a replay script and every script it includes. Included scripts are shared by path so a
+ * healed step inside a shared flow is written back once.
+ */
+export function loadReplayScript(
+  filePath: string,
+  cache: Map<string, ReplayScript> = new Map(),
+  includeStack: string[] = [],
+): ReplayScript {
+  const resolved = path.resolve(filePath);
+  if (includeStack.includes(resolved)) {
+    throw new AppError('INVALID_ARGS', `Replay include cycle: ${[...includeStack, resolved].join(' -> ')}`);
+  }
+  const cached = cache.get(resolved);
+  if (cached) return cached;
+  let source: string;
+  try {
+    source = fs.readFileSync(resolved, 'utf8');
+  } catch {
+    throw new AppError('INVALID_ARGS', `Replay script not found: ${resolved}`);
+  }
+  const script = parseReplayScript(source, resolved, (includePath) =>
+    loadReplayScript(includePath, cache, [...includeStack, resolved]),
+  );
+  cache.set(resolved, script);
+  return script;
+}
+
+export function parseReplayScript(
+  source: string,
+  filePath: string,
+  loadInclude: (includePath: string) => ReplayScript,
+): ReplayScript {
+  const steps: ReplayScriptStep[] = [];
+  const blocks: OpenBlock[] = [];
+  const lines = source.split(/\r?\n/);
+  if (lines.at(-1) === '') lines.pop();
+  for (let index = 0; index < lines.length; index += 1) {
+    const lineNumber = index + 1;
+    const text = lines[index].trimEnd();
+    const target = blocks.at(-1)?.target ?? steps;
+    const trimmed = text.trim();
+    if (trimmed.length === 0 || trimmed.startsWith('#')) {
+      target.push({ kind: 'text', line: lineNumber, text });
+      continue;
+    }
+    const tokens = tokenizeReplayLine(trimmed);
+    const [command, ...args] = tokens;
+    if (command === 'context') {
+      target.push({ kind: 'text', line: lineNumber, text });
+      continue;
+    }
+    if (command === 'set') {
+      const [name, ...valueTokens] = args;
+      if (!name || !VARIABLE_NAME_RE.test(name)) {
+        throw replayScriptError(filePath, lineNumber, 'set requires a variable name ([A-Za-z_][A-Za-z0-9_]*)');
+      }
+      if (valueTokens.length === 0) {
+        throw replayScriptError(filePath, lineNumber, `set ${name} requires a value`);
+      }
+      target.push({ kind: 'set', line: lineNumber, text, name, valueTokens });
+      continue;
+    }
+    if (command === 'if') {
+      const negate = args[0] === 'not';
+      const [predicate, ...predicateArgs] = negate ? args.slice(1) : args;
+      if (!predicate || !isSupportedPredicate(predicate) || predicateArgs.length === 0) {
+        throw replayScriptError(
+          filePath,
+          lineNumber,
+          'if requires: if [not] visible|hidden|exists|editable|selected|checked|focused|text <selector> [text]',
+        );
+      }
+      const step: OpenBlock['step'] = {
+        kind: 'if',
+        line: lineNumber,
+        text,
+        negate,
+        predicate,
+        args: predicateArgs,
+        body: [],
+        endText: '',
+      };
+      target.push(step);
+      blocks.push({ step, target: step.body });
+      continue;
+    }
+    if (command === 'repeat') {
+      if (args.length !== 1) {
+        throw replayScriptError(filePath, lineNumber, 'repeat requires a count');
+      }
+      const step: OpenBlock['step'] = {
+        kind: 'repeat',
+        line: lineNumber,
+        text,
+        countToken: args[0],
+        body: [],
+        endText: '',
+      };
+      target.push(step);
+      blocks.push({ step, target: step.body });
+      continue;
+    }
+    if (command === 'else') {
+      const block = blocks.at(-1);
+      if (!block || block.step.kind !== 'if' || block.step.elseBody || args.length > 0) {
+        throw replayScriptError(filePath, lineNumber, 'else must follow an if block');
+      }
+      block.step.elseText = text;
+      block.step.elseBody = [];
+      block.target = block.step.elseBody;
+      continue;
+    }
+    if (command === 'end') {
+      const block = blocks.pop();
+      if (!block || args.length > 0) {
+        throw replayScriptError(filePath, lineNumber, 'end without a matching if or repeat');
+      }
+      block.step.endText = text;
+      continue;
+    }
+    if (command === 'include') {
+      if (args.length !== 1) {
+        throw replayScriptError(filePath, lineNumber, 'include requires a script path');
+      }
+      if (args[0].includes('${')) {
+        throw replayScriptError(filePath, lineNumber, 'include paths cannot use variables');
+      }
+      const includePath = resolveIncludePath(args[0], path.dirname(filePath));
+      target.push({ kind: 'include', line: lineNumber, text, script: loadInclude(includePath) });
+      continue;
+    }
+    const indent = text.slice(0, text.length - text.trimStart().length);
+    // Lines with variables keep their source text so rewrites do not bake in resolved values.
+    const normalized = text.includes('${')
+      ? text
+      : `${indent}${formatReplayActionLine(parseReplayAction(command, args))}`;
+    target.push({ kind: 'action', line: lineNumber, text: normalized, indent, command, args });
+  }
+  const unclosed = blocks.at(-1);
+  if (unclosed) {
+    throw replayScriptError(filePath, unclosed.step.line, `${unclosed.step.kind} block is missing end`);
+  }
+  return { path: filePath, steps, dirty: false };
+}
+
+export function parseReplayAction(command: string, args: string[]): SessionAction {
+  const action: SessionAction = {
+    ts: Date.now(),
+    command,
+    positionals: [],
+    flags: {},
+  };
+
+  if (command === 'snapshot') {
+    action.positionals = [];
+    for (let index = 0; index < args.length; index += 1) {
+      const token = args[index];
+      if (token === '-i') {
+        action.flags.snapshotInteractiveOnly = true;
+        continue;
+      }
+      if (token === '-c') {
+        action.flags.snapshotCompact = true;
+        continue;
+      }
+      if (token === '--raw') {
+        action.flags.snapshotRaw = true;
+        continue;
+      }
+      if ((token === '-d' || token === '--depth') && index + 1 < args.length) {
+        const parsedDepth = Number(args[index + 1]);
+        if (Number.isFinite(parsedDepth) && parsedDepth >= 0) {
+          action.flags.snapshotDepth = Math.floor(parsedDepth);
+        }
+        index += 1;
+        continue;
+      }
+      if ((token === '-s' || token === '--scope') && index + 1 < args.length) {
+        action.flags.snapshotScope = args[index + 1];
+        index += 1;
+        continue;
+      }
+      if (token === '--backend' && index + 1 < args.length) {
+        // Backward compatibility: ignore legacy snapshot backend token.
+        index += 1;
+        continue;
+      }
+    }
+    return action;
+  }
+
+  if (command === 'open') {
+    action.positionals = [];
+    for (let index = 0; index < args.length; index += 1) {
+      const token = args[index];
+      if (token === '--relaunch') {
+        action.flags.relaunch = true;
+        continue;
+      }
+      action.positionals.push(token);
+    }
+    return action;
+  }
+
+  if (isClickLikeCommand(command)) {
+    const parsed = parseReplaySeriesFlags(command, args);
+    Object.assign(action.flags, parsed.flags);
+    if (parsed.positionals.length === 0) return action;
+    const target = parsed.positionals[0];
+    if (target.startsWith('@')) {
+      action.positionals = [target];
+      if (parsed.positionals[1]) {
+        action.result = { refLabel: parsed.positionals[1] };
+      }
+      return action;
+    }
+    const maybeX = parsed.positionals[0];
+    const maybeY = parsed.positionals[1];
+    if (isNumericToken(maybeX) && isNumericToken(maybeY) && parsed.positionals.length >= 2) {
+      action.positionals = [maybeX, maybeY];
+      return action;
+    }
+    action.positionals = [parsed.positionals.join(' ')];
+    return action;
+  }
+
+  if (command === 'fill') {
+    if (args.length < 2) {
+      action.positionals = args;
+      return action;
+    }
+    const target = args[0];
+    if (target.startsWith('@')) {
+      if (args.length >= 3) {
+        action.positionals = [target, args.slice(2).join(' ')];
+        action.result = { refLabel: args[1] };
+        return action;
+      }
+      action.positionals = [target, args[1]];
+      return action;
+    }
+    action.positionals = [target, args.slice(1).join(' ')];
+    return action;
+  }
+
+  if (command === 'get') {
+    if (args.length < 2) {
+      action.positionals = args;
+      return action;
+    }
+    const sub = args[0];
+    const target = args[1];
+    if (target.startsWith('@')) {
+      action.positionals = [sub, target];
+      if (args[2]) {
+        action.result = { refLabel: args[2] };
+      }
+      return action;
+    }
+    action.positionals = [sub, args.slice(1).join(' ')];
+    return action;
+  }
+
+  if (
+    command === 'swipe'
+    || command === 'screenshot'
+    || command === 'diff'
+    || command === 'perf'
+    || command === 'network'
+    || command === 'wait'
+  ) {
+    const parsed = parseReplaySeriesFlags(command, args);
+    Object.assign(action.flags, parsed.flags);
+    action.positionals = parsed.positionals;
+    return action;
+  }
+
+  action.positionals = args;
+  return action;
+}
+
+/** Resolves `${name}`, `${env.NAME}` and `${name:-fallback}`; `$${` escapes a literal `${`. */
+export function interpolateReplayValue(value: string, scope: ReplayScope): string {
+  return value.replace(INTERPOLATION_RE, (match, expression: string | undefined) => {
+    if (expression === undefined) return '${';
+    const separator = expression.indexOf(':-');
+    const name = (separator === -1 ? expression : expression.slice(0, separator)).trim();
+    const fallback = separator === -1 ? undefined : expression.slice(separator + 2);
+    const resolved = name.startsWith('env.') ? scope.env[name.slice(4)] : scope.vars.get(name);
+    if (resolved !== undefined) return resolved;
+    if (fallback !== undefined) return fallback;
+    throw new AppError('INVALID_ARGS', `Undefined replay variable: ${name}`, {
+      hint: name.startsWith('env.')
+        ? `Export ${name.slice(4)} before running replay or use \${${name}:-default}.`
+        : `Define it earlier with set ${name} <value>.`,
+    });
+  });
+}
+
+/** Parses an action line after interpolating its arguments in the current scope. */
+export function resolveReplayAction(
+  step: Extract<ReplayScriptStep, { kind: 'action' }>,
+  scope: ReplayScope,
+): SessionAction {
+  return parseReplayAction(step.command, step.args.map((arg) => interpolateReplayValue(arg, scope)));
+}
+
+/**
+ * Stores a healed action on its source step. Positionals the heal left untouched keep their
+ * original (possibly `${var}`) spelling so variables survive `replay -u`.
+ */
+export function applyHealedReplayAction(
+  script: ReplayScript,
+  step: Extract<ReplayScriptStep, { kind: 'action' }>,
+  executed: SessionAction,
+  healed: SessionAction,
+): void {
+  const source = parseReplayAction(step.command, step.args);
+  const positionals = healed.positionals.map((value, index) =>
+    value === executed.positionals[index] && source.positionals[index] !== undefined
+      ? source.positionals[index]
+      : value,
+  );
+  const line = formatReplayActionLine({ ...healed, positionals });
+  const [, ...args] = tokenizeReplayLine(line);
+  step.args = args;
+  step.text = `${step.indent}${line}`;
+  script.dirty = true;
+}
+
+/** Lists every script (root first) so healed includes can be written back alongside the root. */
+export function listReplayScripts(root: ReplayScript): ReplayScript[] {
+  const scripts: ReplayScript[] = [];
+  const visit = (script: ReplayScript) => {
+    if (scripts.includes(script)) return;
+    scripts.push(script);
+    walkSteps(script.steps, (step) => {
+      if (step.kind === 'include') visit(step.script);
+    });
+  };
+  visit(root);
+  return scripts;
+}
+
+/** Names referenced as `${env.NAME}` anywhere in the script or its includes. */
+export function collectReplayEnvNames(root: ReplayScript): string[] {
+  const names = new Set<string>();
+  for (const script of listReplayScripts(root)) {
+    walkSteps(script.steps, (step) => {
+      for (const match of step.text.matchAll(ENV_REFERENCE_RE)) names.add(match[1]);
+    });
+  }
+  return Array.from(names);
+}
+
+/**
+ * Client environment values for the `${env.NAME}` references of the given replay inputs. Relative inputs resolve
+ * against `cwd`, the same directory the request sends to the daemon.
+ */
+export function readReplayEnv(
+  inputs: string[],
+  cwd?: string,
+  env: NodeJS.ProcessEnv = process.env,
+): Record<string, string> {
+  const names = new Set<string>();
+  try {
+    for (const scriptPath of resolveReplayScriptPaths(inputs, cwd)) {
+      for (const name of collectReplayEnvNames(loadReplayScript(scriptPath))) names.add(name);
+    }
+  } catch {
+    // The daemon reports missing or invalid scripts with full context.
+  }
+  // Only forward variables the scripts reference; the daemon does not share this shell's environment.
+  const values: Record<string, string> = {};
+  for (const name of names) {
+    const value = env[name];
+    if (value !== undefined) values[name] = value;
+  }
+  return values;
+}
+
+/**
+ * Expands replay inputs into script paths. Directories contribute their `.ad` files recursively and
+ * patterns with `*`, `**` or `?` are matched below their static prefix. Files named `_*.ad` are left
+ * out of both so include-only flows do not run on their own.
+ */
+export function resolveReplayScriptPaths(inputs: string[], cwd?: string): string[] {
+  const resolved: string[] = [];
+  for (const input of inputs) {
+    const absolute = resolveIncludePath(input, cwd ?? process.cwd());
+    let matches: string[];
+    if (/[*?]/.test(input)) {
+      matches = expandReplayGlob(absolute);
+    } else if (isDirectory(absolute)) {
+      matches = listSuiteScripts(absolute, () => true);
+    } else {
+      matches = [absolute];
+    }
+    if (matches.length === 0) {
+      throw new AppError('INVALID_ARGS', `No .ad replay scripts found for ${input}`);
+    }
+    for (const match of matches) {
+      if (!resolved.includes(match)) resolved.push(match);
+    }
+  }
+  return resolved;
+}
+
+export function writeReplayScript(script: ReplayScript, session?: SessionState, options: { root?: boolean } = {}) {
+  const lines: string[] = [];
+  let steps = script.steps;
+  // Session can be missing if the replay session is closed/deleted between execution and update write.
+  // In that case we still persist healed actions and omit only the context header.
+  if (options.root !== false && session) {
+    const deviceLabel = session.device.name.replace(/"/g, '\\"');
+    const kind = session.device.kind ? ` kind=${session.device.kind}` : '';
+    const target = session.device.target ? ` target=${session.device.target}` : '';
+    lines.push(`context platform=${session.device.platform}${target} device="${deviceLabel}"${kind} theme=unknown`);
+    steps = steps.filter((step) => !(step.kind === 'text' && step.text.trim().startsWith('context ')));
+  }
+  appendStepLines(lines, steps);
+  const serialized = `${lines.join('\n')}\n`;
+  const tmpPath = `${script.path}.tmp-${process.pid}-${Date.now()}`;
+  fs.writeFileSync(tmpPath, serialized);
+  fs.renameSync(tmpPath, script.path);
+  script.dirty = false;
+}
+
+export function formatReplayActionLine(action: SessionAction): string {
+  const parts: string[] = [action.command];
+  if (action.command === 'snapshot') {
+    if (action.flags?.snapshotInteractiveOnly) parts.push('-i');
+    if (action.flags?.snapshotCompact) parts.push('-c');
+    if (typeof action.flags?.snapshotDepth === 'number') {
+      parts.push('-d', String(action.flags.snapshotDepth));
+    }
+    if (action.flags?.snapshotScope) {
+      parts.push('-s', formatScriptArg(action.flags.snapshotScope));
+    }
+    if (action.flags?.snapshotRaw) parts.push('--raw');
+    return parts.join(' ');
+  }
+  if (action.command === 'open') {
+    for (const positional of action.positionals ?? []) {
+      parts.push(formatScriptArg(positional));
+    }
+    if (action.flags?.relaunch) {
+      parts.push('--relaunch');
+    }
+    return parts.join(' ');
+  }
+  for (const positional of action.positionals ?? []) {
+    parts.push(formatScriptArg(positional));
+  }
+  appendScriptSeriesFlags(parts, action);
+  return parts.join(' ');
+}
+
+export function tokenizeReplayLine(line: string): string[] {
+  const tokens: string[] = [];
+  let cursor = 0;
+  while (cursor < line.length) {
+    while (cursor < line.length && /\s/.test(line[cursor])) {
+      cursor += 1;
+    }
+    if (cursor >= line.length) break;
+    if (line[cursor] === '"') {
+      let end = cursor + 1;
+      let escaped = false;
+      while (end < line.length) {
+        const char = line[end];
+        if (char === '"' && !escaped) break;
+        escaped = char === '\\' && !escaped;
+        if (char !== '\\') escaped = false;
+        end += 1;
+      }
+      if (end >= line.length) {
+        throw new AppError('INVALID_ARGS', `Invalid replay script line: ${line}`);
+      }
+      const literal = line.slice(cursor, end + 1);
+      tokens.push(JSON.parse(literal) as string);
+      cursor = end + 1;
+      continue;
+    }
+    let end = cursor;
+    while (end < line.length && !/\s/.test(line[end])) {
+      end += 1;
+    }
+    tokens.push(line.slice(cursor, end));
+    cursor = end;
+  }
+  return tokens;
+}
+
+function appendStepLines(lines: string[], steps: ReplayScriptStep[]): void {
+  for (const step of steps) {
+    lines.push(step.text);
+    if (step.kind === 'if') {
+      appendStepLines(lines, step.body);
+      if (step.elseBody) {
+        lines.push(step.elseText ?? 'else');
+        appendStepLines(lines, step.elseBody);
+      }
+      lines.push(step.endText);
+    } else if (step.kind === 'repeat') {
+      appendStepLines(lines, step.body);
+      lines.push(step.endText);
+    }
+  }
+}
+
+function walkSteps(steps: ReplayScriptStep[], visit: (step: ReplayScriptStep) => void): void {
+  for (const step of steps) {
+    visit(step);
+    if (step.kind === 'if') {
+      walkSteps(step.body, visit);
+      if (step.elseBody) walkSteps(step.elseBody, visit);
+    } else if (step.kind === 'repeat') {
+      walkSteps(step.body, visit);
+    }
+  }
+}
+
+function replayScriptError(filePath: string, lineNumber: number, message: string): AppError {
+  return new AppError('INVALID_ARGS', `Invalid replay script ${filePath}:${lineNumber}: ${message}`);
+}
+
+function expandReplayGlob(pattern: string): string[] {
+  const segments = pattern.split(path.sep);
+  const firstGlob = segments.findIndex((segment) => /[*?]/.test(segment));
+  const baseDir = segments.slice(0, firstGlob).join(path.sep) || path.sep;
+  if (!isDirectory(baseDir)) return [];
+  const source = segments
+    .slice(firstGlob)
+    .join('/')
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*\*\//g, '\u0000')
+    .replace(/\*\*/g, '\u0001')
+    .replace(/\*/g, '[^/]*')
+    .replace(/\?/g, '[^/]')
+    .replace(/\u0001/g, '.*')
+    .replace(/\u0000/g, '(?:.*/)?');
+  const matcher = new RegExp(`^${source}$`);
+  return listSuiteScripts(baseDir, (relativePath) => matcher.test(relativePath));
+}
+
+function listSuiteScripts(dir: string, include: (relativePath: string) => boolean): string[] {
+  return fs
+    .readdirSync(dir, { recursive: true, encoding: 'utf8' })
+    .map((entry) => entry.split(path.sep).join('/'))
+    .filter((entry) => entry.endsWith('.ad') && !path.posix.basename(entry).startsWith('_') && include(entry))
+    .sort()
+    .map((entry) => path.join(dir, entry));
+}
+
+function isDirectory(filePath: string): boolean {
+  try {
+    return fs.statSync(filePath).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+function resolveIncludePath(includePath: string, baseDir: string): string {
+  if (includePath.startsWith('~/')) return path.join(os.homedir(), includePath.slice(2));
+  return path.resolve(baseDir, includePath);
+}
+
+function isNumericToken(token: string | undefined): token is string {
+  if (!token) return false;
+  return !Number.isNaN(Number(token));
+}
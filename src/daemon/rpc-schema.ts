@@ -0,0 +1,555 @@
+import { ERROR_CODES } from '../utils/errors.ts';
+import {
+  buildCommandFlagSchemas,
+  getCliCommandNames,
+  getCommandSchema,
+  type JsonSchema,
+} from '../utils/command-schema.ts';
+import { DAEMON_EVENT_TYPES } from './events.ts';
+import { LEASE_BACKENDS, LEASE_PRIORITIES } from './lease-registry.ts';
+
+/** CLI commands that run in the client process and never reach the daemon. */
+const CLIENT_ONLY_COMMANDS = new Set(['mcp', 'schema']);
+/** CLI commands the client sends under a different daemon command name. */
+const DAEMON_COMMAND_NAMES: Record<string, string> = { session: 'session_list' };
+/** Batch steps are read by the client (`--steps`, `--steps-file`) and sent as `flags.batchSteps`. */
+const CLIENT_ONLY_COMMAND_FLAGS: Record<string, readonly string[]> = { batch: ['steps', 'stepsFile'] };
+
+const LEASE_RPC_METHODS = [
+  'agent_device.lease.allocate',
+  'agent_device.lease.heartbeat',
+  'agent_device.lease.release',
+  'agent_device.lease.queue',
+  'agent_device.lease.list',
+  'agent_device.lease.show',
+];
+
+const RPC_DESCRIPTION =
+  'JSON-RPC 2.0 over HTTP. Success carries a DaemonResponse in `result`, failure a DaemonError in `error.data`.';
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+
+const POINT_RESULT: JsonSchema = {
+  type: 'object',
+  properties: {
+    x: { type: 'number' },
+    y: { type: 'number' },
+    ref: { type: 'string' },
+    selector: { type: 'string' },
+  },
+};
+
+/** Documented `data` shapes; commands without an entry return a free-form object. */
+const COMMAND_RESULT_SCHEMAS: Record<string, JsonSchema> = {
+  open: {
+    type: 'object',
+    required: ['session'],
+    properties: {
+      session: { type: 'string' },
+      appName: { type: 'string' },
+      appBundleId: { type: 'string' },
+      startup: {
+        type: 'object',
+        properties: {
+          durationMs: { type: 'number' },
+          measuredAt: { type: 'string' },
+          method: { type: 'string' },
+          appTarget: { type: 'string' },
+          appBundleId: { type: 'string' },
+        },
+      },
+    },
+  },
+  close: { type: 'object', properties: { session: { type: 'string' } } },
+  snapshot: {
+    type: 'object',
+    required: ['nodes', 'truncated'],
+    properties: {
+      nodes: { type: 'array', items: ref('SnapshotNode') },
+      truncated: { type: 'boolean' },
+      appName: { type: 'string' },
+      appBundleId: { type: 'string' },
+    },
+  },
+  devices: {
+    type: 'object',
+    required: ['devices'],
+    properties: { devices: { type: 'array', items: ref('Device') } },
+  },
+  session_list: {
+    type: 'object',
+    required: ['sessions'],
+    properties: {
+      sessions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['name', 'platform', 'device', 'id', 'createdAt'],
+          properties: {
+            name: { type: 'string' },
+            platform: { type: 'string' },
+            target: { type: 'string', enum: ['mobile', 'tv'] },
+            device: { type: 'string' },
+            id: { type: 'string' },
+            createdAt: { type: 'number' },
+          },
+        },
+      },
+    },
+  },
+  press: POINT_RESULT,
+  click: POINT_RESULT,
+  fill: {
+    ...POINT_RESULT,
+    properties: {
+      ...(POINT_RESULT.properties as Record<string, JsonSchema>),
+      text: { type: 'string' },
+      warning: { type: 'string' },
+    },
+  },
+  get: {
+    type: 'object',
+    properties: { ref: { type: 'string' }, text: { type: 'string' }, node: ref('SnapshotNode') },
+  },
+  is: {
+    type: 'object',
+    required: ['predicate', 'pass'],
+    properties: {
+      predicate: { type: 'string' },
+      pass: { const: true },
+      selector: { type: 'string' },
+      matches: { type: 'integer' },
+    },
+  },
+  wait: {
+    type: 'object',
+    properties: {
+      waitedMs: { type: 'number' },
+      text: { type: 'string' },
+      selector: { type: 'string' },
+      stable: { type: 'boolean' },
+      snapshots: { type: 'integer' },
+      predicate: { type: 'string' },
+      target: { type: 'string' },
+      pass: { type: 'boolean' },
+      matches: { type: 'integer' },
+    },
+  },
+  screenshot: { type: 'object', required: ['path'], properties: { path: { type: 'string' } } },
+  replay: {
+    type: 'object',
+    required: ['replayed', 'healed', 'session'],
+    properties: {
+      replayed: { type: 'integer' },
+      healed: { type: 'integer' },
+      session: { type: 'string' },
+      report: { type: 'string' },
+      scripts: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['path', 'status', 'replayed', 'healed', 'durationMs'],
+          properties: {
+            path: { type: 'string' },
+            status: { type: 'string', enum: ['passed', 'failed'] },
+            replayed: { type: 'integer' },
+            healed: { type: 'integer' },
+            durationMs: { type: 'number' },
+            error: { type: 'string' },
+          },
+        },
+      },
+    },
+  },
+  batch: {
+    type: 'object',
+    required: ['total', 'executed', 'totalDurationMs', 'results'],
+    properties: {
+      total: { type: 'integer' },
+      executed: { type: 'integer' },
+      totalDurationMs: { type: 'number' },
+      results: { type: 'array', items: { type: 'object' } },
+    },
+  },
+};
+
+const BATCH_STEPS_SCHEMA: JsonSchema = {
+  type: 'array',
+  minItems: 1,
+  items: {
+    type: 'object',
+    required: ['command'],
+    properties: {
+      command: { type: 'string' },
+      positionals: { type: 'array', items: { type: 'string' } },
+      flags: { type: 'object' },
+    },
+    additionalProperties: false,
+  },
+  description: 'Steps to run in order (the CLI reads them from --steps or --steps-file)',
+};
+
+const SNAPSHOT_NODE_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['ref', 'index'],
+  properties: {
+    ref: { type: 'string', description: 'Reference usable as @ref in later commands' },
+    index: { type: 'integer' },
+    type: { type: 'string' },
+    label: { type: 'string' },
+    value: { type: 'string' },
+    identifier: { type: 'string' },
+    rect: {
+      type: 'object',
+      required: ['x', 'y', 'width', 'height'],
+      properties: {
+        x: { type: 'number' },
+        y: { type: 'number' },
+        width: { type: 'number' },
+        height: { type: 'number' },
+      },
+    },
+    enabled: { type: 'boolean' },
+    selected: { type: 'boolean' },
+    hittable: { type: 'boolean' },
+    checked: { type: 'boolean' },
+    focused: { type: 'boolean' },
+    scrollable: { type: 'boolean' },
+    secure: { type: 'boolean' },
+    className: { type: 'string' },
+    package: { type: 'string' },
+    depth: { type: 'integer' },
+    parentIndex: { type: 'integer' },
+  },
+};
+
+const DEVICE_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['platform', 'id', 'name', 'kind'],
+  properties: {
+    platform: { type: 'string' },
+    id: { type: 'string' },
+    name: { type: 'string' },
+    kind: { type: 'string', enum: ['simulator', 'emulator', 'device'] },
+    target: { type: 'string', enum: ['mobile', 'tv'] },
+    osVersion: { type: 'string' },
+    booted: { type: 'boolean' },
+  },
+};
+
+const LEASE_CONSTRAINTS_SCHEMA = {
+  type: 'object',
+  properties: {
+    platform: { type: 'string', enum: ['ios', 'android'] },
+    target: { type: 'string', enum: ['mobile', 'tv'] },
+    osVersion: { type: 'string', description: 'Version prefix (17, 17.4) or minimum (>=14)' },
+    name: { type: 'string', description: 'Case-insensitive device name; * matches any characters' },
+  },
+  additionalProperties: false,
+} satisfies JsonSchema;
+
+const REQUEST_META_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    requestId: { type: 'string' },
+    debug: { type: 'boolean' },
+    cwd: { type: 'string', description: 'Directory relative paths in positionals and flags resolve against' },
+    tenantId: { type: 'string' },
+    runId: { type: 'string' },
+    leaseId: { type: 'string' },
+    leaseTtlMs: { type: 'integer' },
+    leaseBackend: { type: 'string', enum: [...LEASE_BACKENDS] },
+    leaseConstraints: LEASE_CONSTRAINTS_SCHEMA,
+    leaseWaitMs: { type: 'integer', minimum: 0 },
+    leasePriority: { type: 'string', enum: [...LEASE_PRIORITIES] },
+    sessionIsolation: { type: 'string', enum: ['none', 'tenant'] },
+    env: {
+      type: 'object',
+      additionalProperties: { type: 'string' },
+      description: 'Client environment values referenced by the request (for example ${env.NAME} in replay scripts)',
+    },
+  },
+  additionalProperties: false,
+};
+
+const DAEMON_ERROR_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['code', 'message'],
+  properties: {
+    code: ref('ErrorCode'),
+    message: { type: 'string' },
+    hint: { type: 'string' },
+    diagnosticId: { type: 'string' },
+    logPath: { type: 'string' },
+    details: { type: 'object' },
+  },
+};
+
+const LEASE_PARAMS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    token: { type: 'string' },
+    session: { type: 'string' },
+    tenantId: { type: 'string' },
+    runId: { type: 'string' },
+    leaseId: { type: 'string' },
+    ttlMs: { type: 'integer' },
+    backend: { type: 'string', enum: [...LEASE_BACKENDS] },
+    ...LEASE_CONSTRAINTS_SCHEMA.properties,
+    waitMs: { type: 'integer', minimum: 0, description: 'Queue for a free device or capacity for up to this long' },
+    priority: {
+      type: 'string',
+      enum: [...LEASE_PRIORITIES],
+      description: 'Queue class; higher classes are served first',
+    },
+    at: { type: 'string', description: 'lease.list: leases held at this ISO time (or HH:MM today)' },
+    device: { type: 'string', description: 'lease.list: only leases that used this device name or id' },
+  },
+};
+
+export type DaemonCommandDescription = {
+  /** Value of `command` in daemon requests. */
+  name: string;
+  /** CLI command it backs, when the names differ. */
+  cliName?: string;
+  description: string;
+  positionals: string[];
+  params: JsonSchema;
+  result?: JsonSchema;
+};
+
+function toDaemonCommandName(cliName: string): string {
+  return DAEMON_COMMAND_NAMES[cliName] ?? cliName;
+}
+
+/** Commands a client may send as `command`, with the exact request params and result data they use. */
+export function listDaemonCommands(): DaemonCommandDescription[] {
+  return getCliCommandNames()
+    .filter((cliName) => !CLIENT_ONLY_COMMANDS.has(cliName))
+    .map((cliName) => {
+      const schema = getCommandSchema(cliName)!;
+      const name = toDaemonCommandName(cliName);
+      // session_list takes no positionals; `list` is the CLI subcommand it was selected by.
+      const positionalArgs = name === cliName ? schema.positionalArgs : [];
+      const flags = buildCommandFlagSchemas(cliName);
+      for (const key of CLIENT_ONLY_COMMAND_FLAGS[cliName] ?? []) delete flags[key];
+      if (cliName === 'batch') flags.batchSteps = BATCH_STEPS_SCHEMA;
+      const requiredArgs = positionalArgs.filter((arg) => !arg.endsWith('?')).length;
+      const params: JsonSchema = {
+        type: 'object',
+        required: ['command'],
+        properties: {
+          token: { type: 'string' },
+          session: { type: 'string', default: 'default' },
+          command: { const: name },
+          positionals: {
+            type: 'array',
+            items: { type: 'string' },
+            minItems: requiredArgs,
+            ...(schema.allowsExtraPositionals ? {} : { maxItems: positionalArgs.length }),
+            description: positionalArgs.length > 0 ? `In order: ${positionalArgs.join(' ')}` : 'Must be empty',
+          },
+          flags: { type: 'object', properties: flags, additionalProperties: false },
+          meta: ref('DaemonRequestMeta'),
+        },
+      };
+      return {
+        name,
+        ...(name === cliName ? {} : { cliName }),
+        description: schema.description,
+        positionals: [...positionalArgs],
+        params,
+        ...(COMMAND_RESULT_SCHEMAS[name] ? { result: COMMAND_RESULT_SCHEMAS[name] } : {}),
+      };
+    });
+}
+
+/**
+ * OpenAPI 3.1 document for the daemon HTTP surface (`/rpc`, `/events`, `/schema`, `/health`).
+ * Per-command params and results are components named `<command>.params` and `<command>.result`.
+ */
+export function buildDaemonRpcSchema(version: string): JsonSchema {
+  const commands = listDaemonCommands();
+  const schemas: Record<string, JsonSchema> = {
+    ErrorCode: { type: 'string', enum: [...ERROR_CODES] },
+    DaemonError: DAEMON_ERROR_SCHEMA,
+    DaemonRequestMeta: REQUEST_META_SCHEMA,
+    DaemonResponse: {
+      oneOf: [
+        {
+          type: 'object',
+          required: ['ok'],
+          properties: { ok: { const: true }, data: { type: 'object' } },
+        },
+        {
+          type: 'object',
+          required: ['ok', 'error'],
+          properties: { ok: { const: false }, error: ref('DaemonError') },
+        },
+      ],
+    },
+    SnapshotNode: SNAPSHOT_NODE_SCHEMA,
+    Device: DEVICE_SCHEMA,
+    LeaseParams: LEASE_PARAMS_SCHEMA,
+    DaemonEvent: {
+      type: 'object',
+      required: ['id', 'type', 'ts', 'data'],
+      properties: {
+        id: { type: 'integer' },
+        type: { type: 'string', enum: [...DAEMON_EVENT_TYPES] },
+        ts: { type: 'string', format: 'date-time' },
+        session: { type: 'string' },
+        tenantId: { type: 'string' },
+        data: { type: 'object' },
+      },
+    },
+  };
+  for (const command of commands) {
+    schemas[`${command.name}.params`] = command.params;
+    if (command.result) schemas[`${command.name}.result`] = command.result;
+  }
+  schemas.CommandParams = {
+    oneOf: commands.map((command) => ref(`${command.name}.params`)),
+    discriminator: {
+      propertyName: 'command',
+      mapping: Object.fromEntries(
+        commands.map((command) => [command.name, `#/components/schemas/${command.name}.params`]),
+      ),
+    },
+  };
+  schemas.JsonRpcRequest = {
+    oneOf: [
+      {
+        type: 'object',
+        required: ['jsonrpc', 'method', 'params'],
+        properties: {
+          jsonrpc: { const: '2.0' },
+          id: { type: ['string', 'integer', 'null'] },
+          method: { const: 'agent_device.command' },
+          params: ref('CommandParams'),
+        },
+      },
+      {
+        type: 'object',
+        required: ['jsonrpc', 'method', 'params'],
+        properties: {
+          jsonrpc: { const: '2.0' },
+          id: { type: ['string', 'integer', 'null'] },
+          method: { type: 'string', enum: LEASE_RPC_METHODS },
+          params: ref('LeaseParams'),
+        },
+      },
+    ],
+  };
+  schemas.JsonRpcError = {
+    type: 'object',
+    required: ['jsonrpc', 'id', 'error'],
+    properties: {
+      jsonrpc: { const: '2.0' },
+      id: { type: ['string', 'integer', 'null'] },
+      error: {
+        type: 'object',
+        required: ['code', 'message'],
+        properties: { code: { type: 'integer' }, message: { type: 'string' }, data: ref('DaemonError') },
+      },
+    },
+  };
+
+  const jsonError = { content: { 'application/json': { schema: ref('JsonRpcError') } } };
+  return {
+    openapi: '3.1.0',
+    jsonSchemaDialect: 'https://json-schema.org/draft/2020-12/schema',
+    info: {
+      title: 'agent-device daemon',
+      version,
+      description: RPC_DESCRIPTION,
+    },
+    paths: {
+      '/rpc': {
+        post: {
+          operationId: 'rpc',
+          requestBody: { required: true, content: { 'application/json': { schema: ref('JsonRpcRequest') } } },
+          responses: {
+            200: {
+              description: 'Command succeeded',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    required: ['jsonrpc', 'id', 'result'],
+                    properties: {
+                      jsonrpc: { const: '2.0' },
+                      id: { type: ['string', 'integer', 'null'] },
+                      result: ref('DaemonResponse'),
+                    },
+                  },
+                },
+              },
+            },
+            400: { description: 'Invalid request or arguments (INVALID_ARGS)', ...jsonError },
+            401: { description: 'Missing or invalid token (UNAUTHORIZED)', ...jsonError },
+            404: { description: 'Unknown method or session (SESSION_NOT_FOUND)', ...jsonError },
+            500: { description: 'Any other error code', ...jsonError },
+          },
+        },
+      },
+      '/events': {
+        get: {
+          operationId: 'events',
+          parameters: [
+            { name: 'token', in: 'query', schema: { type: 'string' } },
+            { name: 'session', in: 'query', schema: { type: 'string' } },
+            { name: 'tenant', in: 'query', schema: { type: 'string' } },
+            {
+              name: 'types',
+              in: 'query',
+              description: 'Comma separated event types',
+              schema: { type: 'string' },
+            },
+          ],
+          responses: {
+            200: {
+              description: 'Server-sent events; each data line is a DaemonEvent',
+              content: { 'text/event-stream': { schema: ref('DaemonEvent') } },
+            },
+            400: { description: 'Unknown event type', ...jsonError },
+            401: { description: 'Missing or invalid token', ...jsonError },
+          },
+        },
+      },
+      '/schema': {
+        get: {
+          operationId: 'schema',
+          responses: { 200: { description: 'This document', content: { 'application/json': {} } } },
+        },
+      },
+      '/health': {
+        get: {
+          operationId: 'health',
+          responses: {
+            200: {
+              description: 'Daemon is up',
+              content: {
+                'application/json': {
+                  schema: { type: 'object', properties: { ok: { const: true } } },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    components: { schemas },
+    'x-agent-device': {
+      errorCodes: [...ERROR_CODES],
+      commands: commands.map((command) => ({
+        name: command.name,
+        ...(command.cliName ? { cliName: command.cliName } : {}),
+        description: command.description,
+        positionals: command.positionals,
+        params: `#/components/schemas/${command.name}.params`,
+        ...(command.result ? { result: `#/components/schemas/${command.name}.result` } : {}),
+      })),
+    },
+  };
+}
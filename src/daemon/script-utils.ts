@@ -14,6 +14,36 @@ const SWIPE_NUMERIC_FLAG_MAP = new Map<string, 'count' | 'pauseMs'>([
   ['--pause-ms', 'pauseMs'],
 ]);
 
+const DRAG_NUMERIC_FLAG_MAP = new Map<string, 'count' | 'pauseMs' | 'holdMs'>([
+  ['--count', 'count'],
+  ['--pause-ms', 'pauseMs'],
+  ['--hold-ms', 'holdMs'],
+]);
+
+const PERF_NUMERIC_FLAG_MAP = new Map<string, 'intervalMs'>([['--interval-ms', 'intervalMs']]);
+
+const WAIT_NUMERIC_FLAG_MAP = new Map<string, 'pollMs'>([['--poll-ms', 'pollMs']]);
+
+const SCROLL_INTO_VIEW_NUMERIC_FLAG_MAP = new Map<string, 'scrollMaxSwipes'>([['--max-swipes', 'scrollMaxSwipes']]);
+
+const SCREENSHOT_STRING_FLAG_MAP = new Map<string, 'screenshotCompare' | 'screenshotThreshold' | 'screenshotDiffOut'>([
+  ['--compare', 'screenshotCompare'],
+  ['--threshold', 'screenshotThreshold'],
+  ['--diff-out', 'screenshotDiffOut'],
+]);
+
+const NETWORK_MOCK_NUMERIC_FLAG_MAP = new Map<string, 'mockStatus' | 'mockDelayMs' | 'mockThrottleKbps'>([
+  ['--status', 'mockStatus'],
+  ['--delay-ms', 'mockDelayMs'],
+  ['--throttle-kbps', 'mockThrottleKbps'],
+]);
+
+const NETWORK_MOCK_STRING_FLAG_MAP = new Map<string, 'mockMethod' | 'mockBody' | 'mockBodyFile'>([
+  ['--method', 'mockMethod'],
+  ['--body', 'mockBody'],
+  ['--body-file', 'mockBodyFile'],
+]);
+
 export function isClickLikeCommand(command: string): command is 'click' | 'press' {
   return command === 'click' || command === 'press';
 }
@@ -40,12 +70,55 @@ export function appendScriptSeriesFlags(parts: string[], action: Pick<SessionAct
     if (flags.doubleTap === true) parts.push('--double-tap');
     return;
   }
+  if (action.command === 'screenshot' || action.command === 'diff') {
+    if (flags.screenshotCompare) parts.push('--compare', formatScriptArg(flags.screenshotCompare));
+    if (flags.screenshotThreshold) parts.push('--threshold', formatScriptArg(flags.screenshotThreshold));
+    for (const region of flags.screenshotIgnore ?? []) parts.push('--ignore', formatScriptArg(region));
+    if (flags.screenshotDiffOut) parts.push('--diff-out', formatScriptArg(flags.screenshotDiffOut));
+    return;
+  }
+  if (action.command === 'perf') {
+    if (typeof flags.intervalMs === 'number') parts.push('--interval-ms', String(flags.intervalMs));
+    return;
+  }
+  if (action.command === 'wait') {
+    if (typeof flags.pollMs === 'number') parts.push('--poll-ms', String(flags.pollMs));
+    return;
+  }
+  if (action.command === 'network') {
+    if (flags.mockMethod) parts.push('--method', formatScriptArg(flags.mockMethod));
+    if (typeof flags.mockStatus === 'number') parts.push('--status', String(flags.mockStatus));
+    for (const header of flags.mockHeader ?? []) parts.push('--header', formatScriptArg(header));
+    if (flags.mockBody !== undefined) parts.push('--body', JSON.stringify(flags.mockBody));
+    if (flags.mockBodyFile) parts.push('--body-file', formatScriptArg(flags.mockBodyFile));
+    if (typeof flags.mockDelayMs === 'number') parts.push('--delay-ms', String(flags.mockDelayMs));
+    if (typeof flags.mockThrottleKbps === 'number') parts.push('--throttle-kbps', String(flags.mockThrottleKbps));
+    if (flags.mockOffline === true) parts.push('--offline');
+    return;
+  }
+  if (action.command === 'scrollintoview') {
+    if (flags.scrollContainer) parts.push('--container', formatScriptArg(flags.scrollContainer));
+    if (flags.scrollDirection) parts.push('--direction', flags.scrollDirection);
+    if (typeof flags.scrollMaxSwipes === 'number') parts.push('--max-swipes', String(flags.scrollMaxSwipes));
+    return;
+  }
   if (action.command === 'swipe') {
     if (typeof flags.count === 'number') parts.push('--count', String(flags.count));
     if (typeof flags.pauseMs === 'number') parts.push('--pause-ms', String(flags.pauseMs));
     if (flags.pattern === 'one-way' || flags.pattern === 'ping-pong') {
       parts.push('--pattern', flags.pattern);
     }
+    return;
+  }
+  if (action.command === 'drag') {
+    for (const point of flags.dragVia ?? []) parts.push('--via', formatScriptArg(point));
+    if (typeof flags.holdMs === 'number') parts.push('--hold-ms', String(flags.holdMs));
+    if (flags.dragProfile) parts.push('--profile', flags.dragProfile);
+    if (typeof flags.count === 'number') parts.push('--count', String(flags.count));
+    if (typeof flags.pauseMs === 'number') parts.push('--pause-ms', String(flags.pauseMs));
+    if (flags.pattern === 'one-way' || flags.pattern === 'ping-pong') {
+      parts.push('--pattern', flags.pattern);
+    }
   }
 }
 
@@ -57,7 +130,17 @@ export function parseReplaySeriesFlags(command: string, args: string[]): { posit
     ? CLICK_LIKE_NUMERIC_FLAG_MAP
     : command === 'swipe'
       ? SWIPE_NUMERIC_FLAG_MAP
-      : undefined;
+      : command === 'drag'
+        ? DRAG_NUMERIC_FLAG_MAP
+        : command === 'perf'
+          ? PERF_NUMERIC_FLAG_MAP
+          : command === 'network'
+            ? NETWORK_MOCK_NUMERIC_FLAG_MAP
+            : command === 'wait'
+              ? WAIT_NUMERIC_FLAG_MAP
+              : command === 'scrollintoview'
+                ? SCROLL_INTO_VIEW_NUMERIC_FLAG_MAP
+                : undefined;
 
   for (let index = 0; index < args.length; index += 1) {
     const token = args[index];
@@ -77,7 +160,68 @@ export function parseReplaySeriesFlags(command: string, args: string[]): { posit
       continue;
     }
 
-    if (command === 'swipe' && token === '--pattern' && index + 1 < args.length) {
+    const screenshotKey = SCREENSHOT_STRING_FLAG_MAP.get(token);
+    if ((command === 'screenshot' || command === 'diff') && screenshotKey && index + 1 < args.length) {
+      flags[screenshotKey] = args[index + 1];
+      index += 1;
+      continue;
+    }
+
+    if ((command === 'screenshot' || command === 'diff') && token === '--ignore' && index + 1 < args.length) {
+      flags.screenshotIgnore = [...(flags.screenshotIgnore ?? []), args[index + 1]];
+      index += 1;
+      continue;
+    }
+
+    const mockKey = NETWORK_MOCK_STRING_FLAG_MAP.get(token);
+    if (command === 'network' && mockKey && index + 1 < args.length) {
+      flags[mockKey] = args[index + 1];
+      index += 1;
+      continue;
+    }
+
+    if (command === 'network' && token === '--header' && index + 1 < args.length) {
+      flags.mockHeader = [...(flags.mockHeader ?? []), args[index + 1]];
+      index += 1;
+      continue;
+    }
+
+    if (command === 'network' && token === '--offline') {
+      flags.mockOffline = true;
+      continue;
+    }
+
+    if (command === 'scrollintoview' && token === '--container' && index + 1 < args.length) {
+      flags.scrollContainer = args[index + 1];
+      index += 1;
+      continue;
+    }
+
+    if (command === 'scrollintoview' && token === '--direction' && index + 1 < args.length) {
+      const direction = args[index + 1];
+      if (direction === 'down' || direction === 'up' || direction === 'left' || direction === 'right') {
+        flags.scrollDirection = direction;
+      }
+      index += 1;
+      continue;
+    }
+
+    if (command === 'drag' && token === '--via' && index + 1 < args.length) {
+      flags.dragVia = [...(flags.dragVia ?? []), args[index + 1]];
+      index += 1;
+      continue;
+    }
+
+    if (command === 'drag' && token === '--profile' && index + 1 < args.length) {
+      const profile = args[index + 1];
+      if (profile === 'linear' || profile === 'ease-in' || profile === 'ease-out' || profile === 'ease-in-out') {
+        flags.dragProfile = profile;
+      }
+      index += 1;
+      continue;
+    }
+
+    if ((command === 'swipe' || command === 'drag') && token === '--pattern' && index + 1 < args.length) {
       const pattern = args[index + 1];
       if (pattern === 'one-way' || pattern === 'ping-pong') {
         flags.pattern = pattern;
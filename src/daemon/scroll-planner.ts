@@ -1,5 +1,7 @@
 import { centerOfRect, type RawSnapshotNode, type Rect } from '../utils/snapshot.ts';
 
+export type ScrollDirection = 'down' | 'up' | 'left' | 'right';
+
 type ScrollIntoViewPlan = {
   x: number;
   startY: number;
@@ -81,6 +83,47 @@ export function buildScrollIntoViewPlan(targetRect: Rect, viewportRect: Rect): S
   };
 }
 
+/** Default area to scroll when no container is given: the largest scrollable node, else the largest window. */
+export function resolveScrollAreaRect(nodes: RawSnapshotNode[]): Rect | null {
+  const rectNodes = nodes.filter((node) => hasValidRect(node.rect) && node.rect.width > 0 && node.rect.height > 0);
+  const scrollable = pickLargestRect(rectNodes.filter((node) => node.scrollable).map((node) => node.rect as Rect));
+  if (scrollable) return scrollable;
+  const windows = rectNodes.filter((node) => {
+    const type = (node.type ?? '').toLowerCase();
+    return type.includes('application') || type.includes('window');
+  });
+  return (
+    pickLargestRect(windows.map((node) => node.rect as Rect)) ??
+    pickLargestRect(rectNodes.map((node) => node.rect as Rect))
+  );
+}
+
+/** One swipe that scrolls the content of `areaRect` in `direction`; `down` drags upwards to reveal content below. */
+export function buildScrollSwipe(
+  areaRect: Rect,
+  direction: ScrollDirection,
+): { x1: number; y1: number; x2: number; y2: number } {
+  const centerX = Math.round(areaRect.x + areaRect.width / 2);
+  const centerY = Math.round(areaRect.y + areaRect.height / 2);
+  const near = (start: number, size: number) => Math.round(start + size * 0.14);
+  const far = (start: number, size: number) => Math.round(start + size * 0.86);
+  switch (direction) {
+    case 'down':
+      return { x1: centerX, y1: far(areaRect.y, areaRect.height), x2: centerX, y2: near(areaRect.y, areaRect.height) };
+    case 'up':
+      return { x1: centerX, y1: near(areaRect.y, areaRect.height), x2: centerX, y2: far(areaRect.y, areaRect.height) };
+    case 'right':
+      return { x1: far(areaRect.x, areaRect.width), y1: centerY, x2: near(areaRect.x, areaRect.width), y2: centerY };
+    case 'left':
+      return { x1: near(areaRect.x, areaRect.width), y1: centerY, x2: far(areaRect.x, areaRect.width), y2: centerY };
+  }
+}
+
+export function isRectCenterWithin(targetRect: Rect, areaRect: Rect): boolean {
+  const { x, y } = centerOfRect(targetRect);
+  return containsPoint(areaRect, x, y);
+}
+
 export function isRectWithinSafeViewportBand(targetRect: Rect, viewportRect: Rect): boolean {
   const viewportHeight = Math.max(1, viewportRect.height);
   const viewportTop = viewportRect.y;
@@ -1,5 +1,6 @@
 import { AppError } from '../utils/errors.ts';
 import type { SnapshotNode, SnapshotState } from '../utils/snapshot.ts';
+import type { Platform } from '../utils/device.ts';
 import { extractNodeText, isFillableType, normalizeType } from './snapshot-processing.ts';
 import { uniqueStrings } from './action-utils.ts';
 
@@ -9,12 +10,18 @@ type SelectorKey =
   | 'text'
   | 'label'
   | 'value'
+  | 'class'
+  | 'package'
   | 'visible'
   | 'hidden'
   | 'editable'
   | 'selected'
   | 'enabled'
-  | 'hittable';
+  | 'hittable'
+  | 'checked'
+  | 'focused'
+  | 'scrollable'
+  | 'secure';
 
 type SelectorTerm = {
   key: SelectorKey;
@@ -44,7 +51,7 @@ type SelectorResolution = {
   diagnostics: SelectorDiagnostics[];
 };
 
-const TEXT_KEYS = new Set<SelectorKey>(['id', 'role', 'text', 'label', 'value']);
+const TEXT_KEYS = new Set<SelectorKey>(['id', 'role', 'text', 'label', 'value', 'class', 'package']);
 const BOOLEAN_KEYS = new Set<SelectorKey>([
   'visible',
   'hidden',
@@ -52,6 +59,10 @@ const BOOLEAN_KEYS = new Set<SelectorKey>([
   'selected',
   'enabled',
   'hittable',
+  'checked',
+  'focused',
+  'scrollable',
+  'secure',
 ]);
 const ALL_KEYS = new Set<SelectorKey>([...TEXT_KEYS, ...BOOLEAN_KEYS]);
 
@@ -82,7 +93,7 @@ export function resolveSelectorChain(
   nodes: SnapshotState['nodes'],
   chain: SelectorChain,
   options: {
-    platform: 'ios' | 'android';
+    platform: Platform;
     requireRect?: boolean;
     requireUnique?: boolean;
     disambiguateAmbiguous?: boolean;
@@ -127,7 +138,7 @@ export function findSelectorChainMatch(
   nodes: SnapshotState['nodes'],
   chain: SelectorChain,
   options: {
-    platform: 'ios' | 'android';
+    platform: Platform;
     requireRect?: boolean;
   },
 ): { selectorIndex: number; selector: Selector; matches: number; diagnostics: SelectorDiagnostics[] } | null {
@@ -147,6 +158,24 @@ export function findSelectorChainMatch(
   return null;
 }
 
+/** All nodes matched by the first selector in the chain that matches anything. */
+export function findSelectorChainNodes(
+  nodes: SnapshotState['nodes'],
+  chain: SelectorChain,
+  options: {
+    platform: Platform;
+    requireRect?: boolean;
+  },
+): SnapshotNode[] {
+  for (const selector of chain.selectors) {
+    const matches = nodes.filter(
+      (node) => (!options.requireRect || node.rect) && matchesSelector(node, selector, options.platform),
+    );
+    if (matches.length > 0) return matches;
+  }
+  return [];
+}
+
 export function formatSelectorFailure(
   chain: SelectorChain,
   diagnostics: SelectorDiagnostics[],
@@ -226,14 +255,14 @@ export function isNodeVisible(node: SnapshotNode): boolean {
   return node.rect.width > 0 && node.rect.height > 0;
 }
 
-export function isNodeEditable(node: SnapshotNode, platform: 'ios' | 'android'): boolean {
+export function isNodeEditable(node: SnapshotNode, platform: Platform): boolean {
   const type = node.type ?? '';
   return isFillableType(type, platform) && node.enabled !== false;
 }
 
 export function buildSelectorChainForNode(
   node: SnapshotNode,
-  _platform: 'ios' | 'android',
+  _platform: Platform,
   options: { action?: 'click' | 'fill' | 'get' } = {},
 ): string[] {
   const chain: string[] = [];
@@ -320,11 +349,11 @@ function parseTerm(token: string): SelectorTerm {
   return { key: keyRaw, value: unquote(valueRaw) };
 }
 
-function matchesSelector(node: SnapshotNode, selector: Selector, platform: 'ios' | 'android'): boolean {
+function matchesSelector(node: SnapshotNode, selector: Selector, platform: Platform): boolean {
   return selector.terms.every((term) => matchesTerm(node, term, platform));
 }
 
-function matchesTerm(node: SnapshotNode, term: SelectorTerm, platform: 'ios' | 'android'): boolean {
+function matchesTerm(node: SnapshotNode, term: SelectorTerm, platform: Platform): boolean {
   switch (term.key) {
     case 'id':
       return textEquals(node.identifier, String(term.value));
@@ -350,6 +379,18 @@ function matchesTerm(node: SnapshotNode, term: SelectorTerm, platform: 'ios' | '
       return Boolean(node.enabled !== false) === Boolean(term.value);
     case 'hittable':
       return Boolean(node.hittable === true) === Boolean(term.value);
+    case 'checked':
+      return Boolean(node.checked === true) === Boolean(term.value);
+    case 'focused':
+      return Boolean(node.focused === true) === Boolean(term.value);
+    case 'scrollable':
+      return Boolean(node.scrollable === true) === Boolean(term.value);
+    case 'secure':
+      return Boolean(node.secure === true) === Boolean(term.value);
+    case 'class':
+      return classNameEquals(node.className, String(term.value));
+    case 'package':
+      return textEquals(node.package, String(term.value));
     default:
       return false;
   }
@@ -442,6 +483,13 @@ function textEquals(value: string | undefined, query: string): boolean {
   return normalizeText(value ?? '') === normalizeText(query);
 }
 
+/** `class=Switch` matches `android.widget.Switch`; a dotted query must match the full class name. */
+function classNameEquals(value: string | undefined, query: string): boolean {
+  if (!value) return false;
+  if (query.includes('.')) return textEquals(value, query);
+  return textEquals(value.split('.').pop(), query);
+}
+
 function roleEquals(value: string | undefined, query: string): boolean {
   return normalizeRole(value ?? '') === normalizeRole(query);
 }
@@ -468,7 +516,7 @@ function normalizeSelectorText(value: string | undefined): string | null {
 function analyzeSelectorMatches(
   nodes: SnapshotState['nodes'],
   selector: Selector,
-  options: { platform: 'ios' | 'android'; requireRect: boolean },
+  options: { platform: Platform; requireRect: boolean },
 ): { count: number; firstNode: SnapshotNode | null; disambiguated: SnapshotNode | null } {
   let count = 0;
   let firstNode: SnapshotNode | null = null;
@@ -505,7 +553,7 @@ function analyzeSelectorMatches(
 function countSelectorMatchesOnly(
   nodes: SnapshotState['nodes'],
   selector: Selector,
-  options: { platform: 'ios' | 'android'; requireRect: boolean },
+  options: { platform: Platform; requireRect: boolean },
 ): number {
   let count = 0;
   for (const node of nodes) {
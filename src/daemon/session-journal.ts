@@ -0,0 +1,217 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { DeviceInfo, Platform } from '../utils/device.ts';
+import { findPlatformBackend } from '../core/platform-backends.ts';
+import type { DeviceProxyRestoreState } from './network-proxy.ts';
+import type { SessionState } from './types.ts';
+
+const SESSION_JOURNAL_FILE = 'session.json';
+const SESSION_JOURNAL_VERSION = 1;
+
+type JournaledSession = Omit<SessionState, 'recording' | 'appLog' | 'perf' | 'networkCapture'> & {
+  recording?: { platform: string; outPath: string };
+  appLog?: {
+    platform: Platform;
+    backend: string;
+    outPath: string;
+    startedAt: number;
+  };
+  perf?: { outPath: string; startedAt: number; active: boolean };
+  networkCapture?: { port: number; harPath: string; startedAt: number; restoreState?: DeviceProxyRestoreState };
+};
+
+type SessionJournal = {
+  version: number;
+  updatedAt: number;
+  session: JournaledSession;
+};
+
+export type StaleSessionReference = {
+  session: string;
+  kind: 'device' | 'app_log' | 'recording' | 'perf' | 'network_capture' | 'journal';
+  reason: string;
+  path?: string;
+};
+
+/** Device or host proxy settings a capture left behind when the daemon stopped without restoring them. */
+export type PendingProxyRestore = { session: string; harPath: string; state: DeviceProxyRestoreState };
+
+export type SessionRestoreReport = {
+  restored: string[];
+  stale: StaleSessionReference[];
+};
+
+export function resolveSessionJournalPath(sessionsDir: string, safeSessionName: string): string {
+  return path.join(sessionsDir, safeSessionName, SESSION_JOURNAL_FILE);
+}
+
+export function writeSessionJournal(journalPath: string, session: SessionState): void {
+  const dir = path.dirname(journalPath);
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+  const payload: SessionJournal = {
+    version: SESSION_JOURNAL_VERSION,
+    updatedAt: Date.now(),
+    session: toJournaledSession(session),
+  };
+  // Write-then-rename keeps the previous journal intact if the daemon dies mid-write.
+  const tmpPath = `${journalPath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(payload));
+  fs.renameSync(tmpPath, journalPath);
+}
+
+export function removeSessionJournal(journalPath: string): void {
+  if (!fs.existsSync(journalPath)) return;
+  try {
+    fs.unlinkSync(journalPath);
+  } catch {
+    // best-effort cleanup
+  }
+}
+
+/** Moves a journal aside so stale sessions stay inspectable without being restored again. */
+export function retireSessionJournal(journalPath: string): string | undefined {
+  if (!fs.existsSync(journalPath)) return undefined;
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const retiredPath = journalPath.replace(/\.json$/, `.stale-${timestamp}.json`);
+  try {
+    fs.renameSync(journalPath, retiredPath);
+    return retiredPath;
+  } catch {
+    return undefined;
+  }
+}
+
+export function readSessionJournals(sessionsDir: string): {
+  sessions: Array<{ session: SessionState; journalPath: string }>;
+  stale: StaleSessionReference[];
+  proxyRestores: PendingProxyRestore[];
+} {
+  const sessions: Array<{ session: SessionState; journalPath: string }> = [];
+  const stale: StaleSessionReference[] = [];
+  const proxyRestores: PendingProxyRestore[] = [];
+  if (!fs.existsSync(sessionsDir)) return { sessions, stale, proxyRestores };
+  const entries = fs.readdirSync(sessionsDir, { withFileTypes: true });
+  for (const entry of entries) {
+    if (!entry.isDirectory()) continue;
+    const journalPath = path.join(sessionsDir, entry.name, SESSION_JOURNAL_FILE);
+    if (!fs.existsSync(journalPath)) continue;
+    let journal: SessionJournal | null = null;
+    try {
+      journal = parseSessionJournal(fs.readFileSync(journalPath, 'utf8'));
+    } catch {
+      journal = null;
+    }
+    if (!journal) {
+      stale.push({
+        session: entry.name,
+        kind: 'journal',
+        reason: 'Session journal is unreadable or has an unsupported format.',
+        path: retireSessionJournal(journalPath) ?? journalPath,
+      });
+      continue;
+    }
+    const { session, references } = fromJournaledSession(journal.session);
+    stale.push(...references);
+    sessions.push({ session, journalPath });
+    const capture = journal.session.networkCapture;
+    if (capture?.restoreState) {
+      proxyRestores.push({ session: session.name, harPath: capture.harPath, state: capture.restoreState });
+    }
+  }
+  return { sessions, stale, proxyRestores };
+}
+
+export async function isJournaledDevicePresent(device: DeviceInfo): Promise<boolean | null> {
+  const backend = findPlatformBackend(device.platform);
+  if (!backend) return false;
+  try {
+    const devices = await backend.listDevices(
+      device.simulatorSetPath ? { iosSimulatorDeviceSet: device.simulatorSetPath } : {},
+    );
+    return devices.some((candidate) => candidate.id === device.id);
+  } catch {
+    // Discovery tooling unavailable; the device cannot be confirmed stale.
+    return null;
+  }
+}
+
+function parseSessionJournal(raw: string): SessionJournal | null {
+  const parsed = JSON.parse(raw) as SessionJournal;
+  if (!parsed || parsed.version !== SESSION_JOURNAL_VERSION) return null;
+  const session = parsed.session;
+  if (!session || typeof session.name !== 'string' || session.name.length === 0) return null;
+  if (!session.device || typeof session.device.id !== 'string') return null;
+  if (typeof session.device.platform !== 'string') return null;
+  if (!Array.isArray(session.actions)) return null;
+  return parsed;
+}
+
+function toJournaledSession(session: SessionState): JournaledSession {
+  const { recording, appLog, perf, networkCapture, ...rest } = session;
+  return {
+    ...rest,
+    recording: recording ? { platform: recording.platform, outPath: recording.outPath } : undefined,
+    appLog: appLog
+      ? {
+        platform: appLog.platform,
+        backend: appLog.backend,
+        outPath: appLog.outPath,
+        startedAt: appLog.startedAt,
+      }
+      : undefined,
+    perf: perf ? { outPath: perf.outPath, startedAt: perf.startedAt, active: Boolean(perf.sampler) } : undefined,
+    networkCapture: networkCapture
+      ? {
+        port: networkCapture.port,
+        harPath: networkCapture.harPath,
+        startedAt: networkCapture.startedAt,
+        restoreState: networkCapture.restoreState,
+      }
+      : undefined,
+  };
+}
+
+function fromJournaledSession(journaled: JournaledSession): {
+  session: SessionState;
+  references: StaleSessionReference[];
+} {
+  const { recording, appLog, perf, networkCapture, ...rest } = journaled;
+  const references: StaleSessionReference[] = [];
+  // Recorder and log-stream processes do not survive a daemon restart; report them and drop the handles.
+  if (recording) {
+    references.push({
+      session: journaled.name,
+      kind: 'recording',
+      reason: 'Recording was interrupted by a daemon restart. Run record start again.',
+      path: recording.outPath,
+    });
+  }
+  if (appLog) {
+    references.push({
+      session: journaled.name,
+      kind: 'app_log',
+      reason: fs.existsSync(appLog.outPath)
+        ? 'App log stream stopped on daemon restart; existing log file kept. Run logs start to resume.'
+        : 'App log stream stopped on daemon restart and its log file is missing. Run logs start to resume.',
+      path: appLog.outPath,
+    });
+  }
+  if (perf?.active) {
+    references.push({
+      session: journaled.name,
+      kind: 'perf',
+      reason: 'Perf sampling was interrupted by a daemon restart; unsaved samples were lost. Run perf start again.',
+      path: perf.outPath,
+    });
+  }
+  // Captures with a journaled restore state are undone by the daemon on start and reported there instead.
+  if (networkCapture && !networkCapture.restoreState) {
+    references.push({
+      session: journaled.name,
+      kind: 'network_capture',
+      reason: `Network capture proxy on port ${networkCapture.port} stopped on daemon restart; the device may still use it. Run network capture start and then stop to reset the device proxy.`,
+      path: networkCapture.harPath,
+    });
+  }
+  return { session: rest, references };
+}
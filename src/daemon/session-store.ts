@@ -6,13 +6,34 @@ import type { SessionAction, SessionState } from './types.ts';
 import { inferFillText } from './action-utils.ts';
 import { appendScriptSeriesFlags, formatScriptArg, isClickLikeCommand } from './script-utils.ts';
 import { emitDiagnostic } from '../utils/diagnostics.ts';
+import type { DeviceInfo } from '../utils/device.ts';
+import {
+  isJournaledDevicePresent,
+  readSessionJournals,
+  removeSessionJournal,
+  resolveSessionJournalPath,
+  retireSessionJournal,
+  writeSessionJournal,
+  type PendingProxyRestore,
+  type SessionRestoreReport,
+} from './session-journal.ts';
+import { restoreDeviceProxy, type DeviceProxyRestoreState } from './network-proxy.ts';
+
+type SessionStoreOptions = {
+  /** Journal sessions to `<sessionsDir>/<session>/session.json` so they survive daemon restarts. */
+  persist?: boolean;
+};
 
 export class SessionStore {
   private readonly sessions = new Map<string, SessionState>();
   private readonly sessionsDir: string;
+  private readonly persistEnabled: boolean;
+  private restoreReport: SessionRestoreReport = { restored: [], stale: [] };
+  private pendingProxyRestores: PendingProxyRestore[] = [];
 
-  constructor(sessionsDir: string) {
+  constructor(sessionsDir: string, options: SessionStoreOptions = {}) {
     this.sessionsDir = sessionsDir;
+    this.persistEnabled = options.persist === true;
   }
 
   get(name: string): SessionState | undefined {
@@ -25,9 +46,13 @@ export class SessionStore {
 
   set(name: string, session: SessionState): void {
     this.sessions.set(name, session);
+    this.persist(name);
   }
 
   delete(name: string): boolean {
+    if (this.persistEnabled) {
+      removeSessionJournal(this.resolveJournalPath(name));
+    }
     return this.sessions.delete(name);
   }
 
@@ -72,6 +97,97 @@ export class SessionStore {
     });
   }
 
+  /** Writes the current state of a session to its journal. Safe to call after in-place mutations. */
+  persist(name: string): void {
+    if (!this.persistEnabled) return;
+    const session = this.sessions.get(name);
+    if (!session) return;
+    try {
+      writeSessionJournal(this.resolveJournalPath(name), session);
+    } catch (error) {
+      emitDiagnostic({
+        level: 'warn',
+        phase: 'session_persist_failed',
+        data: {
+          session: name,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  }
+
+  /**
+   * Loads journaled sessions from a previous daemon run. Process-bound references (recordings,
+   * app-log streams) cannot be resumed and are reported as stale.
+   */
+  restore(): SessionRestoreReport {
+    const report: SessionRestoreReport = { restored: [], stale: [] };
+    if (!this.persistEnabled) return report;
+    const { sessions, stale, proxyRestores } = readSessionJournals(this.sessionsDir);
+    report.stale.push(...stale);
+    this.pendingProxyRestores = proxyRestores;
+    for (const { session } of sessions) {
+      if (this.sessions.has(session.name)) continue;
+      this.sessions.set(session.name, session);
+      this.persist(session.name);
+      report.restored.push(session.name);
+    }
+    this.restoreReport = report;
+    return report;
+  }
+
+  /** Drops restored sessions whose device is no longer available; their journals are kept aside. */
+  async validateRestoredSessions(
+    isDevicePresent: (device: DeviceInfo) => Promise<boolean | null> = isJournaledDevicePresent,
+  ): Promise<SessionRestoreReport> {
+    const restored: string[] = [];
+    for (const name of this.restoreReport.restored) {
+      const session = this.sessions.get(name);
+      if (!session) continue;
+      const present = await isDevicePresent(session.device);
+      if (present !== false) {
+        restored.push(name);
+        continue;
+      }
+      this.sessions.delete(name);
+      const retiredPath = retireSessionJournal(this.resolveJournalPath(name));
+      this.restoreReport.stale.push({
+        session: name,
+        kind: 'device',
+        reason: `Device ${session.device.name} (${session.device.id}) is no longer available.`,
+        path: retiredPath,
+      });
+    }
+    this.restoreReport.restored = restored;
+    return this.getRestoreReport();
+  }
+
+  /** Undoes device proxy settings that captures of the previous daemon run left in place. */
+  async restoreStaleDeviceProxies(
+    restore: (state: DeviceProxyRestoreState) => Promise<void> = restoreDeviceProxy,
+  ): Promise<SessionRestoreReport> {
+    const pending = this.pendingProxyRestores;
+    this.pendingProxyRestores = [];
+    for (const { session, harPath, state } of pending) {
+      let reason = 'Network capture stopped on daemon restart; the device proxy settings were restored.';
+      try {
+        await restore(state);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        reason = `Network capture stopped on daemon restart and restoring the device proxy failed: ${message}`;
+      }
+      this.restoreReport.stale.push({ session, kind: 'network_capture', reason, path: harPath });
+    }
+    return this.getRestoreReport();
+  }
+
+  getRestoreReport(): SessionRestoreReport {
+    return {
+      restored: [...this.restoreReport.restored],
+      stale: [...this.restoreReport.stale],
+    };
+  }
+
   writeSessionLog(session: SessionState): void {
     try {
       if (!session.recordSession) return;
@@ -96,6 +212,26 @@ export class SessionStore {
     return path.join(this.sessionsDir, SessionStore.safeSessionName(sessionName), 'app.log');
   }
 
+  /** Command output kept in the session directory, such as the `diff screenshot` baseline or `perf` series. */
+  resolveSessionOutputPath(sessionName: string, fileName: string): string {
+    return path.join(this.sessionsDir, SessionStore.safeSessionName(sessionName), fileName);
+  }
+
+  /** HAR written by `network capture`; `network dump` prefers it over the app log. */
+  resolveNetworkHarPath(sessionName: string): string {
+    return this.resolveSessionOutputPath(sessionName, 'network.har');
+  }
+
+  /** Capture CA shared by all sessions, so it only has to be trusted once per device. */
+  resolveNetworkCaDir(): string {
+    return path.join(path.dirname(this.sessionsDir), 'network-ca');
+  }
+
+  /** Previous host proxy settings while a `--host-proxy` capture runs; shared because the host is. */
+  resolveNetworkHostProxyMarkerPath(): string {
+    return path.join(path.dirname(this.sessionsDir), 'network-host-proxy.json');
+  }
+
   resolveAppLogPidPath(sessionName: string): string {
     return path.join(this.sessionsDir, SessionStore.safeSessionName(sessionName), 'app-log.pid');
   }
@@ -114,6 +250,10 @@ export class SessionStore {
     return path.resolve(filePath);
   }
 
+  private resolveJournalPath(sessionName: string): string {
+    return resolveSessionJournalPath(this.sessionsDir, SessionStore.safeSessionName(sessionName));
+  }
+
   private resolveScriptPath(session: SessionState): string {
     if (session.saveScriptPath) {
       return SessionStore.expandHome(session.saveScriptPath);
@@ -215,6 +355,11 @@ function sanitizeFlags(flags: CommandFlags | undefined): SessionAction['flags']
     doubleTap,
     pauseMs,
     pattern,
+    scrollContainer,
+    scrollDirection,
+    scrollMaxSwipes,
+    dragVia,
+    dragProfile,
   } = flags;
   return {
     platform,
@@ -238,6 +383,11 @@ function sanitizeFlags(flags: CommandFlags | undefined): SessionAction['flags']
     doubleTap,
     pauseMs,
     pattern,
+    scrollContainer,
+    scrollDirection,
+    scrollMaxSwipes,
+    dragVia,
+    dragProfile,
   };
 }
 
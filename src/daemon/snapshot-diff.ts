@@ -32,8 +32,9 @@ function snapshotNodeToComparableLine(node: SnapshotNode, depthOverride?: number
   const enabledPart = node.enabled === false ? 'disabled' : 'enabled';
   const selectedPart = node.selected === true ? 'selected' : 'unselected';
   const hittablePart = node.hittable === true ? 'hittable' : 'not-hittable';
+  const checkedPart = node.checked === undefined ? '' : node.checked ? 'checked' : 'unchecked';
   const depthPart = String(depthOverride ?? node.depth ?? 0);
-  return [depthPart, role, textPart, enabledPart, selectedPart, hittablePart].join('|');
+  return [depthPart, role, textPart, enabledPart, selectedPart, hittablePart, checkedPart].join('|');
 }
 
 export function buildSnapshotDiff(
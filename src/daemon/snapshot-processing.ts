@@ -1,4 +1,5 @@
 import type { RawSnapshotNode, SnapshotState } from '../utils/snapshot.ts';
+import type { Platform } from '../utils/device.ts';
 
 export function findNodeByLabel(nodes: SnapshotState['nodes'], label: string) {
   const query = label.toLowerCase();
@@ -86,7 +87,7 @@ export function normalizeType(type: string): string {
   return value;
 }
 
-export function isFillableType(type: string, platform: 'ios' | 'android'): boolean {
+export function isFillableType(type: string, platform: Platform): boolean {
   const normalized = normalizeType(type);
   if (!normalized) return true;
   if (platform === 'android') {
@@ -0,0 +1,375 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { AppError, asAppError } from '../utils/errors.ts';
+import type { SnapshotNode } from '../utils/snapshot.ts';
+import { buildSnapshotDisplayLines } from '../utils/snapshot-lines.ts';
+import { buildSnapshotDiff } from './snapshot-diff.ts';
+import { formatReplayActionLine } from './replay-script.ts';
+import type { DaemonRequest, DaemonResponse, SessionAction, SessionState } from './types.ts';
+
+const TRACE_BUNDLE_VERSION = 1;
+const MANIFEST_FILE = 'trace.json';
+const STEPS_FILE = 'steps.ndjson';
+const MAX_RESPONSE_CHARS = 20_000;
+const MAX_APP_LOG_SLICE_BYTES = 256 * 1024;
+
+export type TraceBundleManifest = {
+  version: number;
+  session: string;
+  device: { platform: string; id: string; name: string; kind: string };
+  appBundleId?: string;
+  startedAt: number;
+  stoppedAt?: number;
+  screenshots: boolean;
+};
+
+/** One dispatched command; file fields are paths relative to the bundle directory. */
+export type TraceStep = {
+  seq: number;
+  command: string;
+  positionals: string[];
+  flags: Record<string, unknown>;
+  startedAt: number;
+  durationMs: number;
+  ok: boolean;
+  response: unknown;
+  preSnapshot?: string;
+  postSnapshot?: string;
+  screenshot?: string;
+  appLog?: string;
+  captureErrors?: string[];
+};
+
+export type TraceCapture = {
+  snapshot: () => Promise<SnapshotNode[]>;
+  screenshot: (outPath: string) => Promise<void>;
+};
+
+// Commands that do not change the UI; tracing them records request and response only.
+const NO_SNAPSHOT_COMMANDS = new Set([
+  'snapshot',
+  'screenshot',
+  'diff',
+  'get',
+  'is',
+  'logs',
+  'network',
+  'perf',
+  'metrics',
+  'record',
+  'appstate',
+  'apps',
+  'clipboard',
+  'session_list',
+  'batch',
+  'replay',
+]);
+const UNTRACED_COMMANDS = new Set(['trace', 'devices', 'lease_allocate', 'lease_heartbeat', 'lease_release']);
+// Diagnostics and wrappers stay out of `replay.ad`; batch and replay steps are traced one by one already.
+const NOT_REPLAYED_COMMANDS = new Set([
+  'logs',
+  'network',
+  'perf',
+  'metrics',
+  'record',
+  'appstate',
+  'apps',
+  'clipboard',
+  'session_list',
+  'batch',
+  'replay',
+]);
+
+export function startTraceBundle(dir: string, session: SessionState, options: { screenshots: boolean }): void {
+  fs.mkdirSync(path.join(dir, 'steps'), { recursive: true });
+  const manifest: TraceBundleManifest = {
+    version: TRACE_BUNDLE_VERSION,
+    session: session.name,
+    device: {
+      platform: session.device.platform,
+      id: session.device.id,
+      name: session.device.name,
+      kind: session.device.kind,
+    },
+    appBundleId: session.appBundleId,
+    startedAt: Date.now(),
+    screenshots: options.screenshots,
+  };
+  fs.writeFileSync(path.join(dir, MANIFEST_FILE), `${JSON.stringify(manifest, null, 2)}\n`);
+  fs.writeFileSync(path.join(dir, STEPS_FILE), '');
+}
+
+/** Marks the bundle stopped and writes `replay.ad` from the traced steps so the run can be replayed. */
+export function finishTraceBundle(dir: string): { steps: number; replayPath: string } {
+  const { manifest, steps } = readTraceBundle(dir);
+  manifest.stoppedAt = Date.now();
+  fs.writeFileSync(path.join(dir, MANIFEST_FILE), `${JSON.stringify(manifest, null, 2)}\n`);
+  const deviceLabel = manifest.device.name.replace(/"/g, '\\"');
+  const lines = [`context platform=${manifest.device.platform} device="${deviceLabel}" kind=${manifest.device.kind}`];
+  for (const step of steps) {
+    if (!step.ok || NOT_REPLAYED_COMMANDS.has(step.command) || step.flags.noRecord) continue;
+    const action: SessionAction = {
+      ts: step.startedAt,
+      command: step.command,
+      positionals: step.positionals,
+      flags: step.flags as SessionAction['flags'],
+    };
+    lines.push(formatReplayActionLine(action));
+  }
+  const replayPath = path.join(dir, 'replay.ad');
+  fs.writeFileSync(replayPath, `${lines.join('\n')}\n`);
+  return { steps: steps.length, replayPath };
+}
+
+export function isTracedCommand(command: string): boolean {
+  return !UNTRACED_COMMANDS.has(command);
+}
+
+/**
+ * Runs one request and appends it to the bundle with pre/post snapshots, an optional screenshot and the app
+ * log lines written meanwhile. Capture failures are recorded on the step and never fail the request.
+ */
+export async function traceRequest(params: {
+  dir: string;
+  seq: number;
+  req: DaemonRequest;
+  screenshots: boolean;
+  appLogPath?: string;
+  capture: TraceCapture;
+  run: () => Promise<DaemonResponse>;
+}): Promise<DaemonResponse> {
+  const { dir, seq, req, capture } = params;
+  const prefix = `steps/${String(seq).padStart(4, '0')}`;
+  const captureErrors: string[] = [];
+  const withSnapshots = !NO_SNAPSHOT_COMMANDS.has(req.command);
+  const captureSnapshot = async (suffix: string): Promise<string | undefined> => {
+    if (!withSnapshots) return undefined;
+    try {
+      const nodes = await capture.snapshot();
+      const file = `${prefix}-${suffix}.json`;
+      fs.writeFileSync(path.join(dir, file), JSON.stringify(nodes));
+      return file;
+    } catch (error) {
+      captureErrors.push(`${suffix} snapshot: ${errorMessage(error)}`);
+      return undefined;
+    }
+  };
+
+  const appLogStart = fileSize(params.appLogPath);
+  const preSnapshot = await captureSnapshot('pre');
+  const startedAt = Date.now();
+  let response: DaemonResponse;
+  let thrown: unknown;
+  try {
+    response = await params.run();
+  } catch (error) {
+    thrown = error;
+    const appError = asAppError(error);
+    response = { ok: false, error: { code: appError.code, message: appError.message } };
+  }
+  const durationMs = Date.now() - startedAt;
+  const postSnapshot = await captureSnapshot('post');
+  let screenshot: string | undefined;
+  if (params.screenshots && withSnapshots) {
+    try {
+      await capture.screenshot(path.join(dir, `${prefix}.png`));
+      screenshot = `${prefix}.png`;
+    } catch (error) {
+      captureErrors.push(`screenshot: ${errorMessage(error)}`);
+    }
+  }
+  const appLog = writeAppLogSlice(params.appLogPath, appLogStart, path.join(dir, `${prefix}-app.log`))
+    ? `${prefix}-app.log`
+    : undefined;
+
+  const step: TraceStep = {
+    seq,
+    command: req.command,
+    positionals: req.positionals ?? [],
+    flags: { ...(req.flags ?? {}) },
+    startedAt,
+    durationMs,
+    ok: response.ok,
+    response: response.ok ? truncateForTrace(response.data ?? {}) : response.error,
+    preSnapshot,
+    postSnapshot,
+    screenshot,
+    appLog,
+    captureErrors: captureErrors.length > 0 ? captureErrors : undefined,
+  };
+  fs.appendFileSync(path.join(dir, STEPS_FILE), `${JSON.stringify(step)}\n`);
+  if (thrown !== undefined) throw thrown;
+  return response;
+}
+
+export function readTraceBundle(dir: string): { manifest: TraceBundleManifest; steps: TraceStep[] } {
+  const manifestPath = path.join(dir, MANIFEST_FILE);
+  if (!fs.existsSync(manifestPath)) {
+    throw new AppError('INVALID_ARGS', `Not a trace bundle (missing ${MANIFEST_FILE}): ${dir}`);
+  }
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8')) as TraceBundleManifest;
+  const stepsPath = path.join(dir, STEPS_FILE);
+  const raw = fs.existsSync(stepsPath) ? fs.readFileSync(stepsPath, 'utf8') : '';
+  const steps: TraceStep[] = [];
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      steps.push(JSON.parse(line) as TraceStep);
+    } catch {
+      // a daemon crash can leave a partial last line
+    }
+  }
+  // Wrapper steps (batch, replay) finish after the steps they ran; list them in start order.
+  steps.sort((left, right) => left.seq - right.seq);
+  return { manifest, steps };
+}
+
+/** Writes `index.html`, a static timeline that loads screenshots relative to the bundle directory. */
+export function writeTraceBundleHtml(dir: string): string {
+  const { manifest, steps } = readTraceBundle(dir);
+  const htmlPath = path.join(dir, 'index.html');
+  fs.writeFileSync(htmlPath, renderTraceBundleHtml(dir, manifest, steps));
+  return htmlPath;
+}
+
+function renderTraceBundleHtml(dir: string, manifest: TraceBundleManifest, steps: TraceStep[]): string {
+  const failed = steps.filter((step) => !step.ok).length;
+  const title = `Trace ${manifest.session} on ${manifest.device.name}`;
+  const summary = [
+    `${steps.length} step${steps.length === 1 ? '' : 's'}`,
+    failed > 0 ? `${failed} failed` : 'all passed',
+    `started ${new Date(manifest.startedAt).toISOString()}`,
+    manifest.stoppedAt ? `stopped ${new Date(manifest.stoppedAt).toISOString()}` : 'still recording',
+  ].join(' · ');
+  const body = steps.map((step) => renderStep(dir, step)).join('\n');
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font: 14px/1.4 -apple-system, system-ui, sans-serif; margin: 24px; color: #1d1d1f; }
+details { border: 1px solid #d2d2d7; border-radius: 6px; margin: 8px 0; padding: 6px 10px; }
+details.failed { border-color: #d70015; }
+summary { cursor: pointer; }
+summary .ms { color: #6e6e73; }
+.error { color: #d70015; }
+.columns { display: flex; gap: 16px; align-items: flex-start; flex-wrap: wrap; }
+.columns > div { flex: 1 1 320px; min-width: 0; }
+pre { background: #f5f5f7; padding: 8px; overflow: auto; max-height: 360px; font-size: 12px; }
+.added { color: #1a7f37; }
+.removed { color: #d70015; }
+img { max-width: 320px; border: 1px solid #d2d2d7; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p>${escapeHtml(summary)}</p>
+${body}
+</body>
+</html>
+`;
+}
+
+function renderStep(dir: string, step: TraceStep): string {
+  const args = [step.command, ...step.positionals].join(' ');
+  const status = step.ok ? '' : ' <span class="error">failed</span>';
+  const pre = readSnapshotFile(dir, step.preSnapshot);
+  const post = readSnapshotFile(dir, step.postSnapshot);
+  const request = JSON.stringify({ positionals: step.positionals, flags: step.flags }, null, 2);
+  const sections = [
+    `<div><h4>Request</h4><pre>${escapeHtml(request)}</pre></div>`,
+    `<div><h4>Response</h4><pre>${escapeHtml(JSON.stringify(step.response, null, 2))}</pre></div>`,
+  ];
+  if (pre && post) {
+    const diff = buildSnapshotDiff(pre, post);
+    const lines = diff.lines.map((line) => {
+      if (line.kind === 'unchanged') return escapeHtml(`  ${line.text}`);
+      const marker = line.kind === 'added' ? '+' : '-';
+      return `<span class="${line.kind}">${escapeHtml(`${marker} ${line.text}`)}</span>`;
+    });
+    const counts = `+${diff.summary.additions} -${diff.summary.removals}`;
+    sections.push(`<div><h4>Snapshot diff (${counts})</h4><pre>${lines.join('\n')}</pre></div>`);
+  } else if (post ?? pre) {
+    const lines = buildSnapshotDisplayLines(post ?? pre ?? []).map((line) => escapeHtml(line.text));
+    sections.push(`<div><h4>Snapshot</h4><pre>${lines.join('\n')}</pre></div>`);
+  }
+  if (step.screenshot) {
+    sections.push(`<div><h4>Screenshot</h4><img src="${escapeHtml(step.screenshot)}" alt="step ${step.seq}"></div>`);
+  }
+  if (step.appLog) {
+    const log = readTextFile(dir, step.appLog);
+    sections.push(`<div><h4>App log</h4><pre>${escapeHtml(log)}</pre></div>`);
+  }
+  if (step.captureErrors) {
+    sections.push(`<div><h4>Capture errors</h4><pre>${escapeHtml(step.captureErrors.join('\n'))}</pre></div>`);
+  }
+  const time = new Date(step.startedAt).toISOString().slice(11, 23);
+  const duration = `<span class="ms">${step.durationMs}ms</span>`;
+  return `<details class="${step.ok ? 'ok' : 'failed'}"${step.ok ? '' : ' open'}>
+<summary>#${step.seq} ${escapeHtml(time)} <code>${escapeHtml(args)}</code> ${duration}${status}</summary>
+<div class="columns">
+${sections.join('\n')}
+</div>
+</details>`;
+}
+
+function readSnapshotFile(dir: string, file: string | undefined): SnapshotNode[] | undefined {
+  if (!file) return undefined;
+  try {
+    return JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8')) as SnapshotNode[];
+  } catch {
+    return undefined;
+  }
+}
+
+function readTextFile(dir: string, file: string): string {
+  try {
+    return fs.readFileSync(path.join(dir, file), 'utf8');
+  } catch {
+    return '';
+  }
+}
+
+function fileSize(filePath: string | undefined): number | undefined {
+  if (!filePath) return undefined;
+  try {
+    return fs.statSync(filePath).size;
+  } catch {
+    return undefined;
+  }
+}
+
+function writeAppLogSlice(appLogPath: string | undefined, start: number | undefined, outPath: string): boolean {
+  const end = fileSize(appLogPath);
+  // A rotated log shrinks; skip the slice rather than guess which file holds it.
+  if (!appLogPath || start === undefined || end === undefined || end <= start) return false;
+  const from = Math.max(start, end - MAX_APP_LOG_SLICE_BYTES);
+  const buffer = Buffer.alloc(end - from);
+  const fd = fs.openSync(appLogPath, 'r');
+  try {
+    fs.readSync(fd, buffer, 0, buffer.length, from);
+  } finally {
+    fs.closeSync(fd);
+  }
+  fs.writeFileSync(outPath, buffer);
+  return true;
+}
+
+function truncateForTrace(data: Record<string, unknown>): unknown {
+  const text = JSON.stringify(data);
+  if (text.length <= MAX_RESPONSE_CHARS) return data;
+  return { truncated: true, preview: text.slice(0, MAX_RESPONSE_CHARS) };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
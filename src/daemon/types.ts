@@ -1,6 +1,12 @@
 import type { CommandFlags } from '../core/dispatch.ts';
+import type { LeaseBackend, LeaseDeviceConstraints, LeasePriority } from './lease-registry.ts';
 import type { DeviceInfo } from '../utils/device.ts';
 import type { ExecResult } from '../utils/exec.ts';
+import type { AppLogResult } from './app-log.ts';
+import type { InterruptionHandler } from './interruption-handlers.ts';
+import type { NetworkMockRule } from './network-mock.ts';
+import type { DeviceProxyRestoreState } from './network-proxy.ts';
+import type { PerfCollector, PerfSample, PerfSampler } from './perf.ts';
 import type { SnapshotState } from '../utils/snapshot.ts';
 
 export type DaemonRequest = {
@@ -17,8 +23,14 @@ export type DaemonRequest = {
     runId?: string;
     leaseId?: string;
     leaseTtlMs?: number;
-    leaseBackend?: 'ios-simulator';
+    leaseBackend?: LeaseBackend;
+    leaseConstraints?: LeaseDeviceConstraints;
+    /** How long `lease_allocate` may queue for a free device or capacity. */
+    leaseWaitMs?: number;
+    leasePriority?: LeasePriority;
     sessionIsolation?: 'none' | 'tenant';
+    /** Client environment values referenced by the request (for example `${env.NAME}` in replay scripts). */
+    env?: Record<string, string>;
   };
 };
 
@@ -43,9 +55,16 @@ export type SessionState = {
   appBundleId?: string;
   appName?: string;
   snapshot?: SnapshotState;
+  /** Last screenshot captured by `diff screenshot`; the next run compares against it. */
+  screenshotBaseline?: string;
+  /** Runner trace log; with `bundleDir` set, `outPath` is the bundle's `runner.log` and every command is traced. */
   trace?: {
     outPath: string;
     startedAt: number;
+    bundleDir?: string;
+    screenshots?: boolean;
+    /** Last issued trace step number. */
+    steps?: number;
   };
   recordSession?: boolean;
   saveScriptPath?: string;
@@ -65,14 +84,46 @@ export type SessionState = {
     };
   /** Session-scoped app log stream; logs written to outPath for agent to grep */
   appLog?: {
-    platform: 'ios' | 'android';
-    backend: 'ios-simulator' | 'ios-device' | 'android';
+    platform: DeviceInfo['platform'];
+    backend: AppLogResult['backend'];
     outPath: string;
     startedAt: number;
     getState: () => 'active' | 'failed';
     stop: () => Promise<void>;
     wait: Promise<ExecResult>;
   };
+  /** Active or last completed `perf start` window; `sampler` is set while sampling. */
+  perf?: {
+    appBundleId: string;
+    method: PerfCollector['method'];
+    unavailable: PerfCollector['unavailable'];
+    intervalMs: number;
+    startedAt: number;
+    stoppedAt?: number;
+    outPath: string;
+    samples: PerfSample[];
+    truncated?: boolean;
+    sampler?: PerfSampler;
+  };
+  /** Active `network capture` proxy; `stop` also restores the device proxy settings. */
+  networkCapture?: {
+    port: number;
+    harPath: string;
+    caPath?: string;
+    startedAt: number;
+    restoreState?: DeviceProxyRestoreState;
+    entryCount: () => number;
+    flush: () => void;
+    stop: () => Promise<void>;
+  };
+  /** `network mock` rules, applied by the capture proxy in the order they were added (latest match wins). */
+  networkMocks?: NetworkMockRule[];
+  /** Last issued mock rule number; ids are not reused after `network mock clear` so HAR entries stay unambiguous. */
+  networkMockSeq?: number;
+  /** `handler add` rules, checked in the order they were added around each interaction. */
+  interruptionHandlers?: InterruptionHandler[];
+  /** Last issued handler number; ids are not reused after `handler clear`. */
+  interruptionHandlerSeq?: number;
 };
 
 export type SessionAction = {
@@ -0,0 +1,366 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import readline from 'node:readline';
+import { AppError, normalizeError, type NormalizedError } from './utils/errors.ts';
+import {
+  buildCommandInputSchema,
+  getCliCommandNames,
+  getCommandSchema,
+  getFlagDefinitionsForKey,
+  listCommandInputFlagKeys,
+  type CliFlags,
+  type FlagDefinition,
+  type FlagKey,
+  type JsonSchema,
+} from './utils/command-schema.ts';
+import { formatScreenshotComparisonText, formatSnapshotDiffText, formatSnapshotText } from './utils/output.ts';
+import { createRequestId, withDiagnosticsScope } from './utils/diagnostics.ts';
+import { readBatchStepsInput } from './core/batch.ts';
+import { readReplayEnv } from './daemon/replay-script.ts';
+import type { sendToDaemon as SendToDaemon, DaemonResponse } from './daemon-client.ts';
+
+type JsonRpcId = string | number | null;
+
+type JsonRpcMessage = {
+  jsonrpc?: string;
+  id?: JsonRpcId;
+  method?: string;
+  params?: unknown;
+};
+
+type JsonRpcResponse = {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+};
+
+export type McpTool = {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema;
+};
+
+export type McpContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string };
+
+export type McpToolResult = {
+  content: McpContent[];
+  isError?: boolean;
+};
+
+export type McpServerOptions = {
+  sendToDaemon: typeof SendToDaemon;
+  /** Flags given to `agent-device mcp`; tool arguments override them per call. */
+  defaults?: Partial<CliFlags>;
+  version?: string;
+  cwd?: string;
+};
+
+const MCP_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+const MCP_EXCLUDED_COMMANDS = new Set(['mcp', 'schema']);
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+const FLAG_TYPE_LABELS: Record<FlagDefinition['type'], string> = {
+  boolean: 'a boolean',
+  int: 'an integer',
+  enum: 'one of its listed values',
+  string: 'a string',
+  booleanOrString: 'a boolean or a string',
+};
+
+export function listMcpTools(): McpTool[] {
+  return getCliCommandNames()
+    .filter((name) => !MCP_EXCLUDED_COMMANDS.has(name))
+    .map((name) => ({
+      name,
+      description: getCommandSchema(name)?.description ?? name,
+      inputSchema: buildCommandInputSchema(name) ?? { type: 'object' },
+    }));
+}
+
+export function createMcpServer(options: McpServerOptions): {
+  handleMessage: (message: JsonRpcMessage) => Promise<JsonRpcResponse | null>;
+} {
+  const cwd = options.cwd ?? process.cwd();
+  const handleMessage = async (message: JsonRpcMessage): Promise<JsonRpcResponse | null> => {
+    const id = message.id ?? null;
+    const isNotification = message.id === undefined;
+    if (message.jsonrpc !== '2.0' || typeof message.method !== 'string') {
+      return isNotification ? null : rpcError(id, -32600, 'Invalid Request');
+    }
+    const params: Record<string, unknown> = message.params && typeof message.params === 'object'
+      ? (message.params as Record<string, unknown>)
+      : {};
+    switch (message.method) {
+      case 'initialize': {
+        const requested = typeof params.protocolVersion === 'string' ? params.protocolVersion : '';
+        return rpcResult(id, {
+          protocolVersion: MCP_PROTOCOL_VERSIONS.includes(requested) ? requested : MCP_PROTOCOL_VERSIONS[0],
+          capabilities: { tools: { listChanged: false } },
+          serverInfo: { name: 'agent-device', version: options.version ?? '0.0.0' },
+        });
+      }
+      case 'ping':
+        return rpcResult(id, {});
+      case 'tools/list':
+        return rpcResult(id, { tools: listMcpTools() });
+      case 'tools/call': {
+        const name = typeof params.name === 'string' ? params.name : '';
+        if (!getCommandSchema(name) || MCP_EXCLUDED_COMMANDS.has(name)) {
+          return rpcError(id, -32602, `Unknown tool: ${name}`);
+        }
+        const result = await callMcpTool(options, cwd, name, params.arguments);
+        return rpcResult(id, result);
+      }
+      default:
+        if (isNotification || message.method.startsWith('notifications/')) return null;
+        return rpcError(id, -32601, `Method not found: ${message.method}`);
+    }
+  };
+  return { handleMessage };
+}
+
+/** Serves MCP over stdio (newline-delimited JSON-RPC) until stdin closes. */
+export async function runMcpServer(options: McpServerOptions): Promise<void> {
+  const server = createMcpServer(options);
+  const input = readline.createInterface({ input: process.stdin, crlfDelay: Infinity });
+  const pending = new Set<Promise<void>>();
+  const write = (response: JsonRpcResponse | null) => {
+    if (response) process.stdout.write(`${JSON.stringify(response)}\n`);
+  };
+  for await (const line of input) {
+    if (line.trim().length === 0) continue;
+    let message: JsonRpcMessage;
+    try {
+      message = JSON.parse(line) as JsonRpcMessage;
+    } catch {
+      write(rpcError(null, -32700, 'Parse error'));
+      continue;
+    }
+    // Calls run concurrently so a long-running tool does not block pings or cancellation notices.
+    const task = server
+      .handleMessage(message)
+      .then(write)
+      .catch((error) => {
+        if (message.id !== undefined) write(rpcError(message.id, -32603, normalizeError(error).message));
+      })
+      .finally(() => {
+        pending.delete(task);
+      });
+    pending.add(task);
+  }
+  await Promise.all(pending);
+}
+
+async function callMcpTool(
+  options: McpServerOptions,
+  cwd: string,
+  name: string,
+  rawArguments: unknown,
+): Promise<McpToolResult> {
+  let request: Parameters<typeof SendToDaemon>[0];
+  try {
+    request = buildToolDaemonRequest(name, rawArguments, options.defaults ?? {}, cwd);
+  } catch (error) {
+    return errorResult(normalizeError(error));
+  }
+  const flags = (request.flags ?? {}) as Partial<CliFlags>;
+  // A scope per call keeps diagnostics from piling up in the long-lived server process.
+  return await withDiagnosticsScope(
+    { session: request.session, requestId: request.meta?.requestId, command: name, debug: flags.verbose },
+    async () => {
+      let response: DaemonResponse;
+      try {
+        response = await options.sendToDaemon(request);
+      } catch (error) {
+        return errorResult(normalizeError(error));
+      }
+      if (!response.ok) return errorResult(response.error);
+      return toToolResult(name, request.positionals, flags, response.data ?? {}, cwd);
+    },
+  );
+}
+
+export function buildToolDaemonRequest(
+  name: string,
+  rawArguments: unknown,
+  defaults: Partial<CliFlags>,
+  cwd: string,
+): Parameters<typeof SendToDaemon>[0] {
+  const schema = getCommandSchema(name);
+  if (!schema) throw new AppError('INVALID_ARGS', `Unknown command: ${name}`);
+  if (rawArguments !== undefined && (typeof rawArguments !== 'object' || rawArguments === null)) {
+    throw new AppError('INVALID_ARGS', 'Tool arguments must be an object.');
+  }
+  const input = (rawArguments ?? {}) as Record<string, unknown>;
+  const allowedKeys = new Set<string>(listCommandInputFlagKeys(name));
+  const toolFlags: Record<string, unknown> = {};
+  let positionals: string[] = [];
+  for (const [key, value] of Object.entries(input)) {
+    if (value === undefined || value === null) continue;
+    if (key === 'args') {
+      positionals = readToolArgs(value);
+      continue;
+    }
+    if (!allowedKeys.has(key)) {
+      throw new AppError('INVALID_ARGS', `Unknown argument for ${name}: ${key}`);
+    }
+    toolFlags[key] = readToolFlag(name, key as FlagKey, value);
+  }
+  const required = schema.positionalArgs.filter((arg) => !arg.endsWith('?')).length;
+  if (positionals.length < required) {
+    throw new AppError('INVALID_ARGS', `${name} requires ${required} positional argument(s) in args.`);
+  }
+  if (!schema.allowsExtraPositionals && positionals.length > schema.positionalArgs.length) {
+    throw new AppError('INVALID_ARGS', `${name} accepts at most ${schema.positionalArgs.length} positional argument(s).`);
+  }
+
+  const flags: Record<string, unknown> = { ...schema.defaults, ...defaults, ...toolFlags };
+  for (const key of ['json', 'help', 'version']) delete flags[key];
+  if (typeof flags.fakeScreenGraph === 'string') {
+    flags.fakeScreenGraph = path.resolve(cwd, flags.fakeScreenGraph);
+  }
+  let command = name;
+  if (name === 'session') {
+    command = 'session_list';
+    positionals = [];
+  }
+  if (name === 'batch') {
+    const stepsFile = typeof flags.stepsFile === 'string' ? path.resolve(cwd, flags.stepsFile) : undefined;
+    flags.batchSteps = readBatchStepsInput({ steps: flags.steps as string | undefined, stepsFile });
+    delete flags.steps;
+    delete flags.stepsFile;
+  }
+  return {
+    session: (flags.session as string | undefined) ?? process.env.AGENT_DEVICE_SESSION ?? 'default',
+    command,
+    positionals,
+    flags: flags as any,
+    meta: {
+      requestId: createRequestId(),
+      debug: Boolean(flags.verbose),
+      cwd,
+      tenantId: flags.tenant as string | undefined,
+      runId: flags.runId as string | undefined,
+      leaseId: flags.leaseId as string | undefined,
+      sessionIsolation: flags.sessionIsolation as 'none' | 'tenant' | undefined,
+      env: command === 'replay' ? readReplayEnv(positionals, cwd) : undefined,
+    },
+  };
+}
+
+function readToolArgs(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values.map((entry) => {
+    if (typeof entry === 'string') return entry;
+    if (typeof entry === 'number' || typeof entry === 'boolean') return String(entry);
+    throw new AppError('INVALID_ARGS', 'args must contain strings or numbers.');
+  });
+}
+
+function readToolFlag(name: string, key: FlagKey, value: unknown): unknown {
+  const definitions = getFlagDefinitionsForKey(key);
+  const base = definitions.find((definition) => definition.setValue === undefined);
+  const label = `${name} ${key}`;
+  if (!base) {
+    const allowed = definitions.map((definition) => String(definition.setValue));
+    if (typeof value === 'string' && allowed.includes(value)) return value;
+    throw new AppError('INVALID_ARGS', `${label} must be one of: ${allowed.join(', ')}`);
+  }
+  return readTypedFlag(base, label, value);
+}
+
+function readTypedFlag(definition: FlagDefinition, label: string, value: unknown): unknown {
+  switch (definition.type) {
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      break;
+    case 'int': {
+      const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof parsed !== 'number' || !Number.isInteger(parsed)) break;
+      if (definition.min !== undefined && parsed < definition.min) break;
+      if (definition.max !== undefined && parsed > definition.max) break;
+      return parsed;
+    }
+    case 'enum':
+      if (typeof value === 'string' && (definition.enumValues ?? []).includes(value)) return value;
+      throw new AppError('INVALID_ARGS', `${label} must be one of: ${(definition.enumValues ?? []).join(', ')}`);
+    case 'booleanOrString':
+      if (typeof value === 'boolean' || typeof value === 'string') return value;
+      break;
+    default:
+      if (definition.repeatable) {
+        const values = Array.isArray(value) ? value : [value];
+        if (values.every((entry) => typeof entry === 'string')) return values;
+        break;
+      }
+      if (typeof value === 'string') return value;
+      if (typeof value === 'number') return String(value);
+  }
+  const range = definition.min !== undefined || definition.max !== undefined
+    ? ` between ${definition.min ?? '-inf'} and ${definition.max ?? 'inf'}`
+    : '';
+  throw new AppError('INVALID_ARGS', `${label} must be ${FLAG_TYPE_LABELS[definition.type]}${range}.`);
+}
+
+function toToolResult(
+  name: string,
+  positionals: string[],
+  flags: Partial<CliFlags>,
+  data: Record<string, unknown>,
+  cwd: string,
+): McpToolResult {
+  const content: McpContent[] = [{ type: 'text', text: formatToolText(name, positionals, flags, data) }];
+  if (name === 'screenshot' || (name === 'diff' && positionals[0] === 'screenshot')) {
+    const image = readPngContent(data.path, cwd);
+    if (image) content.push(image);
+  }
+  return { content };
+}
+
+function formatToolText(
+  name: string,
+  positionals: string[],
+  flags: Partial<CliFlags>,
+  data: Record<string, unknown>,
+): string {
+  if (name === 'snapshot') {
+    return formatSnapshotText(data, { raw: flags.snapshotRaw, flatten: flags.snapshotInteractiveOnly });
+  }
+  if (name === 'diff' && positionals[0] === 'snapshot') return formatSnapshotDiffText(data);
+  if ((name === 'diff' && positionals[0] === 'screenshot') || (name === 'screenshot' && flags.screenshotCompare)) {
+    return formatScreenshotComparisonText(data);
+  }
+  return JSON.stringify(data, null, 2);
+}
+
+function readPngContent(filePath: unknown, cwd: string): McpContent | null {
+  if (typeof filePath !== 'string' || filePath.length === 0) return null;
+  try {
+    const resolved = path.resolve(cwd, filePath);
+    if (fs.statSync(resolved).size > MAX_IMAGE_BYTES) return null;
+    return { type: 'image', data: fs.readFileSync(resolved).toString('base64'), mimeType: 'image/png' };
+  } catch {
+    return null;
+  }
+}
+
+function errorResult(error: NormalizedError): McpToolResult {
+  const lines = [
+    `Error (${error.code}): ${error.message}`,
+    error.hint ? `Hint: ${error.hint}` : '',
+    error.diagnosticId ? `Diagnostic ID: ${error.diagnosticId}` : '',
+    error.logPath ? `Diagnostics Log: ${error.logPath}` : '',
+    error.details ? JSON.stringify(error.details, null, 2) : '',
+  ].filter(Boolean);
+  return { content: [{ type: 'text', text: lines.join('\n') }], isError: true };
+}
+
+function rpcResult(id: JsonRpcId, result: unknown): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, result };
+}
+
+function rpcError(id: JsonRpcId, code: number, message: string): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: { code, message } };
+}
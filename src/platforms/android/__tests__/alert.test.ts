@@ -0,0 +1,76 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { detectAndroidAlert } from '../alert.ts';
+
+function hierarchy(...nodes: string[]): string {
+  return `<?xml version="1.0" encoding="UTF-8"?><hierarchy rotation="0">${nodes.join('')}</hierarchy>`;
+}
+
+function node(attrs: Record<string, string>): string {
+  const rendered = Object.entries({ clickable: 'false', enabled: 'true', ...attrs })
+    .map(([key, value]) => `${key}="${value}"`)
+    .join(' ');
+  return `<node ${rendered}/>`;
+}
+
+test('detectAndroidAlert reads AlertDialog title, message and buttons', () => {
+  const alert = detectAndroidAlert(
+    hierarchy(
+      node({ class: 'android.widget.TextView', package: 'com.demo', 'resource-id': 'com.demo:id/alertTitle', text: 'Delete item?', bounds: '[80,800][1000,880]' }),
+      node({ class: 'android.widget.TextView', package: 'com.demo', 'resource-id': 'android:id/message', text: 'This cannot be undone.', bounds: '[80,900][1000,980]' }),
+      node({ class: 'android.widget.Button', package: 'com.demo', 'resource-id': 'android:id/button2', text: 'Cancel', clickable: 'true', bounds: '[500,1000][700,1100]' }),
+      node({ class: 'android.widget.Button', package: 'com.demo', 'resource-id': 'android:id/button1', text: 'Delete', clickable: 'true', bounds: '[720,1000][1000,1100]' }),
+    ),
+  );
+  assert.equal(alert?.kind, 'dialog');
+  assert.equal(alert?.title, 'Delete item?');
+  assert.equal(alert?.message, 'This cannot be undone.');
+  assert.deepEqual(alert?.buttons.map((button) => button.label), ['Delete', 'Cancel']);
+  assert.equal(alert?.accept?.label, 'Delete');
+  assert.equal(alert?.dismiss?.label, 'Cancel');
+  assert.deepEqual(alert?.accept?.rect, { x: 720, y: 1000, width: 280, height: 100 });
+});
+
+test('detectAndroidAlert prefers while-in-use grant and deny on permission prompts', () => {
+  const pkg = 'com.google.android.permissioncontroller';
+  const alert = detectAndroidAlert(
+    hierarchy(
+      node({ class: 'android.widget.TextView', package: pkg, 'resource-id': `${pkg}:id/permission_message`, text: 'Allow Demo to access this device’s location?', bounds: '[80,700][1000,800]' }),
+      node({ class: 'android.widget.Button', package: pkg, 'resource-id': `${pkg}:id/permission_allow_foreground_only_button`, text: 'While using the app', clickable: 'true', bounds: '[80,900][1000,1000]' }),
+      node({ class: 'android.widget.Button', package: pkg, 'resource-id': `${pkg}:id/permission_allow_one_time_button`, text: 'Only this time', clickable: 'true', bounds: '[80,1000][1000,1100]' }),
+      node({ class: 'android.widget.Button', package: pkg, 'resource-id': `${pkg}:id/permission_deny_button`, text: 'Don’t allow', clickable: 'true', bounds: '[80,1100][1000,1200]' }),
+    ),
+  );
+  assert.equal(alert?.kind, 'permission');
+  assert.equal(alert?.message, 'Allow Demo to access this device’s location?');
+  assert.deepEqual(alert?.buttons.map((button) => button.label), [
+    'While using the app',
+    'Only this time',
+    'Don’t allow',
+  ]);
+  assert.equal(alert?.accept?.label, 'While using the app');
+  assert.equal(alert?.dismiss?.label, 'Don’t allow');
+});
+
+test('detectAndroidAlert maps ANR dialog accept to Wait and dismiss to Close app', () => {
+  const alert = detectAndroidAlert(
+    hierarchy(
+      node({ class: 'android.widget.TextView', package: 'android', 'resource-id': 'android:id/alertTitle', text: 'Demo isn’t responding', bounds: '[80,800][1000,880]' }),
+      node({ class: 'android.widget.Button', package: 'android', 'resource-id': 'android:id/aerr_close', text: 'Close app', clickable: 'true', bounds: '[80,900][1000,1000]' }),
+      node({ class: 'android.widget.Button', package: 'android', 'resource-id': 'android:id/aerr_wait', text: 'Wait', clickable: 'true', bounds: '[80,1000][1000,1100]' }),
+    ),
+  );
+  assert.equal(alert?.kind, 'anr');
+  assert.equal(alert?.title, 'Demo isn’t responding');
+  assert.equal(alert?.accept?.label, 'Wait');
+  assert.equal(alert?.dismiss?.label, 'Close app');
+});
+
+test('detectAndroidAlert returns null when no dialog is on screen', () => {
+  const alert = detectAndroidAlert(
+    hierarchy(
+      node({ class: 'android.widget.Button', package: 'com.demo', 'resource-id': 'com.demo:id/submit', text: 'Submit', clickable: 'true', bounds: '[0,0][200,100]' }),
+    ),
+  );
+  assert.equal(alert, null);
+});
@@ -4,8 +4,11 @@ import { promises as fs } from 'node:fs';
 import os from 'node:os';
 import path from 'node:path';
 import {
+  alertAndroid,
   dismissAndroidKeyboard,
+  dragAndroid,
   fillAndroid,
+  gestureAndroid,
   getAndroidKeyboardState,
   inferAndroidAppName,
   isAmStartError,
@@ -99,6 +102,27 @@ test('parseUiHierarchy supports mixed quote styles in one node', () => {
   assert.equal(result.nodes[0].identifier, 'com.demo:id/title');
 });
 
+test('parseUiHierarchy reads toggle, focus, scroll and password state', () => {
+  const xml = [
+    '<hierarchy>',
+    '<node class="android.widget.ScrollView" package="com.demo" bounds="[0,0][400,800]" scrollable="true" checkable="false" checked="false">',
+    '<node class="android.widget.Switch" package="com.demo" text="Wi-Fi" bounds="[0,0][400,60]" clickable="true" checkable="true" checked="true"/>',
+    '<node class="android.widget.EditText" package="com.demo" text="" resource-id="com.demo:id/pin" bounds="[0,60][400,120]" focusable="true" focused="true" password="true"/>',
+    '</node>',
+    '</hierarchy>',
+  ].join('');
+
+  const [scroll, toggle, pin] = parseUiHierarchy(xml, 800, { raw: true }).nodes;
+  assert.equal(scroll.scrollable, true);
+  assert.equal(scroll.checked, undefined);
+  assert.equal(toggle.checked, true);
+  assert.equal(toggle.className, 'android.widget.Switch');
+  assert.equal(toggle.package, 'com.demo');
+  assert.equal(pin.focused, true);
+  assert.equal(pin.secure, true);
+  assert.equal(pin.scrollable, undefined);
+});
+
 test('findBounds supports single and double quoted attributes', () => {
   const xml = [
     '<hierarchy>',
@@ -1346,3 +1370,178 @@ test('pushAndroidNotification ignores empty extra keys when reporting extrasCoun
     await fs.rm(tmpDir, { recursive: true, force: true });
   }
 });
+
+test('alertAndroid taps the positive dialog button on accept', async () => {
+  const xml =
+    '<hierarchy><node class="android.widget.TextView" package="com.demo" resource-id="android:id/alertTitle" text="Save?" bounds="[0,0][400,100]"/>' +
+    '<node class="android.widget.Button" package="com.demo" resource-id="android:id/button2" text="No" clickable="true" bounds="[0,200][200,300]"/>' +
+    '<node class="android.widget.Button" package="com.demo" resource-id="android:id/button1" text="Yes" clickable="true" bounds="[200,200][400,300]"/></hierarchy>';
+  await withMockedAdb(
+    'agent-device-android-alert-accept-',
+    [
+      '#!/bin/sh',
+      'printf "__CMD__\\n%s\\n" "$*" >> "$AGENT_DEVICE_TEST_ARGS_FILE"',
+      'if [ "$3" = "exec-out" ] && [ "$4" = "uiautomator" ]; then',
+      `  printf '%s' '${xml}'`,
+      '  exit 0',
+      'fi',
+      'exit 0',
+      '',
+    ].join('\n'),
+    async ({ argsLogPath, device }) => {
+      const result = await alertAndroid(device, 'accept');
+      assert.deepEqual(result, { message: 'accepted', button: 'Yes' });
+      const logged = await fs.readFile(argsLogPath, 'utf8');
+      assert.match(logged, /shell input tap 300 250/);
+    },
+  );
+});
+
+test('alertAndroid reports alert not found without a dialog', async () => {
+  await withMockedAdb(
+    'agent-device-android-alert-missing-',
+    '#!/bin/sh\nprintf \'<hierarchy><node class="android.widget.TextView" text="Home" bounds="[0,0][10,10]"/></hierarchy>\'\nexit 0\n',
+    async ({ device }) => {
+      await assert.rejects(
+        () => alertAndroid(device, 'get'),
+        (error: unknown) => error instanceof AppError && error.message === 'alert not found',
+      );
+    },
+  );
+});
+
+test('gestureAndroid replays pointers with sendevent on the multi-touch screen', async () => {
+  await withMockedAdb(
+    'agent-device-android-gesture-',
+    [
+      '#!/bin/sh',
+      'printf "__CMD__\\n%s\\n" "$*" >> "$AGENT_DEVICE_TEST_ARGS_FILE"',
+      'if [ "$4" = "getevent" ]; then',
+      '  echo "add device 2: /dev/input/event2"',
+      '  echo "  name:     \\"virtio_input_multi_touch_1\\""',
+      '  echo "    ABS (0003): ABS_MT_SLOT : value 0, min 0, max 9, fuzz 0, flat 0, resolution 0"',
+      '  echo "                ABS_MT_POSITION_X : value 0, min 0, max 1079, fuzz 0, flat 0, resolution 0"',
+      '  echo "                ABS_MT_POSITION_Y : value 0, min 0, max 1919, fuzz 0, flat 0, resolution 0"',
+      '  echo "                ABS_MT_TRACKING_ID : value 0, min 0, max 65535, fuzz 0, flat 0, resolution 0"',
+      '  exit 0',
+      'fi',
+      'if [ "$4" = "wm" ]; then',
+      '  echo "Physical size: 1080x1920"',
+      '  exit 0',
+      'fi',
+      'exit 0',
+      '',
+    ].join('\n'),
+    async ({ argsLogPath, device }) => {
+      await gestureAndroid(device, [
+        [
+          { x: 500, y: 900, t: 0 },
+          { x: 300, y: 900, t: 100 },
+        ],
+        [
+          { x: 600, y: 900, t: 0 },
+          { x: 800, y: 900, t: 100 },
+        ],
+      ]);
+      const logged = await fs.readFile(argsLogPath, 'utf8');
+      assert.match(logged, /shell e\(\) \{ sendevent \/dev\/input\/event2 "\$@"; \}; e 3 47 0; e 3 57 1; e 3 53 500;/);
+      assert.match(logged, /e 3 53 800;.*e 1 330 0; e 0 0 0/s);
+    },
+  );
+});
+
+test('gestureAndroid reports unsupported without a multi-touch screen', async () => {
+  await withMockedAdb('agent-device-android-gesture-missing-', '#!/bin/sh\nexit 0\n', async ({ device }) => {
+    await assert.rejects(
+      () => gestureAndroid(device, [[{ x: 1, y: 1, t: 0 }]]),
+      (error: unknown) => error instanceof AppError && error.code === 'UNSUPPORTED_OPERATION',
+    );
+  });
+});
+
+test('dragAndroid falls back to input motionevent without a writable touchscreen', async () => {
+  await withMockedAdb(
+    'agent-device-android-drag-',
+    ['#!/bin/sh', 'printf "__CMD__\\n%s\\n" "$*" >> "$AGENT_DEVICE_TEST_ARGS_FILE"', 'exit 0', ''].join('\n'),
+    async ({ argsLogPath, device }) => {
+      await dragAndroid(device, [
+        { x: 100, y: 200, t: 0 },
+        { x: 100, y: 200, t: 300 },
+        { x: 400, y: 200, t: 600 },
+      ]);
+      const logged = await fs.readFile(argsLogPath, 'utf8');
+      assert.match(logged, /shell input motionevent DOWN 100 200; sleep 0\.300; input motionevent MOVE 100 200;/);
+      assert.match(logged, /sleep 0\.300; input motionevent MOVE 400 200; input motionevent UP 400 200/);
+    },
+  );
+});
+
+test('dragAndroid falls back to input motionevent when sendevent is denied', async () => {
+  await withMockedAdb(
+    'agent-device-android-drag-denied-',
+    [
+      '#!/bin/sh',
+      'printf "__CMD__\\n%s\\n" "$*" >> "$AGENT_DEVICE_TEST_ARGS_FILE"',
+      'if [ "$4" = "getevent" ]; then',
+      '  echo "add device 2: /dev/input/event2"',
+      '  echo "    ABS (0003): ABS_MT_SLOT : value 0, min 0, max 9, fuzz 0, flat 0, resolution 0"',
+      '  echo "                ABS_MT_POSITION_X : value 0, min 0, max 1079, fuzz 0, flat 0, resolution 0"',
+      '  echo "                ABS_MT_POSITION_Y : value 0, min 0, max 1919, fuzz 0, flat 0, resolution 0"',
+      '  echo "                ABS_MT_TRACKING_ID : value 0, min 0, max 65535, fuzz 0, flat 0, resolution 0"',
+      '  exit 0',
+      'fi',
+      'if [ "$4" = "wm" ]; then',
+      '  echo "Physical size: 1080x1920"',
+      '  exit 0',
+      'fi',
+      'case "$4" in e*) echo "sendevent: /dev/input/event2: Permission denied" >&2; exit 1 ;; esac',
+      'exit 0',
+      '',
+    ].join('\n'),
+    async ({ argsLogPath, device }) => {
+      await dragAndroid(device, [
+        { x: 100, y: 200, t: 0 },
+        { x: 400, y: 200, t: 300 },
+      ]);
+      const logged = await fs.readFile(argsLogPath, 'utf8');
+      assert.match(logged, /shell input motionevent DOWN 100 200;/);
+    },
+  );
+});
+
+test('dragAndroid does not replay the drag when sendevent fails after injecting', async () => {
+  await withMockedAdb(
+    'agent-device-android-drag-failed-',
+    [
+      '#!/bin/sh',
+      'printf "__CMD__\\n%s\\n" "$*" >> "$AGENT_DEVICE_TEST_ARGS_FILE"',
+      'if [ "$4" = "getevent" ]; then',
+      '  echo "add device 2: /dev/input/event2"',
+      '  echo "    ABS (0003): ABS_MT_SLOT : value 0, min 0, max 9, fuzz 0, flat 0, resolution 0"',
+      '  echo "                ABS_MT_POSITION_X : value 0, min 0, max 1079, fuzz 0, flat 0, resolution 0"',
+      '  echo "                ABS_MT_POSITION_Y : value 0, min 0, max 1919, fuzz 0, flat 0, resolution 0"',
+      '  echo "                ABS_MT_TRACKING_ID : value 0, min 0, max 65535, fuzz 0, flat 0, resolution 0"',
+      '  exit 0',
+      'fi',
+      'if [ "$4" = "wm" ]; then',
+      '  echo "Physical size: 1080x1920"',
+      '  exit 0',
+      'fi',
+      'case "$4" in e*) exit 1 ;; esac',
+      'exit 0',
+      '',
+    ].join('\n'),
+    async ({ argsLogPath, device }) => {
+      await assert.rejects(
+        () =>
+          dragAndroid(device, [
+            { x: 100, y: 200, t: 0 },
+            { x: 400, y: 200, t: 300 },
+          ]),
+        (error: unknown) => error instanceof AppError && error.code === 'COMMAND_FAILED',
+      );
+      const logged = await fs.readFile(argsLogPath, 'utf8');
+      assert.doesNotMatch(logged, /motionevent/);
+    },
+  );
+});
@@ -0,0 +1,99 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildAndroidGestureScript,
+  buildAndroidMotionEventScript,
+  parseAndroidTouchDevices,
+} from '../multitouch.ts';
+
+const GETEVENT = [
+  'add device 1: /dev/input/event0',
+  '  name:     "Power Button"',
+  '  events:',
+  '    KEY (0001): KEY_POWER',
+  'add device 2: /dev/input/event2',
+  '  name:     "virtio_input_multi_touch_1"',
+  '  events:',
+  '    KEY (0001): BTN_TOUCH',
+  '    ABS (0003): ABS_MT_SLOT           : value 0, min 0, max 9, fuzz 0, flat 0, resolution 0',
+  '                ABS_MT_POSITION_X     : value 0, min 0, max 32767, fuzz 0, flat 0, resolution 0',
+  '                ABS_MT_POSITION_Y     : value 0, min 0, max 32767, fuzz 0, flat 0, resolution 0',
+  '                ABS_MT_TRACKING_ID    : value 0, min 0, max 65535, fuzz 0, flat 0, resolution 0',
+  '  input props:',
+  '    INPUT_PROP_DIRECT',
+  '',
+].join('\n');
+
+test('parseAndroidTouchDevices keeps slot-based multi-touch screens only', () => {
+  assert.deepEqual(parseAndroidTouchDevices(GETEVENT), [
+    {
+      path: '/dev/input/event2',
+      name: 'virtio_input_multi_touch_1',
+      x: { min: 0, max: 32767 },
+      y: { min: 0, max: 32767 },
+      slots: 10,
+      pressure: undefined,
+    },
+  ]);
+});
+
+test('buildAndroidGestureScript scales pointers to axis ranges and lifts every slot', () => {
+  const [touch] = parseAndroidTouchDevices(GETEVENT);
+  const script = buildAndroidGestureScript(touch, { width: 1081, height: 2001 }, [
+    [
+      { x: 540, y: 1000, t: 0 },
+      { x: 270, y: 1000, t: 50 },
+    ],
+    [
+      { x: 540, y: 1000, t: 0 },
+      { x: 810, y: 1000, t: 50 },
+    ],
+  ]);
+  const prelude = 'e() { sendevent /dev/input/event2 "$@"; }; ';
+  assert.ok(script.startsWith(prelude));
+  const commands = script.slice(prelude.length).split('; ');
+  assert.deepEqual(commands.slice(0, 11), [
+    'e 3 47 0',
+    'e 3 57 1',
+    'e 3 53 16384',
+    'e 3 54 16384',
+    'e 3 47 1',
+    'e 3 57 2',
+    'e 3 53 16384',
+    'e 3 54 16384',
+    'e 1 330 1',
+    'e 0 0 0',
+    'sleep 0.025',
+  ]);
+  assert.ok(commands.includes('e 3 53 8192'));
+  assert.ok(commands.includes('e 3 53 24575'));
+  assert.deepEqual(commands.slice(-7), [
+    'sleep 0.001',
+    'e 3 47 0',
+    'e 3 57 -1',
+    'e 3 47 1',
+    'e 3 57 -1',
+    'e 1 330 0',
+    'e 0 0 0',
+  ]);
+});
+
+test('buildAndroidMotionEventScript thins the path and keeps the hold', () => {
+  const script = buildAndroidMotionEventScript([
+    { x: 100, y: 100, t: 0 },
+    { x: 100, y: 100, t: 400 },
+    { x: 100, y: 150, t: 450 },
+    { x: 100, y: 300, t: 600 },
+    { x: 100.4, y: 500, t: 650 },
+  ]);
+  assert.deepEqual(script.split('; '), [
+    'input motionevent DOWN 100 100',
+    'sleep 0.400',
+    'input motionevent MOVE 100 100',
+    'sleep 0.200',
+    'input motionevent MOVE 100 300',
+    'sleep 0.050',
+    'input motionevent MOVE 100 500',
+    'input motionevent UP 100 500',
+  ]);
+});
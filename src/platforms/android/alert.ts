@@ -0,0 +1,116 @@
+import type { RawSnapshotNode, Rect } from '../../utils/snapshot.ts';
+import { parseUiHierarchy } from './ui-hierarchy.ts';
+
+const PERMISSION_PACKAGES = new Set([
+  'com.android.permissioncontroller',
+  'com.google.android.permissioncontroller',
+  'com.android.packageinstaller',
+  'com.google.android.packageinstaller',
+]);
+
+// Grant buttons in preference order: "While using the app" before "Allow", "Only this time" last.
+const PERMISSION_ACCEPT_IDS = [
+  'permission_allow_foreground_only_button',
+  'permission_allow_button',
+  'permission_allow_always_button',
+  'permission_allow_one_time_button',
+];
+const PERMISSION_DISMISS_IDS = ['permission_deny_button', 'permission_deny_and_dont_ask_again_button'];
+
+export type AndroidAlertKind = 'permission' | 'anr' | 'dialog';
+
+export type AndroidAlertButton = { label: string; identifier?: string; rect?: Rect };
+
+export type AndroidAlert = {
+  kind: AndroidAlertKind;
+  title?: string;
+  message: string;
+  buttons: AndroidAlertButton[];
+  accept?: AndroidAlertButton;
+  dismiss?: AndroidAlertButton;
+};
+
+/**
+ * Finds a runtime permission prompt, "app isn't responding" dialog or AlertDialog in a uiautomator dump.
+ * Accept/dismiss follow iOS: the positive (or grant) button and the negative (or deny) button.
+ */
+export function detectAndroidAlert(xml: string): AndroidAlert | null {
+  const { nodes } = parseUiHierarchy(xml, 2_000, { raw: true });
+  return detectPermissionAlert(nodes) ?? detectAnrAlert(nodes) ?? detectDialogAlert(nodes);
+}
+
+function detectPermissionAlert(nodes: RawSnapshotNode[]): AndroidAlert | null {
+  const dialogNodes = nodes.filter((node) => node.package && PERMISSION_PACKAGES.has(node.package));
+  const message = findById(dialogNodes, 'permission_message');
+  if (!message) return null;
+  const buttons = dialogNodes.filter(isButton).map(toButton);
+  return {
+    kind: 'permission',
+    message: message.label ?? '',
+    buttons,
+    accept: pickById(buttons, PERMISSION_ACCEPT_IDS) ?? buttons[0],
+    dismiss: pickById(buttons, PERMISSION_DISMISS_IDS) ?? buttons[buttons.length - 1],
+  };
+}
+
+function detectAnrAlert(nodes: RawSnapshotNode[]): AndroidAlert | null {
+  const wait = nodes.find((node) => node.identifier === 'android:id/aerr_wait');
+  const close = nodes.find((node) => node.identifier === 'android:id/aerr_close');
+  if (!wait && !close) return null;
+  const title = nodes.find((node) => node.identifier === 'android:id/alertTitle');
+  const buttons = nodes
+    .filter((node) => node.identifier?.startsWith('android:id/aerr_'))
+    .map(toButton);
+  return {
+    kind: 'anr',
+    title: title?.label ?? undefined,
+    message: title?.label ?? '',
+    buttons,
+    accept: wait ? toButton(wait) : undefined,
+    dismiss: close ? toButton(close) : undefined,
+  };
+}
+
+function detectDialogAlert(nodes: RawSnapshotNode[]): AndroidAlert | null {
+  const title = findById(nodes, 'alertTitle');
+  const positive = nodes.find((node) => node.identifier === 'android:id/button1');
+  const negative = nodes.find((node) => node.identifier === 'android:id/button2');
+  const neutral = nodes.find((node) => node.identifier === 'android:id/button3');
+  if (!title && !positive && !negative) return null;
+  const message = nodes.find((node) => node.identifier === 'android:id/message');
+  const buttons = [positive, neutral, negative]
+    .filter((node): node is RawSnapshotNode => Boolean(node))
+    .map(toButton);
+  return {
+    kind: 'dialog',
+    title: title?.label ?? undefined,
+    message: message?.label ?? title?.label ?? '',
+    buttons,
+    accept: buttons[0],
+    dismiss: negative ? toButton(negative) : buttons[buttons.length - 1],
+  };
+}
+
+function findById(nodes: RawSnapshotNode[], idSuffix: string): RawSnapshotNode | undefined {
+  return nodes.find((node) => node.identifier?.endsWith(`:id/${idSuffix}`));
+}
+
+function pickById(buttons: AndroidAlertButton[], idSuffixes: string[]): AndroidAlertButton | undefined {
+  for (const suffix of idSuffixes) {
+    const button = buttons.find((entry) => entry.identifier?.endsWith(`:id/${suffix}`));
+    if (button) return button;
+  }
+  return undefined;
+}
+
+function isButton(node: RawSnapshotNode): boolean {
+  return Boolean(node.hittable && node.label && (node.type ?? '').endsWith('Button'));
+}
+
+function toButton(node: RawSnapshotNode): AndroidAlertButton {
+  return {
+    label: node.label ?? '',
+    ...(node.identifier ? { identifier: node.identifier } : {}),
+    ...(node.rect ? { rect: node.rect } : {}),
+  };
+}
@@ -0,0 +1,56 @@
+import type { DeviceInfo } from '../../utils/device.ts';
+import type { Interactor } from '../../utils/interactors.ts';
+import type { PlatformBackend } from '../../core/platform-backends.ts';
+import { resolveAndroidSerialAllowlist } from '../../utils/device-isolation.ts';
+import { listAndroidDevices } from './devices.ts';
+import {
+  closeAndroidApp,
+  dragAndroid,
+  ensureAdb,
+  fillAndroid,
+  focusAndroid,
+  gestureAndroid,
+  longPressAndroid,
+  openAndroidApp,
+  openAndroidDevice,
+  pressAndroid,
+  swipeAndroid,
+  scrollAndroid,
+  scrollIntoViewAndroid,
+  screenshotAndroid,
+  typeAndroid,
+} from './index.ts';
+
+export const androidBackend: PlatformBackend = {
+  platform: 'android',
+  listDevices: async (flags) => {
+    await ensureAdb();
+    return await listAndroidDevices({
+      serialAllowlist: resolveAndroidSerialAllowlist(flags.androidDeviceAllowlist),
+    });
+  },
+  createInteractor: (device) => createAndroidInteractor(device),
+};
+
+function createAndroidInteractor(device: DeviceInfo): Interactor {
+  return {
+    open: (app, options) => openAndroidApp(device, app, options?.activity),
+    openDevice: () => openAndroidDevice(device),
+    close: (app) => closeAndroidApp(device, app),
+    tap: (x, y) => pressAndroid(device, x, y),
+    doubleTap: async (x, y) => {
+      await pressAndroid(device, x, y);
+      await pressAndroid(device, x, y);
+    },
+    swipe: (x1, y1, x2, y2, durationMs) => swipeAndroid(device, x1, y1, x2, y2, durationMs),
+    longPress: (x, y, durationMs) => longPressAndroid(device, x, y, durationMs),
+    focus: (x, y) => focusAndroid(device, x, y),
+    type: (text) => typeAndroid(device, text),
+    fill: (x, y, text) => fillAndroid(device, x, y, text),
+    scroll: (direction, amount) => scrollAndroid(device, direction, amount),
+    scrollIntoView: (text) => scrollIntoViewAndroid(device, text),
+    gesture: (pointers) => gestureAndroid(device, pointers),
+    drag: (path) => dragAndroid(device, path),
+    screenshot: (outPath, _appBundleId) => screenshotAndroid(device, outPath),
+  };
+}
@@ -141,6 +141,15 @@ async function resolveAndroidTarget(serial: string): Promise<'mobile' | 'tv'> {
   return 'mobile';
 }
 
+async function resolveAndroidOsVersion(serial: string): Promise<string | undefined> {
+  const result = await runCmd('adb', adbArgs(serial, ['shell', 'getprop', 'ro.build.version.release']), {
+    allowFailure: true,
+    timeoutMs: TIMEOUT_PROFILES.android_boot.operationMs,
+  });
+  const value = result.stdout.trim();
+  return result.exitCode === 0 && /^\d+(\.\d+)*$/.test(value) ? value : undefined;
+}
+
 export async function listAndroidDevices(options: AndroidDeviceDiscoveryOptions = {}): Promise<DeviceInfo[]> {
   const adbAvailable = await whichCmd('adb');
   if (!adbAvailable) {
@@ -155,10 +164,11 @@ export async function listAndroidDevices(options: AndroidDeviceDiscoveryOptions
     !serialAllowlist || serialAllowlist.has(entry.serial));
 
   const devices = await Promise.all(filteredEntries.map(async ({ serial, rawModel }) => {
-    const [name, booted, target] = await Promise.all([
+    const [name, booted, target, osVersion] = await Promise.all([
       resolveAndroidDeviceName(serial, rawModel),
       isAndroidBooted(serial),
       resolveAndroidTarget(serial),
+      resolveAndroidOsVersion(serial),
     ]);
     return {
       platform: 'android',
@@ -167,6 +177,7 @@ export async function listAndroidDevices(options: AndroidDeviceDiscoveryOptions
       kind: isEmulatorSerial(serial) ? 'emulator' : 'device',
       target,
       booted,
+      ...(osVersion ? { osVersion } : {}),
     } satisfies DeviceInfo;
   }));
 
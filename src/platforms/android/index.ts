@@ -13,6 +13,13 @@ import {
   type PermissionSettingOptions,
 } from '../permission-utils.ts';
 import { parseAppearanceAction } from '../appearance.ts';
+import { detectAndroidAlert, type AndroidAlertButton } from './alert.ts';
+import {
+  buildAndroidGestureScript,
+  buildAndroidMotionEventScript,
+  parseAndroidTouchDevices,
+} from './multitouch.ts';
+import { gestureDurationMs, type GesturePointer } from '../../core/gestures.ts';
 
 const ALIASES: Record<string, { type: 'intent' | 'package'; value: string }> = {
   settings: { type: 'intent', value: 'android.settings.SETTINGS' },
@@ -585,6 +592,58 @@ export async function swipeAndroid(
   );
 }
 
+/**
+ * Replays multi-finger paths through `sendevent` on the touchscreen's input device; `input` only injects one pointer.
+ * Needs a slot-based multi-touch touchscreen that the shell user can write to (emulators and most devices).
+ */
+export async function gestureAndroid(device: DeviceInfo, pointers: GesturePointer[]): Promise<void> {
+  const getevent = await runCmd('adb', adbArgs(device, ['shell', 'getevent', '-lp']), { allowFailure: true });
+  const [touch] = parseAndroidTouchDevices(getevent.stdout);
+  if (!touch) {
+    throw new AppError('UNSUPPORTED_OPERATION', 'No multi-touch touchscreen found in getevent output', {
+      exitCode: getevent.exitCode,
+      stderr: getevent.stderr.slice(0, 200),
+    });
+  }
+  const screen = await getAndroidScreenSize(device);
+  const script = buildAndroidGestureScript(touch, screen, pointers);
+  const result = await runCmd('adb', adbArgs(device, ['shell', script]), {
+    allowFailure: true,
+    timeoutMs: gestureDurationMs(pointers) + 30_000,
+  });
+  // A denied write rejects every sendevent, so no touch reached the device.
+  if (/permission denied/i.test(result.stderr + result.stdout)) {
+    throw new AppError('UNSUPPORTED_OPERATION', `No write access to touchscreen ${touch.path}`, {
+      exitCode: result.exitCode,
+      stderr: (result.stderr || result.stdout).slice(0, 400),
+      hint: 'sendevent needs write access to /dev/input; use an emulator or a userdebug build.',
+    });
+  }
+  if (result.exitCode !== 0) {
+    throw new AppError('COMMAND_FAILED', `Failed to inject multi-touch events on ${touch.path}`, {
+      exitCode: result.exitCode,
+      stderr: (result.stderr || result.stdout).slice(0, 400),
+    });
+  }
+}
+
+/**
+ * Drags one finger along `path`. Raw touchscreen events keep the hold and speed profile; where they are unavailable
+ * the path is replayed with `input motionevent`, which still holds and follows waypoints but with coarse timing.
+ */
+export async function dragAndroid(device: DeviceInfo, path: GesturePointer): Promise<void> {
+  try {
+    await gestureAndroid(device, [path]);
+    return;
+  } catch (error) {
+    // Other failures can happen after events were injected; replaying the drag would run it twice.
+    if (!(error instanceof AppError) || error.code !== 'UNSUPPORTED_OPERATION') throw error;
+  }
+  await runCmd('adb', adbArgs(device, ['shell', buildAndroidMotionEventScript(path)]), {
+    timeoutMs: gestureDurationMs([path]) + 30_000,
+  });
+}
+
 export async function backAndroid(device: DeviceInfo): Promise<void> {
   await runCmd('adb', adbArgs(device, ['shell', 'input', 'keyevent', '4']));
 }
@@ -985,12 +1044,45 @@ export async function snapshotAndroid(
   return parseUiHierarchy(xml, 800, options);
 }
 
+export type AndroidAlertAction = 'get' | 'accept' | 'dismiss';
+
+/** Reads or answers the frontmost dialog; results mirror the iOS runner's `alert` response. */
+export async function alertAndroid(
+  device: DeviceInfo,
+  action: AndroidAlertAction,
+): Promise<Record<string, unknown>> {
+  const alert = detectAndroidAlert(await dumpUiHierarchy(device));
+  if (!alert) throw new AppError('COMMAND_FAILED', 'alert not found');
+  if (action === 'get') {
+    return {
+      kind: alert.kind,
+      ...(alert.title ? { title: alert.title } : {}),
+      message: alert.message,
+      items: alert.buttons.map((button) => button.label),
+    };
+  }
+  const button = action === 'accept' ? alert.accept : alert.dismiss;
+  if (!button?.rect) {
+    throw new AppError('COMMAND_FAILED', `alert has no button to ${action}`, {
+      kind: alert.kind,
+      items: alert.buttons.map((entry) => entry.label),
+    });
+  }
+  await tapAlertButton(device, button);
+  return { message: action === 'accept' ? 'accepted' : 'dismissed', button: button.label };
+}
+
+async function tapAlertButton(device: DeviceInfo, button: AndroidAlertButton): Promise<void> {
+  const rect = button.rect!;
+  await pressAndroid(device, Math.round(rect.x + rect.width / 2), Math.round(rect.y + rect.height / 2));
+}
+
 export async function ensureAdb(): Promise<void> {
   const adbAvailable = await whichCmd('adb');
   if (!adbAvailable) throw new AppError('TOOL_MISSING', 'adb not found in PATH');
 }
 
-async function getAndroidScreenSize(
+export async function getAndroidScreenSize(
   device: DeviceInfo,
 ): Promise<{ width: number; height: number }> {
   const result = await runCmd('adb', adbArgs(device, ['shell', 'wm', 'size']));
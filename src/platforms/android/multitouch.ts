@@ -0,0 +1,164 @@
+import { AppError } from '../../utils/errors.ts';
+import {
+  gestureDurationMs,
+  gesturePointerPositionAt,
+  type GesturePointer,
+} from '../../core/gestures.ts';
+
+type AxisRange = { min: number; max: number };
+
+/** Multi-touch input device parsed from `getevent -lp`; only slot-based (type B) touchscreens are usable. */
+export type AndroidTouchDevice = {
+  path: string;
+  name?: string;
+  x: AxisRange;
+  y: AxisRange;
+  slots: number;
+  pressure?: AxisRange;
+};
+
+// Linux input event types and codes (linux/input-event-codes.h), as sendevent takes them.
+const EV_SYN = 0;
+const EV_KEY = 1;
+const EV_ABS = 3;
+const SYN_REPORT = 0;
+const BTN_TOUCH = 330;
+const ABS_MT_SLOT = 47;
+const ABS_MT_POSITION_X = 53;
+const ABS_MT_POSITION_Y = 54;
+const ABS_MT_TRACKING_ID = 57;
+const ABS_MT_PRESSURE = 58;
+
+// Each frame costs a few sendevent processes on the device, so frames are spaced wider than a display refresh.
+const FRAME_MS = 25;
+const MAX_FRAMES = 60;
+// `input motionevent` starts a JVM per call, so its fallback path keeps at most one point per this interval.
+const MOTION_EVENT_STEP_MS = 100;
+
+export function parseAndroidTouchDevices(getevent: string): AndroidTouchDevice[] {
+  const devices: AndroidTouchDevice[] = [];
+  for (const block of getevent.split(/^add device \d+:\s*/m).slice(1)) {
+    const path = block.match(/^(\/dev\/input\/\S+)/)?.[1];
+    if (!path) continue;
+    const axes = new Map<string, AxisRange>();
+    for (const match of block.matchAll(/\b(ABS_MT_\w+)\s*:\s*value -?\d+, min (-?\d+), max (-?\d+)/g)) {
+      axes.set(match[1], { min: Number(match[2]), max: Number(match[3]) });
+    }
+    const x = axes.get('ABS_MT_POSITION_X');
+    const y = axes.get('ABS_MT_POSITION_Y');
+    const slot = axes.get('ABS_MT_SLOT');
+    if (!x || !y || !slot || !axes.has('ABS_MT_TRACKING_ID')) continue;
+    devices.push({
+      path,
+      name: block.match(/name:\s*"([^"]*)"/)?.[1],
+      x,
+      y,
+      slots: slot.max + 1,
+      pressure: axes.get('ABS_MT_PRESSURE'),
+    });
+  }
+  return devices;
+}
+
+/**
+ * Shell script replaying the pointers as raw multi-touch events on `touch`, one slot per finger. Screen pixels are
+ * scaled to the device's axis ranges, assuming the natural (unrotated) orientation.
+ */
+export function buildAndroidGestureScript(
+  touch: AndroidTouchDevice,
+  screen: { width: number; height: number },
+  pointers: GesturePointer[],
+): string {
+  if (pointers.length > touch.slots) {
+    throw new AppError('UNSUPPORTED_OPERATION', `Touchscreen ${touch.path} supports ${touch.slots} pointers`);
+  }
+  const scale = (value: number, size: number, axis: AxisRange) =>
+    Math.round(axis.min + (Math.min(Math.max(value, 0), size - 1) / Math.max(size - 1, 1)) * (axis.max - axis.min));
+  const pressure = touch.pressure ? Math.max(1, Math.round((touch.pressure.min + touch.pressure.max) / 2)) : undefined;
+  const lines = [`e() { sendevent ${touch.path} "$@"; }`];
+  const down = pointers.map(() => false);
+  const last = pointers.map((): { x: number; y: number } | null => null);
+  let activeSlot = -1;
+  let touching = false;
+  const selectSlot = (slot: number, events: string[]) => {
+    if (activeSlot !== slot) events.push(`e ${EV_ABS} ${ABS_MT_SLOT} ${slot}`);
+    activeSlot = slot;
+  };
+
+  const times = frameTimes(pointers);
+  for (let frame = 0; frame < times.length; frame += 1) {
+    const t = times[frame];
+    const events: string[] = [];
+    pointers.forEach((pointer, slot) => {
+      const position = gesturePointerPositionAt(pointer, t);
+      if (!position) {
+        if (!down[slot] || t <= pointer[pointer.length - 1].t) return;
+        selectSlot(slot, events);
+        events.push(`e ${EV_ABS} ${ABS_MT_TRACKING_ID} -1`);
+        down[slot] = false;
+        return;
+      }
+      const x = scale(position.x, screen.width, touch.x);
+      const y = scale(position.y, screen.height, touch.y);
+      if (!down[slot]) {
+        selectSlot(slot, events);
+        events.push(`e ${EV_ABS} ${ABS_MT_TRACKING_ID} ${slot + 1}`);
+        if (pressure !== undefined) events.push(`e ${EV_ABS} ${ABS_MT_PRESSURE} ${pressure}`);
+        events.push(`e ${EV_ABS} ${ABS_MT_POSITION_X} ${x}`, `e ${EV_ABS} ${ABS_MT_POSITION_Y} ${y}`);
+        down[slot] = true;
+      } else {
+        if (last[slot]?.x !== x || last[slot]?.y !== y) selectSlot(slot, events);
+        if (last[slot]?.x !== x) events.push(`e ${EV_ABS} ${ABS_MT_POSITION_X} ${x}`);
+        if (last[slot]?.y !== y) events.push(`e ${EV_ABS} ${ABS_MT_POSITION_Y} ${y}`);
+      }
+      last[slot] = { x, y };
+    });
+    const anyDown = down.some(Boolean);
+    if (anyDown !== touching) events.push(`e ${EV_KEY} ${BTN_TOUCH} ${anyDown ? 1 : 0}`);
+    touching = anyDown;
+    if (events.length > 0) lines.push(...events, `e ${EV_SYN} ${SYN_REPORT} 0`);
+    const next = times[frame + 1];
+    if (next !== undefined && next > t) lines.push(`sleep ${((next - t) / 1000).toFixed(3)}`);
+  }
+  return lines.join('; ');
+}
+
+/** Sample times: a regular grid plus every finger's touch-down and lift, and a final frame that lifts the rest. */
+function frameTimes(pointers: GesturePointer[]): number[] {
+  const duration = gestureDurationMs(pointers);
+  const step = Math.max(FRAME_MS, Math.ceil(duration / MAX_FRAMES));
+  const times = new Set<number>();
+  for (let t = 0; t < duration; t += step) times.add(t);
+  for (const pointer of pointers) {
+    times.add(pointer[0].t);
+    times.add(pointer[pointer.length - 1].t);
+  }
+  times.add(duration);
+  const sorted = [...times].sort((left, right) => left - right);
+  sorted.push(duration + 1);
+  return sorted;
+}
+
+/**
+ * Single-finger fallback through `input motionevent`, which needs no /dev/input access. Every call takes a noticeable
+ * fraction of a second, so the path is thinned out and the timing is only approximate.
+ */
+export function buildAndroidMotionEventScript(path: GesturePointer): string {
+  const points: GesturePointer = [];
+  path.forEach((point, index) => {
+    const kept = points[points.length - 1];
+    if (!kept || index === path.length - 1 || point.t - kept.t >= MOTION_EVENT_STEP_MS) points.push(point);
+  });
+  const lines: string[] = [];
+  points.forEach((point, index) => {
+    const previous = points[index - 1];
+    if (previous && point.t > previous.t) lines.push(`sleep ${((point.t - previous.t) / 1000).toFixed(3)}`);
+    const x = Math.round(point.x);
+    const y = Math.round(point.y);
+    lines.push(`input motionevent ${index === 0 ? 'DOWN' : 'MOVE'} ${x} ${y}`);
+  });
+  const last = points[points.length - 1];
+  lines.push(`input motionevent UP ${Math.round(last.x)} ${Math.round(last.y)}`);
+  return lines.join('; ');
+}
+
@@ -83,7 +83,14 @@ export function parseUiHierarchy(
         identifier: node.identifier ?? undefined,
         rect: node.rect,
         enabled: node.enabled,
+        selected: node.selected || undefined,
         hittable: node.hittable,
+        checked: node.checked,
+        focused: node.focused || undefined,
+        scrollable: node.scrollable || undefined,
+        secure: node.secure || undefined,
+        className: node.type ?? undefined,
+        package: node.package ?? undefined,
         depth,
         parentIndex,
       });
@@ -110,10 +117,16 @@ export function readNodeAttributes(node: string): {
   resourceId: string | null;
   className: string | null;
   bounds: string | null;
+  packageName: string | null;
   clickable?: boolean;
   enabled?: boolean;
   focusable?: boolean;
   focused?: boolean;
+  checkable?: boolean;
+  checked?: boolean;
+  scrollable?: boolean;
+  password?: boolean;
+  selected?: boolean;
 } {
   const attrs = parseXmlNodeAttributes(node);
   const getAttr = (name: string): string | null => readXmlAttr(attrs, name);
@@ -128,10 +141,16 @@ export function readNodeAttributes(node: string): {
     resourceId: getAttr('resource-id'),
     className: getAttr('class'),
     bounds: getAttr('bounds'),
+    packageName: getAttr('package'),
     clickable: boolAttr('clickable'),
     enabled: boolAttr('enabled'),
     focusable: boolAttr('focusable'),
     focused: boolAttr('focused'),
+    checkable: boolAttr('checkable'),
+    checked: boolAttr('checked'),
+    scrollable: boolAttr('scrollable'),
+    password: boolAttr('password'),
+    selected: boolAttr('selected'),
   };
 }
 
@@ -185,7 +204,13 @@ type AndroidNode = {
   identifier: string | null;
   rect?: Rect;
   enabled?: boolean;
+  selected?: boolean;
   hittable?: boolean;
+  checked?: boolean;
+  focused?: boolean;
+  scrollable?: boolean;
+  secure?: boolean;
+  package: string | null;
   depth: number;
   parentIndex?: number;
   children: AndroidNode[];
@@ -197,6 +222,7 @@ function parseUiHierarchyTree(xml: string): AndroidNode {
     label: null,
     value: null,
     identifier: null,
+    package: null,
     depth: -1,
     children: [],
   };
@@ -220,7 +246,14 @@ function parseUiHierarchyTree(xml: string): AndroidNode {
       identifier: attrs.resourceId,
       rect,
       enabled: attrs.enabled,
+      selected: attrs.selected,
       hittable: attrs.clickable ?? attrs.focusable,
+      // uiautomator reports checked="false" on every node; it only means something when checkable.
+      checked: attrs.checkable ? attrs.checked === true : undefined,
+      focused: attrs.focused,
+      scrollable: attrs.scrollable,
+      secure: attrs.password,
+      package: attrs.packageName,
       depth: parent.depth + 1,
       parentIndex: undefined,
       children: [],
@@ -0,0 +1,126 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { dispatchCommand, resolveTargetDevice } from '../../../core/dispatch.ts';
+import { isCommandSupportedOnDevice } from '../../../core/capabilities.ts';
+import { registerPlatformBackend } from '../../../core/platform-backends.ts';
+import { AppError } from '../../../utils/errors.ts';
+import type { RawSnapshotNode } from '../../../utils/snapshot.ts';
+import { fakeBackend, resetFakeDevices } from '../backend.ts';
+import { parseScreenGraph } from '../screen-graph.ts';
+
+const GRAPH_YAML = [
+  'device: { name: Test Phone, id: fake-test }',
+  'initialScreen: login',
+  'apps:',
+  '  shop: login',
+  'screens:',
+  '  login:',
+  '    nodes:',
+  '      - type: Window',
+  '        children:',
+  '          - { type: TextField, label: Email }',
+  '          - type: Button',
+  '            label: Continue',
+  '            onTap: cart',
+  '          - type: Button',
+  '            label: Slow',
+  '            onTap: { screen: cart, delayMs: 50 }',
+  '  cart:',
+  '    nodes:',
+  '      - { type: StaticText, label: Cart }',
+].join('\n');
+
+function writeGraph(): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-device-fake-graph-'));
+  const graphPath = path.join(root, 'graph.yaml');
+  fs.writeFileSync(graphPath, GRAPH_YAML);
+  return graphPath;
+}
+
+async function snapshotNodes(device: Awaited<ReturnType<typeof resolveTargetDevice>>): Promise<RawSnapshotNode[]> {
+  const data = (await dispatchCommand(device, 'snapshot', [])) as { nodes: RawSnapshotNode[] };
+  return data.nodes;
+}
+
+function center(node: RawSnapshotNode | undefined): string[] {
+  assert.ok(node?.rect);
+  return [String(node.rect.x + node.rect.width / 2), String(node.rect.y + node.rect.height / 2)];
+}
+
+test('parseScreenGraph flattens nested nodes and rejects unknown screens', () => {
+  const graph = parseScreenGraph(
+    { screens: { a: { nodes: [{ type: 'Window', children: [{ label: 'Hi', onTap: 'a' }] }] } } },
+    'inline',
+  );
+  assert.equal(graph.initialScreen, 'a');
+  const nodes = graph.screens.get('a')?.nodes ?? [];
+  assert.equal(nodes.length, 2);
+  assert.equal(nodes[1].parentIndex, 0);
+  assert.equal(nodes[1].depth, 1);
+  assert.deepEqual(nodes[1].onTap, { screen: 'a', delayMs: 0 });
+
+  assert.throws(
+    () => parseScreenGraph({ screens: { a: { nodes: [{ label: 'x', onTap: 'missing' }] } } }, 'inline'),
+    (error: unknown) => error instanceof AppError && error.code === 'INVALID_ARGS' && /missing/.test(error.message),
+  );
+});
+
+test('fake backend drives open, fill, press transitions and back through dispatch', async () => {
+  resetFakeDevices();
+  const device = await resolveTargetDevice({ platform: 'fake', fakeScreenGraph: writeGraph() });
+  assert.equal(device.id, 'fake-test');
+  assert.equal(device.name, 'Test Phone');
+
+  await dispatchCommand(device, 'open', ['shop']);
+  let nodes = await snapshotNodes(device);
+  assert.deepEqual(nodes.map((node) => node.label ?? node.type), ['Window', 'Email', 'Continue', 'Slow']);
+
+  await dispatchCommand(device, 'fill', [...center(nodes[1]), 'a@b.co']);
+  await dispatchCommand(device, 'type', ['!']);
+  nodes = await snapshotNodes(device);
+  assert.equal(nodes[1].value, 'a@b.co!');
+
+  await dispatchCommand(device, 'press', center(nodes[2]));
+  nodes = await snapshotNodes(device);
+  assert.deepEqual(nodes.map((node) => node.label), ['Cart']);
+
+  await dispatchCommand(device, 'back', []);
+  nodes = await snapshotNodes(device);
+  assert.equal(nodes[1].value, 'a@b.co!');
+
+  await dispatchCommand(device, 'press', center(nodes[3]));
+  assert.equal((await snapshotNodes(device))[0].type, 'Window');
+  await new Promise((resolve) => setTimeout(resolve, 60));
+  assert.equal((await snapshotNodes(device))[0].label, 'Cart');
+});
+
+test('fake backend reports unknown apps and honors snapshot options', async () => {
+  resetFakeDevices();
+  const device = await resolveTargetDevice({ platform: 'fake', fakeScreenGraph: writeGraph() });
+  await assert.rejects(
+    () => dispatchCommand(device, 'open', ['other']),
+    (error: unknown) => error instanceof AppError && error.code === 'APP_NOT_INSTALLED',
+  );
+  await dispatchCommand(device, 'open', ['shop']);
+  const interactive = (await dispatchCommand(device, 'snapshot', [], undefined, {
+    snapshotInteractiveOnly: true,
+  })) as { nodes: RawSnapshotNode[] };
+  assert.deepEqual(interactive.nodes.map((node) => node.label), ['Email', 'Continue', 'Slow']);
+  assert.equal(interactive.nodes[0].depth, 0);
+  const scoped = (await dispatchCommand(device, 'snapshot', [], undefined, {
+    snapshotScope: 'continue',
+  })) as { nodes: RawSnapshotNode[] };
+  assert.deepEqual(scoped.nodes.map((node) => node.label), ['Continue']);
+  assert.equal(isCommandSupportedOnDevice('press', device), true);
+  assert.equal(isCommandSupportedOnDevice('record', device), false);
+});
+
+test('fake platform name cannot be replaced by registered backends', () => {
+  assert.throws(
+    () => registerPlatformBackend({ ...fakeBackend }),
+    (error: unknown) => error instanceof AppError && error.code === 'INVALID_ARGS',
+  );
+});
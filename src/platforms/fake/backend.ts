@@ -0,0 +1,417 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { AppError } from '../../utils/errors.ts';
+import type { DeviceInfo } from '../../utils/device.ts';
+import type { Interactor } from '../../utils/interactors.ts';
+import { createRgbaImage, encodePng } from '../../utils/png.ts';
+import type { RawSnapshotNode, SnapshotOptions } from '../../utils/snapshot.ts';
+import type { PlatformBackend, PlatformNavigationAction } from '../../core/platform-backends.ts';
+import { isFillableType } from '../../daemon/snapshot-processing.ts';
+import {
+  DEMO_SCREEN_GRAPH,
+  loadScreenGraphFile,
+  parseScreenGraph,
+  type FakeScreen,
+  type FakeScreenNode,
+  type ScreenGraph,
+  type ScreenTransition,
+} from './screen-graph.ts';
+
+type FakeDeviceState = {
+  device: DeviceInfo;
+  graph: ScreenGraph;
+  graphMtimeMs?: number;
+  screen: string;
+  history: string[];
+  values: Map<string, Map<number, string>>;
+  focused?: { screen: string; index: number };
+  pending?: { screen: string; dueAt: number };
+  app?: string;
+};
+
+const DEMO_SOURCE = 'demo';
+const INTERACTIVE_TYPE_RE = /button|switch|toggle|checkbox|radio|slider|link|cell|tab|menuitem|textfield|textview|search/i;
+
+const fakeDevices = new Map<string, FakeDeviceState>();
+
+export const fakeBackend: PlatformBackend = {
+  platform: 'fake',
+  listDevices: async (flags) => [
+    loadFakeDevice(flags.fakeScreenGraph ?? process.env.AGENT_DEVICE_FAKE_SCREEN_GRAPH).device,
+  ],
+  createInteractor: (device) => createFakeInteractor(device),
+  snapshot: async (device, options) => ({ nodes: snapshotFakeDevice(requireFakeDevice(device), options) }),
+  navigate: async (device, action) => navigateFakeDevice(requireFakeDevice(device), action),
+  capabilities: {
+    open: true,
+    close: true,
+    press: true,
+    click: true,
+    fill: true,
+    focus: true,
+    type: true,
+    longpress: true,
+    swipe: true,
+    gesture: true,
+    drag: true,
+    pinch: true,
+    rotate: true,
+    scroll: true,
+    scrollintoview: true,
+    snapshot: true,
+    diff: true,
+    find: true,
+    get: true,
+    is: true,
+    wait: true,
+    back: true,
+    home: true,
+    'app-switcher': true,
+    screenshot: true,
+  },
+};
+
+/** Drops in-memory screen state; the next device listing reloads graphs from disk. */
+export function resetFakeDevices(): void {
+  fakeDevices.clear();
+}
+
+function loadFakeDevice(graphPath: string | undefined): FakeDeviceState {
+  const source = graphPath ? path.resolve(graphPath) : DEMO_SOURCE;
+  const graphMtimeMs = source === DEMO_SOURCE ? undefined : statMtimeMs(source);
+  for (const state of fakeDevices.values()) {
+    if (state.graph.source === source && state.graphMtimeMs === graphMtimeMs) return state;
+  }
+  const graph = source === DEMO_SOURCE
+    ? parseScreenGraph(DEMO_SCREEN_GRAPH, DEMO_SOURCE)
+    : loadScreenGraphFile(source);
+  const id = graph.device.id ?? `fake-${crypto.createHash('sha1').update(source).digest('hex').slice(0, 8)}`;
+  const state: FakeDeviceState = {
+    device: {
+      platform: 'fake',
+      id,
+      name: graph.device.name,
+      kind: graph.device.kind,
+      target: 'mobile',
+      booted: true,
+    },
+    graph,
+    graphMtimeMs,
+    screen: graph.initialScreen,
+    history: [],
+    values: new Map(),
+  };
+  fakeDevices.set(id, state);
+  return state;
+}
+
+function statMtimeMs(filePath: string): number {
+  try {
+    return fs.statSync(filePath).mtimeMs;
+  } catch {
+    throw new AppError('INVALID_ARGS', `Fake screen graph not found: ${filePath}`);
+  }
+}
+
+function requireFakeDevice(device: DeviceInfo): FakeDeviceState {
+  const state = fakeDevices.get(device.id);
+  if (!state) {
+    throw new AppError('DEVICE_NOT_FOUND', `Fake device ${device.id} is not loaded. Run open --platform fake again.`);
+  }
+  settlePendingTransition(state);
+  return state;
+}
+
+function createFakeInteractor(device: DeviceInfo): Interactor {
+  const withState = <T>(fn: (state: FakeDeviceState) => T) => async () => fn(requireFakeDevice(device));
+  return {
+    open: async (app) => openFakeApp(requireFakeDevice(device), app),
+    openDevice: withState(() => undefined),
+    close: async (app) => closeFakeApp(requireFakeDevice(device), app),
+    tap: async (x, y) => tapFakeDevice(requireFakeDevice(device), x, y, 'onTap'),
+    doubleTap: async (x, y) => {
+      tapFakeDevice(requireFakeDevice(device), x, y, 'onTap');
+      tapFakeDevice(requireFakeDevice(device), x, y, 'onTap');
+    },
+    swipe: withState(() => undefined),
+    gesture: withState(() => undefined),
+    drag: withState(() => undefined),
+    longPress: async (x, y) => tapFakeDevice(requireFakeDevice(device), x, y, 'onLongPress'),
+    focus: async (x, y) => {
+      const state = requireFakeDevice(device);
+      state.focused = { screen: state.screen, index: requireNodeAt(state, x, y).index };
+    },
+    type: async (text) => typeFakeDevice(requireFakeDevice(device), text),
+    fill: async (x, y, text) => fillFakeDevice(requireFakeDevice(device), x, y, text),
+    scroll: withState(() => undefined),
+    scrollIntoView: async (text) => {
+      const state = requireFakeDevice(device);
+      const needle = text.toLowerCase();
+      const found = snapshotFakeDevice(state, {}).some((node) =>
+        [node.label, node.value, node.identifier].some((entry) => entry?.toLowerCase().includes(needle)),
+      );
+      if (!found) {
+        throw new AppError('COMMAND_FAILED', `Text not found on fake screen ${state.screen}: ${text}`);
+      }
+      return { attempts: 1 };
+    },
+    screenshot: async (outPath) => writeFakeScreenshot(requireFakeDevice(device), outPath),
+  };
+}
+
+function openFakeApp(state: FakeDeviceState, app: string): void {
+  const { apps } = state.graph;
+  let entryScreen = state.graph.initialScreen;
+  if (apps) {
+    const screen = apps[app];
+    if (!screen) {
+      throw new AppError('APP_NOT_INSTALLED', `App ${app} is not defined in the fake screen graph`, {
+        apps: Object.keys(apps),
+      });
+    }
+    entryScreen = screen;
+  }
+  // Every launch starts from the entry screen with cleared input so fake runs stay deterministic.
+  resetScreenState(state, entryScreen);
+  state.app = app;
+}
+
+function closeFakeApp(state: FakeDeviceState, app: string): void {
+  if (state.app && state.app !== app) return;
+  resetScreenState(state, state.graph.homeScreen);
+  state.app = undefined;
+}
+
+function resetScreenState(state: FakeDeviceState, screen: string): void {
+  state.screen = screen;
+  state.history = [];
+  state.values.clear();
+  state.focused = undefined;
+  state.pending = undefined;
+}
+
+function navigateFakeDevice(state: FakeDeviceState, action: PlatformNavigationAction): void {
+  if (action === 'app-switcher') return;
+  if (action === 'home') {
+    state.screen = state.graph.homeScreen;
+    state.history = [];
+    state.focused = undefined;
+    state.pending = undefined;
+    return;
+  }
+  const back = currentScreen(state).back;
+  if (back) {
+    state.history.pop();
+    applyTransition(state, back, { push: false });
+    return;
+  }
+  const previous = state.history.pop();
+  if (previous) {
+    state.screen = previous;
+    state.focused = undefined;
+  }
+}
+
+function tapFakeDevice(
+  state: FakeDeviceState,
+  x: number,
+  y: number,
+  trigger: 'onTap' | 'onLongPress',
+): void {
+  const node = findNodeAt(state, x, y);
+  if (!node || node.enabled === false) return;
+  if (node.type && isFillableType(node.type, 'ios')) {
+    state.focused = { screen: state.screen, index: node.index };
+  }
+  // Taps on a label inside a button trigger the nearest ancestor that declares a transition.
+  const screen = currentScreen(state);
+  let current: FakeScreenNode | undefined = node;
+  while (current) {
+    const transition = current[trigger];
+    if (transition) {
+      applyTransition(state, transition);
+      return;
+    }
+    current = current.parentIndex === undefined ? undefined : screen.nodes[current.parentIndex];
+  }
+}
+
+function fillFakeDevice(state: FakeDeviceState, x: number, y: number, text: string): void {
+  const node = requireNodeAt(state, x, y);
+  setNodeValue(state, node.index, text);
+  state.focused = { screen: state.screen, index: node.index };
+  if (node.onFill) applyTransition(state, node.onFill);
+}
+
+function typeFakeDevice(state: FakeDeviceState, text: string): void {
+  const focused = state.focused;
+  if (!focused || focused.screen !== state.screen) {
+    throw new AppError('COMMAND_FAILED', 'No focused element on the fake screen. Use focus or fill first.');
+  }
+  const node = currentScreen(state).nodes[focused.index];
+  setNodeValue(state, focused.index, `${resolveNodeValue(state, node) ?? ''}${text}`);
+}
+
+function setNodeValue(state: FakeDeviceState, index: number, value: string): void {
+  let screenValues = state.values.get(state.screen);
+  if (!screenValues) {
+    screenValues = new Map();
+    state.values.set(state.screen, screenValues);
+  }
+  screenValues.set(index, value);
+}
+
+function resolveNodeValue(state: FakeDeviceState, node: FakeScreenNode): string | undefined {
+  return state.values.get(state.screen)?.get(node.index) ?? node.value;
+}
+
+function applyTransition(
+  state: FakeDeviceState,
+  transition: ScreenTransition,
+  options: { push?: boolean } = {},
+): void {
+  if (transition.delayMs > 0) {
+    state.pending = { screen: transition.screen, dueAt: Date.now() + transition.delayMs };
+    return;
+  }
+  moveToScreen(state, transition.screen, options.push ?? true);
+}
+
+function moveToScreen(state: FakeDeviceState, screen: string, push: boolean): void {
+  if (push && screen !== state.screen) state.history.push(state.screen);
+  state.screen = screen;
+  state.focused = undefined;
+  state.pending = undefined;
+}
+
+function settlePendingTransition(state: FakeDeviceState): void {
+  if (state.pending && Date.now() >= state.pending.dueAt) {
+    moveToScreen(state, state.pending.screen, true);
+  }
+}
+
+function currentScreen(state: FakeDeviceState): FakeScreen {
+  const screen = state.graph.screens.get(state.screen);
+  if (!screen) throw new AppError('COMMAND_FAILED', `Fake screen ${state.screen} is not defined`);
+  return screen;
+}
+
+function findNodeAt(state: FakeDeviceState, x: number, y: number): FakeScreenNode | undefined {
+  let hit: FakeScreenNode | undefined;
+  for (const node of currentScreen(state).nodes) {
+    const rect = node.rect;
+    if (!rect || node.hittable === false) continue;
+    if (x < rect.x || y < rect.y || x >= rect.x + rect.width || y >= rect.y + rect.height) continue;
+    if (!hit || (node.depth ?? 0) >= (hit.depth ?? 0)) hit = node;
+  }
+  return hit;
+}
+
+function requireNodeAt(state: FakeDeviceState, x: number, y: number): FakeScreenNode {
+  const node = findNodeAt(state, x, y);
+  if (!node) {
+    throw new AppError('COMMAND_FAILED', `No element at ${x},${y} on fake screen ${state.screen}`);
+  }
+  return node;
+}
+
+function snapshotFakeDevice(state: FakeDeviceState, options: SnapshotOptions): RawSnapshotNode[] {
+  const nodes = currentScreen(state).nodes;
+  let candidates = nodes;
+  if (options.scope) {
+    const needle = options.scope.toLowerCase();
+    const root = nodes.find((node) =>
+      [node.label, resolveNodeValue(state, node), node.identifier].some((entry) =>
+        entry?.toLowerCase().includes(needle),
+      ),
+    );
+    if (!root) return [];
+    candidates = nodes.filter((node) => node === root || isDescendantOf(nodes, node, root.index));
+  }
+  const kept = candidates.filter((node) => {
+    if (options.interactiveOnly && !isInteractiveNode(node)) return false;
+    if (options.compact && !isInteractiveNode(node) && !node.label && !node.value && !node.identifier) return false;
+    return true;
+  });
+  const keptIndexes = new Set(kept.map((node) => node.index));
+  const depths = new Map<number, number>();
+  const remapped = new Map<number, number>();
+  const result: RawSnapshotNode[] = [];
+  for (const node of kept) {
+    let parentIndex = node.parentIndex;
+    while (parentIndex !== undefined && !keptIndexes.has(parentIndex)) {
+      parentIndex = nodes[parentIndex].parentIndex;
+    }
+    const depth = parentIndex === undefined ? 0 : (depths.get(parentIndex) ?? 0) + 1;
+    depths.set(node.index, depth);
+    if (options.depth !== undefined && depth > options.depth) continue;
+    const parent = parentIndex === undefined ? undefined : result[remapped.get(parentIndex) ?? -1];
+    remapped.set(node.index, result.length);
+    result.push({
+      index: result.length,
+      type: node.type,
+      label: node.label,
+      value: resolveNodeValue(state, node),
+      identifier: node.identifier,
+      rect: node.rect ? { ...node.rect } : undefined,
+      enabled: node.enabled,
+      selected: node.selected,
+      hittable: node.hittable,
+      checked: node.checked,
+      focused: node.focused,
+      scrollable: node.scrollable,
+      secure: node.secure,
+      className: node.className,
+      package: node.package,
+      depth,
+      parentIndex: parent?.index,
+    });
+  }
+  return result;
+}
+
+function isDescendantOf(nodes: FakeScreenNode[], node: FakeScreenNode, ancestorIndex: number): boolean {
+  let parentIndex = node.parentIndex;
+  while (parentIndex !== undefined) {
+    if (parentIndex === ancestorIndex) return true;
+    parentIndex = nodes[parentIndex].parentIndex;
+  }
+  return false;
+}
+
+function isInteractiveNode(node: FakeScreenNode): boolean {
+  if (node.hittable === false) return false;
+  return Boolean(node.onTap || node.onFill || node.onLongPress || (node.type && INTERACTIVE_TYPE_RE.test(node.type)));
+}
+
+function writeFakeScreenshot(state: FakeDeviceState, outPath: string): void {
+  const { width, height } = state.graph.viewport;
+  const image = createRgbaImage(width, height, [255, 255, 255, 255]);
+  // Outline each element so screenshots differ when the visible screen changes.
+  for (const node of currentScreen(state).nodes) {
+    if (!node.rect || (node.depth ?? 0) === 0) continue;
+    const shade = isInteractiveNode(node) ? 96 : 192;
+    const left = Math.max(0, Math.floor(node.rect.x));
+    const top = Math.max(0, Math.floor(node.rect.y));
+    const right = Math.min(width - 1, Math.floor(node.rect.x + node.rect.width) - 1);
+    const bottom = Math.min(height - 1, Math.floor(node.rect.y + node.rect.height) - 1);
+    for (let x = left; x <= right; x += 1) {
+      setPixel(image.data, width, x, top, shade);
+      setPixel(image.data, width, x, bottom, shade);
+    }
+    for (let y = top; y <= bottom; y += 1) {
+      setPixel(image.data, width, left, y, shade);
+      setPixel(image.data, width, right, y, shade);
+    }
+  }
+  fs.mkdirSync(path.dirname(outPath), { recursive: true });
+  fs.writeFileSync(outPath, encodePng(image));
+}
+
+function setPixel(data: Uint8Array, width: number, x: number, y: number, shade: number): void {
+  const offset = (y * width + x) * 4;
+  data[offset] = shade;
+  data[offset + 1] = shade;
+  data[offset + 2] = shade;
+}
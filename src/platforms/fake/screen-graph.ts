@@ -0,0 +1,321 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { AppError } from '../../utils/errors.ts';
+import { parseYaml } from '../../utils/yaml.ts';
+import type { DeviceKind } from '../../utils/device.ts';
+import type { RawSnapshotNode, Rect } from '../../utils/snapshot.ts';
+
+export type ScreenTransition = {
+  screen: string;
+  delayMs: number;
+};
+
+export type FakeScreenNode = RawSnapshotNode & {
+  onTap?: ScreenTransition;
+  onFill?: ScreenTransition;
+  onLongPress?: ScreenTransition;
+};
+
+export type FakeScreen = {
+  id: string;
+  nodes: FakeScreenNode[];
+  back?: ScreenTransition;
+};
+
+export type ScreenGraph = {
+  source: string;
+  device: { id?: string; name: string; kind: DeviceKind };
+  viewport: { width: number; height: number };
+  initialScreen: string;
+  homeScreen: string;
+  apps?: Record<string, string>;
+  screens: Map<string, FakeScreen>;
+};
+
+const DEFAULT_VIEWPORT = { width: 390, height: 844 };
+const AUTO_ROW_HEIGHT = 44;
+const DEVICE_KINDS: DeviceKind[] = ['simulator', 'emulator', 'device'];
+const NODE_KEYS = new Set([
+  'type',
+  'label',
+  'value',
+  'identifier',
+  'rect',
+  'enabled',
+  'selected',
+  'hittable',
+  'checked',
+  'focused',
+  'scrollable',
+  'secure',
+  'className',
+  'package',
+  'onTap',
+  'onFill',
+  'onLongPress',
+  'children',
+]);
+
+/** Built-in graph used when no --fake-screen-graph/AGENT_DEVICE_FAKE_SCREEN_GRAPH is configured. */
+export const DEMO_SCREEN_GRAPH = {
+  initialScreen: 'login',
+  apps: { demo: 'login' },
+  screens: {
+    login: {
+      nodes: [
+        {
+          type: 'Window',
+          children: [
+            { type: 'StaticText', label: 'Sign in' },
+            { type: 'TextField', label: 'Email', identifier: 'email' },
+            { type: 'SecureTextField', label: 'Password', identifier: 'password' },
+            { type: 'Button', label: 'Continue', identifier: 'continue', onTap: 'home' },
+          ],
+        },
+      ],
+    },
+    home: {
+      back: 'login',
+      nodes: [
+        {
+          type: 'Window',
+          children: [
+            { type: 'StaticText', label: 'Welcome' },
+            { type: 'Button', label: 'Settings', onTap: 'settings' },
+            { type: 'Button', label: 'Sign out', onTap: 'login' },
+          ],
+        },
+      ],
+    },
+    settings: {
+      nodes: [
+        {
+          type: 'Window',
+          children: [
+            { type: 'StaticText', label: 'Settings' },
+            { type: 'Switch', label: 'Notifications', value: '0' },
+          ],
+        },
+      ],
+    },
+  },
+};
+
+export function loadScreenGraphFile(filePath: string): ScreenGraph {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(filePath, 'utf8');
+  } catch (error) {
+    throw new AppError('INVALID_ARGS', `Unable to read fake screen graph: ${filePath}`, {
+      path: filePath,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+  const extension = path.extname(filePath).toLowerCase();
+  let document: unknown;
+  if (extension === '.yaml' || extension === '.yml') {
+    document = parseYaml(raw);
+  } else {
+    try {
+      document = JSON.parse(raw);
+    } catch (error) {
+      throw new AppError('INVALID_ARGS', `Invalid JSON in fake screen graph: ${filePath}`, {
+        path: filePath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return parseScreenGraph(document, filePath);
+}
+
+export function parseScreenGraph(document: unknown, source: string): ScreenGraph {
+  const spec = requireObject(document, 'screen graph');
+  const screensSpec = requireObject(spec.screens, 'screens');
+  const screenIds = Object.keys(screensSpec);
+  if (screenIds.length === 0) {
+    throw invalidGraph('screens must define at least one screen');
+  }
+  const viewport = parseViewport(spec.viewport);
+  const resolveTransition = (value: unknown, where: string): ScreenTransition | undefined =>
+    parseTransition(value, where, screensSpec);
+
+  const screens = new Map<string, FakeScreen>();
+  for (const id of screenIds) {
+    const screenSpec = requireObject(screensSpec[id], `screens.${id}`);
+    if (!Array.isArray(screenSpec.nodes)) {
+      throw invalidGraph(`screens.${id}.nodes must be a list`);
+    }
+    const nodes: FakeScreenNode[] = [];
+    flattenNodes(screenSpec.nodes, { screenId: id, nodes, viewport, resolveTransition });
+    screens.set(id, {
+      id,
+      nodes,
+      back: resolveTransition(screenSpec.back, `screens.${id}.back`),
+    });
+  }
+
+  const initialScreen = spec.initialScreen ?? screenIds[0];
+  requireScreenId(initialScreen, 'initialScreen', screensSpec);
+  const homeScreen = spec.homeScreen ?? initialScreen;
+  requireScreenId(homeScreen, 'homeScreen', screensSpec);
+
+  let apps: Record<string, string> | undefined;
+  if (spec.apps !== undefined) {
+    const appsSpec = requireObject(spec.apps, 'apps');
+    apps = {};
+    for (const [app, screen] of Object.entries(appsSpec)) {
+      requireScreenId(screen, `apps.${app}`, screensSpec);
+      apps[app] = screen as string;
+    }
+  }
+
+  return {
+    source,
+    device: parseDevice(spec.device),
+    viewport,
+    initialScreen: initialScreen as string,
+    homeScreen: homeScreen as string,
+    apps,
+    screens,
+  };
+}
+
+type FlattenContext = {
+  screenId: string;
+  nodes: FakeScreenNode[];
+  viewport: { width: number; height: number };
+  resolveTransition: (value: unknown, where: string) => ScreenTransition | undefined;
+};
+
+function flattenNodes(
+  specs: unknown[],
+  context: FlattenContext,
+  depth = 0,
+  parentIndex?: number,
+): void {
+  for (const entry of specs) {
+    const index = context.nodes.length;
+    const where = `screens.${context.screenId}.nodes[${index}]`;
+    const spec = requireObject(entry, where);
+    for (const key of Object.keys(spec)) {
+      if (!NODE_KEYS.has(key)) throw invalidGraph(`${where} has unknown key "${key}"`);
+    }
+    const node: FakeScreenNode = {
+      index,
+      type: optionalString(spec.type, `${where}.type`),
+      label: optionalString(spec.label, `${where}.label`),
+      value: optionalString(spec.value, `${where}.value`),
+      identifier: optionalString(spec.identifier, `${where}.identifier`),
+      // Rows are stacked top-down when a node omits rect so coordinates stay unique per node.
+      rect: spec.rect === undefined
+        ? { x: 0, y: index * AUTO_ROW_HEIGHT, width: context.viewport.width, height: AUTO_ROW_HEIGHT }
+        : parseRect(spec.rect, `${where}.rect`),
+      enabled: optionalBoolean(spec.enabled, `${where}.enabled`) ?? true,
+      selected: optionalBoolean(spec.selected, `${where}.selected`),
+      hittable: optionalBoolean(spec.hittable, `${where}.hittable`) ?? true,
+      checked: optionalBoolean(spec.checked, `${where}.checked`),
+      focused: optionalBoolean(spec.focused, `${where}.focused`),
+      scrollable: optionalBoolean(spec.scrollable, `${where}.scrollable`),
+      secure: optionalBoolean(spec.secure, `${where}.secure`),
+      className: optionalString(spec.className, `${where}.className`),
+      package: optionalString(spec.package, `${where}.package`),
+      depth,
+      parentIndex,
+      onTap: context.resolveTransition(spec.onTap, `${where}.onTap`),
+      onFill: context.resolveTransition(spec.onFill, `${where}.onFill`),
+      onLongPress: context.resolveTransition(spec.onLongPress, `${where}.onLongPress`),
+    };
+    context.nodes.push(node);
+    if (spec.children !== undefined) {
+      if (!Array.isArray(spec.children)) throw invalidGraph(`${where}.children must be a list`);
+      flattenNodes(spec.children, context, depth + 1, index);
+    }
+  }
+}
+
+function parseTransition(
+  value: unknown,
+  where: string,
+  screens: Record<string, unknown>,
+): ScreenTransition | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'string') {
+    requireScreenId(value, where, screens);
+    return { screen: value, delayMs: 0 };
+  }
+  const spec = requireObject(value, where);
+  requireScreenId(spec.screen, `${where}.screen`, screens);
+  const delayMs = spec.delayMs ?? 0;
+  if (typeof delayMs !== 'number' || !Number.isInteger(delayMs) || delayMs < 0) {
+    throw invalidGraph(`${where}.delayMs must be a non-negative integer`);
+  }
+  return { screen: spec.screen as string, delayMs };
+}
+
+function parseDevice(value: unknown): ScreenGraph['device'] {
+  if (value === undefined) return { name: 'Fake Device', kind: 'simulator' };
+  const spec = requireObject(value, 'device');
+  const kind = spec.kind ?? 'simulator';
+  if (!DEVICE_KINDS.includes(kind as DeviceKind)) {
+    throw invalidGraph(`device.kind must be one of ${DEVICE_KINDS.join(', ')}`);
+  }
+  return {
+    id: optionalString(spec.id, 'device.id'),
+    name: optionalString(spec.name, 'device.name') ?? 'Fake Device',
+    kind: kind as DeviceKind,
+  };
+}
+
+function parseViewport(value: unknown): { width: number; height: number } {
+  if (value === undefined) return { ...DEFAULT_VIEWPORT };
+  const spec = requireObject(value, 'viewport');
+  const width = spec.width;
+  const height = spec.height;
+  if (!isPositiveInteger(width) || !isPositiveInteger(height)) {
+    throw invalidGraph('viewport requires positive integer width and height');
+  }
+  return { width, height };
+}
+
+function parseRect(value: unknown, where: string): Rect {
+  const spec = requireObject(value, where);
+  const rect = { x: spec.x, y: spec.y, width: spec.width, height: spec.height };
+  if (Object.values(rect).some((entry) => typeof entry !== 'number' || !Number.isFinite(entry))) {
+    throw invalidGraph(`${where} requires numeric x, y, width and height`);
+  }
+  return rect as Rect;
+}
+
+function requireScreenId(value: unknown, where: string, screens: Record<string, unknown>): void {
+  if (typeof value !== 'string' || !Object.hasOwn(screens, value)) {
+    throw invalidGraph(`${where} references unknown screen ${JSON.stringify(value)}`);
+  }
+}
+
+function requireObject(value: unknown, where: string): Record<string, unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw invalidGraph(`${where} must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function optionalString(value: unknown, where: string): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (typeof value !== 'string') throw invalidGraph(`${where} must be a string`);
+  return value;
+}
+
+function optionalBoolean(value: unknown, where: string): boolean | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'boolean') throw invalidGraph(`${where} must be a boolean`);
+  return value;
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+function invalidGraph(message: string): AppError {
+  return new AppError('INVALID_ARGS', `Invalid fake screen graph: ${message}`);
+}
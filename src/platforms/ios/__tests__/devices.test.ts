@@ -4,6 +4,7 @@ import {
   isAppleProductType,
   isAppleTvProductType,
   isSupportedAppleDevicectlDevice,
+  parseAppleRuntimeVersion,
   resolveAppleTargetFromDevicectlDevice,
 } from '../devices.ts';
 
@@ -39,3 +40,9 @@ test('apple product type helpers classify iOS and tvOS product families', () =>
   assert.equal(isAppleTvProductType('AppleTV11,1'), true);
   assert.equal(isAppleTvProductType('iPhone16,2'), false);
 });
+
+test('parseAppleRuntimeVersion reads iOS and tvOS runtime identifiers', () => {
+  assert.equal(parseAppleRuntimeVersion('com.apple.CoreSimulator.SimRuntime.iOS-18-2'), '18.2');
+  assert.equal(parseAppleRuntimeVersion('com.apple.CoreSimulator.SimRuntime.tvOS-17-0'), '17.0');
+  assert.equal(parseAppleRuntimeVersion('com.apple.CoreSimulator.SimRuntime.watchOS-11-0'), undefined);
+});
@@ -0,0 +1,177 @@
+import { AppError } from '../../utils/errors.ts';
+import type { DeviceInfo } from '../../utils/device.ts';
+import type { Interactor, RunnerContext } from '../../utils/interactors.ts';
+import type { PlatformBackend } from '../../core/platform-backends.ts';
+import { resolveIosSimulatorDeviceSetPath } from '../../utils/device-isolation.ts';
+import { isRequestCanceled } from '../../daemon/request-cancel.ts';
+import { listIosDevices } from './devices.ts';
+import { closeIosApp, openIosApp, openIosDevice, screenshotIos } from './index.ts';
+import { runIosRunnerCommand } from './runner-client.ts';
+
+export const iosBackend: PlatformBackend = {
+  platform: 'ios',
+  listDevices: async (flags) =>
+    await listIosDevices({ simulatorSetPath: resolveIosSimulatorDeviceSetPath(flags.iosSimulatorDeviceSet) }),
+  createInteractor: (device, runnerContext) => createIosInteractor(device, runnerContext),
+};
+
+function createIosInteractor(device: DeviceInfo, runnerContext: RunnerContext): Interactor {
+  return {
+    open: (app, options) => openIosApp(device, app, { appBundleId: options?.appBundleId, url: options?.url }),
+    openDevice: () => openIosDevice(device),
+    close: (app) => closeIosApp(device, app),
+    screenshot: (outPath, appBundleId) => screenshotIos(device, outPath, appBundleId),
+    ...iosRunnerOverrides(device, runnerContext),
+  };
+}
+
+type IoRunnerOverrides = Pick<
+  Interactor,
+  | 'tap'
+  | 'doubleTap'
+  | 'swipe'
+  | 'longPress'
+  | 'focus'
+  | 'type'
+  | 'fill'
+  | 'scroll'
+  | 'scrollIntoView'
+  | 'gesture'
+  | 'drag'
+>;
+
+function iosRunnerOverrides(device: DeviceInfo, ctx: RunnerContext): IoRunnerOverrides {
+  const runnerOpts = {
+    verbose: ctx.verbose,
+    logPath: ctx.logPath,
+    traceLogPath: ctx.traceLogPath,
+    requestId: ctx.requestId,
+  };
+  const throwIfCanceled = () => {
+    if (!isRequestCanceled(ctx.requestId)) return;
+    throw new AppError('COMMAND_FAILED', 'request canceled');
+  };
+
+  return {
+    tap: async (x, y) => {
+      await runIosRunnerCommand(
+        device,
+        { command: 'tap', x, y, appBundleId: ctx.appBundleId },
+        runnerOpts,
+      );
+    },
+    doubleTap: async (x, y) => {
+      await runIosRunnerCommand(
+        device,
+        { command: 'tapSeries', x, y, count: 1, intervalMs: 0, doubleTap: true, appBundleId: ctx.appBundleId },
+        runnerOpts,
+      );
+    },
+    swipe: async (x1, y1, x2, y2, durationMs) => {
+      await runIosRunnerCommand(
+        device,
+        { command: 'drag', x: x1, y: y1, x2, y2, durationMs, appBundleId: ctx.appBundleId },
+        runnerOpts,
+      );
+    },
+    longPress: async (x, y, durationMs) => {
+      await runIosRunnerCommand(
+        device,
+        { command: 'longPress', x, y, durationMs, appBundleId: ctx.appBundleId },
+        runnerOpts,
+      );
+    },
+    focus: async (x, y) => {
+      await runIosRunnerCommand(
+        device,
+        { command: 'tap', x, y, appBundleId: ctx.appBundleId },
+        runnerOpts,
+      );
+    },
+    type: async (text) => {
+      await runIosRunnerCommand(
+        device,
+        { command: 'type', text, appBundleId: ctx.appBundleId },
+        runnerOpts,
+      );
+    },
+    fill: async (x, y, text) => {
+      await runIosRunnerCommand(
+        device,
+        { command: 'tap', x, y, appBundleId: ctx.appBundleId },
+        runnerOpts,
+      );
+      await runIosRunnerCommand(
+        device,
+        { command: 'type', text, clearFirst: true, appBundleId: ctx.appBundleId },
+        runnerOpts,
+      );
+    },
+    scroll: async (direction, _amount) => {
+      if (!['up', 'down', 'left', 'right'].includes(direction)) {
+        throw new AppError('INVALID_ARGS', `Unknown direction: ${direction}`);
+      }
+      const inverted = invertScrollDirection(direction as 'up' | 'down' | 'left' | 'right');
+      await runIosRunnerCommand(
+        device,
+        { command: 'swipe', direction: inverted, appBundleId: ctx.appBundleId },
+        runnerOpts,
+      );
+    },
+    scrollIntoView: async (text) => {
+      // Check once, then scroll in bursts to avoid slow find->swipe->find cadence on heavy screens.
+      const initial = (await runIosRunnerCommand(
+        device,
+        { command: 'findText', text, appBundleId: ctx.appBundleId },
+        runnerOpts,
+      )) as { found?: boolean };
+      if (initial?.found) return { attempts: 1 };
+
+      const maxBursts = 12;
+      const swipesPerBurst = 4;
+      for (let burst = 0; burst < maxBursts; burst += 1) {
+        for (let i = 0; i < swipesPerBurst; i += 1) {
+          throwIfCanceled();
+          await runIosRunnerCommand(
+            device,
+            { command: 'swipe', direction: 'up', appBundleId: ctx.appBundleId },
+            runnerOpts,
+          );
+          // Small settle keeps gesture chain stable without long visible pauses.
+          await new Promise((resolve) => setTimeout(resolve, 80));
+        }
+        throwIfCanceled();
+        const found = (await runIosRunnerCommand(
+          device,
+          { command: 'findText', text, appBundleId: ctx.appBundleId },
+          runnerOpts,
+        )) as { found?: boolean };
+        if (found?.found) return { attempts: burst + 2 };
+      }
+      throw new AppError('COMMAND_FAILED', `scrollintoview could not find text: ${text}`);
+    },
+    gesture: async (pointers) => {
+      await runIosRunnerCommand(
+        device,
+        { command: 'gesture', pointers, appBundleId: ctx.appBundleId },
+        runnerOpts,
+      );
+    },
+    drag: async (path) => {
+      await runIosRunnerCommand(device, { command: 'drag', path, appBundleId: ctx.appBundleId }, runnerOpts);
+    },
+  };
+}
+
+function invertScrollDirection(direction: 'up' | 'down' | 'left' | 'right'): 'up' | 'down' | 'left' | 'right' {
+  switch (direction) {
+    case 'up':
+      return 'down';
+    case 'down':
+      return 'up';
+    case 'left':
+      return 'right';
+    case 'right':
+      return 'left';
+  }
+}
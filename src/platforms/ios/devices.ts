@@ -32,7 +32,7 @@ type DevicectlAppleDevice = {
   identifier?: string;
   name?: string;
   hardwareProperties?: { platform?: string; udid?: string; productType?: string };
-  deviceProperties?: { name?: string; productType?: string; deviceType?: string };
+  deviceProperties?: { name?: string; productType?: string; deviceType?: string; osVersionNumber?: string };
   connectionProperties?: { tunnelState?: string };
 };
 
@@ -66,6 +66,12 @@ function resolveAppleTargetFromRuntime(runtime: string): DeviceTarget {
   return isAppleTvPlatform(resolveAppleRuntime(runtime)) ? 'tv' : 'mobile';
 }
 
+/** `com.apple.CoreSimulator.SimRuntime.iOS-18-2` -> `18.2`. */
+export function parseAppleRuntimeVersion(runtime: string): string | undefined {
+  const match = /(?:ios|tvos)-(\d+(?:-\d+)*)$/i.exec(runtime.trim());
+  return match ? match[1].replace(/-/g, '.') : undefined;
+}
+
 function isSupportedAppleRuntime(runtime: string): boolean {
   const normalized = resolveAppleRuntime(runtime);
   return normalized.includes('ios') || normalized.includes('tvos');
@@ -139,6 +145,7 @@ export async function listIosDevices(options: IosDeviceDiscoveryOptions = {}): P
           kind: 'simulator',
           target: resolveAppleTargetFromRuntime(runtime),
           booted: device.state === 'Booted',
+          osVersion: parseAppleRuntimeVersion(runtime),
           ...(simulatorSetPath ? { simulatorSetPath } : {}),
         });
       }
@@ -180,6 +187,7 @@ export async function listIosDevices(options: IosDeviceDiscoveryOptions = {}): P
           kind: 'device',
           target: resolveAppleTargetFromDevicectlDevice(device),
           booted: true,
+          osVersion: device.deviceProperties?.osVersionNumber,
         });
       }
     }
@@ -13,6 +13,7 @@ import { bootFailureHint, classifyBootFailure } from '../boot-diagnostics.ts';
 import { resolveTimeoutMs, resolveTimeoutSeconds } from '../../utils/timeouts.ts';
 import { isRequestCanceled } from '../../daemon/request-cancel.ts';
 import { buildSimctlArgsForDevice } from './simctl.ts';
+import type { GesturePointer } from '../../core/gestures.ts';
 
 const iosRunnerContainerBundleIds = [
   process.env.AGENT_DEVICE_IOS_RUNNER_CONTAINER_BUNDLE_ID,
@@ -42,6 +43,7 @@ type RunnerCommand = {
     | 'appSwitcher'
     | 'alert'
     | 'pinch'
+    | 'gesture'
     | 'recordStart'
     | 'recordStop'
     | 'shutdown';
@@ -60,6 +62,9 @@ type RunnerCommand = {
   durationMs?: number;
   direction?: 'up' | 'down' | 'left' | 'right';
   scale?: number;
+  pointers?: GesturePointer[];
+  path?: GesturePointer;
+  returnPath?: GesturePointer;
   outPath?: string;
   fps?: number;
   interactiveOnly?: boolean;
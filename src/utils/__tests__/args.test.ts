@@ -245,6 +245,32 @@ test('parseArgs recognizes swipe positional + pattern flags', () => {
   assert.equal(parsed.flags.pattern, 'ping-pong');
 });
 
+test('parseArgs recognizes drag waypoints, hold and profile flags', () => {
+  const parsed = parseArgs(
+    [
+      'drag',
+      '@e3',
+      'label="Trash"',
+      '900',
+      '--via',
+      '200,400',
+      '--via',
+      '300,500',
+      '--hold-ms',
+      '600',
+      '--profile',
+      'ease-out',
+    ],
+    { strictFlags: true },
+  );
+  assert.equal(parsed.command, 'drag');
+  assert.deepEqual(parsed.positionals, ['@e3', 'label="Trash"', '900']);
+  assert.deepEqual(parsed.flags.dragVia, ['200,400', '300,500']);
+  assert.equal(parsed.flags.holdMs, 600);
+  assert.equal(parsed.flags.dragProfile, 'ease-out');
+  assert.throws(() => parseArgs(['drag', '1,1', '2,2', '--profile', 'bouncy']), /profile/i);
+});
+
 test('parseArgs recognizes record --fps flag', () => {
   const parsed = parseArgs(['record', 'start', './capture.mp4', '--fps', '30'], { strictFlags: true });
   assert.equal(parsed.command, 'record');
@@ -507,3 +533,22 @@ test('removed trigger aliases are no longer documented as commands', () => {
   const help = usageForCommand('trigger-screenshot-notification');
   assert.equal(help, null);
 });
+
+test('parseArgs collects repeated --ignore regions for screenshot comparison', () => {
+  const parsed = parseArgs([
+    'screenshot',
+    'now.png',
+    '--compare',
+    'base.png',
+    '--ignore',
+    '@e3',
+    '--ignore',
+    '0,0,100,40',
+    '--threshold',
+    '0.5',
+  ]);
+  assert.deepEqual(parsed.positionals, ['now.png']);
+  assert.equal(parsed.flags.screenshotCompare, 'base.png');
+  assert.deepEqual(parsed.flags.screenshotIgnore, ['@e3', '0,0,100,40']);
+  assert.equal(parsed.flags.screenshotThreshold, '0.5');
+});
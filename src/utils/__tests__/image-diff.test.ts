@@ -0,0 +1,66 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import zlib from 'node:zlib';
+import { diffImages } from '../image-diff.ts';
+import { createRgbaImage, decodePng, encodePng } from '../png.ts';
+import { AppError } from '../errors.ts';
+
+function paint(image: ReturnType<typeof createRgbaImage>, x: number, y: number, rgba: number[]): void {
+  image.data.set(rgba, (y * image.width + x) * 4);
+}
+
+test('decodePng round-trips encodePng output', () => {
+  const image = createRgbaImage(3, 2, [10, 20, 30, 255]);
+  paint(image, 2, 1, [200, 100, 50, 128]);
+  const decoded = decodePng(encodePng(image));
+  assert.equal(decoded.width, 3);
+  assert.equal(decoded.height, 2);
+  assert.deepEqual(Array.from(decoded.data), Array.from(image.data));
+});
+
+test('decodePng handles filtered RGB scanlines', () => {
+  // 2x2 RGB: row 0 uses the Sub filter, row 1 uses the Up filter.
+  const raw = Buffer.from([1, 10, 20, 30, 5, 5, 5, 2, 1, 1, 1, 0, 0, 0]);
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(2, 0);
+  header.writeUInt32BE(2, 4);
+  header.set([8, 2, 0, 0, 0], 8);
+  const png = Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', zlib.deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+  const decoded = decodePng(png);
+  assert.deepEqual(Array.from(decoded.data), [10, 20, 30, 255, 15, 25, 35, 255, 11, 21, 31, 255, 15, 25, 35, 255]);
+});
+
+test('diffImages counts differences outside ignored regions', () => {
+  const baseline = createRgbaImage(10, 10, [255, 255, 255, 255]);
+  const current = createRgbaImage(10, 10, [255, 255, 255, 255]);
+  paint(current, 1, 1, [0, 0, 0, 255]);
+  paint(current, 8, 8, [0, 0, 0, 255]);
+  paint(current, 5, 5, [250, 250, 250, 255]);
+
+  const diff = diffImages(baseline, current, [{ x: 7, y: 7, width: 3, height: 3 }]);
+  assert.equal(diff.differentPixels, 1);
+  assert.equal(diff.ignoredPixels, 9);
+  assert.equal(diff.comparedPixels, 91);
+  assert.equal(diff.image.data[(1 * 10 + 1) * 4], 255);
+  assert.equal(diff.image.data[(1 * 10 + 1) * 4 + 1], 0);
+});
+
+test('diffImages rejects images with different sizes', () => {
+  assert.throws(
+    () => diffImages(createRgbaImage(2, 2, [0, 0, 0, 255]), createRgbaImage(3, 2, [0, 0, 0, 255])),
+    (error: unknown) => error instanceof AppError && error.code === 'COMMAND_FAILED' && /3x2/.test(error.message),
+  );
+});
+
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length, 0);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(zlib.crc32(Buffer.concat([Buffer.from(type, 'ascii'), data])) >>> 0, 0);
+  return Buffer.concat([length, Buffer.from(type, 'ascii'), data, crc]);
+}
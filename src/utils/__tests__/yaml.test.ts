@@ -0,0 +1,55 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { parseYaml } from '../yaml.ts';
+import { AppError } from '../errors.ts';
+
+test('parseYaml reads nested mappings, sequences and scalars', () => {
+  const parsed = parseYaml([
+    '# screen graph',
+    'initialScreen: login',
+    'viewport: { width: 390, height: 844 }',
+    'screens:',
+    '  login:',
+    '    nodes:',
+    '      - type: Button',
+    '        label: "Sign in: now"',
+    "        value: 'it''s'",
+    '        enabled: false',
+    '      - { type: Text, label: Hello }  # trailing comment',
+    '    tags: [a, "b c", 3]',
+    '    back: ~',
+  ].join('\n'));
+  assert.deepEqual(parsed, {
+    initialScreen: 'login',
+    viewport: { width: 390, height: 844 },
+    screens: {
+      login: {
+        nodes: [
+          { type: 'Button', label: 'Sign in: now', value: "it's", enabled: false },
+          { type: 'Text', label: 'Hello' },
+        ],
+        tags: ['a', 'b c', 3],
+        back: null,
+      },
+    },
+  });
+});
+
+test('parseYaml accepts sequences at mapping indentation and nested item blocks', () => {
+  const parsed = parseYaml(['items:', '- name: one', '  children:', '    - two', '-', '  name: three'].join('\n'));
+  assert.deepEqual(parsed, {
+    items: [{ name: 'one', children: ['two'] }, { name: 'three' }],
+  });
+});
+
+test('parseYaml rejects unsupported syntax with line numbers', () => {
+  assert.throws(
+    () => parseYaml('key: |\n  multi'),
+    (error: unknown) =>
+      error instanceof AppError && error.code === 'INVALID_ARGS' && /line 1/.test(error.message),
+  );
+  assert.throws(
+    () => parseYaml('a: 1\n    b: 2'),
+    (error: unknown) => error instanceof AppError && /line 2/.test(error.message),
+  );
+});
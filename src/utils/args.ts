@@ -68,7 +68,12 @@ export function parseArgs(argv: string[], options?: ParseArgsOptions): ParsedArg
 
     const parsed = parseFlagValue(definition, token, inlineValue, argv[i + 1]);
     if (parsed.consumeNext) i += 1;
-    (flags as Record<string, unknown>)[definition.key] = parsed.value;
+    if (definition.repeatable) {
+      const previous = (flags as Record<string, unknown>)[definition.key];
+      (flags as Record<string, unknown>)[definition.key] = [...(Array.isArray(previous) ? previous : []), parsed.value];
+    } else {
+      (flags as Record<string, unknown>)[definition.key] = parsed.value;
+    }
     providedFlags.push({ key: definition.key, token });
   }
 
@@ -1,4 +1,5 @@
 import { SETTINGS_USAGE_OVERRIDE } from '../core/settings-contract.ts';
+import type { PlatformSelector } from './device.ts';
 
 export type CliFlags = {
   json: boolean;
@@ -9,13 +10,15 @@ export type CliFlags = {
   sessionIsolation?: 'none' | 'tenant';
   runId?: string;
   leaseId?: string;
-  platform?: 'ios' | 'android' | 'apple';
+  platform?: PlatformSelector;
   target?: 'mobile' | 'tv';
   device?: string;
   udid?: string;
   serial?: string;
+  devices?: string;
   iosSimulatorDeviceSet?: string;
   androidDeviceAllowlist?: string;
+  fakeScreenGraph?: string;
   out?: string;
   session?: string;
   verbose?: boolean;
@@ -28,11 +31,17 @@ export type CliFlags = {
   count?: number;
   fps?: number;
   intervalMs?: number;
+  pollMs?: number;
   holdMs?: number;
   jitterPx?: number;
   doubleTap?: boolean;
   pauseMs?: number;
   pattern?: 'one-way' | 'ping-pong';
+  scrollContainer?: string;
+  scrollDirection?: 'down' | 'up' | 'left' | 'right';
+  scrollMaxSwipes?: number;
+  dragVia?: string[];
+  dragProfile?: 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
   activity?: string;
   saveScript?: boolean | string;
   relaunch?: boolean;
@@ -40,6 +49,24 @@ export type CliFlags = {
   restart?: boolean;
   noRecord?: boolean;
   replayUpdate?: boolean;
+  replayReport?: 'junit' | 'tap' | 'json';
+  replayReportFile?: string;
+  leaseAt?: string;
+  screenshotCompare?: string;
+  screenshotThreshold?: string;
+  screenshotIgnore?: string[];
+  screenshotDiffOut?: string;
+  mockMethod?: string;
+  mockStatus?: number;
+  mockHeader?: string[];
+  mockBody?: string;
+  mockBodyFile?: string;
+  mockDelayMs?: number;
+  mockThrottleKbps?: number;
+  mockOffline?: boolean;
+  networkHostProxy?: boolean;
+  traceBundle?: boolean;
+  traceScreenshots?: boolean;
   steps?: string;
   stepsFile?: string;
   batchOnError?: 'stop';
@@ -64,6 +91,8 @@ export type FlagDefinition = {
   min?: number;
   max?: number;
   setValue?: CliFlags[FlagKey];
+  /** Collect every occurrence into an array instead of keeping the last value. */
+  repeatable?: boolean;
   usageLabel?: string;
   usageDescription?: string;
 };
@@ -78,6 +107,24 @@ type CommandSchema = {
   usageOverride?: string;
 };
 
+const SCREENSHOT_COMPARE_FLAGS = [
+  'screenshotCompare',
+  'screenshotThreshold',
+  'screenshotIgnore',
+  'screenshotDiffOut',
+] as const satisfies readonly FlagKey[];
+
+const NETWORK_MOCK_FLAGS = [
+  'mockMethod',
+  'mockStatus',
+  'mockHeader',
+  'mockBody',
+  'mockBodyFile',
+  'mockDelayMs',
+  'mockThrottleKbps',
+  'mockOffline',
+] as const satisfies readonly FlagKey[];
+
 const SNAPSHOT_FLAGS = [
   'snapshotInteractiveOnly',
   'snapshotCompact',
@@ -150,10 +197,9 @@ const FLAG_DEFINITIONS: readonly FlagDefinition[] = [
   {
     key: 'platform',
     names: ['--platform'],
-    type: 'enum',
-    enumValues: ['ios', 'android', 'apple'],
-    usageLabel: '--platform ios|android|apple',
-    usageDescription: 'Platform to target (`apple` aliases the iOS/tvOS backend)',
+    type: 'string',
+    usageLabel: '--platform ios|android|apple|fake|<backend>',
+    usageDescription: 'Platform to target (`apple` aliases the iOS/tvOS backend; registered backends use their own name)',
   },
   {
     key: 'target',
@@ -184,6 +230,13 @@ const FLAG_DEFINITIONS: readonly FlagDefinition[] = [
     usageLabel: '--serial <serial>',
     usageDescription: 'Android device serial',
   },
+  {
+    key: 'devices',
+    names: ['--devices'],
+    type: 'string',
+    usageLabel: '--devices <list|@group>',
+    usageDescription: 'Run concurrently on several devices ([platform:]name, platform:id=<id>, @group; comma separated)',
+  },
   {
     key: 'headless',
     names: ['--headless'],
@@ -205,6 +258,13 @@ const FLAG_DEFINITIONS: readonly FlagDefinition[] = [
     usageLabel: '--android-device-allowlist <serials>',
     usageDescription: 'Comma/space separated Android serial allowlist for discovery/selection',
   },
+  {
+    key: 'fakeScreenGraph',
+    names: ['--fake-screen-graph'],
+    type: 'string',
+    usageLabel: '--fake-screen-graph <path>',
+    usageDescription: 'Fake platform: JSON/YAML screen graph driving the fake device',
+  },
   {
     key: 'activity',
     names: ['--activity'],
@@ -226,7 +286,7 @@ const FLAG_DEFINITIONS: readonly FlagDefinition[] = [
     min: 1,
     max: 200,
     usageLabel: '--count <n>',
-    usageDescription: 'Repeat count for press/swipe series',
+    usageDescription: 'Repeat count for press/swipe/drag series',
   },
   {
     key: 'fps',
@@ -244,7 +304,16 @@ const FLAG_DEFINITIONS: readonly FlagDefinition[] = [
     min: 0,
     max: 10_000,
     usageLabel: '--interval-ms <ms>',
-    usageDescription: 'Delay between press iterations',
+    usageDescription: 'Delay between press iterations or perf samples',
+  },
+  {
+    key: 'pollMs',
+    names: ['--poll-ms'],
+    type: 'int',
+    min: 50,
+    max: 10_000,
+    usageLabel: '--poll-ms <ms>',
+    usageDescription: 'Wait: delay between checks (default: 300)',
   },
   {
     key: 'holdMs',
@@ -253,7 +322,7 @@ const FLAG_DEFINITIONS: readonly FlagDefinition[] = [
     min: 0,
     max: 10_000,
     usageLabel: '--hold-ms <ms>',
-    usageDescription: 'Press hold duration for each iteration',
+    usageDescription: 'Press hold duration for each iteration; drag: hold before moving',
   },
   {
     key: 'jitterPx',
@@ -278,7 +347,7 @@ const FLAG_DEFINITIONS: readonly FlagDefinition[] = [
     min: 0,
     max: 10_000,
     usageLabel: '--pause-ms <ms>',
-    usageDescription: 'Delay between swipe iterations',
+    usageDescription: 'Delay between swipe or drag iterations',
   },
   {
     key: 'pattern',
@@ -286,7 +355,47 @@ const FLAG_DEFINITIONS: readonly FlagDefinition[] = [
     type: 'enum',
     enumValues: ['one-way', 'ping-pong'],
     usageLabel: '--pattern one-way|ping-pong',
-    usageDescription: 'Swipe repeat pattern',
+    usageDescription: 'Swipe or drag repeat pattern',
+  },
+  {
+    key: 'scrollContainer',
+    names: ['--container'],
+    type: 'string',
+    usageLabel: '--container <selector>',
+    usageDescription: 'Scrollintoview: scrollable container to swipe within',
+  },
+  {
+    key: 'scrollDirection',
+    names: ['--direction'],
+    type: 'enum',
+    enumValues: ['down', 'up', 'left', 'right'],
+    usageLabel: '--direction down|up|left|right',
+    usageDescription: 'Scrollintoview: direction to scroll the content (default: down)',
+  },
+  {
+    key: 'scrollMaxSwipes',
+    names: ['--max-swipes'],
+    type: 'int',
+    min: 1,
+    max: 100,
+    usageLabel: '--max-swipes <n>',
+    usageDescription: 'Scrollintoview: swipes before giving up (default: 10)',
+  },
+  {
+    key: 'dragVia',
+    names: ['--via'],
+    type: 'string',
+    repeatable: true,
+    usageLabel: '--via <x,y|@ref|selector>',
+    usageDescription: 'Drag: waypoint between from and to (repeatable, in order)',
+  },
+  {
+    key: 'dragProfile',
+    names: ['--profile'],
+    type: 'enum',
+    enumValues: ['linear', 'ease-in', 'ease-out', 'ease-in-out'],
+    usageLabel: '--profile linear|ease-in|ease-out|ease-in-out',
+    usageDescription: 'Drag: velocity profile along the path (default: linear)',
   },
   {
     key: 'verbose',
@@ -351,6 +460,142 @@ const FLAG_DEFINITIONS: readonly FlagDefinition[] = [
     usageLabel: '--update, -u',
     usageDescription: 'Replay: update selectors and rewrite replay file in place',
   },
+  {
+    key: 'replayReport',
+    names: ['--report'],
+    type: 'enum',
+    enumValues: ['junit', 'tap', 'json'],
+    usageLabel: '--report junit|tap|json',
+    usageDescription: 'Replay: write a per-step report with failure screenshots and snapshots',
+  },
+  {
+    key: 'replayReportFile',
+    names: ['--report-file'],
+    type: 'string',
+    usageLabel: '--report-file <path>',
+    usageDescription: 'Replay: report output path (default: ./replay-report.<xml|tap|json>)',
+  },
+  {
+    key: 'leaseAt',
+    names: ['--at'],
+    type: 'string',
+    usageLabel: '--at <time>',
+    usageDescription: 'Lease list: leases held at an ISO time, or today at HH:MM',
+  },
+  {
+    key: 'screenshotCompare',
+    names: ['--compare'],
+    type: 'string',
+    usageLabel: '--compare <baseline.png>',
+    usageDescription: 'Screenshot: compare against a baseline PNG (created on first run when missing)',
+  },
+  {
+    key: 'screenshotThreshold',
+    names: ['--threshold'],
+    type: 'string',
+    usageLabel: '--threshold <percent>',
+    usageDescription: 'Screenshot: allowed share of differing pixels, 0-100 (default: 0)',
+  },
+  {
+    key: 'screenshotIgnore',
+    names: ['--ignore'],
+    type: 'string',
+    repeatable: true,
+    usageLabel: '--ignore <@ref|selector|x,y,w,h>',
+    usageDescription: 'Screenshot: mask a region from comparison (repeatable; rects are image pixels)',
+  },
+  {
+    key: 'screenshotDiffOut',
+    names: ['--diff-out'],
+    type: 'string',
+    usageLabel: '--diff-out <path>',
+    usageDescription: 'Screenshot: diff image path (default: <screenshot>.diff.png)',
+  },
+  {
+    key: 'mockMethod',
+    names: ['--method'],
+    type: 'string',
+    usageLabel: '--method <GET|POST|...>',
+    usageDescription: 'Network mock: only match this HTTP method',
+  },
+  {
+    key: 'mockStatus',
+    names: ['--status'],
+    type: 'int',
+    min: 100,
+    max: 599,
+    usageLabel: '--status <code>',
+    usageDescription: 'Network mock: respond with this status instead of calling the server',
+  },
+  {
+    key: 'mockHeader',
+    names: ['--header'],
+    type: 'string',
+    repeatable: true,
+    usageLabel: '--header "<name>: <value>"',
+    usageDescription: 'Network mock: stubbed response header (repeatable)',
+  },
+  {
+    key: 'mockBody',
+    names: ['--body'],
+    type: 'string',
+    usageLabel: '--body <text>',
+    usageDescription: 'Network mock: stubbed response body',
+  },
+  {
+    key: 'mockBodyFile',
+    names: ['--body-file'],
+    type: 'string',
+    usageLabel: '--body-file <path>',
+    usageDescription: 'Network mock: read the stubbed response body from a file',
+  },
+  {
+    key: 'mockDelayMs',
+    names: ['--delay-ms'],
+    type: 'int',
+    min: 0,
+    max: 120_000,
+    usageLabel: '--delay-ms <ms>',
+    usageDescription: 'Network mock: delay matching requests',
+  },
+  {
+    key: 'mockThrottleKbps',
+    names: ['--throttle-kbps'],
+    type: 'int',
+    min: 1,
+    max: 1_000_000,
+    usageLabel: '--throttle-kbps <kbps>',
+    usageDescription: 'Network mock: cap response bandwidth in kilobits per second',
+  },
+  {
+    key: 'mockOffline',
+    names: ['--offline'],
+    type: 'boolean',
+    usageLabel: '--offline',
+    usageDescription: 'Network mock: drop matching requests as if the device were offline',
+  },
+  {
+    key: 'networkHostProxy',
+    names: ['--host-proxy'],
+    type: 'boolean',
+    usageLabel: '--host-proxy',
+    usageDescription:
+      'Network capture on iOS simulators: proxy the whole Mac instead of the session app (needs admin rights)',
+  },
+  {
+    key: 'traceBundle',
+    names: ['--bundle'],
+    type: 'boolean',
+    usageLabel: '--bundle',
+    usageDescription: 'Trace: record a bundle directory with per-command snapshots, app log slices and an HTML timeline',
+  },
+  {
+    key: 'traceScreenshots',
+    names: ['--screenshots'],
+    type: 'boolean',
+    usageLabel: '--screenshots',
+    usageDescription: 'Trace: also capture a screenshot after each command (implies --bundle)',
+  },
   {
     key: 'steps',
     names: ['--steps'],
@@ -460,8 +705,10 @@ export const GLOBAL_FLAG_KEYS = new Set<FlagKey>([
   'device',
   'udid',
   'serial',
+  'devices',
   'iosSimulatorDeviceSet',
   'androidDeviceAllowlist',
+  'fakeScreenGraph',
   'session',
   'noRecord',
 ]);
@@ -498,10 +745,10 @@ const COMMAND_SCHEMAS: Record<string, CommandSchema> = {
     allowedFlags: [...SNAPSHOT_FLAGS],
   },
   diff: {
-    usageOverride: 'diff snapshot',
-    description: 'Diff current accessibility snapshot against previous baseline',
-    positionalArgs: ['kind'],
-    allowedFlags: [...SNAPSHOT_FLAGS],
+    usageOverride: 'diff snapshot | diff screenshot [path]',
+    description: 'Diff current accessibility snapshot or screenshot against previous baseline',
+    positionalArgs: ['kind', 'path?'],
+    allowedFlags: [...SNAPSHOT_FLAGS, ...SCREENSHOT_COMPARE_FLAGS],
   },
   devices: {
     description: 'List available devices',
@@ -535,9 +782,10 @@ const COMMAND_SCHEMAS: Record<string, CommandSchema> = {
     allowedFlags: [],
   },
   perf: {
-    description: 'Show session performance metrics (startup timing)',
-    positionalArgs: [],
-    allowedFlags: [],
+    usageOverride: 'perf [start|stop|sample]',
+    description: 'Show session performance metrics or sample app CPU, memory and frame rate over a window',
+    positionalArgs: ['action?'],
+    allowedFlags: ['intervalMs'],
   },
   back: {
     description: 'Navigate back (where supported)',
@@ -555,15 +803,16 @@ const COMMAND_SCHEMAS: Record<string, CommandSchema> = {
     allowedFlags: [],
   },
   wait: {
-    usageOverride: 'wait <ms>|text <text>|@ref|<selector> [timeoutMs]',
-    description: 'Wait for duration, text, ref, or selector to appear',
+    usageOverride:
+      'wait <ms>|text <text>|@ref|<selector> [timeoutMs] | wait <visible|hidden|exists|editable|selected|checked|focused|text> <@ref|selector> [value] [timeoutMs] | wait stable [timeoutMs]',
+    description: 'Wait for duration, text, ref or selector to appear, an is predicate to pass, or the UI to stop changing',
     positionalArgs: ['durationOrSelector', 'timeoutMs?'],
     allowsExtraPositionals: true,
-    allowedFlags: [...SELECTOR_SNAPSHOT_FLAGS],
+    allowedFlags: [...SELECTOR_SNAPSHOT_FLAGS, 'pollMs'],
   },
   alert: {
     usageOverride: 'alert [get|accept|dismiss|wait] [timeout]',
-    description: 'Inspect or handle alert (iOS simulator)',
+    description: 'Inspect or handle alert (iOS simulator, Android)',
     positionalArgs: ['action?', 'timeout?'],
     allowedFlags: [],
   },
@@ -581,9 +830,11 @@ const COMMAND_SCHEMAS: Record<string, CommandSchema> = {
     allowedFlags: [...SELECTOR_SNAPSHOT_FLAGS],
   },
   replay: {
-    description: 'Replay a recorded session',
+    usageOverride: 'replay <path|dir|glob>...',
+    description: 'Replay a recorded session, or a suite of .ad scripts',
     positionalArgs: ['path'],
-    allowedFlags: ['replayUpdate'],
+    allowsExtraPositionals: true,
+    allowedFlags: ['replayUpdate', 'replayReport', 'replayReportFile'],
     skipCapabilityCheck: true,
   },
   batch: {
@@ -610,6 +861,13 @@ const COMMAND_SCHEMAS: Record<string, CommandSchema> = {
     positionalArgs: ['x1', 'y1', 'x2', 'y2', 'durationMs?'],
     allowedFlags: ['count', 'pauseMs', 'pattern'],
   },
+  drag: {
+    usageOverride:
+      'drag <x,y|@ref|selector> <x,y|@ref|selector> [durationMs] [--via <point>]... [--hold-ms <ms>] [--profile <name>]',
+    description: 'Drag along a path between points, refs or selectors (drag-and-drop, sliders, reordering)',
+    positionalArgs: ['from', 'to', 'durationMs?'],
+    allowedFlags: ['dragVia', 'dragProfile', 'holdMs', 'count', 'pauseMs', 'pattern'],
+  },
   focus: {
     description: 'Focus input at coordinates',
     positionalArgs: ['x', 'y'],
@@ -634,21 +892,35 @@ const COMMAND_SCHEMAS: Record<string, CommandSchema> = {
     allowedFlags: [],
   },
   scrollintoview: {
-    usageOverride: 'scrollintoview <text|@ref>',
-    description: 'Scroll until text appears or a snapshot ref is brought into view',
+    usageOverride:
+      'scrollintoview <text|@ref|selector> [--container <selector>] [--direction down|up|left|right] [--max-swipes <n>]',
+    description: 'Scroll until text, a selector match or a snapshot ref is brought into view',
     positionalArgs: ['target'],
     allowsExtraPositionals: true,
-    allowedFlags: [],
+    allowedFlags: ['scrollContainer', 'scrollDirection', 'scrollMaxSwipes'],
   },
   pinch: {
-    description: 'Pinch/zoom gesture (iOS simulator)',
+    description: 'Pinch/zoom gesture (iOS simulator, Android)',
     positionalArgs: ['scale', 'x?', 'y?'],
     allowedFlags: [],
   },
+  rotate: {
+    usageOverride: 'rotate <degrees> [x y]',
+    description: 'Two-finger rotate gesture; positive degrees turn clockwise',
+    positionalArgs: ['degrees', 'x?', 'y?'],
+    allowedFlags: [],
+  },
+  gesture: {
+    usageOverride: 'gesture <x,y[@ms];x,y[@ms];...> [more pointer paths...]',
+    description: 'Multi-touch gesture: one path per finger, played together (untimed points span 400ms)',
+    positionalArgs: ['pointerPath'],
+    allowsExtraPositionals: true,
+    allowedFlags: [],
+  },
   screenshot: {
-    description: 'Capture screenshot',
+    description: 'Capture screenshot, optionally compared against a baseline',
     positionalArgs: ['path?'],
-    allowedFlags: ['out'],
+    allowedFlags: ['out', ...SCREENSHOT_COMPARE_FLAGS],
   },
   'trigger-app-event': {
     usageOverride: 'trigger-app-event <event> [payloadJson]',
@@ -663,10 +935,10 @@ const COMMAND_SCHEMAS: Record<string, CommandSchema> = {
     allowedFlags: ['fps'],
   },
   trace: {
-    usageOverride: 'trace start [path] | trace stop [path]',
-    description: 'Start/stop trace log capture',
-    positionalArgs: ['start|stop', 'path?'],
-    allowedFlags: [],
+    usageOverride: 'trace start [path] [--bundle] [--screenshots] | trace stop [path] | trace show <bundle>',
+    description: 'Start/stop trace capture (runner log or per-command bundle) and render a bundle as HTML',
+    positionalArgs: ['start|stop|show', 'path?'],
+    allowedFlags: ['traceBundle', 'traceScreenshots'],
     skipCapabilityCheck: true,
   },
   logs: {
@@ -677,10 +949,21 @@ const COMMAND_SCHEMAS: Record<string, CommandSchema> = {
     allowedFlags: ['restart'],
   },
   network: {
-    usageOverride: 'network dump [limit] [summary|headers|body|all] | network log [limit] [summary|headers|body|all]',
-    description: 'Dump recent HTTP(s) traffic parsed from the session app log',
-    positionalArgs: ['dump|log', 'limit?', 'include?'],
+    usageOverride:
+      'network dump [limit] [summary|headers|body|all] | network log [limit] [summary|headers|body|all] | network capture start|stop | network mock add <urlPattern> | network mock list | network mock clear [id]',
+    description:
+      'Capture HTTP(s) traffic through a local proxy, stub or slow down matching requests, or dump recent traffic from the capture or session app log',
+    positionalArgs: ['dump|log|capture|mock', 'limit?|start|stop|add|list|clear', 'include?|urlPattern|id'],
+    allowedFlags: [...NETWORK_MOCK_FLAGS, 'networkHostProxy'],
+  },
+  handler: {
+    usageOverride:
+      'handler add <selector> <press|accept|dismiss|back> [targetSelector] | handler list | handler clear [id]',
+    description:
+      'Register session interruption handlers that dismiss matching overlays (permission prompts, rating or ANR dialogs) around each interaction',
+    positionalArgs: ['add|list|clear', 'selector?|id?', 'action?', 'targetSelector?'],
     allowedFlags: [],
+    skipCapabilityCheck: true,
   },
   find: {
     usageOverride: 'find <locator|text> <action> [value]',
@@ -690,7 +973,7 @@ const COMMAND_SCHEMAS: Record<string, CommandSchema> = {
     allowedFlags: [...FIND_SNAPSHOT_FLAGS],
   },
   is: {
-    description: 'Assert UI state (visible|hidden|exists|editable|selected|text)',
+    description: 'Assert UI state (visible|hidden|exists|editable|selected|checked|focused|text)',
     positionalArgs: ['predicate', 'selector', 'value?'],
     allowsExtraPositionals: true,
     allowedFlags: [...SELECTOR_SNAPSHOT_FLAGS],
@@ -701,6 +984,13 @@ const COMMAND_SCHEMAS: Record<string, CommandSchema> = {
     positionalArgs: ['setting', 'state', 'target?', 'mode?'],
     allowedFlags: [],
   },
+  lease: {
+    usageOverride: 'lease list [--at <time>] | lease show <leaseId>',
+    description: 'List active leases (or those held at a past time) and show one lease with its audit history',
+    positionalArgs: ['list|show', 'leaseId?'],
+    allowedFlags: ['leaseAt'],
+    skipCapabilityCheck: true,
+  },
   session: {
     usageOverride: 'session list',
     description: 'List active sessions',
@@ -708,6 +998,18 @@ const COMMAND_SCHEMAS: Record<string, CommandSchema> = {
     allowedFlags: [],
     skipCapabilityCheck: true,
   },
+  mcp: {
+    description: 'Serve every command as a Model Context Protocol tool over stdio (global flags become defaults)',
+    positionalArgs: [],
+    allowedFlags: [],
+    skipCapabilityCheck: true,
+  },
+  schema: {
+    description: 'Print the OpenAPI/JSON Schema description of the daemon RPC surface (same as GET /schema)',
+    positionalArgs: [],
+    allowedFlags: [],
+    skipCapabilityCheck: true,
+  },
 };
 
 const flagDefinitionByName = new Map<string, FlagDefinition>();
@@ -818,6 +1120,90 @@ function renderFlagSection(title: string, definitions: FlagDefinition[]): string
   return lines.join('\n');
 }
 
+export type JsonSchema = Record<string, unknown>;
+
+/** Flags that configure the local CLI process rather than the command itself. */
+const CLIENT_ONLY_FLAG_KEYS = new Set<FlagKey>([
+  'json',
+  'help',
+  'version',
+  'verbose',
+  'stateDir',
+  'daemonTransport',
+  'daemonServerMode',
+]);
+
+export function listCommandInputFlagKeys(commandName: string): FlagKey[] {
+  const schema = getCommandSchema(commandName);
+  if (!schema) return [];
+  const keys = new Set<FlagKey>([...schema.allowedFlags, ...GLOBAL_FLAG_KEYS]);
+  return Array.from(keys).filter((key) => !CLIENT_ONLY_FLAG_KEYS.has(key) && flagDefinitionsByKey.has(key));
+}
+
+export function getFlagDefinitionsForKey(key: FlagKey): readonly FlagDefinition[] {
+  return flagDefinitionsByKey.get(key) ?? [];
+}
+
+function buildFlagJsonSchema(definitions: readonly FlagDefinition[]): JsonSchema {
+  const labels = definitions.map((definition) => definition.usageLabel ?? definition.names[0]);
+  const described = definitions.find((definition) => definition.usageDescription);
+  const description = `${described?.usageDescription ?? ''} (${labels.join(', ')})`.trim();
+  const base = definitions.find((definition) => definition.setValue === undefined);
+  if (!base) {
+    return { type: 'string', enum: definitions.map((definition) => String(definition.setValue)), description };
+  }
+  switch (base.type) {
+    case 'boolean':
+      return { type: 'boolean', description };
+    case 'int':
+      return { type: 'integer', minimum: base.min, maximum: base.max, description };
+    case 'enum':
+      return { type: 'string', enum: [...(base.enumValues ?? [])], description };
+    case 'booleanOrString':
+      return { type: ['boolean', 'string'], description };
+    default:
+      return base.repeatable
+        ? { type: 'array', items: { type: 'string' }, description }
+        : { type: 'string', description };
+  }
+}
+
+/**
+ * JSON Schema for a command's input: positionals as an ordered `args` array plus one property per flag key.
+ */
+export function buildCommandInputSchema(commandName: string): JsonSchema | null {
+  const schema = getCommandSchema(commandName);
+  if (!schema) return null;
+  const properties: Record<string, JsonSchema> = {};
+  const requiredArgs = schema.positionalArgs.filter((arg) => !arg.endsWith('?')).length;
+  if (schema.positionalArgs.length > 0) {
+    const usage = schema.positionalArgs.map(formatPositionalArg).join(' ');
+    properties.args = {
+      type: 'array',
+      items: { type: ['string', 'number'] },
+      minItems: requiredArgs,
+      ...(schema.allowsExtraPositionals ? {} : { maxItems: schema.positionalArgs.length }),
+      description: `Positional arguments in CLI order: ${usage} (usage: ${buildCommandUsage(commandName, schema)})`,
+    };
+  }
+  Object.assign(properties, buildCommandFlagSchemas(commandName));
+  return {
+    type: 'object',
+    properties,
+    ...(requiredArgs > 0 ? { required: ['args'] } : {}),
+    additionalProperties: false,
+  };
+}
+
+/** JSON Schema for each flag key a command accepts, keyed by the `flags` property name. */
+export function buildCommandFlagSchemas(commandName: string): Record<string, JsonSchema> {
+  const properties: Record<string, JsonSchema> = {};
+  for (const key of listCommandInputFlagKeys(commandName)) {
+    properties[key] = buildFlagJsonSchema(getFlagDefinitionsForKey(key));
+  }
+  return properties;
+}
+
 export function buildCommandUsageText(commandName: string): string | null {
   const schema = getCommandSchema(commandName);
   if (!schema) return null;
@@ -2,7 +2,8 @@ import { AppError } from './errors.ts';
 import { isInteractive } from './interactive.ts';
 import { isCancel, select } from '@clack/prompts';
 
-export type Platform = 'ios' | 'android';
+/** Built-in platforms plus any registered platform backend name. */
+export type Platform = 'ios' | 'android' | (string & {});
 export type PlatformSelector = Platform | 'apple';
 export type DeviceKind = 'simulator' | 'emulator' | 'device';
 export type DeviceTarget = 'mobile' | 'tv';
@@ -14,6 +15,8 @@ export type DeviceInfo = {
   kind: DeviceKind;
   target?: DeviceTarget;
   booted?: boolean;
+  /** OS version such as `18.2` or `15`, when discovery reports it. */
+  osVersion?: string;
   simulatorSetPath?: string;
 };
 
@@ -6,11 +6,12 @@ import path from 'node:path';
 
 type DiagnosticLevel = 'info' | 'warn' | 'error' | 'debug';
 
-type DiagnosticEvent = {
+export type DiagnosticEvent = {
   ts: string;
   level: DiagnosticLevel;
   phase: string;
   session?: string;
+  tenantId?: string;
   requestId?: string;
   command?: string;
   durationMs?: number;
@@ -19,6 +20,7 @@ type DiagnosticEvent = {
 
 type DiagnosticsScopeOptions = {
   session?: string;
+  tenantId?: string;
   requestId?: string;
   command?: string;
   debug?: boolean;
@@ -32,6 +34,7 @@ type DiagnosticsScope = DiagnosticsScopeOptions & {
 };
 
 const diagnosticsStorage = new AsyncLocalStorage<DiagnosticsScope>();
+const diagnosticListeners = new Set<(event: DiagnosticEvent) => void>();
 
 const SENSITIVE_KEY_RE = /(token|secret|password|authorization|cookie|api[_-]?key|access[_-]?key|private[_-]?key)/i;
 const SENSITIVE_VALUE_RE = /(bearer\s+[a-z0-9._-]+|(?:api[_-]?key|token|secret|password)\s*[=:]\s*\S+)/i;
@@ -74,6 +77,14 @@ export function getDiagnosticsMeta(): {
   };
 }
 
+/** Receives every scoped diagnostic event, including those not written to logs because debug is off. */
+export function subscribeDiagnostics(listener: (event: DiagnosticEvent) => void): () => void {
+  diagnosticListeners.add(listener);
+  return () => {
+    diagnosticListeners.delete(listener);
+  };
+}
+
 export function emitDiagnostic(event: {
   level?: DiagnosticLevel;
   phase: string;
@@ -87,12 +98,20 @@ export function emitDiagnostic(event: {
     level: event.level ?? 'info',
     phase: event.phase,
     session: scope.session,
+    tenantId: scope.tenantId,
     requestId: scope.requestId,
     command: scope.command,
     durationMs: event.durationMs,
     data: event.data ? redactDiagnosticData(event.data) : undefined,
   };
   scope.events.push(payload);
+  for (const listener of diagnosticListeners) {
+    try {
+      listener(payload);
+    } catch {
+      // Listeners are best-effort, like the log writes below.
+    }
+  }
   if (!scope.debug) return;
   const line = `[agent-device][diag] ${JSON.stringify(payload)}\n`;
   try {
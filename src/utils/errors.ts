@@ -1,16 +1,19 @@
 import { redactDiagnosticData } from './diagnostics.ts';
 
-type ErrorCode =
-  | 'INVALID_ARGS'
-  | 'DEVICE_NOT_FOUND'
-  | 'TOOL_MISSING'
-  | 'APP_NOT_INSTALLED'
-  | 'UNSUPPORTED_PLATFORM'
-  | 'UNSUPPORTED_OPERATION'
-  | 'COMMAND_FAILED'
-  | 'SESSION_NOT_FOUND'
-  | 'UNAUTHORIZED'
-  | 'UNKNOWN';
+export const ERROR_CODES = [
+  'INVALID_ARGS',
+  'DEVICE_NOT_FOUND',
+  'TOOL_MISSING',
+  'APP_NOT_INSTALLED',
+  'UNSUPPORTED_PLATFORM',
+  'UNSUPPORTED_OPERATION',
+  'COMMAND_FAILED',
+  'SESSION_NOT_FOUND',
+  'UNAUTHORIZED',
+  'UNKNOWN',
+] as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
 
 type AppErrorDetails = Record<string, unknown> & {
   hint?: string;
@@ -0,0 +1,92 @@
+import { AppError } from './errors.ts';
+import { createRgbaImage, type RgbaImage } from './png.ts';
+
+export type ImageRegion = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type ImageDiff = {
+  width: number;
+  height: number;
+  differentPixels: number;
+  /** Pixels outside ignored regions. */
+  comparedPixels: number;
+  ignoredPixels: number;
+  /** `differentPixels / comparedPixels` as a percentage (0-100). */
+  mismatchPercent: number;
+  /** Baseline faded to gray, differences in red and ignored regions tinted blue. */
+  image: RgbaImage;
+};
+
+/** Per-channel delta (0-255) below which pixels count as equal, to absorb compression and blending noise. */
+const PIXEL_TOLERANCE = 16;
+
+export function diffImages(baseline: RgbaImage, current: RgbaImage, ignore: ImageRegion[] = []): ImageDiff {
+  if (baseline.width !== current.width || baseline.height !== current.height) {
+    throw new AppError(
+      'COMMAND_FAILED',
+      `Screenshot size ${current.width}x${current.height} does not match baseline ${baseline.width}x${baseline.height}`,
+      { width: current.width, height: current.height, baselineWidth: baseline.width, baselineHeight: baseline.height },
+    );
+  }
+  const { width, height } = baseline;
+  const mask = buildIgnoreMask(width, height, ignore);
+  const image = createRgbaImage(width, height, [255, 255, 255, 255]);
+  let differentPixels = 0;
+  let ignoredPixels = 0;
+  for (let pixel = 0; pixel < width * height; pixel += 1) {
+    const offset = pixel * 4;
+    const gray = fadedGray(baseline.data, offset);
+    if (mask[pixel]) {
+      ignoredPixels += 1;
+      image.data.set([gray >> 1, gray >> 1, 128 + (gray >> 1), 255], offset);
+      continue;
+    }
+    if (pixelsDiffer(baseline.data, current.data, offset)) {
+      differentPixels += 1;
+      image.data.set([255, 0, 0, 255], offset);
+      continue;
+    }
+    image.data.set([gray, gray, gray, 255], offset);
+  }
+  const comparedPixels = width * height - ignoredPixels;
+  return {
+    width,
+    height,
+    differentPixels,
+    comparedPixels,
+    ignoredPixels,
+    mismatchPercent: comparedPixels === 0 ? 0 : (differentPixels / comparedPixels) * 100,
+    image,
+  };
+}
+
+function buildIgnoreMask(width: number, height: number, regions: ImageRegion[]): Uint8Array {
+  const mask = new Uint8Array(width * height);
+  for (const region of regions) {
+    const left = Math.max(0, Math.floor(region.x));
+    const top = Math.max(0, Math.floor(region.y));
+    const right = Math.min(width, Math.ceil(region.x + region.width));
+    const bottom = Math.min(height, Math.ceil(region.y + region.height));
+    for (let y = top; y < bottom; y += 1) {
+      mask.fill(1, y * width + left, Math.max(y * width + left, y * width + right));
+    }
+  }
+  return mask;
+}
+
+function pixelsDiffer(a: Uint8Array, b: Uint8Array, offset: number): boolean {
+  for (let channel = 0; channel < 4; channel += 1) {
+    if (Math.abs(a[offset + channel] - b[offset + channel]) > PIXEL_TOLERANCE) return true;
+  }
+  return false;
+}
+
+function fadedGray(data: Uint8Array, offset: number): number {
+  const luminance = 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+  // Keep unchanged areas recognizable but light so red differences stand out.
+  return Math.round(255 - (255 - luminance) * 0.3);
+}
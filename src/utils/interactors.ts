@@ -1,27 +1,6 @@
-import { AppError } from './errors.ts';
 import type { DeviceInfo } from './device.ts';
-import {
-  closeAndroidApp,
-  fillAndroid,
-  focusAndroid,
-  longPressAndroid,
-  openAndroidApp,
-  openAndroidDevice,
-  pressAndroid,
-  swipeAndroid,
-  scrollAndroid,
-  scrollIntoViewAndroid,
-  screenshotAndroid,
-  typeAndroid,
-} from '../platforms/android/index.ts';
-import {
-  closeIosApp,
-  openIosApp,
-  openIosDevice,
-  screenshotIos,
-} from '../platforms/ios/index.ts';
-import { runIosRunnerCommand } from '../platforms/ios/runner-client.ts';
-import { isRequestCanceled } from '../daemon/request-cancel.ts';
+import { getPlatformBackend } from '../core/platform-backends.ts';
+import type { GesturePointer } from '../core/gestures.ts';
 
 export type RunnerContext = {
   requestId?: string;
@@ -31,7 +10,7 @@ export type RunnerContext = {
   traceLogPath?: string;
 };
 
-type Interactor = {
+export type Interactor = {
   open(app: string, options?: { activity?: string; appBundleId?: string; url?: string }): Promise<void>;
   openDevice(): Promise<void>;
   close(app: string): Promise<void>;
@@ -44,170 +23,13 @@ type Interactor = {
   fill(x: number, y: number, text: string): Promise<void>;
   scroll(direction: string, amount?: number): Promise<void>;
   scrollIntoView(text: string): Promise<{ attempts?: number } | void>;
+  /** Multi-finger paths played together; `gesture`, `rotate` and Android `pinch` are unsupported without it. */
+  gesture?(pointers: GesturePointer[]): Promise<void>;
+  /** Single-finger path with timing; `drag` falls back to `gesture` when this is missing. */
+  drag?(path: GesturePointer): Promise<void>;
   screenshot(outPath: string, appBundleId?: string): Promise<void>;
 };
 
 export function getInteractor(device: DeviceInfo, runnerContext: RunnerContext): Interactor {
-  switch (device.platform) {
-    case 'android':
-      return {
-        open: (app, options) => openAndroidApp(device, app, options?.activity),
-        openDevice: () => openAndroidDevice(device),
-        close: (app) => closeAndroidApp(device, app),
-        tap: (x, y) => pressAndroid(device, x, y),
-        doubleTap: async (x, y) => {
-          await pressAndroid(device, x, y);
-          await pressAndroid(device, x, y);
-        },
-        swipe: (x1, y1, x2, y2, durationMs) => swipeAndroid(device, x1, y1, x2, y2, durationMs),
-        longPress: (x, y, durationMs) => longPressAndroid(device, x, y, durationMs),
-        focus: (x, y) => focusAndroid(device, x, y),
-        type: (text) => typeAndroid(device, text),
-        fill: (x, y, text) => fillAndroid(device, x, y, text),
-        scroll: (direction, amount) => scrollAndroid(device, direction, amount),
-        scrollIntoView: (text) => scrollIntoViewAndroid(device, text),
-        screenshot: (outPath, _appBundleId) => screenshotAndroid(device, outPath),
-      };
-    case 'ios':
-      return {
-        open: (app, options) => openIosApp(device, app, { appBundleId: options?.appBundleId, url: options?.url }),
-        openDevice: () => openIosDevice(device),
-        close: (app) => closeIosApp(device, app),
-        screenshot: (outPath, appBundleId) => screenshotIos(device, outPath, appBundleId),
-        ...iosRunnerOverrides(device, runnerContext),
-      };
-    default:
-      throw new AppError('UNSUPPORTED_PLATFORM', `Unsupported platform: ${device.platform}`);
-  }
-}
-
-type IoRunnerOverrides = Pick<
-  Interactor,
-  'tap' | 'doubleTap' | 'swipe' | 'longPress' | 'focus' | 'type' | 'fill' | 'scroll' | 'scrollIntoView'
->;
-
-function iosRunnerOverrides(device: DeviceInfo, ctx: RunnerContext): IoRunnerOverrides {
-  const runnerOpts = {
-    verbose: ctx.verbose,
-    logPath: ctx.logPath,
-    traceLogPath: ctx.traceLogPath,
-    requestId: ctx.requestId,
-  };
-  const throwIfCanceled = () => {
-    if (!isRequestCanceled(ctx.requestId)) return;
-    throw new AppError('COMMAND_FAILED', 'request canceled');
-  };
-
-  return {
-    tap: async (x, y) => {
-      await runIosRunnerCommand(
-        device,
-        { command: 'tap', x, y, appBundleId: ctx.appBundleId },
-        runnerOpts,
-      );
-    },
-    doubleTap: async (x, y) => {
-      await runIosRunnerCommand(
-        device,
-        { command: 'tapSeries', x, y, count: 1, intervalMs: 0, doubleTap: true, appBundleId: ctx.appBundleId },
-        runnerOpts,
-      );
-    },
-    swipe: async (x1, y1, x2, y2, durationMs) => {
-      await runIosRunnerCommand(
-        device,
-        { command: 'drag', x: x1, y: y1, x2, y2, durationMs, appBundleId: ctx.appBundleId },
-        runnerOpts,
-      );
-    },
-    longPress: async (x, y, durationMs) => {
-      await runIosRunnerCommand(
-        device,
-        { command: 'longPress', x, y, durationMs, appBundleId: ctx.appBundleId },
-        runnerOpts,
-      );
-    },
-    focus: async (x, y) => {
-      await runIosRunnerCommand(
-        device,
-        { command: 'tap', x, y, appBundleId: ctx.appBundleId },
-        runnerOpts,
-      );
-    },
-    type: async (text) => {
-      await runIosRunnerCommand(
-        device,
-        { command: 'type', text, appBundleId: ctx.appBundleId },
-        runnerOpts,
-      );
-    },
-    fill: async (x, y, text) => {
-      await runIosRunnerCommand(
-        device,
-        { command: 'tap', x, y, appBundleId: ctx.appBundleId },
-        runnerOpts,
-      );
-      await runIosRunnerCommand(
-        device,
-        { command: 'type', text, clearFirst: true, appBundleId: ctx.appBundleId },
-        runnerOpts,
-      );
-    },
-    scroll: async (direction, _amount) => {
-      if (!['up', 'down', 'left', 'right'].includes(direction)) {
-        throw new AppError('INVALID_ARGS', `Unknown direction: ${direction}`);
-      }
-      const inverted = invertScrollDirection(direction as 'up' | 'down' | 'left' | 'right');
-      await runIosRunnerCommand(
-        device,
-        { command: 'swipe', direction: inverted, appBundleId: ctx.appBundleId },
-        runnerOpts,
-      );
-    },
-    scrollIntoView: async (text) => {
-      // Check once, then scroll in bursts to avoid slow find->swipe->find cadence on heavy screens.
-      const initial = (await runIosRunnerCommand(
-        device,
-        { command: 'findText', text, appBundleId: ctx.appBundleId },
-        runnerOpts,
-      )) as { found?: boolean };
-      if (initial?.found) return { attempts: 1 };
-
-      const maxBursts = 12;
-      const swipesPerBurst = 4;
-      for (let burst = 0; burst < maxBursts; burst += 1) {
-        for (let i = 0; i < swipesPerBurst; i += 1) {
-          throwIfCanceled();
-          await runIosRunnerCommand(
-            device,
-            { command: 'swipe', direction: 'up', appBundleId: ctx.appBundleId },
-            runnerOpts,
-          );
-          // Small settle keeps gesture chain stable without long visible pauses.
-          await new Promise((resolve) => setTimeout(resolve, 80));
-        }
-        throwIfCanceled();
-        const found = (await runIosRunnerCommand(
-          device,
-          { command: 'findText', text, appBundleId: ctx.appBundleId },
-          runnerOpts,
-        )) as { found?: boolean };
-        if (found?.found) return { attempts: burst + 2 };
-      }
-      throw new AppError('COMMAND_FAILED', `scrollintoview could not find text: ${text}`);
-    },
-  };
-}
-
-function invertScrollDirection(direction: 'up' | 'down' | 'left' | 'right'): 'up' | 'down' | 'left' | 'right' {
-  switch (direction) {
-    case 'up':
-      return 'down';
-    case 'down':
-      return 'up';
-    case 'left':
-      return 'right';
-    case 'right':
-      return 'left';
-  }
+  return getPlatformBackend(device.platform).createInteractor(device, runnerContext);
 }
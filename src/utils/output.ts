@@ -111,6 +111,92 @@ export function formatSnapshotDiffText(data: Record<string, unknown>): string {
   return `${body}${summary}\n`;
 }
 
+export function formatScreenshotComparisonText(data: Record<string, unknown>): string {
+  const baseline = typeof data.baseline === 'string' ? data.baseline : '';
+  if (data.baselineInitialized === true) {
+    return `Baseline initialized: ${baseline}\n`;
+  }
+  const summaryRaw = (data.summary ?? {}) as Record<string, unknown>;
+  const different = toNumber(summaryRaw.differentPixels);
+  const compared = toNumber(summaryRaw.comparedPixels);
+  const ignored = toNumber(summaryRaw.ignoredPixels);
+  const percent = toNumber(summaryRaw.mismatchPercent);
+  const status = data.passed === false ? 'differs' : 'matches';
+  const colored = supportsColor() ? colorize(status, data.passed === false ? 'red' : 'green') : status;
+  const lines = [
+    `Screenshot ${colored} baseline: ${percent}% of pixels differ (${different}/${compared}, ${ignored} ignored, threshold ${toNumber(data.threshold)}%)`,
+  ];
+  if (typeof data.diffPath === 'string') lines.push(`Diff: ${data.diffPath}`);
+  return `${lines.join('\n')}\n`;
+}
+
+/** One line per device of a `--devices` run, then the pass count. */
+export function formatDeviceFanoutText(data: Record<string, unknown>): string {
+  const results = Array.isArray(data.results) ? (data.results as Array<Record<string, unknown>>) : [];
+  const useColor = supportsColor();
+  const lines = results.map((result) => {
+    const status = result.ok === true ? 'passed' : 'failed';
+    const label = useColor ? colorize(status, result.ok === true ? 'green' : 'red') : status;
+    const error = (result.error ?? {}) as Record<string, unknown>;
+    const failure = result.ok === true ? '' : `: Error (${String(error.code)}): ${String(error.message)}`;
+    return `${label} ${String(result.device)} [${String(result.session)}] ${toNumber(result.durationMs)}ms${failure}`;
+  });
+  lines.push(`${toNumber(data.passed)}/${toNumber(data.total)} devices passed`);
+  return `${lines.join('\n')}\n`;
+}
+
+/** One line per overlay an interruption handler dismissed during the command; empty when none fired. */
+export function formatInterruptionLines(data: Record<string, unknown>): string[] {
+  const interruptions = Array.isArray(data.interruptions) ? (data.interruptions as Array<Record<string, unknown>>) : [];
+  return interruptions.map((entry) => {
+    const label = typeof entry.label === 'string' ? ` "${entry.label}"` : '';
+    const phase = String(entry.phase).replace('_', ' ');
+    return `Handler ${String(entry.handler)} ran ${String(entry.action)}${label} (${phase})`;
+  });
+}
+
+export function formatLeaseText(data: Record<string, unknown>): string {
+  const lines: string[] = [];
+  if (data.lease && typeof data.lease === 'object') {
+    const lease = data.lease as Record<string, unknown>;
+    lines.push(`${formatLeaseLine(lease)} (${data.active === true ? 'active' : 'ended'})`);
+    const history = Array.isArray(data.history) ? (data.history as Array<Record<string, unknown>>) : [];
+    for (const entry of history) {
+      lines.push(`  ${String(entry.ts)} ${String(entry.action)}${formatLeaseSessions(entry.sessions)}`);
+    }
+    return `${lines.join('\n')}\n`;
+  }
+  const leases = Array.isArray(data.leases) ? (data.leases as Array<Record<string, unknown>>) : [];
+  if (leases.length === 0) {
+    lines.push(typeof data.at === 'string' ? `No leases held at ${data.at}` : 'No active leases');
+  }
+  for (const lease of leases) lines.push(formatLeaseLine(lease));
+  const queue = Array.isArray(data.queue) ? (data.queue as Array<Record<string, unknown>>) : [];
+  for (const entry of queue) {
+    const scope = `${String(entry.tenantId)}/${String(entry.runId)}`;
+    lines.push(`queued #${toNumber(entry.position)} ${scope} ${String(entry.priority)} ${toNumber(entry.waitedMs)}ms`);
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+function formatLeaseLine(lease: Record<string, unknown>): string {
+  const device = lease.device as Record<string, unknown> | undefined;
+  const deviceLabel = device ? ` ${String(device.name)} (${String(device.id)})` : '';
+  const expiresAt = typeof lease.expiresAt === 'number' ? new Date(lease.expiresAt).toISOString() : 'unknown';
+  const scope = `${String(lease.tenantId)}/${String(lease.runId)}`;
+  const sessions = formatLeaseSessions(lease.sessions);
+  return `${String(lease.leaseId)} ${scope} ${String(lease.backend)}${deviceLabel} expires ${expiresAt}${sessions}`;
+}
+
+function formatLeaseSessions(value: unknown): string {
+  if (!Array.isArray(value) || value.length === 0) return '';
+  const sessions = (value as Array<Record<string, unknown>>).map((session) => {
+    const device = session.device as Record<string, unknown> | undefined;
+    return device ? `${String(session.name)} on ${String(device.name)}` : String(session.name);
+  });
+  return ` sessions: ${sessions.join(', ')}`;
+}
+
 function toNumber(value: unknown): number {
   return typeof value === 'number' && Number.isFinite(value) ? value : 0;
 }
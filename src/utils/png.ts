@@ -0,0 +1,195 @@
+import zlib from 'node:zlib';
+import { AppError } from './errors.ts';
+
+export type RgbaImage = {
+  width: number;
+  height: number;
+  /** Row-major RGBA bytes, `width * height * 4` long. */
+  data: Uint8Array;
+};
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+let crcTable: Uint32Array | null = null;
+
+export function createRgbaImage(width: number, height: number, fill: [number, number, number, number]): RgbaImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let offset = 0; offset < data.length; offset += 4) {
+    data.set(fill, offset);
+  }
+  return { width, height, data };
+}
+
+export function encodePng(image: RgbaImage): Buffer {
+  const stride = image.width * 4;
+  const raw = Buffer.alloc((stride + 1) * image.height);
+  for (let y = 0; y < image.height; y += 1) {
+    // Filter type 0 (none) per scanline.
+    raw[y * (stride + 1)] = 0;
+    raw.set(image.data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(image.width, 0);
+  header.writeUInt32BE(image.height, 4);
+  header[8] = 8;
+  header[9] = 6;
+  header[10] = 0;
+  header[11] = 0;
+  header[12] = 0;
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    encodeChunk('IHDR', header),
+    encodeChunk('IDAT', zlib.deflateSync(raw)),
+    encodeChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+/**
+ * Decodes a non-interlaced PNG into RGBA. Covers what device screenshots produce (8/16-bit gray,
+ * RGB, RGBA and palette images); other variants fail with INVALID_ARGS.
+ */
+export function decodePng(buffer: Buffer): RgbaImage {
+  if (buffer.length < PNG_SIGNATURE.length || !buffer.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) {
+    throw new AppError('INVALID_ARGS', 'Not a PNG image');
+  }
+  let offset = PNG_SIGNATURE.length;
+  let header: { width: number; height: number; bitDepth: number; colorType: number; interlace: number } | null =
+    null;
+  let palette: Buffer | null = null;
+  let transparency: Buffer | null = null;
+  const idat: Buffer[] = [];
+  while (offset + 8 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('ascii', offset + 4, offset + 8);
+    const payload = buffer.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+    if (type === 'IHDR') {
+      header = {
+        width: payload.readUInt32BE(0),
+        height: payload.readUInt32BE(4),
+        bitDepth: payload[8],
+        colorType: payload[9],
+        interlace: payload[12],
+      };
+    } else if (type === 'PLTE') {
+      palette = payload;
+    } else if (type === 'tRNS') {
+      transparency = payload;
+    } else if (type === 'IDAT') {
+      idat.push(payload);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+  if (!header || idat.length === 0) {
+    throw new AppError('INVALID_ARGS', 'PNG is missing image data');
+  }
+  const { width, height, bitDepth, colorType } = header;
+  const channels = PNG_CHANNELS[colorType];
+  if (!channels || header.interlace !== 0 || (bitDepth !== 8 && !(bitDepth === 16 && colorType !== 3))) {
+    throw new AppError(
+      'INVALID_ARGS',
+      `Unsupported PNG format (color type ${colorType}, bit depth ${bitDepth}, interlace ${header.interlace})`,
+    );
+  }
+  if (colorType === 3 && !palette) {
+    throw new AppError('INVALID_ARGS', 'PNG palette image is missing PLTE');
+  }
+  const bytesPerPixel = channels * (bitDepth / 8);
+  const stride = width * bytesPerPixel;
+  const raw = zlib.inflateSync(Buffer.concat(idat));
+  if (raw.length < (stride + 1) * height) {
+    throw new AppError('INVALID_ARGS', 'PNG image data is truncated');
+  }
+  const pixels = unfilterScanlines(raw, stride, height, bytesPerPixel);
+  const image = createRgbaImage(width, height, [0, 0, 0, 255]);
+  const sample = (index: number) => (bitDepth === 16 ? pixels[index * 2] : pixels[index]);
+  for (let pixel = 0; pixel < width * height; pixel += 1) {
+    const base = pixel * channels;
+    const out = pixel * 4;
+    if (colorType === 0 || colorType === 4) {
+      const gray = sample(base);
+      image.data[out] = gray;
+      image.data[out + 1] = gray;
+      image.data[out + 2] = gray;
+      if (colorType === 4) image.data[out + 3] = sample(base + 1);
+    } else if (colorType === 3) {
+      const index = pixels[pixel];
+      image.data[out] = palette![index * 3];
+      image.data[out + 1] = palette![index * 3 + 1];
+      image.data[out + 2] = palette![index * 3 + 2];
+      image.data[out + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+    } else {
+      image.data[out] = sample(base);
+      image.data[out + 1] = sample(base + 1);
+      image.data[out + 2] = sample(base + 2);
+      if (colorType === 6) image.data[out + 3] = sample(base + 3);
+    }
+  }
+  return image;
+}
+
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+function unfilterScanlines(raw: Buffer, stride: number, height: number, bytesPerPixel: number): Uint8Array {
+  const out = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y += 1) {
+    const filter = raw[y * (stride + 1)];
+    const source = y * (stride + 1) + 1;
+    const row = y * stride;
+    const previous = row - stride;
+    for (let x = 0; x < stride; x += 1) {
+      const left = x >= bytesPerPixel ? out[row + x - bytesPerPixel] : 0;
+      const up = y > 0 ? out[previous + x] : 0;
+      const upLeft = y > 0 && x >= bytesPerPixel ? out[previous + x - bytesPerPixel] : 0;
+      let predictor = 0;
+      if (filter === 1) predictor = left;
+      else if (filter === 2) predictor = up;
+      else if (filter === 3) predictor = (left + up) >> 1;
+      else if (filter === 4) predictor = paeth(left, up, upLeft);
+      else if (filter !== 0) throw new AppError('INVALID_ARGS', `Invalid PNG filter type ${filter}`);
+      out[row + x] = (raw[source + x] + predictor) & 0xff;
+    }
+  }
+  return out;
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const distanceLeft = Math.abs(estimate - left);
+  const distanceUp = Math.abs(estimate - up);
+  const distanceUpLeft = Math.abs(estimate - upLeft);
+  if (distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft) return left;
+  if (distanceUp <= distanceUpLeft) return up;
+  return upLeft;
+}
+
+function encodeChunk(type: string, payload: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(payload.length, 0);
+  const typeAndPayload = Buffer.concat([Buffer.from(type, 'ascii'), payload]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndPayload), 0);
+  return Buffer.concat([length, typeAndPayload, crc]);
+}
+
+function crc32(buffer: Buffer): number {
+  crcTable ??= buildCrcTable();
+  let crc = 0xffffffff;
+  for (const byte of buffer) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function buildCrcTable(): Uint32Array {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+}
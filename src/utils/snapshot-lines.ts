@@ -42,7 +42,13 @@ export function formatSnapshotLine(
   const label = displayLabel(node, type);
   const indent = '  '.repeat(depth);
   const ref = node.ref ? `@${node.ref}` : '';
-  const flags = [node.enabled === false ? 'disabled' : null].filter(Boolean).join(', ');
+  const flags = [
+    node.enabled === false ? 'disabled' : null,
+    node.checked === undefined ? null : node.checked ? 'checked' : 'unchecked',
+    node.focused ? 'focused' : null,
+    node.secure ? 'secure' : null,
+    node.scrollable ? 'scrollable' : null,
+  ].filter(Boolean).join(', ');
   const flagText = flags ? ` [${flags}]` : '';
   const textPart = label ? ` "${label}"` : '';
   if (hiddenGroup) {
@@ -23,6 +23,16 @@ export type RawSnapshotNode = {
   enabled?: boolean;
   selected?: boolean;
   hittable?: boolean;
+  /** Toggle state; only set for checkable elements (switches, checkboxes, radios). */
+  checked?: boolean;
+  focused?: boolean;
+  scrollable?: boolean;
+  /** Password/secure text entry. */
+  secure?: boolean;
+  /** Android widget class (for example `android.widget.Switch`); iOS already reports its element type in `type`. */
+  className?: string;
+  /** Android package that owns the node. */
+  package?: string;
   depth?: number;
   parentIndex?: number;
 };
@@ -35,7 +45,7 @@ export type SnapshotState = {
   nodes: SnapshotNode[];
   createdAt: number;
   truncated?: boolean;
-  backend?: 'xctest' | 'android';
+  backend?: 'xctest' | 'android' | (string & {});
 };
 
 export function attachRefs(nodes: RawSnapshotNode[]): SnapshotNode[] {
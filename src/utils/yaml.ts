@@ -0,0 +1,292 @@
+import { AppError } from './errors.ts';
+
+type YamlLine = {
+  indent: number;
+  text: string;
+  line: number;
+};
+
+const NUMBER_RE = /^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/;
+
+/**
+ * Parses the YAML subset used by agent-device config files: block mappings and sequences,
+ * flow collections, quoted/plain scalars and comments. Anchors, tags and multi-line strings are rejected.
+ */
+export function parseYaml(source: string): unknown {
+  const lines = tokenizeYaml(source);
+  if (lines.length === 0) return null;
+  const [value, next] = parseBlock(lines, 0, lines[0].indent);
+  if (next < lines.length) {
+    throw yamlError(lines[next], 'Unexpected indentation');
+  }
+  return value;
+}
+
+function tokenizeYaml(source: string): YamlLine[] {
+  const lines: YamlLine[] = [];
+  const rawLines = source.replace(/^﻿/, '').split(/\r?\n/);
+  for (let index = 0; index < rawLines.length; index += 1) {
+    const raw = stripComment(rawLines[index]).trimEnd();
+    const text = raw.trimStart();
+    if (text.length === 0 || text === '---') continue;
+    const indentText = raw.slice(0, raw.length - text.length);
+    if (indentText.includes('\t')) {
+      throw new AppError('INVALID_ARGS', `Invalid YAML at line ${index + 1}: tabs are not allowed for indentation`);
+    }
+    lines.push({ indent: indentText.length, text, line: index + 1 });
+  }
+  return lines;
+}
+
+function stripComment(line: string): string {
+  let quote: '"' | "'" | null = null;
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        index += 1;
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      quote = char;
+      continue;
+    }
+    if (char === '#' && (index === 0 || /\s/.test(line[index - 1]))) {
+      return line.slice(0, index);
+    }
+  }
+  return line;
+}
+
+function parseBlock(lines: YamlLine[], start: number, indent: number): [unknown, number] {
+  const first = lines[start];
+  if (isSequenceItem(first.text)) return parseSequence(lines, start, indent);
+  if (findMappingColon(first.text) !== -1) return parseMapping(lines, start, indent);
+  return [parseScalar(first.text, first), start + 1];
+}
+
+function parseSequence(lines: YamlLine[], start: number, indent: number): [unknown[], number] {
+  const items: unknown[] = [];
+  let index = start;
+  while (index < lines.length && lines[index].indent === indent && isSequenceItem(lines[index].text)) {
+    const line = lines[index];
+    const rest = line.text.slice(1).trimStart();
+    if (rest.length === 0) {
+      const next = lines[index + 1];
+      if (next && next.indent > indent) {
+        const [value, nextIndex] = parseBlock(lines, index + 1, next.indent);
+        items.push(value);
+        index = nextIndex;
+      } else {
+        items.push(null);
+        index += 1;
+      }
+      continue;
+    }
+    // Re-read the item body as a line of its own so "- key: value" opens a nested mapping.
+    const childIndent = indent + (line.text.length - rest.length);
+    lines[index] = { indent: childIndent, text: rest, line: line.line };
+    const [value, nextIndex] = parseBlock(lines, index, childIndent);
+    items.push(value);
+    index = nextIndex;
+  }
+  return [items, index];
+}
+
+function parseMapping(lines: YamlLine[], start: number, indent: number): [Record<string, unknown>, number] {
+  const result: Record<string, unknown> = {};
+  let index = start;
+  while (index < lines.length && lines[index].indent === indent && !isSequenceItem(lines[index].text)) {
+    const line = lines[index];
+    const colon = findMappingColon(line.text);
+    if (colon === -1) throw yamlError(line, 'Expected "key: value"');
+    const key = parseKey(line.text.slice(0, colon).trim(), line);
+    const rest = line.text.slice(colon + 1).trim();
+    if (rest.length > 0) {
+      result[key] = parseScalar(rest, line);
+      index += 1;
+      continue;
+    }
+    const next = lines[index + 1];
+    if (next && (next.indent > indent || (next.indent === indent && isSequenceItem(next.text)))) {
+      const [value, nextIndex] = parseBlock(lines, index + 1, next.indent);
+      result[key] = value;
+      index = nextIndex;
+      continue;
+    }
+    result[key] = null;
+    index += 1;
+  }
+  return [result, index];
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
+
+function findMappingColon(text: string): number {
+  if (text.startsWith('[') || text.startsWith('{')) return -1;
+  let quote: '"' | "'" | null = null;
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (quote) {
+      if (char === '\\' && quote === '"') index += 1;
+      else if (char === quote) quote = null;
+      continue;
+    }
+    if ((char === '"' || char === "'") && index === 0) {
+      quote = char;
+      continue;
+    }
+    if (char === ':' && (index === text.length - 1 || text[index + 1] === ' ')) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+function parseKey(raw: string, line: YamlLine): string {
+  if (raw.length === 0) throw yamlError(line, 'Empty mapping key');
+  const value = parseScalar(raw, line);
+  return String(value);
+}
+
+function parseScalar(text: string, line: YamlLine): unknown {
+  const first = text[0];
+  if (first === '[' || first === '{') {
+    const parser = createFlowParser(text, line);
+    const value = parser.parseValue();
+    parser.expectEnd();
+    return value;
+  }
+  if (first === '|' || first === '>' || first === '&' || first === '*' || first === '!') {
+    throw yamlError(line, `Unsupported YAML syntax "${first}"`);
+  }
+  if (first === '"') {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw yamlError(line, 'Invalid double-quoted string');
+    }
+  }
+  if (first === "'") {
+    if (text.length < 2 || !text.endsWith("'")) throw yamlError(line, 'Invalid single-quoted string');
+    return text.slice(1, -1).replaceAll("''", "'");
+  }
+  return parsePlainScalar(text);
+}
+
+function parsePlainScalar(text: string): unknown {
+  if (text === 'null' || text === '~') return null;
+  if (text === 'true') return true;
+  if (text === 'false') return false;
+  if (NUMBER_RE.test(text)) return Number(text);
+  return text;
+}
+
+function createFlowParser(text: string, line: YamlLine) {
+  let index = 0;
+  const skipWhitespace = () => {
+    while (index < text.length && /\s/.test(text[index])) index += 1;
+  };
+  const parseQuoted = (): string => {
+    const quote = text[index];
+    let end = index + 1;
+    while (end < text.length) {
+      if (quote === '"' && text[end] === '\\') {
+        end += 2;
+        continue;
+      }
+      if (text[end] === quote) {
+        if (quote === "'" && text[end + 1] === "'") {
+          end += 2;
+          continue;
+        }
+        break;
+      }
+      end += 1;
+    }
+    if (end >= text.length) throw yamlError(line, 'Unterminated quoted string');
+    const raw = text.slice(index, end + 1);
+    index = end + 1;
+    return parseScalar(raw, line) as string;
+  };
+  const parsePlain = (stops: string): unknown => {
+    const start = index;
+    while (index < text.length && !stops.includes(text[index])) index += 1;
+    const raw = text.slice(start, index).trim();
+    if (raw.length === 0) throw yamlError(line, 'Expected a value in flow collection');
+    return parsePlainScalar(raw);
+  };
+  const parseValue = (stops = ',]}'): unknown => {
+    skipWhitespace();
+    const char = text[index];
+    if (char === '[') {
+      index += 1;
+      const items: unknown[] = [];
+      skipWhitespace();
+      if (text[index] === ']') {
+        index += 1;
+        return items;
+      }
+      while (index < text.length) {
+        items.push(parseValue());
+        skipWhitespace();
+        if (text[index] === ',') {
+          index += 1;
+          continue;
+        }
+        if (text[index] === ']') {
+          index += 1;
+          return items;
+        }
+        break;
+      }
+      throw yamlError(line, 'Unterminated flow sequence');
+    }
+    if (char === '{') {
+      index += 1;
+      const result: Record<string, unknown> = {};
+      skipWhitespace();
+      if (text[index] === '}') {
+        index += 1;
+        return result;
+      }
+      while (index < text.length) {
+        skipWhitespace();
+        const key = text[index] === '"' || text[index] === "'" ? parseQuoted() : parsePlain(':,}');
+        skipWhitespace();
+        if (text[index] !== ':') throw yamlError(line, 'Expected ":" in flow mapping');
+        index += 1;
+        result[String(key)] = parseValue();
+        skipWhitespace();
+        if (text[index] === ',') {
+          index += 1;
+          continue;
+        }
+        if (text[index] === '}') {
+          index += 1;
+          return result;
+        }
+        break;
+      }
+      throw yamlError(line, 'Unterminated flow mapping');
+    }
+    if (char === '"' || char === "'") return parseQuoted();
+    return parsePlain(stops);
+  };
+  return {
+    parseValue: () => parseValue(),
+    expectEnd: () => {
+      skipWhitespace();
+      if (index < text.length) throw yamlError(line, 'Unexpected characters after flow collection');
+    },
+  };
+}
+
+function yamlError(line: YamlLine, message: string): AppError {
+  return new AppError('INVALID_ARGS', `Invalid YAML at line ${line.line}: ${message}`);
+}
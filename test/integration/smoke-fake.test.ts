@@ -0,0 +1,106 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { runCmdSync } from '../../src/utils/exec.ts';
+import { stopProcessForTakeover } from '../../src/utils/process-identity.ts';
+
+const GRAPH = {
+  initialScreen: 'login',
+  apps: { shop: 'login' },
+  screens: {
+    login: {
+      nodes: [
+        { type: 'TextField', label: 'Email', identifier: 'email' },
+        { type: 'Button', label: 'Continue', onTap: { screen: 'home', delayMs: 100 } },
+      ],
+    },
+    home: {
+      nodes: [{ type: 'StaticText', label: 'Order placed' }],
+    },
+  },
+};
+
+function runCli(stateDir: string, graphPath: string, args: string[]): { status: number; json?: any; stderr: string } {
+  const result = runCmdSync(
+    process.execPath,
+    [
+      '--experimental-strip-types',
+      'src/bin.ts',
+      ...args,
+      '--platform',
+      'fake',
+      '--fake-screen-graph',
+      graphPath,
+      '--state-dir',
+      stateDir,
+      '--json',
+    ],
+    { allowFailure: true },
+  );
+  let json: any;
+  try {
+    json = JSON.parse(result.stdout ?? '');
+  } catch {
+    json = undefined;
+  }
+  return { status: result.exitCode, json, stderr: result.stderr ?? '' };
+}
+
+async function stopDaemon(stateDir: string): Promise<void> {
+  try {
+    const infoPath = path.join(stateDir, 'daemon.json');
+    if (!fs.existsSync(infoPath)) return;
+    const info = JSON.parse(fs.readFileSync(infoPath, 'utf8')) as { pid: number; processStartTime?: string };
+    await stopProcessForTakeover(info.pid, {
+      termTimeoutMs: 1500,
+      killTimeoutMs: 1500,
+      expectedStartTime: info.processStartTime,
+    });
+  } finally {
+    fs.rmSync(stateDir, { recursive: true, force: true });
+  }
+}
+
+test('fake platform records a flow and replays it end to end', async () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-device-smoke-fake-'));
+  const stateDir = path.join(root, 'state');
+  const graphPath = path.join(root, 'graph.json');
+  const scriptPath = path.join(root, 'flow.ad');
+  fs.writeFileSync(graphPath, JSON.stringify(GRAPH));
+  try {
+    const steps: string[][] = [
+      ['open', 'shop', '--save-script', scriptPath],
+      ['snapshot', '-i'],
+      ['fill', 'id=email', 'qa@example.com'],
+      ['click', 'label=Continue'],
+      ['wait', 'text', 'Order placed', '2000'],
+      ['is', 'visible', 'label="Order placed"'],
+      ['close'],
+    ];
+    for (const args of steps) {
+      const result = runCli(stateDir, graphPath, args);
+      assert.equal(result.status, 0, `${args.join(' ')}: ${result.stderr}`);
+      assert.equal(result.json?.success, true);
+    }
+    const script = fs.readFileSync(scriptPath, 'utf8');
+    assert.match(script, /wait "text" "Order placed"/);
+
+    const replay = runCli(stateDir, graphPath, ['replay', scriptPath]);
+    assert.equal(replay.status, 0, replay.stderr);
+    const recordedActions = script.split('\n').filter((line) => line.trim() && !line.startsWith('context '));
+    assert.equal(replay.json?.data?.replayed, recordedActions.length);
+
+    const reportPath = path.join(root, 'report.json');
+    const reported = runCli(stateDir, graphPath, ['replay', scriptPath, '--report', 'json', '--report-file', reportPath]);
+    assert.equal(reported.status, 0, reported.stderr);
+    assert.equal(reported.json?.data?.report, reportPath);
+    const report = JSON.parse(fs.readFileSync(reportPath, 'utf8'));
+    assert.equal(report.scripts[0].status, 'passed');
+    assert.equal(report.scripts[0].steps.length, recordedActions.length);
+  } finally {
+    await stopDaemon(stateDir);
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});